@@ -5,13 +5,33 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { createHash, randomBytes } from 'crypto';
 import { promises as fs } from 'fs';
-import { AIPersistenceCore, MemoryQuery, SystemStatus, HealthStatus } from '../interfaces/AIPersistenceCore';
+import { join } from 'path';
+import { AIPersistenceCore, AssembledContext, ClusterOptions, CompressionAlgorithm, CompressionOptions, CompressionReport, ConflictQuery, ConflictResolution, ConflictResolutionResult, ConsolidationOptions, ConsolidationReport, ContextOptions, ContextRequest, ContextSectionName, DecaySweepReport, DedupOptions, ForgetOptions, HierarchyOptions, HierarchyRequest, LinkOptions, MemoryClustering, MemoryConflict, MemoryHierarchy, MemoryLink, MemoryPage, MemoryPath, MemoryQuery, MemoryRelationType, MemoryStoreResult, MemorySubgraph, MemoryTimeline, RecallOptions, RecallResult, SystemStatus, HealthStatus, TimelineOptions, TimelineRequest, TraversalOptions } from '../interfaces/AIPersistenceCore';
 import { AIIdentity, IdentityStatus, HyperbolicPosition, HyperbolicEmbedding } from '../types/identity';
-import { MemorySystem, Memory } from '../types/memory';
+import { MemorySystem, Memory, MemoryItem, AttentionFocus, ProcessingTask, CompressedMemory, Concept, Axiom, Procedure, Skill, Automation, Habit } from '../types/memory';
 import { SecurityFramework, EncryptedData, Credentials, AuthResult } from '../types/security';
 import { SecurityFrameworkImpl } from './SecurityFrameworkImpl';
 import { MemorySystemImpl } from './MemorySystemImpl';
+import { STORAGE_COLLECTIONS, StorageAdapter, StorageCollection, StorageRecord, StorageType } from '../interfaces/StorageAdapter';
+import { Embedder, EmbeddingConfig } from '../interfaces/Embedder';
+import { HnswOptions } from './HnswIndex';
+import { IndexedDocument, MemoryIndexerOptions } from './MemoryIndexer';
+import { DecayOptions, MemoryStrength } from './MemoryDecay';
+import { WorkingMemoryConfig, WorkingMemoryResult, itemText } from './WorkingMemoryImpl';
+import { AxiomInput, ConceptGraph, ConceptInput, ConceptPath, ConsistencyViolation, learnedConcept } from './ConceptGraph';
+import { ProcedureEngine, ProcedureEngineOptions, ProcedureInput, ProcedureRun, SkillInput, StepExecutor } from './ProcedureEngine';
+import { AutomationFiring, AutomationHandler, AutomationInput, AutomationOptions, AutomationScheduler } from './AutomationScheduler';
+import { createStorageAdapter } from './StorageAdapterFactory';
+import { expMap0, norm, project } from '../utils/hyperbolic';
+import { compressContent, inflateMemories, resolveCompressionOptions } from '../utils/compression';
+import { CONTEXT_SECTIONS, ContextCandidate, DEFAULT_TOKEN_BUDGET, describeIdentity, estimateTokens, fitContext, validateContextRequest } from '../utils/context';
+
+// Where versions before storage adapters kept the state, in the working directory
+const LEGACY_STATE_FILE = 'state.json';
+
+type LegacyState = Partial<Record<StorageCollection, StorageRecord[]>>;
 
 export class AIPersistenceCoreImpl implements AIPersistenceCore {
   private initialized: boolean = false;
@@ -51,12 +71,32 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
   };
   private checkpoints: Map<string, Checkpoint> = new Map();
   private learningProgress: Map<string, LearningProgress> = new Map();
+  private concepts: ConceptGraph = new ConceptGraph();
+  private procedures: ProcedureEngine;
+  private automations: AutomationScheduler;
+  private storage: StorageAdapter;
+  private sweepTimer: NodeJS.Timeout | null = null;
+  private automationTimer: NodeJS.Timeout | null = null;
 
   constructor(
     private config: PersistenceConfig
   ) {
-    this.security = new SecurityFrameworkImpl(config.security);
+    this.security = new SecurityFrameworkImpl({
+      ...config.security,
+      encryption: { ...this.defaultEncryption(), ...config.security?.encryption }
+    });
     this.memory = new MemorySystemImpl(config.memory);
+    this.procedures = new ProcedureEngine(config.memory.procedures);
+    this.automations = new AutomationScheduler(this.procedures, config.memory.automation);
+    this.storage = createStorageAdapter({
+      type: config.memory.storage.type,
+      path: config.memory.storage.path,
+      compactionThreshold: config.memory.storage.journalCompactionThreshold,
+      codec: {
+        encode: async value => JSON.stringify(await this.security.encrypt(value)),
+        decode: async text => this.security.decrypt(JSON.parse(text))
+      }
+    });
   }
 
   async initialize(): Promise<void> {
@@ -71,6 +111,15 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       // Initialize memory system
       await this.memory.initialize();
       
+      // Move aside state left in the working directory by earlier versions
+      const legacyState = await this.takeLegacyState();
+
+      // Open storage, replaying any journaled mutations
+      await this.storage.initialize();
+      if (legacyState) {
+        await this.importLegacyState(legacyState);
+      }
+      
       // Initialize core components
       await this.initializeCore();
       
@@ -78,6 +127,8 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       await this.restoreState();
       
       this.initialized = true;
+      this.startDecaySweeps();
+      this.startAutomationTicks();
       console.log('AI Persistence Core initialized successfully');
     } catch (error) {
       console.error('Failed to initialize AI Persistence Core:', error);
@@ -91,8 +142,18 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     }
 
     try {
+      if (this.sweepTimer) {
+        clearInterval(this.sweepTimer);
+        this.sweepTimer = null;
+      }
+      if (this.automationTimer) {
+        clearInterval(this.automationTimer);
+        this.automationTimer = null;
+      }
+
       // Save current state before shutdown
       await this.saveState();
+      await this.storage.close();
       
       // Shutdown memory system
       await this.memory.shutdown();
@@ -210,6 +271,7 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     };
 
     this.identities.set(id, identity);
+    await this.storage.put('identities', identity);
     return identity;
   }
 
@@ -236,6 +298,7 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
 
     identity.updatedAt = new Date();
     this.identities.set(id, identity);
+    await this.storage.put('identities', identity);
 
     return identity;
   }
@@ -252,11 +315,13 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
 
     // Remove identity and related data
     this.identities.delete(id);
+    await this.storage.delete('identities', id);
     
     // Remove related memories
     for (const [memoryId, memory] of this.memories) {
       if (memory.metadata.source === id) {
-        this.memories.delete(memoryId);
+        await this.memory.forget(memoryId, { force: true });
+        await this.removePersistedMemory(memoryId);
       }
     }
   }
@@ -276,7 +341,7 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
   }
 
   // Memory Operations
-  async storeMemory(memory: { type: string; content: string; metadata: Record<string, any> }): Promise<void> {
+  async storeMemory(memory: { type: string; content: string; metadata: Record<string, any> }): Promise<MemoryStoreResult> {
     if (!this.initialized) {
       throw new Error('AI Persistence Core is not initialized');
     }
@@ -290,8 +355,17 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       timestamp: new Date()
     };
 
-    this.memories.set(id, memoryWithId);
-    await this.memory.store(memoryWithId);
+    const result = await this.memory.store(memoryWithId);
+    if (result.duplicateOf && result.action !== 'rejected') {
+      await this.persistMemory(result.duplicateOf);
+    }
+    // Rejected and merged duplicates were not stored, so they trigger nothing
+    if (result.action === 'stored' || result.action === 'linked') {
+      await this.persistMemory(result.memory);
+      await this.persistFirings(await this.automations.notifyMemory(result.memory));
+    }
+    await this.persistConflictRecords();
+    return result;
   }
 
   async retrieveMemory(query: MemoryQuery): Promise<Memory[]> {
@@ -299,23 +373,299 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    return await this.memory.retrieve(query);
+    const memories = await this.memory.retrieve(query);
+    await this.persistStrengths(memories);
+    return memories;
+  }
+
+  async queryMemories(query: MemoryQuery): Promise<MemoryPage> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const page = await this.memory.query(query);
+    await this.persistStrengths(page.memories);
+    return page;
+  }
+
+  async recallMemories(query: string, options?: RecallOptions): Promise<RecallResult[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const results = await this.memory.recall(query, options);
+    await this.persistStrengths(results.map(result => result.memory));
+    return results;
+  }
+
+  async forgetMemory(id: string, options?: ForgetOptions): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const forgotten = await this.memory.forget(id, options);
+    if (forgotten) {
+      await this.removePersistedMemory(id);
+    }
+    return forgotten;
+  }
+
+  async pinMemory(id: string): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    await this.memory.pin(id);
+    await this.persistStrengths([{ id }]);
+  }
+
+  async unpinMemory(id: string): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    await this.memory.unpin(id);
+    await this.persistStrengths([{ id }]);
+  }
+
+  async sweepMemories(): Promise<DecaySweepReport> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const report = await this.memory.sweep();
+    for (const id of report.forgotten) {
+      await this.removePersistedMemory(id);
+    }
+
+    const changed = new Set([...report.demoted, ...report.restored]);
+    if (changed.size > 0) {
+      for (const memory of await this.memory.getMemories()) {
+        if (changed.has(memory.id)) {
+          this.memories.set(memory.id, memory);
+          await this.putMemory(memory);
+        }
+      }
+    }
+    return report;
+  }
+
+  async addToWorkingMemory(item: MemoryItem): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    await this.memory.addToWorkingMemory(item);
+    await this.persistSpilledMemories();
+  }
+
+  async focusAttention(attention: AttentionFocus): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    await this.memory.focus(attention);
+    await this.persistSpilledMemories();
   }
 
-  async consolidateMemory(): Promise<void> {
+  /**
+   * Prompt context for an agent: the identity profile, the working set,
+   * recalled memories and recent learning progress, fitted to a token budget
+   * in section priority order. Request options override `config.memory.context`.
+   */
+  async buildContext(request: ContextRequest = {}): Promise<AssembledContext> {
     if (!this.initialized) {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    await this.memory.consolidate();
+    const defaults: ContextOptions = this.config.memory.context || {};
+    const merged: ContextRequest = { ...defaults, ...request };
+    validateContextRequest(merged);
+    const sections = merged.sections || CONTEXT_SECTIONS;
+    const query = merged.query || '';
+    const candidates: Partial<Record<ContextSectionName, ContextCandidate[]>> = {};
+
+    if (sections.includes('identity') && merged.identityId) {
+      const identity = await this.getIdentity(merged.identityId);
+      candidates.identity = [{ id: identity.id, text: describeIdentity(identity) }];
+    }
+
+    const inWorkingMemory = new Set<string>();
+    if (sections.includes('working')) {
+      const task: ProcessingTask = { id: uuidv4(), type: 'context', input: query, goal: query, constraints: [] };
+      const result = await this.memory.process(task);
+      await this.persistSpilledMemories();
+      candidates.working = result.output.map(entry => {
+        inWorkingMemory.add(entry.item.id);
+        return { id: entry.item.id, text: itemText(entry.item), score: entry.salience + entry.relevance };
+      });
+    }
+
+    if (sections.includes('memories')) {
+      const recalled = await this.recallMemories(query, { limit: 20, ...merged.recall });
+      candidates.memories = recalled
+        .filter(result => !inWorkingMemory.has(result.memory.id))
+        .map(result => ({ id: result.memory.id, text: result.memory.content, score: result.score }));
+    }
+
+    if (sections.includes('learning')) {
+      candidates.learning = Array.from(this.learningProgress.values())
+        .sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
+        .slice(0, merged.learningLimit ?? 5)
+        .map(progress => ({ id: progress.id, text: `${progress.concept} (performance ${progress.performance})` }));
+    }
+
+    return fitContext(candidates, sections, merged.tokenBudget ?? DEFAULT_TOKEN_BUDGET, merged.estimateTokens || estimateTokens);
   }
 
-  async compressMemory(): Promise<void> {
+  async consolidateMemory(options?: ConsolidationOptions): Promise<ConsolidationReport> {
     if (!this.initialized) {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    await this.memory.compress();
+    const report = await this.memory.consolidate(options);
+
+    for (const group of report.groups) {
+      await this.persistMemory(group.memory);
+    }
+
+    if (report.archived.length > 0) {
+      const archived = new Set(report.archived);
+      for (const memory of await this.memory.getMemories()) {
+        if (archived.has(memory.id)) {
+          this.memories.set(memory.id, memory);
+          await this.putMemory(memory);
+        }
+      }
+    }
+
+    return report;
+  }
+
+  async getTimeline(request?: TimelineRequest): Promise<MemoryTimeline> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.timeline(request);
+  }
+
+  async clusterMemories(options?: ClusterOptions): Promise<MemoryClustering> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.cluster(options);
+  }
+
+  async getMemoryHierarchy(request?: HierarchyRequest): Promise<MemoryHierarchy> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.hierarchy(request);
+  }
+
+  async compressMemory(options?: CompressionOptions): Promise<CompressionReport> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const report = await this.memory.compress(options);
+
+    for (const id of report.forgotten) {
+      await this.removePersistedMemory(id);
+    }
+    const memories = new Map((await this.memory.getMemories()).map(memory => [memory.id, memory]));
+    for (const record of report.summarized) {
+      await this.persistMemory(memories.get(record.id)!);
+    }
+    for (const record of report.compressed) {
+      const memory = memories.get(record.id)!;
+      this.memories.set(memory.id, memory);
+      await this.putMemory(memory, record);
+    }
+
+    return report;
+  }
+
+  async linkMemories(source: string, type: MemoryRelationType, target: string, options?: LinkOptions): Promise<MemoryLink> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const link = await this.memory.link(source, type, target, options);
+    await this.storage.put('memoryRelationships', link);
+    await this.persistConflictRecords();
+    return link;
+  }
+
+  async unlinkMemories(linkId: string): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const unlinked = await this.memory.unlink(linkId);
+    if (unlinked) {
+      await this.storage.delete('memoryRelationships', linkId);
+    }
+    return unlinked;
+  }
+
+  async getMemoryLinks(memoryId?: string): Promise<MemoryLink[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.getLinks(memoryId);
+  }
+
+  async traverseMemories(start: string, options?: TraversalOptions): Promise<MemorySubgraph> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.traverse(start, options);
+  }
+
+  async findMemoryPath(from: string, to: string, options?: TraversalOptions): Promise<MemoryPath | null> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.findPath(from, to, options);
+  }
+
+  async getMemorySubgraph(ids: string[]): Promise<MemorySubgraph> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.subgraph(ids);
+  }
+
+  async getMemoryConflicts(query?: ConflictQuery): Promise<MemoryConflict[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.memory.getConflicts(query);
+  }
+
+  async resolveMemoryConflict(id: string, action: ConflictResolution, note?: string): Promise<ConflictResolutionResult> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const result = await this.memory.resolveConflict(id, action, note);
+    for (const memoryId of result.forgotten) {
+      await this.removePersistedMemory(memoryId);
+    }
+    for (const memory of result.kept) {
+      await this.persistMemory(memory);
+    }
+    await this.persistConflictRecords();
+    return result;
   }
 
   // Security Operations
@@ -352,11 +702,14 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
   }
 
   // NEW: Learning Operations
-  async learnConcept(conceptData: ConceptData): Promise<void> {
+  async learnConcept(conceptData: ConceptData): Promise<LearnedConceptResult> {
     if (!this.initialized) {
       throw new Error('AI Persistence Core is not initialized');
     }
 
+    // Unnamed concepts are rejected here, before anything is stored
+    const concept = this.concepts.add(learnedConcept(conceptData.concept, conceptData.data, conceptData.context, 0.8));
+
     const learningProgress: LearningProgress = {
       id: uuidv4(),
       concept: conceptData.concept,
@@ -369,12 +722,17 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     };
 
     this.learningProgress.set(learningProgress.id, learningProgress);
+    await this.storage.put('learningProgress', learningProgress);
+    await this.persistConcept(concept);
     
-    // Store as memory
-    await this.storeMemory({
+    // Store as memory; its properties are checked against what was learned before
+    const properties = conceptData.data?.properties;
+    const memory = await this.storeMemory({
       type: 'semantic' as const,
       content: conceptData.concept,
       metadata: {
+        concept: conceptData.concept,
+        ...(properties && typeof properties === 'object' && !Array.isArray(properties) ? { properties } : {}),
         source: 'learning',
         quality: 0.9,
         confidence: 0.8,
@@ -386,6 +744,7 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     });
 
     console.log(`Learned concept: ${conceptData.concept}`);
+    return { concept, progress: learningProgress, memory };
   }
 
   async getLearningProgress(): Promise<LearningProgress[]> {
@@ -396,6 +755,189 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     return Array.from(this.learningProgress.values());
   }
 
+  // Concept graph
+  async addConcept(input: ConceptInput): Promise<Concept> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const concept = this.concepts.add(input);
+    await this.persistConcept(concept);
+    return concept;
+  }
+
+  async relateConcepts(source: string, type: string, target: string, strength?: number, confidence?: number): Promise<Concept> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const concept = this.concepts.relate(source, type, target, strength, confidence);
+    await this.persistConcept(concept);
+    return concept;
+  }
+
+  async addAxiom(input: AxiomInput): Promise<Axiom> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const axiom = this.concepts.addAxiom(input);
+    await this.storage.put('axioms', axiom);
+    return axiom;
+  }
+
+  async getConcept(reference: string): Promise<Concept | null> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.concepts.get(reference);
+  }
+
+  async findConcepts(query: string, limit?: number): Promise<Concept[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.concepts.find(query, limit);
+  }
+
+  async inferRelated(reference: string, type: string): Promise<Concept[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.concepts.closure(reference, type);
+  }
+
+  async explainRelation(from: string, to: string): Promise<ConceptPath | null> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.concepts.path(from, to);
+  }
+
+  async checkConsistency(): Promise<ConsistencyViolation[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.concepts.check();
+  }
+
+  // Procedural memory
+  // Executors are code, not state, so they can be registered before initialize()
+  registerStepExecutor(action: string, executor: StepExecutor): void {
+    this.procedures.register(action, executor);
+  }
+
+  async learnSkill(input: SkillInput): Promise<Skill> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const skill = this.procedures.addSkill(input);
+    await this.storage.put('skills', skill);
+    return skill;
+  }
+
+  async storeProcedure(input: ProcedureInput): Promise<Procedure> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const procedure = this.procedures.addProcedure(input);
+    await this.storage.put('procedures', procedure);
+    // The procedure may have created its skill
+    if (procedure.skill) {
+      await this.storage.put('skills', this.procedures.getSkill(procedure.skill)!);
+    }
+    return procedure;
+  }
+
+  async getSkill(reference: string): Promise<Skill | null> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.procedures.getSkill(reference);
+  }
+
+  async getProcedure(reference: string): Promise<Procedure | null> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.procedures.getProcedure(reference);
+  }
+
+  async executeProcedure(reference: string, input?: Record<string, any>): Promise<ProcedureRun> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const run = await this.procedures.run(reference, input);
+    await this.persistRun(run);
+    const habit = this.automations.observeRun(run);
+    if (habit) {
+      await this.storage.put('habits', habit);
+    }
+    return run;
+  }
+
+  // Automations and habits
+  // Handlers are code, like step executors, and can be registered before initialize()
+  registerAutomationAction(type: string, handler: AutomationHandler): void {
+    this.automations.register(type, handler);
+  }
+
+  async createAutomation(input: AutomationInput): Promise<Automation> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const automation = this.automations.add(input);
+    await this.storage.put('automations', automation);
+    return automation;
+  }
+
+  async removeAutomation(id: string): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const removed = this.automations.remove(id);
+    await this.storage.delete('automations', id);
+    return removed;
+  }
+
+  async getAutomations(): Promise<Automation[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.automations.getAutomations();
+  }
+
+  async tickAutomations(): Promise<AutomationFiring[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    const firings = await this.automations.tick();
+    await this.persistFirings(firings);
+    return firings;
+  }
+
+  async getHabits(): Promise<Habit[]> {
+    if (!this.initialized) {
+      throw new Error('AI Persistence Core is not initialized');
+    }
+
+    return this.automations.getHabits();
+  }
+
   // NEW: State Management Operations
   async getState(): Promise<SystemState> {
     if (!this.initialized) {
@@ -408,7 +950,14 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     return {
       identities: Array.from(this.identities.values()),
       memories: memories,
+      memoryRelationships: await this.memory.getLinks(),
       learningProgress: Array.from(this.learningProgress.values()),
+      concepts: this.concepts.getConcepts(),
+      axioms: this.concepts.getAxioms(),
+      skills: this.procedures.getSkills(),
+      procedures: this.procedures.getProcedures(),
+      automations: this.automations.getAutomations(),
+      habits: this.automations.getHabitRecords(),
       checkpoints: Array.from(this.checkpoints.values()),
       timestamp: new Date()
     };
@@ -419,11 +968,8 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    const state = await this.getState();
-    const encryptedState = await this.encrypt(state);
-    
     // Save to persistent storage
-    await this.persistState(encryptedState);
+    await this.storage.flush();
     console.log('State saved successfully');
   }
 
@@ -432,46 +978,66 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    const encryptedState = await this.loadPersistedState();
-    if (!encryptedState) {
-      return null;
-    }
-    const state = await this.decrypt(encryptedState);
-    return state as SystemState;
+    return await this.readState();
   }
 
   async restoreState(): Promise<void> {
-    try {
-      const state = await this.loadState();
-      if (state) {
-        await this.restoreFromState(state);
-        console.log('State restored successfully');
-      }
-    } catch (error) {
+    // Runs during initialize(), before the public state API is available.
+    // State that cannot be read fails initialization rather than being replaced.
+    const state = await this.readState();
+    if (!state) {
       console.log('No previous state found, starting fresh');
+      return;
     }
+    await this.restoreFromState(state);
+    console.log('State restored successfully');
   }
 
   async restoreFromState(state: SystemState): Promise<void> {
+    // The state replaces whatever is loaded, it is not merged into it
+    this.identities.clear();
+    this.memories.clear();
+    this.learningProgress.clear();
+    this.checkpoints.clear();
+
     // Restore identities
     for (const identity of state.identities) {
-      this.identities.set(identity.id, identity);
+      this.identities.set(identity.id, {
+        ...identity,
+        createdAt: new Date(identity.createdAt),
+        updatedAt: new Date(identity.updatedAt),
+        lastAccessed: new Date(identity.lastAccessed)
+      });
     }
 
     // Restore memories to both local storage and memory system
-    for (const memory of state.memories) {
+    const memories = state.memories.map(memory => ({ ...memory, timestamp: new Date(memory.timestamp) }));
+    for (const memory of memories) {
       this.memories.set(memory.id, memory);
     }
-    await this.memory.setMemories(state.memories);
+    await this.memory.setMemories(memories, state.memoryIndex, state.memoryStrength, state.memoryRelationships);
 
     // Restore learning progress
     for (const progress of state.learningProgress) {
-      this.learningProgress.set(progress.id, progress);
+      this.learningProgress.set(progress.id, { ...progress, timestamp: new Date(progress.timestamp) });
+    }
+
+    // Restore the concept graph; states saved before it existed leave it as is
+    if (state.concepts) {
+      this.concepts.load(state.concepts, state.axioms);
+    }
+
+    // Restore procedural memory; executors are code and stay registered
+    if (state.procedures || state.skills) {
+      this.procedures.load(state.procedures || [], state.skills);
+    }
+    if (state.automations || state.habits) {
+      this.automations.load(state.automations || [], state.habits);
     }
 
     // Restore checkpoints
     for (const checkpoint of state.checkpoints) {
-      this.checkpoints.set(checkpoint.id, checkpoint);
+      this.checkpoints.set(checkpoint.id, { ...checkpoint, timestamp: new Date(checkpoint.timestamp) });
     }
   }
 
@@ -481,16 +1047,20 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       throw new Error('AI Persistence Core is not initialized');
     }
 
+    // Checkpoints do not embed earlier checkpoints, otherwise every snapshot
+    // would grow with the square of the checkpoint history
+    const state = await this.getState();
     const checkpoint: Checkpoint = {
       id: uuidv4(),
       name: checkpointData.name,
       description: checkpointData.description,
       timestamp: checkpointData.timestamp,
-      state: await this.getState(),
+      state: { ...state, checkpoints: [] },
       metadata: checkpointData.metadata || {}
     };
 
     this.checkpoints.set(checkpoint.id, checkpoint);
+    await this.storage.put('checkpoints', checkpoint);
     console.log(`Checkpoint created: ${checkpoint.name}`);
     return checkpoint;
   }
@@ -513,7 +1083,29 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
       throw new Error('AI Persistence Core is not initialized');
     }
 
-    await this.restoreFromState(checkpoint.state);
+    // Checkpoints do not embed the checkpoint history, which is kept as it is
+    await this.restoreFromState({ ...checkpoint.state, checkpoints: Array.from(this.checkpoints.values()) });
+    const state = await this.getState();
+
+    // Records created after the checkpoint are deleted so they do not come back on restart
+    const memoryIds = state.memories.map(memory => memory.id);
+    await this.pruneCollection('memories', memoryIds);
+    await this.pruneCollection('compressedMemories', state.memories.filter(memory => memory.metadata?.compressed).map(memory => memory.id));
+    await this.pruneCollection('memoryIndex', memoryIds);
+    await this.pruneCollection('memoryStrength', memoryIds);
+    for (const memory of state.memories) {
+      await this.persistMemory(memory);
+    }
+    await this.replaceCollection('identities', state.identities);
+    await this.replaceCollection('memoryRelationships', state.memoryRelationships || []);
+    await this.replaceCollection('learningProgress', state.learningProgress);
+    await this.replaceCollection('concepts', state.concepts || []);
+    await this.replaceCollection('axioms', state.axioms || []);
+    await this.replaceCollection('skills', state.skills || []);
+    await this.replaceCollection('procedures', state.procedures || []);
+    await this.replaceCollection('automations', state.automations || []);
+    await this.replaceCollection('habits', state.habits || []);
+    await this.storage.flush();
     console.log(`Restored from checkpoint: ${checkpoint.name}`);
   }
 
@@ -537,6 +1129,201 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
   }
 
   // Private helper methods
+  /**
+   * Where the encryption key comes from when none is configured: a per-install
+   * key file next to the persisted state, or for an in-memory store, whose data
+   * never outlives the process, a key of its own
+   */
+  private defaultEncryption(): { key?: string; keyFile?: string } {
+    const storage = this.config.memory.storage;
+    if (storage.type !== 'memory') {
+      return { keyFile: join(storage.path, 'encryption.key') };
+    }
+    return process.env.AI_PERSISTENCE_ENCRYPTION_KEY ? {} : { key: randomBytes(32).toString('hex') };
+  }
+
+  /**
+   * The state earlier versions kept base64-encoded in `state.json` in the
+   * working directory. The file is renamed to `state.json.legacy` before
+   * storage opens, so it is imported once and never read as the storage's
+   * own snapshot. A state.json in any other format is left alone.
+   */
+  private async takeLegacyState(): Promise<LegacyState | null> {
+    if (this.config.memory.storage.type === 'memory') {
+      return null;
+    }
+
+    let file: Partial<EncryptedData>;
+    try {
+      file = JSON.parse(await fs.readFile(LEGACY_STATE_FILE, 'utf8'));
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code === 'ENOENT' || error instanceof SyntaxError) {
+        return null;
+      }
+      throw error;
+    }
+    // Encrypted state always carries an authentication tag
+    if (typeof file?.data !== 'string' || file.authTag) {
+      return null;
+    }
+
+    const state: LegacyState = JSON.parse(Buffer.from(file.data, 'base64').toString('utf8'));
+    await fs.rename(LEGACY_STATE_FILE, `${LEGACY_STATE_FILE}.legacy`);
+    return state;
+  }
+
+  // Storage that already holds state keeps it; the legacy file stays renamed for manual recovery
+  private async importLegacyState(state: LegacyState): Promise<void> {
+    if (await this.readState()) {
+      console.warn(`Legacy ${LEGACY_STATE_FILE} not imported because ${this.config.memory.storage.path} already holds state; it was moved to ${LEGACY_STATE_FILE}.legacy`);
+      return;
+    }
+
+    for (const collection of STORAGE_COLLECTIONS) {
+      for (const record of state[collection] || []) {
+        await this.storage.put(collection, record);
+      }
+    }
+    await this.storage.flush();
+    console.log(`Imported legacy ${LEGACY_STATE_FILE} into ${this.config.memory.storage.path}; the original was moved to ${LEGACY_STATE_FILE}.legacy`);
+  }
+
+  private startDecaySweeps(): void {
+    const interval = this.config.memory.decay?.sweepInterval ?? 0;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.sweepTimer = setInterval(() => {
+      this.sweepMemories().catch(error => console.error('Memory sweep failed:', error));
+    }, interval);
+    // Sweeps must not keep the process alive on their own
+    this.sweepTimer.unref();
+  }
+
+  private startAutomationTicks(): void {
+    const interval = this.automations.tickInterval;
+    if (interval <= 0) {
+      return;
+    }
+
+    this.automationTimer = setInterval(() => {
+      this.tickAutomations().catch(error => console.error('Automation tick failed:', error));
+    }, interval);
+    this.automationTimer.unref();
+  }
+
+  // The procedure's recorded outcomes and the skill the run practised
+  private async persistRun(run: ProcedureRun): Promise<void> {
+    await this.storage.put('procedures', this.procedures.getProcedure(run.procedureId)!);
+    if (run.skill) {
+      await this.storage.put('skills', run.skill);
+    }
+  }
+
+  private async persistFirings(firings: AutomationFiring[]): Promise<void> {
+    for (const firing of firings) {
+      const automation = this.automations.get(firing.automationId);
+      if (automation) {
+        await this.storage.put('automations', automation);
+      }
+      if (firing.run) {
+        await this.persistRun(firing.run);
+      }
+      if (firing.habit) {
+        await this.storage.put('habits', firing.habit);
+      }
+    }
+  }
+
+  // Memories in cold storage are written with empty content, which is kept
+  // deflated in `compressedMemories` and restored by readState
+  private async putMemory(memory: Memory, record?: CompressedMemory): Promise<void> {
+    if (!memory.metadata?.compressed) {
+      await this.storage.put('memories', memory);
+      return;
+    }
+
+    const { algorithm, level } = resolveCompressionOptions(this.config.memory.compression);
+    await this.storage.put('compressedMemories', record || compressContent(memory, algorithm, level));
+    await this.storage.put('memories', { ...memory, content: '' });
+  }
+
+  // Write a memory and everything derived from it
+  private async persistMemory(memory: Memory): Promise<void> {
+    this.memories.set(memory.id, memory);
+    await this.putMemory(memory);
+
+    const indexedDocument = await this.memory.getIndexedDocument(memory.id);
+    if (indexedDocument) {
+      await this.storage.put('memoryIndex', indexedDocument);
+    }
+    await this.persistStrengths([memory]);
+  }
+
+  private async persistStrengths(memories: Array<{ id: string }>): Promise<void> {
+    for (const { id } of memories) {
+      const strength = await this.memory.getStrength(id);
+      if (strength) {
+        await this.storage.put('memoryStrength', strength);
+      }
+    }
+  }
+
+  // The concept and any concepts its relationships created
+  private async persistConcept(concept: Concept): Promise<void> {
+    await this.storage.put('concepts', concept);
+    for (const relationship of concept.relationships) {
+      const target = this.concepts.get(relationship.target);
+      if (target) {
+        await this.storage.put('concepts', target);
+      }
+    }
+  }
+
+  private async persistConflictRecords(): Promise<void> {
+    for (const record of await this.memory.takeConflictRecords()) {
+      await this.persistMemory(record);
+    }
+  }
+
+  private async persistSpilledMemories(): Promise<void> {
+    for (const memory of await this.memory.takeSpilledMemories()) {
+      await this.persistMemory(memory);
+    }
+  }
+
+  // Delete the stored records of a collection that are not in `ids`
+  private async pruneCollection(collection: StorageCollection, ids: string[]): Promise<void> {
+    const kept = new Set(ids);
+    for (const record of await this.storage.scan(collection)) {
+      if (!kept.has(record.id)) {
+        await this.storage.delete(collection, record.id);
+      }
+    }
+  }
+
+  // Make a collection hold exactly `records`
+  private async replaceCollection(collection: StorageCollection, records: StorageRecord[]): Promise<void> {
+    await this.pruneCollection(collection, records.map(record => record.id));
+    for (const record of records) {
+      await this.storage.put(collection, record);
+    }
+  }
+
+  private async removePersistedMemory(id: string): Promise<void> {
+    this.memories.delete(id);
+    await this.storage.delete('memories', id);
+    await this.storage.delete('compressedMemories', id);
+    await this.storage.delete('memoryIndex', id);
+    await this.storage.delete('memoryStrength', id);
+    for (const link of await this.storage.scan<MemoryLink>('memoryRelationships')) {
+      if (link.source === id || link.target === id) {
+        await this.storage.delete('memoryRelationships', link.id);
+      }
+    }
+  }
+
   private async initializeCore(): Promise<void> {
     // Initialize core components
     console.log('Initializing core components...');
@@ -545,32 +1332,29 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
   private async generateFingerprint(config: IdentityConfig): Promise<string> {
     // Generate cryptographic fingerprint for identity
     const data = JSON.stringify(config);
-    const hash = await this.security.encrypt(data);
-    return hash.data;
+    return createHash('sha256').update(data).digest('hex');
   }
 
   private async generateHyperbolicPosition(): Promise<HyperbolicPosition> {
-    // Generate random hyperbolic position
-    const coordinates = Array.from({ length: 3 }, () => Math.random() * 2 - 1);
-    const norm = Math.sqrt(coordinates.reduce((sum, coord) => sum + coord * coord, 0));
+    // Generate random hyperbolic position inside the Poincaré ball
+    const coordinates = project(Array.from({ length: 3 }, () => Math.random() * 2 - 1), -1.0);
     
     return {
       coordinates,
-      norm: Math.min(norm, 0.9), // Ensure within hyperbolic constraints
+      norm: norm(coordinates),
       curvature: -1.0,
       timestamp: new Date()
     };
   }
 
   private async generateEmbedding(config: IdentityConfig): Promise<HyperbolicEmbedding> {
-    // Generate hyperbolic embedding for identity
-    const vector = Array.from({ length: 64 }, () => Math.random() * 0.1 - 0.05);
-    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    // Generate hyperbolic embedding for identity by mapping a tangent vector into the ball
+    const vector = expMap0(Array.from({ length: 64 }, () => Math.random() * 0.1 - 0.05), -1.0);
     
     return {
       id: uuidv4(),
-      vector: vector.map(val => val * 0.9 / norm), // Normalize to ensure ||x|| < 1
-      norm: 0.9,
+      vector,
+      norm: norm(vector),
       curvature: -1.0,
       timestamp: new Date(),
       metadata: {
@@ -645,22 +1429,31 @@ export class AIPersistenceCoreImpl implements AIPersistenceCore {
     return [];
   }
 
-  private async persistState(encryptedState: EncryptedData): Promise<void> {
-    const stateString = JSON.stringify(encryptedState, null, 2);
-    await fs.writeFile('state.json', stateString, 'utf8');
-    console.log('State persisted to storage');
-  }
+  /**
+   * Read the persisted state, or null when nothing has been stored yet
+   */
+  private async readState(): Promise<SystemState | null> {
+    const state: SystemState = {
+      identities: await this.storage.scan<AIIdentity>('identities'),
+      memories: inflateMemories(await this.storage.scan<Memory>('memories'), await this.storage.scan<CompressedMemory>('compressedMemories')),
+      memoryIndex: await this.storage.scan<IndexedDocument>('memoryIndex'),
+      memoryStrength: await this.storage.scan<MemoryStrength>('memoryStrength'),
+      memoryRelationships: await this.storage.scan<MemoryLink>('memoryRelationships'),
+      learningProgress: await this.storage.scan<LearningProgress>('learningProgress'),
+      concepts: await this.storage.scan<Concept>('concepts'),
+      axioms: await this.storage.scan<Axiom>('axioms'),
+      skills: await this.storage.scan<Skill>('skills'),
+      procedures: await this.storage.scan<Procedure>('procedures'),
+      automations: await this.storage.scan<Automation>('automations'),
+      habits: await this.storage.scan<Habit>('habits'),
+      checkpoints: await this.storage.scan<Checkpoint>('checkpoints'),
+      timestamp: new Date()
+    };
 
-  private async loadPersistedState(): Promise<EncryptedData | null> {
-    try {
-      const stateString = await fs.readFile('state.json', 'utf8');
-      return JSON.parse(stateString);
-    } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        return null;
-      }
-      throw error;
-    }
+    const empty = !state.identities.length && !state.memories.length &&
+      !state.learningProgress.length && !state.concepts?.length && !state.skills?.length &&
+      !state.procedures?.length && !state.automations?.length && !state.habits?.length && !state.checkpoints.length;
+    return empty ? null : state;
   }
 }
 
@@ -682,6 +1475,32 @@ export interface MemoryConfig {
   storage: StorageConfig;
   consolidation: ConsolidationConfig;
   compression: CompressionConfig;
+  embedding?: EmbeddingConfig;
+  // Custom embedding model; defaults to a HashingEmbedder built from `embedding`
+  embedder?: Embedder;
+  index?: HnswOptions;
+  // BM25 parameters for full-text search over memory content
+  search?: MemoryIndexerOptions;
+  // Default weights and parameters for hybrid recall
+  recall?: RecallOptions;
+  // Forgetting curve and background sweeps of decayed memories
+  decay?: DecayOptions;
+  // Capacity and attention of the short-term working memory buffer
+  working?: WorkingMemoryConfig;
+  // Defaults for buildContext
+  context?: ContextOptions;
+  // Segmentation defaults for getTimeline
+  timeline?: TimelineOptions;
+  // Defaults for clusterMemories
+  clustering?: ClusterOptions;
+  // Defaults for getMemoryHierarchy
+  hierarchy?: HierarchyOptions;
+  // What storing a duplicate of a stored memory does; duplicates are stored by default
+  dedup?: DedupOptions;
+  // Skill learning rate for executeProcedure
+  procedures?: ProcedureEngineOptions;
+  // Background ticks of scheduled automations and habit formation
+  automation?: AutomationOptions;
 }
 
 export interface SecurityConfig {
@@ -691,19 +1510,22 @@ export interface SecurityConfig {
 }
 
 export interface StorageConfig {
-  type: string;
+  type: StorageType | string;
   path: string;
   maxSize: number;
+  journalCompactionThreshold?: number;
 }
 
-export interface ConsolidationConfig {
+// Grouping and summary options are the defaults for every consolidation run
+export interface ConsolidationConfig extends ConsolidationOptions {
   threshold: number;
   strategy: string;
   frequency: number;
 }
 
-export interface CompressionConfig {
-  algorithm: string;
+// Algorithm, level and threshold are the defaults for every compression run
+export interface CompressionConfig extends CompressionOptions {
+  algorithm: CompressionAlgorithm;
   level: number;
   threshold: number;
 }
@@ -712,6 +1534,9 @@ export interface EncryptionConfig {
   algorithm: string;
   keySize: number;
   mode: string;
+  key?: string;
+  // Per-install key generated on first use when no key is given; defaults to encryption.key in the storage path
+  keyFile?: string;
 }
 
 export interface AuthenticationConfig {
@@ -729,7 +1554,21 @@ export interface AuthorizationConfig {
 export interface SystemState {
   identities: AIIdentity[];
   memories: Memory[];
+  // Persisted full-text index entries; rebuilt from content when absent
+  memoryIndex?: IndexedDocument[];
+  // Forgetting-curve state; memories without it start decaying on restore
+  memoryStrength?: MemoryStrength[];
+  // Links between memories; absent in states saved before they existed
+  memoryRelationships?: MemoryLink[];
   learningProgress: LearningProgress[];
+  // Concept graph; absent in states saved before it existed
+  concepts?: Concept[];
+  axioms?: Axiom[];
+  // Procedural memory; likewise absent in older states
+  skills?: Skill[];
+  procedures?: Procedure[];
+  automations?: Automation[];
+  habits?: Habit[];
   checkpoints: Checkpoint[];
   timestamp: Date;
 }
@@ -761,6 +1600,14 @@ export interface ConceptData {
   performance: number;
 }
 
+export interface LearnedConceptResult {
+  // The concept as placed in the concept graph
+  concept: Concept;
+  progress: LearningProgress;
+  // The semantic memory stating the concept, with any conflicts it raised
+  memory: MemoryStoreResult;
+}
+
 export interface CheckpointData {
   name: string;
   description: string;
@@ -799,6 +1646,7 @@ class MockSecurityFrameworkImpl {
       algorithm: 'AES-256',
       keyId: 'mock-key',
       iv: 'mock-iv',
+      authTag: 'mock-tag',
       timestamp: new Date()
     };
   }
@@ -819,20 +1667,114 @@ class MockMemorySystemImpl {
     console.log('Memory system shutdown');
   }
 
-  async store(memory: Memory): Promise<void> {
+  async store(memory: Memory): Promise<MemoryStoreResult> {
     console.log('Memory stored:', memory.id);
+    return { action: 'stored', memory };
+  }
+
+  async forget(memoryId: string, options?: ForgetOptions): Promise<boolean> {
+    return false;
+  }
+
+  async pin(memoryId: string): Promise<void> {
+    console.log('Memory pinned:', memoryId);
+  }
+
+  async unpin(memoryId: string): Promise<void> {
+    console.log('Memory unpinned:', memoryId);
+  }
+
+  async sweep(now?: Date): Promise<DecaySweepReport> {
+    return { demoted: [], restored: [], forgotten: [] };
+  }
+
+  async getStrength(memoryId: string): Promise<MemoryStrength | null> {
+    return null;
   }
 
   async retrieve(query: MemoryQuery): Promise<Memory[]> {
     return [];
   }
 
-  async consolidate(): Promise<void> {
+  async query(query: MemoryQuery): Promise<MemoryPage> {
+    return { memories: [] };
+  }
+
+  async recall(query: string, options?: RecallOptions): Promise<RecallResult[]> {
+    return [];
+  }
+
+  async consolidate(options?: ConsolidationOptions): Promise<ConsolidationReport> {
     console.log('Memory consolidated');
+    return { groups: [], archived: [] };
+  }
+
+  async timeline(request?: TimelineRequest): Promise<MemoryTimeline> {
+    return { start: null, end: null, phases: [], milestones: [] };
+  }
+
+  async cluster(options?: ClusterOptions): Promise<MemoryClustering> {
+    return { method: options?.method || 'kmeans', clusters: [], noise: [], iterations: 0 };
+  }
+
+  async hierarchy(request?: HierarchyRequest): Promise<MemoryHierarchy> {
+    return { hierarchy: { root: '', levels: [], relationships: [], properties: { depth: 0, breadth: 0, balance: 0, connectivity: 0 } }, tree: null };
+  }
+
+  async addToWorkingMemory(item: MemoryItem): Promise<void> {
+    console.log('Working memory item added:', item.id);
+  }
+
+  async focus(attention: AttentionFocus): Promise<void> {
+    console.log('Attention focused on:', attention.target);
+  }
+
+  async process(task: ProcessingTask): Promise<WorkingMemoryResult> {
+    return { success: true, output: [], confidence: 0, metadata: {} };
+  }
+
+  async takeSpilledMemories(): Promise<Memory[]> {
+    return [];
+  }
+
+  async compress(options?: CompressionOptions): Promise<CompressionReport> {
+    return { compressed: [], summarized: [], forgotten: [], originalBytes: 0, compressedBytes: 0, ratio: 1 };
+  }
+
+  async link(source: string, type: MemoryRelationType, target: string, options?: LinkOptions): Promise<MemoryLink> {
+    return { id: uuidv4(), source, target, relationshipType: type, distance: 0, strength: options?.strength ?? 1, confidence: options?.confidence ?? 1, timestamp: new Date() };
+  }
+
+  async unlink(linkId: string): Promise<boolean> {
+    return false;
   }
 
-  async compress(): Promise<void> {
-    console.log('Memory compressed');
+  async getLinks(memoryId?: string): Promise<MemoryLink[]> {
+    return [];
+  }
+
+  async traverse(start: string, options?: TraversalOptions): Promise<MemorySubgraph> {
+    return { nodes: [], links: [] };
+  }
+
+  async findPath(from: string, to: string, options?: TraversalOptions): Promise<MemoryPath | null> {
+    return null;
+  }
+
+  async subgraph(ids: string[]): Promise<MemorySubgraph> {
+    return { nodes: [], links: [] };
+  }
+
+  async getConflicts(query?: ConflictQuery): Promise<MemoryConflict[]> {
+    return [];
+  }
+
+  async resolveConflict(id: string, action: ConflictResolution, note?: string): Promise<ConflictResolutionResult> {
+    throw new Error(`Conflict ${id} not found`);
+  }
+
+  async takeConflictRecords(): Promise<Memory[]> {
+    return [];
   }
 
   async getMemories(): Promise<Memory[]> {
@@ -842,4 +1784,8 @@ class MockMemorySystemImpl {
   async setMemories(memories: Memory[]): Promise<void> {
     console.log(`Restored ${memories.length} memories to memory system`);
   }
+
+  async getIndexedDocument(memoryId: string): Promise<IndexedDocument | null> {
+    return null;
+  }
 }
\ No newline at end of file
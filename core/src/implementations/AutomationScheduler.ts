@@ -0,0 +1,430 @@
+/**
+ * Automation Scheduler
+ *
+ * Fires automations in process. Schedule triggers fire when `tick()` finds
+ * their next occurrence has passed; ticks that miss several occurrences fire
+ * once. Memory triggers fire on stored memories that satisfy the trigger's
+ * condition, once every `frequency` matches. Conditions read the firing
+ * context (`memory.type`, `memory.metadata.tags`, `reason`, ...), and an
+ * automation whose own or action conditions fail is recorded as skipped.
+ * Memories stored by a firing automation's action do not fire further
+ * automations, so an automation cannot trigger itself; memories stored
+ * elsewhere in the meantime fire as usual.
+ *
+ * The scheduler also watches procedure runs. A procedure run `habitThreshold`
+ * times within `habitWindow` becomes a habit; every later run moves the
+ * habit's strength towards 1 by `habitLearningRate`, and the strength halves
+ * for every `habitHalfLife` without a repetition. Time comes from the `now`
+ * option, so a test clock makes scheduling deterministic.
+ */
+
+import { AsyncLocalStorage } from 'async_hooks';
+import { v4 as uuidv4 } from 'uuid';
+import { Action, Automation, Condition, Habit, Memory, Schedule, Trigger } from '../types/memory';
+import { ProcedureEngine, ProcedureRun, conditionsHold, evaluateCondition, validateConditions } from './ProcedureEngine';
+import { CompiledSchedule, compileSchedule, nextOccurrence } from '../utils/schedule';
+
+export type TriggerType = 'schedule' | 'memory';
+
+export type FiringReason = TriggerType;
+
+export type FiringStatus = 'succeeded' | 'failed' | 'skipped';
+
+export type AutomationHandler = (parameters: Record<string, any>, context: FiringContext) => any | Promise<any>;
+
+export interface FiringContext {
+  automation: { id: string; name: string };
+  reason: FiringReason;
+  firedAt: Date;
+  // The stored memory that fired a memory trigger
+  memory?: Memory;
+}
+
+export interface AutomationFiring {
+  automationId: string;
+  reason: FiringReason;
+  firedAt: Date;
+  status: FiringStatus;
+  output?: any;
+  error?: string;
+  // Set when the action ran a procedure
+  run?: ProcedureRun;
+  // The habit the procedure run formed or reinforced
+  habit?: Habit;
+}
+
+export interface TriggerInput {
+  type: TriggerType;
+  // Defaults to a condition that always holds
+  condition?: Condition;
+  // Matching memories per firing; defaults to 1
+  frequency?: number;
+}
+
+export interface AutomationInput {
+  id?: string;
+  name: string;
+  trigger: TriggerInput;
+  // `procedure` runs `parameters.procedure` with `parameters.input`; other
+  // types run the handler registered under that name
+  action: { type: string; parameters?: Record<string, any>; conditions?: Condition[] };
+  conditions?: Condition[];
+  // Required for schedule triggers
+  schedule?: Schedule;
+}
+
+export interface AutomationOptions {
+  // Milliseconds between background ticks; 0 (the default) disables them
+  tickInterval?: number;
+  // Runs within the window that make a procedure a habit
+  habitThreshold?: number;
+  habitWindow?: number;
+  // Milliseconds for an unpractised habit to lose half its strength
+  habitHalfLife?: number;
+  // Share of the gap to full strength a repetition closes
+  habitLearningRate?: number;
+  now?: () => Date;
+}
+
+export const PROCEDURE_ACTION = 'procedure';
+
+export const TRIGGER_TYPES: TriggerType[] = ['schedule', 'memory'];
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export const DEFAULT_AUTOMATION_OPTIONS: Required<AutomationOptions> = {
+  tickInterval: 0,
+  habitThreshold: 5,
+  habitWindow: 7 * DAY,
+  habitHalfLife: 7 * DAY,
+  habitLearningRate: 0.1,
+  now: () => new Date()
+};
+
+// Run ids a habit's pattern keeps
+const HABIT_EXAMPLES = 5;
+
+// Holds in every firing context
+const ALWAYS: Condition = { type: 'firedAt', operator: 'exists', value: true };
+
+export class AutomationScheduler {
+  private automations: Map<string, Automation> = new Map();
+  private schedules: Map<string, CompiledSchedule> = new Map();
+  private nextRuns: Map<string, Date> = new Map();
+  // Memories matched since a memory trigger last fired
+  private matches: Map<string, number> = new Map();
+  private handlers: Map<string, AutomationHandler> = new Map();
+  // Habits by procedure id, with strength as of their last repetition
+  private habits: Map<string, Habit> = new Map();
+  // Recent run times of procedures that are not habits yet
+  private runTimes: Map<string, number[]> = new Map();
+  // Id of the automation whose action runs in the current async context
+  private firing: AsyncLocalStorage<string> = new AsyncLocalStorage();
+  private options: Required<AutomationOptions>;
+
+  constructor(private procedures: ProcedureEngine, options: AutomationOptions = {}) {
+    this.options = { ...DEFAULT_AUTOMATION_OPTIONS, ...options };
+    if (!(Number.isInteger(this.options.habitThreshold) && this.options.habitThreshold >= 1)) {
+      throw new Error(`Invalid automation options: habitThreshold must be a positive integer, got ${this.options.habitThreshold}`);
+    }
+    if (!(this.options.habitWindow > 0) || !(this.options.habitHalfLife > 0)) {
+      throw new Error('Invalid automation options: habitWindow and habitHalfLife must be positive');
+    }
+    if (!(this.options.habitLearningRate > 0 && this.options.habitLearningRate <= 1)) {
+      throw new Error(`Invalid automation options: habitLearningRate must be in (0, 1], got ${this.options.habitLearningRate}`);
+    }
+  }
+
+  get tickInterval(): number {
+    return this.options.tickInterval;
+  }
+
+  /**
+   * Register the handler that performs actions of this type
+   */
+  register(type: string, handler: AutomationHandler): void {
+    if (!type) {
+      throw new Error('Automation action type is required');
+    }
+    if (type === PROCEDURE_ACTION || this.handlers.has(type)) {
+      throw new Error(`An automation action named ${type} is already registered`);
+    }
+    this.handlers.set(type, handler);
+  }
+
+  /**
+   * Add an automation, replacing the automation with the same id
+   */
+  add(input: AutomationInput): Automation {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Automation name is required');
+    }
+    if (!TRIGGER_TYPES.includes(input.trigger?.type)) {
+      throw new Error(`Unknown trigger type ${input.trigger?.type}; expected one of ${TRIGGER_TYPES.join(', ')}`);
+    }
+    const frequency = input.trigger.frequency ?? 1;
+    if (!(Number.isInteger(frequency) && frequency >= 1)) {
+      throw new Error(`Trigger frequency must be a positive integer, got ${frequency}`);
+    }
+    if (input.trigger.type === 'schedule' && !input.schedule) {
+      throw new Error(`Automation ${name} has a schedule trigger but no schedule`);
+    }
+    if (!input.action?.type) {
+      throw new Error(`Automation ${name} has no action`);
+    }
+    if (input.action.type === PROCEDURE_ACTION && typeof input.action.parameters?.procedure !== 'string') {
+      throw new Error(`Automation ${name} must name the procedure to run`);
+    }
+
+    const trigger: Trigger = { type: input.trigger.type, condition: validateConditions([input.trigger.condition || ALWAYS])[0], frequency };
+    const action: Action = { type: input.action.type, parameters: input.action.parameters || {}, conditions: validateConditions(input.action.conditions || []) };
+    const automation: Automation = {
+      id: input.id || uuidv4(),
+      name,
+      trigger,
+      action,
+      conditions: validateConditions(input.conditions || []),
+      ...(input.schedule ? { schedule: input.schedule } : {})
+    };
+    this.put(automation);
+    return automation;
+  }
+
+  remove(id: string): boolean {
+    this.schedules.delete(id);
+    this.nextRuns.delete(id);
+    this.matches.delete(id);
+    return this.automations.delete(id);
+  }
+
+  get(id: string): Automation | null {
+    return this.automations.get(id) ?? null;
+  }
+
+  getAutomations(): Automation[] {
+    return Array.from(this.automations.values());
+  }
+
+  /**
+   * When a scheduled automation fires next, or null for memory triggers
+   */
+  nextRun(id: string): Date | null {
+    return this.nextRuns.get(id) ?? null;
+  }
+
+  /**
+   * Habits, strongest first, with strength faded to now
+   */
+  getHabits(): Habit[] {
+    const now = this.options.now();
+    return Array.from(this.habits.values())
+      .map(habit => {
+        const strength = this.fade(habit, now);
+        return { ...habit, strength, pattern: { ...habit.pattern, strength } };
+      })
+      .sort((a, b) => b.strength - a.strength);
+  }
+
+  /**
+   * Habits as stored, with strength as of their last repetition
+   */
+  getHabitRecords(): Habit[] {
+    return Array.from(this.habits.values());
+  }
+
+  /**
+   * Add a habit formed elsewhere, keyed by its context
+   */
+  addHabit(habit: Habit): Habit {
+    const stored = { ...habit, lastPerformed: habit.lastPerformed ? new Date(habit.lastPerformed) : this.options.now() };
+    this.habits.set(stored.context, stored);
+    this.runTimes.delete(stored.context);
+    return stored;
+  }
+
+  /**
+   * Replace automations and habits with persisted ones. Schedules resume
+   * from each automation's last run, so an occurrence missed while stopped
+   * fires on the next tick.
+   */
+  load(automations: Automation[], habits: Habit[] = []): void {
+    for (const id of Array.from(this.automations.keys())) {
+      this.remove(id);
+    }
+    this.habits.clear();
+    this.runTimes.clear();
+    for (const automation of automations) {
+      this.put({ ...automation, ...(automation.lastRun ? { lastRun: new Date(automation.lastRun) } : {}) });
+    }
+    for (const habit of habits) {
+      this.addHabit(habit);
+    }
+  }
+
+  /**
+   * Fire every scheduled automation whose next occurrence has passed
+   */
+  async tick(): Promise<AutomationFiring[]> {
+    const now = this.options.now();
+    const firings: AutomationFiring[] = [];
+    for (const automation of this.getAutomations()) {
+      const next = this.nextRuns.get(automation.id);
+      if (!next || next.getTime() > now.getTime()) {
+        continue;
+      }
+      firings.push(await this.fire(automation, { automation: { id: automation.id, name: automation.name }, reason: 'schedule', firedAt: now }));
+      this.scheduleNext(automation, now);
+    }
+    return firings;
+  }
+
+  /**
+   * Fire the memory-triggered automations a stored memory matches
+   */
+  async notifyMemory(memory: Memory): Promise<AutomationFiring[]> {
+    if (this.firing.getStore() !== undefined) {
+      return [];
+    }
+    const now = this.options.now();
+    const firings: AutomationFiring[] = [];
+    for (const automation of this.getAutomations()) {
+      if (automation.trigger.type !== 'memory') {
+        continue;
+      }
+      const context: FiringContext = { automation: { id: automation.id, name: automation.name }, reason: 'memory', firedAt: now, memory };
+      if (!evaluateCondition(automation.trigger.condition, context)) {
+        continue;
+      }
+      const matched = (this.matches.get(automation.id) || 0) + 1;
+      if (matched < automation.trigger.frequency) {
+        this.matches.set(automation.id, matched);
+        continue;
+      }
+      this.matches.set(automation.id, 0);
+      firings.push(await this.fire(automation, context));
+    }
+    return firings;
+  }
+
+  /**
+   * Count a procedure run towards its habit; returns the habit it formed or
+   * reinforced. Blocked runs did nothing and do not count.
+   */
+  observeRun(run: ProcedureRun): Habit | undefined {
+    if (run.status === 'blocked') {
+      return undefined;
+    }
+    const now = this.options.now();
+    const cutoff = now.getTime() - this.options.habitWindow;
+    const times = [...(this.runTimes.get(run.procedureId) || []), now.getTime()].filter(time => time > cutoff);
+    const rate = this.options.habitLearningRate;
+    const existing = this.habits.get(run.procedureId);
+
+    let strength: number;
+    if (existing) {
+      const faded = this.fade(existing, now);
+      strength = faded + rate * (1 - faded);
+    } else if (times.length >= this.options.habitThreshold) {
+      // As strong as if every repetition so far had reinforced it
+      strength = 1 - Math.pow(1 - rate, times.length);
+    } else {
+      this.runTimes.set(run.procedureId, times);
+      return undefined;
+    }
+    this.runTimes.set(run.procedureId, times);
+
+    const procedure = this.procedures.getProcedure(run.procedureId);
+    const habit: Habit = {
+      id: existing?.id || uuidv4(),
+      name: procedure?.name || existing?.name || run.procedureId,
+      pattern: {
+        id: existing?.pattern.id || uuidv4(),
+        type: PROCEDURE_ACTION,
+        // Runs within the window
+        frequency: times.length,
+        confidence: Math.min(1, times.length / this.options.habitThreshold),
+        // The latest runs
+        examples: [...(existing?.pattern.examples || []), run.id].slice(-HABIT_EXAMPLES),
+        context: run.procedureId,
+        strength
+      },
+      // Runs per day over the window
+      frequency: times.length / (this.options.habitWindow / DAY),
+      strength,
+      context: run.procedureId,
+      lastPerformed: now
+    };
+    this.habits.set(run.procedureId, habit);
+    return habit;
+  }
+
+  private put(automation: Automation): void {
+    let schedule: CompiledSchedule | undefined;
+    let next: Date | null = null;
+    if (automation.trigger.type === 'schedule') {
+      schedule = compileSchedule(automation.schedule!);
+      next = nextOccurrence(schedule, automation.lastRun || this.options.now());
+      if (!next) {
+        throw new Error(`The schedule of automation ${automation.name} never fires`);
+      }
+    }
+
+    this.remove(automation.id);
+    this.automations.set(automation.id, automation);
+    if (schedule && next) {
+      this.schedules.set(automation.id, schedule);
+      this.nextRuns.set(automation.id, next);
+    }
+  }
+
+  private scheduleNext(automation: Automation, after: Date): void {
+    const next = nextOccurrence(this.schedules.get(automation.id)!, after);
+    if (next) {
+      this.nextRuns.set(automation.id, next);
+    } else {
+      this.nextRuns.delete(automation.id);
+    }
+  }
+
+  private async fire(automation: Automation, context: FiringContext): Promise<AutomationFiring> {
+    const firing: AutomationFiring = { automationId: automation.id, reason: context.reason, firedAt: context.firedAt, status: 'skipped' };
+    automation.lastRun = context.firedAt;
+    if (!evaluateCondition(automation.trigger.condition, context) || !conditionsHold(automation.conditions, context) ||
+      !conditionsHold(automation.action.conditions, context)) {
+      return firing;
+    }
+
+    return this.firing.run(automation.id, () => this.perform(automation, context, firing));
+  }
+
+  private async perform(automation: Automation, context: FiringContext, firing: AutomationFiring): Promise<AutomationFiring> {
+    try {
+      if (automation.action.type === PROCEDURE_ACTION) {
+        const { procedure, input } = automation.action.parameters;
+        const run = await this.procedures.run(procedure, { ...input, ...(context.memory ? { memory: context.memory } : {}) });
+        const habit = this.observeRun(run);
+        return {
+          ...firing,
+          status: run.status === 'blocked' ? 'skipped' : run.status,
+          output: run.output,
+          run,
+          ...(habit ? { habit } : {})
+        };
+      }
+
+      const handler = this.handlers.get(automation.action.type);
+      if (!handler) {
+        throw new Error(`No automation action registered for ${automation.action.type}`);
+      }
+      return { ...firing, status: 'succeeded', output: await handler(automation.action.parameters, context) };
+    } catch (error) {
+      return { ...firing, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  private fade(habit: Habit, now: Date): number {
+    const elapsed = Math.max(0, now.getTime() - new Date(habit.lastPerformed || now).getTime());
+    return habit.strength * Math.pow(0.5, elapsed / this.options.habitHalfLife);
+  }
+}
@@ -0,0 +1,590 @@
+/**
+ * Concept Graph
+ *
+ * Semantic memory as a graph of concepts joined by typed relationships.
+ * `is-a` and `part-of`, and any relation declared transitive by an axiom,
+ * are followed transitively, and every relationship other than `is-a` is
+ * inherited down the `is-a` hierarchy: if a sedan is-a car and a car has-part
+ * wheels, the sedan has-part wheels. Axioms constrain the graph and are
+ * checked on demand rather than enforced on every change, so contradictory
+ * knowledge can be learned and then reported.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Axiom, Concept, ConceptProperty, ConceptRelationship, Hierarchy, HierarchyLevel, Ontology } from '../types/memory';
+import { terms } from '../utils/text';
+
+export const IS_A = 'is-a';
+export const PART_OF = 'part-of';
+export const RELATED_TO = 'related-to';
+
+export type AxiomType = 'disjoint' | 'functional' | 'asymmetric' | 'transitive';
+
+export const AXIOM_TYPES: AxiomType[] = ['disjoint', 'functional', 'asymmetric', 'transitive'];
+
+export interface ConceptRelationshipInput {
+  // Id or name; unknown names become new concepts
+  target: string;
+  type: string;
+  strength?: number;
+  confidence?: number;
+}
+
+export interface ConceptInput {
+  id?: string;
+  name: string;
+  definition?: string;
+  category?: string;
+  properties?: ConceptProperty[];
+  relationships?: ConceptRelationshipInput[];
+}
+
+export interface AxiomInput {
+  id?: string;
+  type: AxiomType;
+  statement?: string;
+  confidence?: number;
+  // Ids or names of the concepts a disjointness axiom separates
+  concepts?: string[];
+  relation?: string;
+}
+
+export interface ConceptPathStep {
+  source: string;
+  type: string;
+  target: string;
+  // The step follows the relationship from its target back to its source
+  inverse: boolean;
+}
+
+export interface ConceptPath {
+  from: string;
+  to: string;
+  steps: ConceptPathStep[];
+  // The steps as statements, e.g. "Dog is-a Mammal; Cat is-a Mammal"
+  explanation: string;
+}
+
+export type ViolationKind = 'cycle' | 'disjoint' | 'functional' | 'asymmetric';
+
+export interface ConsistencyViolation {
+  kind: ViolationKind;
+  // Absent for cycles, which no hierarchy may contain
+  axiomId?: string;
+  concepts: string[];
+  message: string;
+}
+
+// Longest path explainRelation searches for
+const MAX_PATH_LENGTH = 6;
+
+export class ConceptGraph {
+  private concepts: Map<string, Concept> = new Map();
+  // Lowercased name to id
+  private names: Map<string, string> = new Map();
+  private axioms: Map<string, Axiom> = new Map();
+
+  /**
+   * Add a concept, or merge into the concept with the same id or name:
+   * given fields replace the old ones, properties merge by name and
+   * relationships by type and target
+   */
+  add(input: ConceptInput): Concept {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Concept name is required');
+    }
+
+    const existingId = (input.id && this.concepts.has(input.id)) ? input.id : this.names.get(name.toLowerCase());
+    const concept: Concept = existingId
+      ? this.concepts.get(existingId)!
+      : { id: input.id || uuidv4(), name, definition: '', category: '', properties: [], relationships: [] };
+    if (!existingId) {
+      this.put(concept);
+    }
+
+    if (input.definition) {
+      concept.definition = input.definition;
+    }
+    if (input.category) {
+      concept.category = input.category;
+    }
+    for (const property of input.properties || []) {
+      concept.properties = [...concept.properties.filter(other => other.name !== property.name), property];
+    }
+    for (const relationship of input.relationships || []) {
+      this.relate(concept.id, relationship.type, relationship.target, relationship.strength, relationship.confidence);
+    }
+    return concept;
+  }
+
+  /**
+   * Record that `source` stands in relation `type` to `target`. An unknown
+   * target name becomes a new concept; an unknown source is an error.
+   */
+  relate(source: string, type: string, target: string, strength: number = 1, confidence: number = 1): Concept {
+    const concept = this.require(source);
+    if (!type) {
+      throw new Error('Relationship type is required');
+    }
+    const targetId = this.resolve(target) ?? this.add({ name: target }).id;
+
+    const relationship: ConceptRelationship = { target: targetId, type, strength, confidence };
+    concept.relationships = [...concept.relationships.filter(other => !(other.type === type && other.target === targetId)), relationship];
+    return concept;
+  }
+
+  addAxiom(input: AxiomInput): Axiom {
+    if (!AXIOM_TYPES.includes(input.type)) {
+      throw new Error(`Unknown axiom type ${input.type}; expected one of ${AXIOM_TYPES.join(', ')}`);
+    }
+
+    const axiom: Axiom = { id: input.id || uuidv4(), type: input.type, statement: input.statement || '', confidence: input.confidence ?? 1 };
+    if (input.type === 'disjoint') {
+      const concepts = (input.concepts || []).map(reference => this.require(reference).id);
+      if (new Set(concepts).size < 2) {
+        throw new Error('A disjoint axiom needs at least two distinct concepts');
+      }
+      axiom.concepts = concepts;
+      axiom.statement = axiom.statement || `${concepts.map(id => this.concepts.get(id)!.name).join(', ')} are disjoint`;
+    } else {
+      if (!input.relation) {
+        throw new Error(`A ${input.type} axiom needs a relation`);
+      }
+      axiom.relation = input.relation;
+      axiom.statement = axiom.statement || `${input.relation} is ${input.type}`;
+    }
+
+    this.axioms.set(axiom.id, axiom);
+    return axiom;
+  }
+
+  /**
+   * Concept by id or by name, ignoring case
+   */
+  get(reference: string): Concept | null {
+    const id = this.resolve(reference);
+    return id ? this.concepts.get(id)! : null;
+  }
+
+  getConcepts(): Concept[] {
+    return Array.from(this.concepts.values());
+  }
+
+  getAxioms(): Axiom[] {
+    return Array.from(this.axioms.values());
+  }
+
+  /**
+   * Replace the graph with persisted concepts and axioms
+   */
+  load(concepts: Concept[], axioms: Axiom[] = []): void {
+    this.concepts.clear();
+    this.names.clear();
+    this.axioms.clear();
+    for (const concept of concepts) {
+      this.put({ ...concept, properties: concept.properties || [], relationships: concept.relationships || [] });
+    }
+    for (const axiom of axioms) {
+      this.axioms.set(axiom.id, axiom);
+    }
+  }
+
+  /**
+   * Concepts matching the query, best first: an exact name, then names
+   * containing the query, then the share of query terms found in the name,
+   * definition and category
+   */
+  find(query: string, limit?: number): Concept[] {
+    const normalized = query.trim().toLowerCase();
+    if (!normalized) {
+      return [];
+    }
+    const queryTerms = terms(normalized);
+
+    return Array.from(this.concepts.values())
+      .map(concept => {
+        const name = concept.name.toLowerCase();
+        let score = name === normalized ? 3 : name.includes(normalized) ? 2 : 0;
+        if (queryTerms.length > 0) {
+          const conceptTerms = new Set(terms(`${concept.name} ${concept.definition} ${concept.category}`));
+          score += queryTerms.filter(term => conceptTerms.has(term)).length / queryTerms.length;
+        }
+        return { concept, score };
+      })
+      .filter(entry => entry.score > 0)
+      .sort((a, b) => b.score - a.score || a.concept.name.localeCompare(b.concept.name))
+      .slice(0, limit)
+      .map(entry => entry.concept);
+  }
+
+  /**
+   * Every concept `reference` stands in relation `type` to, directly or by
+   * inference, nearest first
+   */
+  closure(reference: string, type: string): Concept[] {
+    return this.reach(this.require(reference).id, type).map(id => this.concepts.get(id)!);
+  }
+
+  /**
+   * Whether `source` stands in relation `type` to `target`, directly or by inference
+   */
+  holds(source: string, type: string, target: string): boolean {
+    const targetId = this.resolve(target);
+    return targetId !== undefined && this.reach(this.require(source).id, type).includes(targetId);
+  }
+
+  /**
+   * Shortest chain of relationships, followed in either direction, joining
+   * two concepts; null when they are unrelated
+   */
+  path(from: string, to: string): ConceptPath | null {
+    const start = this.require(from).id;
+    const goal = this.require(to).id;
+    const previous = new Map<string, { id: string; step: ConceptPathStep } | null>([[start, null]]);
+    let frontier = [start];
+
+    for (let depth = 0; depth < MAX_PATH_LENGTH && !previous.has(goal) && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const step of this.neighbours(id)) {
+          const reached = step.inverse ? step.source : step.target;
+          if (!previous.has(reached)) {
+            previous.set(reached, { id, step });
+            next.push(reached);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    if (!previous.has(goal)) {
+      return null;
+    }
+    const steps: ConceptPathStep[] = [];
+    for (let link = previous.get(goal); link; link = previous.get(link.id)) {
+      steps.unshift(link.step);
+    }
+    return {
+      from: start,
+      to: goal,
+      steps,
+      explanation: steps.length > 0
+        ? steps.map(step => `${this.name(step.source)} ${step.type} ${this.name(step.target)}`).join('; ')
+        : this.name(start)
+    };
+  }
+
+  /**
+   * Violations of the axioms, and cycles in transitive relations
+   */
+  check(): ConsistencyViolation[] {
+    const violations: ConsistencyViolation[] = [];
+
+    for (const type of this.transitiveTypes()) {
+      const cyclic = new Set(Array.from(this.concepts.keys()).filter(id => this.reach(id, type).includes(id)));
+      for (const id of cyclic) {
+        const members = [id, ...this.reach(id, type).filter(other => other !== id && cyclic.has(other) && this.reach(other, type).includes(id))];
+        members.forEach(member => cyclic.delete(member));
+        violations.push({
+          kind: 'cycle',
+          concepts: members,
+          message: `${members.map(member => this.name(member)).join(', ')} form a ${type} cycle`
+        });
+      }
+    }
+
+    for (const axiom of this.axioms.values()) {
+      if (axiom.type === 'disjoint') {
+        const disjoint = (axiom.concepts || []).filter(id => this.concepts.has(id));
+        for (const concept of this.concepts.values()) {
+          const classes = new Set([concept.id, ...this.reach(concept.id, IS_A)]);
+          const shared = disjoint.filter(id => classes.has(id));
+          if (shared.length >= 2) {
+            violations.push({
+              kind: 'disjoint',
+              axiomId: axiom.id,
+              concepts: [concept.id, ...shared],
+              message: `${concept.name} is-a ${shared.map(id => this.name(id)).join(' and ')}, which are disjoint`
+            });
+          }
+        }
+      } else if (axiom.type === 'functional') {
+        for (const concept of this.concepts.values()) {
+          const targets = Array.from(new Set(concept.relationships.filter(relationship => relationship.type === axiom.relation).map(relationship => relationship.target)));
+          if (targets.length > 1) {
+            violations.push({
+              kind: 'functional',
+              axiomId: axiom.id,
+              concepts: [concept.id, ...targets],
+              message: `${concept.name} ${axiom.relation} ${targets.map(id => this.name(id)).join(' and ')}, but ${axiom.relation} is functional`
+            });
+          }
+        }
+      } else if (axiom.type === 'asymmetric') {
+        for (const concept of this.concepts.values()) {
+          for (const relationship of concept.relationships) {
+            if (relationship.type !== axiom.relation || relationship.target <= concept.id) {
+              continue;
+            }
+            const target = this.concepts.get(relationship.target);
+            if (target?.relationships.some(other => other.type === axiom.relation && other.target === concept.id)) {
+              violations.push({
+                kind: 'asymmetric',
+                axiomId: axiom.id,
+                concepts: [concept.id, target.id],
+                message: `${concept.name} and ${target.name} are ${axiom.relation} each other, but ${axiom.relation} is asymmetric`
+              });
+            }
+          }
+        }
+      }
+    }
+    return violations;
+  }
+
+  /**
+   * The is-a hierarchy below `root`, level by level. Without a root, the
+   * concept with the most descendants is used.
+   */
+  hierarchy(root?: string): Hierarchy {
+    const children = new Map<string, string[]>();
+    for (const concept of this.concepts.values()) {
+      for (const relationship of concept.relationships) {
+        if (relationship.type === IS_A) {
+          children.set(relationship.target, [...(children.get(relationship.target) || []), concept.id]);
+        }
+      }
+    }
+    const rootId = root !== undefined ? this.require(root).id : this.largestRoot(children);
+
+    const levels: HierarchyLevel[] = [];
+    const relationships: Hierarchy['relationships'] = [];
+    const placed = new Set<string>(rootId ? [rootId] : []);
+    let current = rootId ? [rootId] : [];
+    while (current.length > 0) {
+      const next: string[] = [];
+      const fanOut = current.map(id => (children.get(id) || []).filter(child => !placed.has(child)));
+      current.forEach((parent, position) => {
+        for (const child of fanOut[position]) {
+          placed.add(child);
+          next.push(child);
+          relationships.push({ parent, child, type: IS_A, strength: 1 });
+        }
+      });
+      const counts = fanOut.map(list => list.length);
+      levels.push({
+        level: levels.length,
+        nodes: current,
+        properties: {
+          size: current.length,
+          density: current.length / Math.max(1, this.concepts.size),
+          connectivity: counts.reduce((sum, count) => sum + count, 0) / current.length,
+          balance: Math.max(...counts) > 0 ? Math.min(...counts) / Math.max(...counts) : 1
+        }
+      });
+      current = next;
+    }
+
+    const sizes = levels.map(level => level.nodes.length);
+    return {
+      id: uuidv4(),
+      root: rootId || '',
+      levels,
+      relationships,
+      properties: {
+        depth: levels.length,
+        breadth: sizes.length > 0 ? Math.max(...sizes) : 0,
+        balance: levels.length > 0 ? levels.reduce((sum, level) => sum + level.properties.balance, 0) / levels.length : 0,
+        connectivity: placed.size > 0 ? relationships.length / placed.size : 0
+      }
+    };
+  }
+
+  /**
+   * The whole graph as an ontology; quality is the share of concepts not
+   * involved in any violation
+   */
+  toOntology(name: string = 'ontology'): Ontology {
+    const concepts = this.getConcepts();
+    const violating = new Set(this.check().flatMap(violation => violation.concepts));
+    const now = new Date();
+    return {
+      id: uuidv4(),
+      name,
+      concepts,
+      relationships: concepts.flatMap(concept => concept.relationships.map(relationship => ({
+        source: concept.id,
+        target: relationship.target,
+        type: relationship.type,
+        strength: relationship.strength,
+        confidence: relationship.confidence,
+        bidirectional: false
+      }))),
+      axioms: this.getAxioms(),
+      metadata: {
+        version: '1.0.0',
+        created: now,
+        updated: now,
+        size: concepts.length,
+        quality: concepts.length > 0 ? 1 - violating.size / concepts.length : 1
+      }
+    };
+  }
+
+  private put(concept: Concept): void {
+    const clash = this.names.get(concept.name.toLowerCase());
+    if (clash && clash !== concept.id) {
+      throw new Error(`A concept named ${concept.name} already exists`);
+    }
+    this.concepts.set(concept.id, concept);
+    this.names.set(concept.name.toLowerCase(), concept.id);
+  }
+
+  private resolve(reference: string): string | undefined {
+    if (this.concepts.has(reference)) {
+      return reference;
+    }
+    return this.names.get(reference.trim().toLowerCase());
+  }
+
+  private require(reference: string): Concept {
+    const concept = this.get(reference);
+    if (!concept) {
+      throw new Error(`Concept ${reference} not found`);
+    }
+    return concept;
+  }
+
+  private name(id: string): string {
+    return this.concepts.get(id)?.name ?? id;
+  }
+
+  private transitiveTypes(): Set<string> {
+    const types = new Set([IS_A, PART_OF]);
+    for (const axiom of this.axioms.values()) {
+      if (axiom.type === 'transitive' && axiom.relation) {
+        types.add(axiom.relation);
+      }
+    }
+    return types;
+  }
+
+  private targets(id: string, type: string): string[] {
+    return (this.concepts.get(id)?.relationships || [])
+      .filter(relationship => relationship.type === type)
+      .map(relationship => relationship.target);
+  }
+
+  // Breadth-first, so nearer concepts come first; includes `id` itself only on a cycle
+  private reach(id: string, type: string): string[] {
+    const transitive = this.transitiveTypes().has(type);
+    const ancestors = type === IS_A ? [] : this.reach(id, IS_A);
+    const reached: string[] = [];
+    const seen = new Set<string>();
+    let frontier = [id, ...ancestors].flatMap(subject => this.targets(subject, type));
+
+    while (frontier.length > 0) {
+      const next: string[] = [];
+      for (const target of frontier) {
+        if (seen.has(target)) {
+          continue;
+        }
+        seen.add(target);
+        reached.push(target);
+        if (transitive) {
+          const inherited = type === IS_A ? [] : this.reach(target, IS_A);
+          next.push(...[target, ...inherited].flatMap(subject => this.targets(subject, type)));
+        }
+      }
+      frontier = next;
+    }
+    return reached;
+  }
+
+  private neighbours(id: string): ConceptPathStep[] {
+    const steps: ConceptPathStep[] = [];
+    for (const relationship of this.concepts.get(id)?.relationships || []) {
+      steps.push({ source: id, type: relationship.type, target: relationship.target, inverse: false });
+    }
+    for (const concept of this.concepts.values()) {
+      for (const relationship of concept.relationships) {
+        if (relationship.target === id && concept.id !== id) {
+          steps.push({ source: concept.id, type: relationship.type, target: id, inverse: true });
+        }
+      }
+    }
+    return steps;
+  }
+
+  // The concept with the most is-a descendants
+  private largestRoot(children: Map<string, string[]>): string | undefined {
+    let best: { id: string; size: number } | undefined;
+    for (const id of this.concepts.keys()) {
+      const size = this.reachDown(id, children);
+      if (!best || size > best.size) {
+        best = { id, size };
+      }
+    }
+    return best?.id;
+  }
+
+  private reachDown(id: string, children: Map<string, string[]>): number {
+    const seen = new Set<string>([id]);
+    const queue = [id];
+    while (queue.length > 0) {
+      for (const child of children.get(queue.shift()!) || []) {
+        if (!seen.has(child)) {
+          seen.add(child);
+          queue.push(child);
+        }
+      }
+    }
+    return seen.size - 1;
+  }
+}
+
+/**
+ * Concept input for a concept learned through learnConcept. `data` may give
+ * a `definition` or `description`, a `category` (otherwise `context.domain`),
+ * `isA` and `partOf` targets, `properties` as an object, and `relationships`
+ * as names (related-to) or `{ type, target }` objects.
+ */
+export function learnedConcept(name: string, data: any, context: any, confidence: number): ConceptInput {
+  const input: ConceptInput = { name, relationships: [] };
+  const definition = data?.definition ?? data?.description;
+  if (typeof definition === 'string') {
+    input.definition = definition;
+  }
+  const category = data?.category ?? context?.domain;
+  if (typeof category === 'string') {
+    input.category = category;
+  }
+
+  if (data?.properties && typeof data.properties === 'object' && !Array.isArray(data.properties)) {
+    input.properties = Object.entries(data.properties).map(([key, value]) => ({ name: key, value, type: typeof value, confidence }));
+  }
+
+  for (const [field, type] of [['isA', IS_A], ['partOf', PART_OF]] as const) {
+    for (const target of asList(data?.[field])) {
+      if (typeof target === 'string' && target.trim()) {
+        input.relationships!.push({ target, type, confidence });
+      }
+    }
+  }
+  for (const relationship of asList(data?.relationships)) {
+    if (typeof relationship === 'string' && relationship.trim()) {
+      input.relationships!.push({ target: relationship, type: RELATED_TO, confidence });
+    } else if (relationship && typeof relationship.target === 'string' && typeof relationship.type === 'string') {
+      input.relationships!.push({ target: relationship.target, type: relationship.type, strength: relationship.strength, confidence: relationship.confidence ?? confidence });
+    }
+  }
+  return input;
+}
+
+function asList(value: any): any[] {
+  if (value === undefined || value === null) {
+    return [];
+  }
+  return Array.isArray(value) ? value : [value];
+}
@@ -0,0 +1,94 @@
+/**
+ * Duplicate Index
+ *
+ * Content hashes and banded MinHash signatures of indexed memories, so the
+ * duplicates of new content are found without comparing it to every memory.
+ */
+
+import { bandKeys, contentHash, minHashSignature, signatureSimilarity } from '../utils/dedup';
+
+export interface DuplicateMatch {
+  id: string;
+  // Estimated Jaccard similarity; 1 for exact duplicates
+  similarity: number;
+  exact: boolean;
+}
+
+interface DuplicateEntry {
+  hash: string;
+  signature: number[] | null;
+}
+
+export class DuplicateIndex {
+  private entries: Map<string, DuplicateEntry> = new Map();
+  private hashes: Map<string, Set<string>> = new Map();
+  private bands: Map<string, Set<string>> = new Map();
+
+  add(id: string, content: string): void {
+    this.remove(id);
+    const entry: DuplicateEntry = { hash: contentHash(content), signature: minHashSignature(content) };
+    this.entries.set(id, entry);
+    for (const [key, postings] of this.postings(entry)) {
+      postings.set(key, (postings.get(key) || new Set<string>()).add(id));
+    }
+  }
+
+  remove(id: string): void {
+    const entry = this.entries.get(id);
+    if (!entry) {
+      return;
+    }
+    this.entries.delete(id);
+    for (const [key, postings] of this.postings(entry)) {
+      const ids = postings.get(key);
+      ids?.delete(id);
+      if (ids?.size === 0) {
+        postings.delete(key);
+      }
+    }
+  }
+
+  clear(): void {
+    this.entries.clear();
+    this.hashes.clear();
+    this.bands.clear();
+  }
+
+  has(id: string): boolean {
+    return this.entries.has(id);
+  }
+
+  /**
+   * Indexed memories whose content is at least `similarity` alike, exact
+   * duplicates first, then most similar first
+   */
+  find(content: string, similarity: number): DuplicateMatch[] {
+    const matches = new Map<string, DuplicateMatch>();
+    for (const id of this.hashes.get(contentHash(content)) || []) {
+      matches.set(id, { id, similarity: 1, exact: true });
+    }
+
+    const signature = minHashSignature(content);
+    if (signature) {
+      for (const key of bandKeys(signature)) {
+        for (const id of this.bands.get(key) || []) {
+          if (matches.has(id)) {
+            continue;
+          }
+          const estimate = signatureSimilarity(signature, this.entries.get(id)!.signature!);
+          if (estimate >= similarity) {
+            matches.set(id, { id, similarity: estimate, exact: false });
+          }
+        }
+      }
+    }
+
+    return Array.from(matches.values()).sort((a, b) => Number(b.exact) - Number(a.exact) || b.similarity - a.similarity);
+  }
+
+  // The entry's key in the hash postings, then its key in the band postings for each band
+  private postings(entry: DuplicateEntry): Array<[string, Map<string, Set<string>>]> {
+    const bands = entry.signature ? bandKeys(entry.signature) : [];
+    return [[entry.hash, this.hashes], ...bands.map((key): [string, Map<string, Set<string>>] => [key, this.bands])];
+  }
+}
@@ -0,0 +1,167 @@
+/**
+ * File Storage Adapter
+ *
+ * Keeps a snapshot file plus a write-ahead journal of mutations made since the
+ * snapshot; both are serialized through a codec so they can be encrypted
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import {
+  StorageAdapter,
+  StorageCodec,
+  StorageCollection,
+  StorageRecord,
+  STORAGE_COLLECTIONS
+} from '../interfaces/StorageAdapter';
+import { StateJournal, JournalState, replayJournal, writeFileAtomic } from './StateJournal';
+
+const DEFAULT_COMPACTION_THRESHOLD = 1000;
+
+export const JSON_CODEC: StorageCodec = {
+  encode: async value => JSON.stringify(value),
+  decode: async text => JSON.parse(text)
+};
+
+export interface FileStorageOptions {
+  stateFile: string;
+  journalFile: string;
+  codec?: StorageCodec;
+  compactionThreshold?: number;
+  // 'quarantine' moves unreadable files aside and starts empty instead of failing
+  onCorruption?: 'throw' | 'quarantine';
+}
+
+export class FileStorageAdapter implements StorageAdapter {
+  private collections: Map<StorageCollection, Map<string, string>> = new Map();
+  private codec: StorageCodec;
+  private journal: StateJournal;
+
+  constructor(private options: FileStorageOptions) {
+    this.codec = options.codec || JSON_CODEC;
+    this.journal = new StateJournal(options.journalFile, {
+      encode: async entry => this.codec.encode(entry),
+      decode: async line => this.codec.decode(line)
+    });
+    for (const collection of STORAGE_COLLECTIONS) {
+      this.collections.set(collection, new Map());
+    }
+  }
+
+  async initialize(): Promise<void> {
+    await fs.mkdir(dirname(this.options.stateFile), { recursive: true });
+
+    let state: JournalState;
+    try {
+      const snapshot = await this.readSnapshot();
+      const entries = await this.journal.readAll();
+      state = replayJournal(snapshot || this.emptyState(), entries);
+    } catch (error) {
+      if (this.options.onCorruption !== 'quarantine') {
+        throw error;
+      }
+      const suffix = `.corrupt-${Date.now()}`;
+      await this.moveAside(this.options.stateFile, suffix);
+      await this.moveAside(this.options.journalFile, suffix);
+      console.warn(`Stored state could not be read (${(error as Error).message}), moved aside with suffix ${suffix}`);
+      state = this.emptyState();
+    }
+
+    for (const collection of STORAGE_COLLECTIONS) {
+      const records = this.records(collection);
+      records.clear();
+      for (const record of state[collection] || []) {
+        records.set(record.id, JSON.stringify(record));
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.journal.size > 0) {
+      await this.flush();
+    }
+  }
+
+  /**
+   * Write a new snapshot and drop the journal it supersedes
+   */
+  async flush(): Promise<void> {
+    await this.journal.compact(async () => {
+      const snapshot: Record<string, any> = { timestamp: new Date() };
+      for (const collection of STORAGE_COLLECTIONS) {
+        snapshot[collection] = await this.scan(collection);
+      }
+      await writeFileAtomic(this.options.stateFile, await this.codec.encode(snapshot));
+    });
+  }
+
+  async get<T extends StorageRecord>(collection: StorageCollection, id: string): Promise<T | null> {
+    const serialized = this.records(collection).get(id);
+    return serialized === undefined ? null : JSON.parse(serialized);
+  }
+
+  async put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void> {
+    this.records(collection).set(record.id, JSON.stringify(record));
+    await this.journal.append({ op: 'put', collection, id: record.id, value: record, timestamp: new Date() });
+    await this.compactIfNeeded();
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<boolean> {
+    const existed = this.records(collection).delete(id);
+    if (existed) {
+      await this.journal.append({ op: 'delete', collection, id, timestamp: new Date() });
+      await this.compactIfNeeded();
+    }
+    return existed;
+  }
+
+  async scan<T extends StorageRecord>(collection: StorageCollection): Promise<T[]> {
+    return Array.from(this.records(collection).values()).map(serialized => JSON.parse(serialized));
+  }
+
+  private async compactIfNeeded(): Promise<void> {
+    const threshold = this.options.compactionThreshold ?? DEFAULT_COMPACTION_THRESHOLD;
+    if (this.journal.size >= threshold) {
+      await this.flush();
+    }
+  }
+
+  private async readSnapshot(): Promise<JournalState | null> {
+    let contents: string;
+    try {
+      contents = await fs.readFile(this.options.stateFile, 'utf8');
+    } catch (error) {
+      if ((error as any).code === 'ENOENT') {
+        return null;
+      }
+      throw error;
+    }
+
+    // An empty file is what a crash during a non-atomic write leaves behind
+    if (contents.trim().length === 0) {
+      return null;
+    }
+
+    return await this.codec.decode(contents);
+  }
+
+  private async moveAside(path: string, suffix: string): Promise<void> {
+    await fs.rename(path, `${path}${suffix}`).catch(error => {
+      if (error.code !== 'ENOENT') {
+        throw error;
+      }
+    });
+  }
+
+  private emptyState(): JournalState {
+    return { identities: [], memories: [], compressedMemories: [], memoryIndex: [], memoryStrength: [], memoryRelationships: [], learningProgress: [], concepts: [], axioms: [], skills: [], procedures: [], automations: [], habits: [], checkpoints: [] };
+  }
+
+  private records(collection: StorageCollection): Map<string, string> {
+    const records = this.collections.get(collection);
+    if (!records) {
+      throw new Error(`Unknown storage collection: ${collection}`);
+    }
+    return records;
+  }
+}
@@ -0,0 +1,100 @@
+/**
+ * Hashing Embedder
+ *
+ * Offline, deterministic embedder: word, word-bigram and character-trigram
+ * features are hashed into a fixed number of signed buckets, the resulting
+ * direction is mapped into the Poincaré ball, and the distance from the origin
+ * grows with how specific the content is. Generic, short content sits near the
+ * root of the hierarchy; detailed content sits deeper.
+ */
+
+import { Embedder, EmbeddingConfig } from '../interfaces/Embedder';
+import { expMap0, project } from '../utils/hyperbolic';
+import { STOPWORDS, fnv1a, tokenize } from '../utils/text';
+
+const DEFAULT_EMBEDDING_CONFIG: Required<EmbeddingConfig> = {
+  dimension: 64,
+  curvature: -1,
+  maxDepth: 4
+};
+
+// Distinct content terms at which content counts as ~63% specific
+const SPECIFICITY_SCALE = 8;
+
+const BIGRAM_WEIGHT = 0.5;
+const TRIGRAM_WEIGHT = 0.5;
+
+export class HashingEmbedder implements Embedder {
+  readonly dimension: number;
+  readonly curvature: number;
+  private maxDepth: number;
+
+  constructor(config: Partial<EmbeddingConfig> = {}) {
+    const resolved = { ...DEFAULT_EMBEDDING_CONFIG, ...config };
+    if (!Number.isInteger(resolved.dimension) || resolved.dimension < 1) {
+      throw new Error(`Embedding dimension must be a positive integer, got ${resolved.dimension}`);
+    }
+
+    this.dimension = resolved.dimension;
+    this.curvature = resolved.curvature;
+    this.maxDepth = resolved.maxDepth;
+  }
+
+  async embed(text: string): Promise<number[]> {
+    const terms = contentTerms(text);
+    const features = new Array<number>(this.dimension).fill(0);
+
+    const termFrequencies = new Map<string, number>();
+    for (const term of terms) {
+      termFrequencies.set(term, (termFrequencies.get(term) || 0) + 1);
+    }
+
+    for (const [term, frequency] of termFrequencies) {
+      // Sublinear term frequency so repetition does not dominate the direction
+      this.addFeature(features, `w:${term}`, 1 + Math.log(frequency));
+
+      const trigrams = characterTrigrams(term);
+      for (const trigram of trigrams) {
+        this.addFeature(features, `c:${trigram}`, TRIGRAM_WEIGHT / trigrams.length);
+      }
+    }
+
+    for (let i = 1; i < terms.length; i++) {
+      this.addFeature(features, `b:${terms[i - 1]} ${terms[i]}`, BIGRAM_WEIGHT);
+    }
+
+    const length = Math.sqrt(features.reduce((sum, value) => sum + value * value, 0));
+    if (length === 0) {
+      return features;
+    }
+
+    const specificity = 1 - Math.exp(-termFrequencies.size / SPECIFICITY_SCALE);
+    const depth = this.maxDepth * specificity;
+
+    // A tangent vector of length d/2 at the origin lands at hyperbolic distance d
+    const tangent = features.map(value => value / length * depth / 2);
+    return project(expMap0(tangent, this.curvature), this.curvature);
+  }
+
+  private addFeature(features: number[], feature: string, weight: number): void {
+    const hash = fnv1a(feature);
+    const sign = hash & 0x80000000 ? -1 : 1;
+    features[hash % this.dimension] += sign * weight;
+  }
+}
+
+function contentTerms(text: string): string[] {
+  const tokens = tokenize(text);
+  const terms = tokens.filter(token => !STOPWORDS.has(token));
+  // Content made only of stopwords still deserves a direction
+  return terms.length > 0 ? terms : tokens;
+}
+
+function characterTrigrams(term: string): string[] {
+  const padded = `#${term}#`;
+  const trigrams: string[] = [];
+  for (let i = 0; i + 3 <= padded.length; i++) {
+    trigrams.push(padded.slice(i, i + 3));
+  }
+  return trigrams;
+}
@@ -0,0 +1,426 @@
+/**
+ * HNSW Index
+ *
+ * Hierarchical navigable small-world graph for approximate nearest-neighbour
+ * search under hyperbolic distance. Nodes are added and removed incrementally;
+ * removing a node reconnects the nodes that linked to it through its own
+ * neighbourhood, so the graph stays navigable without a rebuild.
+ */
+
+import { mulberry32 } from '../utils/random';
+
+export interface HnswOptions {
+  // Links kept per node on upper layers; layer 0 keeps twice as many
+  maxConnections?: number;
+  efConstruction?: number;
+  efSearch?: number;
+  curvature?: number;
+  // Seed for level assignment, so the same insertions build the same graph
+  seed?: number;
+}
+
+export interface Neighbor {
+  id: string;
+  distance: number;
+}
+
+interface Point {
+  // Typed copy of the vector so the distance loop stays monomorphic
+  vector: Float64Array;
+  // 1 - c|x|^2, cached so a hyperbolic distance costs a single pass
+  factor: number;
+}
+
+// Nodes are addressed by integer slot internally; ids only cross the API
+interface HnswNode extends Point {
+  slot: number;
+  id: string;
+  level: number;
+  // Outbound and inbound links per layer; inbound links make removal local
+  neighbors: number[][];
+  inbound: Set<number>[];
+}
+
+interface Candidate {
+  slot: number;
+  distance: number;
+}
+
+const MAX_LEVEL = 16;
+const MIN_FACTOR = 1e-15;
+// Neighbour lists may overflow by this factor before being pruned, so the
+// selection heuristic runs once per several back-links instead of every time
+const PRUNE_SLACK = 1.5;
+
+export class HnswIndex {
+  private nodes: Array<HnswNode | undefined> = [];
+  private slots: Map<string, number> = new Map();
+  private freeSlots: number[] = [];
+  private entryPoint: number = -1;
+  private dimension: number | null = null;
+  private visitMarks: Uint32Array = new Uint32Array(0);
+  private visitEpoch: number = 0;
+
+  private maxConnections: number;
+  private efConstruction: number;
+  private efSearch: number;
+  private c: number;
+  private levelMultiplier: number;
+  private random: () => number;
+
+  constructor(options: HnswOptions = {}) {
+    this.maxConnections = options.maxConnections ?? 16;
+    this.efConstruction = options.efConstruction ?? 100;
+    this.efSearch = options.efSearch ?? 64;
+    this.c = -(options.curvature ?? -1);
+    if (!(this.c > 0) || !Number.isFinite(this.c)) {
+      throw new Error(`Hyperbolic curvature must be a finite negative number, got ${options.curvature}`);
+    }
+    this.levelMultiplier = 1 / Math.log(Math.max(this.maxConnections, 2));
+    this.random = mulberry32(options.seed ?? 0x9e3779b9);
+  }
+
+  get size(): number {
+    return this.slots.size;
+  }
+
+  has(id: string): boolean {
+    return this.slots.has(id);
+  }
+
+  clear(): void {
+    this.nodes = [];
+    this.slots.clear();
+    this.freeSlots = [];
+    this.entryPoint = -1;
+    this.dimension = null;
+  }
+
+  /**
+   * Insert a vector, replacing any existing vector with the same id
+   */
+  add(id: string, vector: number[]): void {
+    if (this.slots.has(id)) {
+      this.remove(id);
+    }
+
+    const point = this.point(vector);
+    const level = this.randomLevel();
+    const slot = this.freeSlots.length > 0 ? this.freeSlots.pop()! : this.nodes.length;
+    const node: HnswNode = {
+      vector: point.vector,
+      factor: point.factor,
+      slot,
+      id,
+      level,
+      neighbors: Array.from({ length: level + 1 }, () => []),
+      inbound: Array.from({ length: level + 1 }, () => new Set<number>())
+    };
+    this.nodes[slot] = node;
+    this.slots.set(id, slot);
+
+    if (this.entryPoint < 0) {
+      this.entryPoint = slot;
+      return;
+    }
+
+    const entryNode = this.nodes[this.entryPoint]!;
+    let entry: Candidate[] = [{ slot: entryNode.slot, distance: this.measure(node, entryNode) }];
+    for (let layer = entryNode.level; layer > level; layer--) {
+      entry = this.searchLayer(node, entry, 1, layer);
+    }
+
+    for (let layer = Math.min(level, entryNode.level); layer >= 0; layer--) {
+      const candidates = this.searchLayer(node, entry, this.efConstruction, layer);
+      for (const neighbor of this.selectNeighbors(candidates, this.maxConnections)) {
+        const other = this.nodes[neighbor.slot]!;
+        this.connect(node, other, layer);
+        this.connect(other, node, layer);
+        if (other.neighbors[layer].length > this.maxConnectionsAt(layer) * PRUNE_SLACK) {
+          this.relink(other, layer, other.neighbors[layer]);
+        }
+      }
+      entry = candidates;
+    }
+
+    if (level > entryNode.level) {
+      this.entryPoint = slot;
+    }
+  }
+
+  remove(id: string): boolean {
+    const slot = this.slots.get(id);
+    if (slot === undefined) {
+      return false;
+    }
+    const node = this.nodes[slot]!;
+    this.slots.delete(id);
+    this.nodes[slot] = undefined;
+    this.freeSlots.push(slot);
+
+    for (let layer = 0; layer <= node.level; layer++) {
+      for (const outSlot of node.neighbors[layer]) {
+        this.nodes[outSlot]!.inbound[layer].delete(slot);
+      }
+      for (const inSlot of node.inbound[layer]) {
+        const other = this.nodes[inSlot]!;
+        other.neighbors[layer] = other.neighbors[layer].filter(neighbor => neighbor !== slot);
+        const candidates = new Set([...other.neighbors[layer], ...node.neighbors[layer]]);
+        candidates.delete(inSlot);
+        this.relink(other, layer, candidates);
+      }
+    }
+
+    if (this.entryPoint === slot) {
+      this.entryPoint = -1;
+      let topLevel = -1;
+      for (const candidate of this.nodes) {
+        if (candidate && candidate.level > topLevel) {
+          topLevel = candidate.level;
+          this.entryPoint = candidate.slot;
+        }
+      }
+    }
+    return true;
+  }
+
+  /**
+   * Approximate k nearest neighbours, closest first
+   */
+  search(query: number[], k: number, ef: number = this.efSearch): Neighbor[] {
+    if (this.entryPoint < 0 || k <= 0) {
+      return [];
+    }
+
+    const point = this.point(query);
+    const entryNode = this.nodes[this.entryPoint]!;
+    let entry: Candidate[] = [{ slot: entryNode.slot, distance: this.measure(point, entryNode) }];
+    for (let layer = entryNode.level; layer > 0; layer--) {
+      entry = this.searchLayer(point, entry, 1, layer);
+    }
+    return this.searchLayer(point, entry, Math.max(ef, k), 0)
+      .slice(0, k)
+      .map(candidate => ({ id: this.nodes[candidate.slot]!.id, distance: candidate.distance }));
+  }
+
+  /**
+   * Neighbours within `radius`, closest first. The beam is widened until it
+   * reaches past the radius, so recall matches that of a top-k query.
+   */
+  searchRadius(query: number[], radius: number, limit: number = Infinity): Neighbor[] {
+    let ef = this.efSearch;
+    for (;;) {
+      const results = this.search(query, ef, ef);
+      const within = results.filter(result => result.distance <= radius);
+      if (within.length < results.length || results.length < ef || within.length >= limit) {
+        return within.slice(0, limit);
+      }
+      ef *= 2;
+    }
+  }
+
+  private searchLayer(query: Point, entry: Candidate[], ef: number, layer: number): Candidate[] {
+    const epoch = this.nextVisitEpoch();
+    const marks = this.visitMarks;
+    const candidates = new BinaryHeap((a, b) => a.distance < b.distance);
+    const results = new BinaryHeap((a, b) => a.distance > b.distance);
+
+    for (const candidate of entry) {
+      marks[candidate.slot] = epoch;
+      candidates.push(candidate);
+      results.push(candidate);
+      if (results.size > ef) {
+        results.pop();
+      }
+    }
+
+    while (candidates.size > 0) {
+      const current = candidates.pop()!;
+      if (results.size >= ef && current.distance > results.peek()!.distance) {
+        break;
+      }
+
+      for (const slot of this.nodes[current.slot]!.neighbors[layer]) {
+        if (marks[slot] === epoch) {
+          continue;
+        }
+        marks[slot] = epoch;
+
+        const distance = this.measure(query, this.nodes[slot]!);
+        if (results.size < ef || distance < results.peek()!.distance) {
+          candidates.push({ slot, distance });
+          results.push({ slot, distance });
+          if (results.size > ef) {
+            results.pop();
+          }
+        }
+      }
+    }
+
+    return results.toArray().sort((a, b) => a.distance - b.distance);
+  }
+
+  /**
+   * Neighbour-selection heuristic: skip a candidate that is closer to an
+   * already selected neighbour than to the base node, so links spread across
+   * directions instead of piling into one cluster. Skipped candidates fill any
+   * remaining slots.
+   */
+  private selectNeighbors(candidates: Candidate[], count: number): Candidate[] {
+    const selected: Candidate[] = [];
+    const skipped: Candidate[] = [];
+
+    for (const candidate of candidates) {
+      if (selected.length >= count) {
+        break;
+      }
+      const node = this.nodes[candidate.slot]!;
+      const dominated = selected.some(chosen => this.measure(node, this.nodes[chosen.slot]!) < candidate.distance);
+      (dominated ? skipped : selected).push(candidate);
+    }
+
+    for (const candidate of skipped) {
+      if (selected.length >= count) {
+        break;
+      }
+      selected.push(candidate);
+    }
+    return selected;
+  }
+
+  private relink(node: HnswNode, layer: number, candidateSlots: Iterable<number>): void {
+    const candidates = Array.from(new Set(candidateSlots), slot => ({ slot, distance: this.measure(node, this.nodes[slot]!) }))
+      .sort((a, b) => a.distance - b.distance);
+    const keep = new Set(this.selectNeighbors(candidates, this.maxConnectionsAt(layer)).map(candidate => candidate.slot));
+
+    const linked: number[] = [];
+    for (const slot of node.neighbors[layer]) {
+      const target = this.nodes[slot]!;
+      // Never drop the last link into a node: it would become unreachable
+      if (keep.has(slot) || target.inbound[layer].size <= 1) {
+        linked.push(slot);
+        keep.delete(slot);
+      } else {
+        target.inbound[layer].delete(node.slot);
+      }
+    }
+    node.neighbors[layer] = linked;
+
+    for (const slot of keep) {
+      this.connect(node, this.nodes[slot]!, layer);
+    }
+  }
+
+  private connect(from: HnswNode, to: HnswNode, layer: number): void {
+    if (!to.inbound[layer].has(from.slot)) {
+      from.neighbors[layer].push(to.slot);
+      to.inbound[layer].add(from.slot);
+    }
+  }
+
+  private nextVisitEpoch(): number {
+    if (this.visitMarks.length < this.nodes.length) {
+      this.visitMarks = new Uint32Array(Math.max(this.nodes.length * 2, 1024));
+      this.visitEpoch = 0;
+    }
+    if (this.visitEpoch === 0xffffffff) {
+      this.visitMarks.fill(0);
+      this.visitEpoch = 0;
+    }
+    return ++this.visitEpoch;
+  }
+
+  private point(vector: number[]): Point {
+    if (this.dimension === null) {
+      this.dimension = vector.length;
+    } else if (vector.length !== this.dimension) {
+      throw new Error(`Dimension mismatch: ${vector.length} vs ${this.dimension}`);
+    }
+
+    const coordinates = Float64Array.from(vector);
+    let squaredNorm = 0;
+    for (let i = 0; i < coordinates.length; i++) {
+      squaredNorm += coordinates[i] * coordinates[i];
+    }
+    return { vector: coordinates, factor: Math.max(1 - this.c * squaredNorm, MIN_FACTOR) };
+  }
+
+  /**
+   * Poincaré-ball distance, as in utils/hyperbolic but using the cached factors
+   */
+  private measure(a: Point, b: Point): number {
+    const u = a.vector;
+    const v = b.vector;
+    let diffSquared = 0;
+    for (let i = 0; i < u.length; i++) {
+      const diff = u[i] - v[i];
+      diffSquared += diff * diff;
+    }
+    const y = 2 * this.c * diffSquared / (a.factor * b.factor);
+    return Math.log1p(y + Math.sqrt(y * (y + 2))) / Math.sqrt(this.c);
+  }
+
+  private maxConnectionsAt(layer: number): number {
+    return layer === 0 ? this.maxConnections * 2 : this.maxConnections;
+  }
+
+  private randomLevel(): number {
+    const level = Math.floor(-Math.log(1 - this.random()) * this.levelMultiplier);
+    return Math.min(level, MAX_LEVEL);
+  }
+}
+
+class BinaryHeap {
+  private items: Candidate[] = [];
+
+  constructor(private before: (a: Candidate, b: Candidate) => boolean) {}
+
+  get size(): number {
+    return this.items.length;
+  }
+
+  peek(): Candidate | undefined {
+    return this.items[0];
+  }
+
+  push(item: Candidate): void {
+    const items = this.items;
+    items.push(item);
+    let i = items.length - 1;
+    while (i > 0) {
+      const parent = (i - 1) >> 1;
+      if (!this.before(items[i], items[parent])) {
+        break;
+      }
+      [items[i], items[parent]] = [items[parent], items[i]];
+      i = parent;
+    }
+  }
+
+  pop(): Candidate | undefined {
+    const items = this.items;
+    const top = items[0];
+    const last = items.pop();
+    if (items.length > 0 && last) {
+      items[0] = last;
+      let i = 0;
+      for (;;) {
+        const left = 2 * i + 1;
+        const right = left + 1;
+        let first = i;
+        if (left < items.length && this.before(items[left], items[first])) first = left;
+        if (right < items.length && this.before(items[right], items[first])) first = right;
+        if (first === i) {
+          break;
+        }
+        [items[i], items[first]] = [items[first], items[i]];
+        i = first;
+      }
+    }
+    return top;
+  }
+
+  toArray(): Candidate[] {
+    return this.items.slice();
+  }
+}
@@ -0,0 +1,174 @@
+/**
+ * Memory Decay
+ *
+ * Ebbinghaus-style forgetting curve per memory: retention falls as
+ * exp(-elapsed / stability) since the memory was last reinforced. New
+ * memories start with a stability that grows with their importance, and every
+ * retrieval reinforces them, growing stability the more the memory had already
+ * faded (the spacing effect), so a burst of retrievals counts about as much as
+ * one. Pinned memories never decay.
+ */
+
+import { Memory } from '../types/memory';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface DecayOptions {
+  // Stability in milliseconds of a new memory with importance 0
+  initialStability?: number;
+  // Stability multiplier per unit of importance: initial * (1 + weight * importance)
+  importanceWeight?: number;
+  // Largest factor a retrieval can multiply stability by
+  reinforcement?: number;
+  // Importance assumed for memories without metadata.importance
+  defaultImportance?: number;
+  // Sweeps demote memories whose retention falls below this
+  demoteThreshold?: number;
+  // Sweeps forget memories whose retention falls below this
+  forgetThreshold?: number;
+  // Milliseconds between background sweeps; 0 (the default) disables them
+  sweepInterval?: number;
+}
+
+export interface MemoryStrength {
+  id: string;
+  // Milliseconds for retention to fall to 1/e without reinforcement
+  stability: number;
+  lastReinforced: Date;
+  reinforcements: number;
+  pinned: boolean;
+}
+
+export interface DecayVerdict {
+  id: string;
+  retention: number;
+  action: 'keep' | 'demote' | 'forget';
+}
+
+export const DEFAULT_DECAY_OPTIONS: Required<DecayOptions> = {
+  initialStability: DAY,
+  importanceWeight: 4,
+  reinforcement: 2,
+  defaultImportance: 0.5,
+  demoteThreshold: 0.2,
+  forgetThreshold: 0.01,
+  sweepInterval: 0
+};
+
+export class MemoryDecay {
+  private strengths: Map<string, MemoryStrength> = new Map();
+  private options: Required<DecayOptions>;
+
+  constructor(options: DecayOptions = {}) {
+    this.options = { ...DEFAULT_DECAY_OPTIONS, ...options };
+    if (!(this.options.forgetThreshold <= this.options.demoteThreshold)) {
+      throw new Error('Decay forgetThreshold must not exceed demoteThreshold');
+    }
+    if (!(this.options.initialStability > 0) || !(this.options.reinforcement >= 1)) {
+      throw new Error('Decay initialStability must be positive and reinforcement at least 1');
+    }
+  }
+
+  get sweepInterval(): number {
+    return this.options.sweepInterval;
+  }
+
+  /**
+   * Start tracking a memory, keeping its strength if it is already tracked.
+   * `metadata.pinned` pins the memory from the start.
+   */
+  track(memory: Memory, now: Date = new Date()): MemoryStrength {
+    const existing = this.strengths.get(memory.id);
+    if (existing) {
+      return existing;
+    }
+
+    const importance = Number(memory.metadata?.importance);
+    const weight = Number.isFinite(importance) ? importance : this.options.defaultImportance;
+    const strength: MemoryStrength = {
+      id: memory.id,
+      stability: this.options.initialStability * (1 + this.options.importanceWeight * Math.max(0, weight)),
+      lastReinforced: now,
+      reinforcements: 0,
+      pinned: memory.metadata?.pinned === true
+    };
+    this.strengths.set(memory.id, strength);
+    return strength;
+  }
+
+  /**
+   * Load a persisted strength, e.g. a storage record with string dates
+   */
+  restore(strength: MemoryStrength): void {
+    this.strengths.set(strength.id, { ...strength, lastReinforced: new Date(strength.lastReinforced) });
+  }
+
+  get(id: string): MemoryStrength | undefined {
+    return this.strengths.get(id);
+  }
+
+  remove(id: string): boolean {
+    return this.strengths.delete(id);
+  }
+
+  clear(): void {
+    this.strengths.clear();
+  }
+
+  retention(id: string, now: Date = new Date()): number {
+    const strength = this.strengths.get(id);
+    if (!strength || strength.pinned) {
+      return 1;
+    }
+    const elapsed = Math.max(0, now.getTime() - strength.lastReinforced.getTime());
+    return Math.exp(-elapsed / strength.stability);
+  }
+
+  /**
+   * Record a retrieval. Stability grows by up to `reinforcement`, scaled by
+   * how much of the memory had been forgotten.
+   */
+  reinforce(id: string, now: Date = new Date()): MemoryStrength | undefined {
+    const strength = this.strengths.get(id);
+    if (!strength) {
+      return undefined;
+    }
+
+    const forgotten = 1 - this.retention(id, now);
+    strength.stability *= 1 + (this.options.reinforcement - 1) * forgotten;
+    strength.lastReinforced = now;
+    strength.reinforcements++;
+    return strength;
+  }
+
+  setPinned(id: string, pinned: boolean, now: Date = new Date()): MemoryStrength | undefined {
+    const strength = this.strengths.get(id);
+    if (!strength) {
+      return undefined;
+    }
+
+    // Unpinning starts the curve afresh rather than from before the pin
+    if (strength.pinned && !pinned) {
+      strength.lastReinforced = now;
+    }
+    strength.pinned = pinned;
+    return strength;
+  }
+
+  isPinned(id: string): boolean {
+    return this.strengths.get(id)?.pinned === true;
+  }
+
+  /**
+   * What a sweep should do with each tracked memory
+   */
+  evaluate(now: Date = new Date()): DecayVerdict[] {
+    return Array.from(this.strengths.keys(), id => {
+      const retention = this.retention(id, now);
+      const action = retention < this.options.forgetThreshold ? 'forget'
+        : retention < this.options.demoteThreshold ? 'demote'
+          : 'keep';
+      return { id, retention, action };
+    });
+  }
+}
@@ -0,0 +1,243 @@
+/**
+ * Memory Graph
+ *
+ * Typed, directed links between memories: one memory causes, contradicts,
+ * elaborates or follows another. The graph only holds memory ids; whoever
+ * owns the memories resolves them and removes a memory's links when the
+ * memory goes. Traversals follow links forwards, backwards or both ways,
+ * breadth first, so every memory is reached in the fewest hops.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { MemoryLink, MemoryRelationType, TraversalDirection, TraversalOptions } from '../interfaces/AIPersistenceCore';
+import { mergeOptions } from '../utils/options';
+
+export const MEMORY_RELATION_TYPES: MemoryRelationType[] = ['causes', 'contradicts', 'elaborates', 'follows'];
+
+export const TRAVERSAL_DIRECTIONS: TraversalDirection[] = ['out', 'in', 'both'];
+
+export const DEFAULT_TRAVERSAL_OPTIONS: Required<TraversalOptions> = {
+  types: [],
+  direction: 'both',
+  hops: 2
+};
+
+// Hops a path search follows unless told otherwise
+export const MAX_PATH_HOPS = 6;
+
+export interface MemoryLinkInput {
+  source: string;
+  target: string;
+  relationshipType: MemoryRelationType;
+  distance?: number;
+  strength?: number;
+  confidence?: number;
+}
+
+interface MemoryLinkStep {
+  link: MemoryLink;
+  // The memory the step arrives at
+  reached: string;
+}
+
+/**
+ * Fill in defaults and throw on options that cannot be traversed
+ */
+export function resolveTraversalOptions(...layers: Array<TraversalOptions | undefined>): Required<TraversalOptions> {
+  const options = mergeOptions<Required<TraversalOptions>>(DEFAULT_TRAVERSAL_OPTIONS, ...layers);
+
+  if (!Array.isArray(options.types)) {
+    throw new Error('Invalid traversal options: types must be a list');
+  }
+  for (const type of options.types) {
+    if (!MEMORY_RELATION_TYPES.includes(type)) {
+      throw new Error(`Invalid traversal options: unknown type ${type}; expected one of ${MEMORY_RELATION_TYPES.join(', ')}`);
+    }
+  }
+  if (!TRAVERSAL_DIRECTIONS.includes(options.direction)) {
+    throw new Error(`Invalid traversal options: unknown direction ${options.direction}; expected one of ${TRAVERSAL_DIRECTIONS.join(', ')}`);
+  }
+  if (!(Number.isInteger(options.hops) && options.hops >= 0)) {
+    throw new Error(`Invalid traversal options: hops must be a whole number of at least 0, got ${options.hops}`);
+  }
+  return options;
+}
+
+export class MemoryGraph {
+  private links: Map<string, MemoryLink> = new Map();
+  // Memory id to the ids of links leaving it, and of links arriving at it
+  private outgoing: Map<string, Set<string>> = new Map();
+  private incoming: Map<string, Set<string>> = new Map();
+
+  /**
+   * Link `source` to `target`. A link of the same type between the same
+   * memories is replaced, keeping its id.
+   */
+  add(input: MemoryLinkInput): MemoryLink {
+    if (!MEMORY_RELATION_TYPES.includes(input.relationshipType)) {
+      throw new Error(`Unknown relationship type ${input.relationshipType}; expected one of ${MEMORY_RELATION_TYPES.join(', ')}`);
+    }
+    if (input.source === input.target) {
+      throw new Error('A memory cannot be linked to itself');
+    }
+    for (const [field, value] of [['strength', input.strength], ['confidence', input.confidence]] as const) {
+      if (value !== undefined && !(value >= 0 && value <= 1)) {
+        throw new Error(`Link ${field} must be in [0, 1], got ${value}`);
+      }
+    }
+
+    const existing = this.linksOf(input.source, 'out')
+      .find(link => link.relationshipType === input.relationshipType && link.target === input.target);
+    const link: MemoryLink = {
+      id: existing?.id || uuidv4(),
+      source: input.source,
+      target: input.target,
+      relationshipType: input.relationshipType,
+      distance: input.distance ?? 0,
+      strength: input.strength ?? 1,
+      confidence: input.confidence ?? 1,
+      timestamp: new Date()
+    };
+    this.put(link);
+    return link;
+  }
+
+  remove(linkId: string): MemoryLink | null {
+    const link = this.links.get(linkId);
+    if (!link) {
+      return null;
+    }
+    this.links.delete(linkId);
+    this.outgoing.get(link.source)?.delete(linkId);
+    this.incoming.get(link.target)?.delete(linkId);
+    return link;
+  }
+
+  /**
+   * Remove every link to or from the memory, returning them
+   */
+  removeMemory(memoryId: string): MemoryLink[] {
+    const removed = this.linksOf(memoryId, 'both');
+    for (const link of removed) {
+      this.remove(link.id);
+    }
+    this.outgoing.delete(memoryId);
+    this.incoming.delete(memoryId);
+    return removed;
+  }
+
+  get(linkId: string): MemoryLink | null {
+    return this.links.get(linkId) || null;
+  }
+
+  /**
+   * All links, or the links to and from one memory
+   */
+  getLinks(memoryId?: string): MemoryLink[] {
+    return memoryId === undefined ? Array.from(this.links.values()) : this.linksOf(memoryId, 'both');
+  }
+
+  /**
+   * Links leaving the memory, arriving at it, or both
+   */
+  linksOf(memoryId: string, direction: TraversalDirection): MemoryLink[] {
+    const ids = [
+      ...(direction !== 'in' ? this.outgoing.get(memoryId) || [] : []),
+      ...(direction !== 'out' ? this.incoming.get(memoryId) || [] : [])
+    ];
+    return Array.from(new Set(ids)).map(id => this.links.get(id)!);
+  }
+
+  clear(): void {
+    this.links.clear();
+    this.outgoing.clear();
+    this.incoming.clear();
+  }
+
+  /**
+   * Replace the graph with persisted links
+   */
+  load(links: MemoryLink[]): void {
+    this.clear();
+    for (const link of links) {
+      this.put({ ...link, timestamp: new Date(link.timestamp) });
+    }
+  }
+
+  /**
+   * Memories within `hops` links of the start, with the fewest hops to each;
+   * the start itself is reached in 0
+   */
+  reach(start: string, options: Required<TraversalOptions>): Map<string, number> {
+    const hops = new Map<string, number>([[start, 0]]);
+    let frontier = [start];
+
+    for (let depth = 1; depth <= options.hops && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const { reached } of this.steps(id, options)) {
+          if (!hops.has(reached)) {
+            hops.set(reached, depth);
+            next.push(reached);
+          }
+        }
+      }
+      frontier = next;
+    }
+    return hops;
+  }
+
+  /**
+   * Links of the fewest-hop path from one memory to another, at most
+   * `hops` long; empty from a memory to itself, null when there is none
+   */
+  path(from: string, to: string, options: Required<TraversalOptions>): MemoryLink[] | null {
+    const previous = new Map<string, { id: string; link: MemoryLink } | null>([[from, null]]);
+    let frontier = [from];
+
+    for (let depth = 0; depth < options.hops && !previous.has(to) && frontier.length > 0; depth++) {
+      const next: string[] = [];
+      for (const id of frontier) {
+        for (const { link, reached } of this.steps(id, options)) {
+          if (!previous.has(reached)) {
+            previous.set(reached, { id, link });
+            next.push(reached);
+          }
+        }
+      }
+      frontier = next;
+    }
+
+    if (!previous.has(to)) {
+      return null;
+    }
+    const links: MemoryLink[] = [];
+    for (let step = previous.get(to); step; step = previous.get(step.id)) {
+      links.unshift(step.link);
+    }
+    return links;
+  }
+
+  /**
+   * Links whose source and target are both among the memories
+   */
+  between(memoryIds: Iterable<string>): MemoryLink[] {
+    const ids = new Set(memoryIds);
+    return Array.from(ids)
+      .flatMap(id => this.linksOf(id, 'out'))
+      .filter(link => ids.has(link.target));
+  }
+
+  private put(link: MemoryLink): void {
+    this.links.set(link.id, link);
+    this.outgoing.set(link.source, (this.outgoing.get(link.source) || new Set<string>()).add(link.id));
+    this.incoming.set(link.target, (this.incoming.get(link.target) || new Set<string>()).add(link.id));
+  }
+
+  // Links the traversal may follow from the memory, and where each leads
+  private steps(memoryId: string, options: Required<TraversalOptions>): MemoryLinkStep[] {
+    return this.linksOf(memoryId, options.direction)
+      .filter(link => options.types.length === 0 || options.types.includes(link.relationshipType))
+      .map(link => ({ link, reached: link.source === memoryId ? link.target : link.source }));
+  }
+}
@@ -0,0 +1,257 @@
+/**
+ * Memory Indexer
+ *
+ * Inverted index over memory content, ranked with BM25. Terms are stemmed and
+ * stop words dropped, but token positions are kept so quoted phrases still
+ * match across them. Each memory's entry is a self-contained IndexedDocument
+ * that can be persisted next to the memory and loaded back without
+ * re-tokenizing.
+ *
+ * Query syntax: plain words are scored and any of them may match; `prefix*`
+ * matches every indexed term starting with the prefix; `"quoted phrases"`
+ * must appear in order for a memory to match at all.
+ */
+
+import { createHash } from 'crypto';
+import { STOPWORDS, stem, tokenize } from '../utils/text';
+
+export interface MemoryIndexerOptions {
+  // Term-frequency saturation
+  k1?: number;
+  // Document-length normalization, from 0 (none) to 1 (full)
+  b?: number;
+}
+
+export interface SearchHit {
+  id: string;
+  score: number;
+  // Indexed (stemmed) terms of the memory that matched the query
+  terms: string[];
+}
+
+export interface IndexedDocument {
+  id: string;
+  // Hash of the content and index format; a mismatch marks the entry stale
+  hash: string;
+  // Number of indexed (non-stop-word) tokens
+  length: number;
+  // Stemmed term -> token positions in the content
+  terms: Record<string, number[]>;
+}
+
+interface ParsedQuery {
+  terms: string[];
+  prefixes: string[];
+  phrases: PhraseTerm[][];
+}
+
+interface PhraseTerm {
+  term: string;
+  offset: number;
+}
+
+// Bump when tokenization or stemming changes so persisted entries are rebuilt
+const INDEX_FORMAT = 1;
+
+export class MemoryIndexer {
+  private documents: Map<string, IndexedDocument> = new Map();
+  // Term -> memory id -> positions
+  private postings: Map<string, Map<string, number[]>> = new Map();
+  private totalLength: number = 0;
+  private k1: number;
+  private b: number;
+
+  constructor(options: MemoryIndexerOptions = {}) {
+    this.k1 = options.k1 ?? 1.2;
+    this.b = options.b ?? 0.75;
+  }
+
+  get size(): number {
+    return this.documents.size;
+  }
+
+  /**
+   * Index content under `id`, replacing any previous entry
+   */
+  index(id: string, content: string): IndexedDocument {
+    const positions = new Map<string, number[]>();
+    let length = 0;
+    tokenize(content).forEach((token, position) => {
+      if (STOPWORDS.has(token)) {
+        return;
+      }
+      const term = stem(token);
+      const list = positions.get(term);
+      if (list) {
+        list.push(position);
+      } else {
+        positions.set(term, [position]);
+      }
+      length++;
+    });
+
+    const document: IndexedDocument = { id, hash: contentHash(content), length, terms: Object.fromEntries(positions) };
+    this.add(document);
+    return document;
+  }
+
+  /**
+   * Load a persisted entry, re-indexing the content instead when the entry is
+   * stale. Returns whether the persisted entry was used.
+   */
+  restore(document: IndexedDocument, content: string): boolean {
+    if (document.hash !== contentHash(content)) {
+      this.index(document.id, content);
+      return false;
+    }
+    this.add(document);
+    return true;
+  }
+
+  remove(id: string): boolean {
+    const document = this.documents.get(id);
+    if (!document) {
+      return false;
+    }
+
+    this.documents.delete(id);
+    this.totalLength -= document.length;
+    for (const term of Object.keys(document.terms)) {
+      const postings = this.postings.get(term)!;
+      postings.delete(id);
+      if (postings.size === 0) {
+        this.postings.delete(term);
+      }
+    }
+    return true;
+  }
+
+  clear(): void {
+    this.documents.clear();
+    this.postings.clear();
+    this.totalLength = 0;
+  }
+
+  getDocument(id: string): IndexedDocument | undefined {
+    return this.documents.get(id);
+  }
+
+  /**
+   * Memories matching the query, most relevant first
+   */
+  search(query: string, limit: number = Infinity): SearchHit[] {
+    if (this.documents.size === 0) {
+      return [];
+    }
+
+    const parsed = parseQuery(query);
+    const hits = new Map<string, SearchHit>();
+
+    for (const term of new Set(parsed.terms)) {
+      this.accumulate(hits, [term]);
+    }
+    for (const prefix of new Set(parsed.prefixes)) {
+      const expansions = Array.from(this.postings.keys()).filter(term => term.startsWith(prefix));
+      this.accumulate(hits, expansions);
+    }
+
+    return Array.from(hits.values())
+      .filter(hit => parsed.phrases.every(phrase => this.containsPhrase(hit.id, phrase)))
+      .sort((a, b) => b.score - a.score || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0))
+      .slice(0, limit);
+  }
+
+  private add(document: IndexedDocument): void {
+    this.remove(document.id);
+    this.documents.set(document.id, document);
+    this.totalLength += document.length;
+    for (const [term, positions] of Object.entries(document.terms)) {
+      let postings = this.postings.get(term);
+      if (!postings) {
+        postings = new Map();
+        this.postings.set(term, postings);
+      }
+      postings.set(document.id, positions);
+    }
+  }
+
+  // Add one query clause to every matching memory's score; a clause with
+  // several alternative terms (a prefix) counts its best-scoring term only
+  private accumulate(hits: Map<string, SearchHit>, alternatives: string[]): void {
+    const best = new Map<string, { term: string; score: number }>();
+    for (const term of alternatives) {
+      const postings = this.postings.get(term);
+      if (!postings) {
+        continue;
+      }
+      for (const [id, positions] of postings) {
+        const score = this.bm25(positions.length, postings.size, this.documents.get(id)!.length);
+        if (score > (best.get(id)?.score ?? 0)) {
+          best.set(id, { term, score });
+        }
+      }
+    }
+    for (const [id, { term, score }] of best) {
+      const hit = hits.get(id);
+      if (hit) {
+        hit.score += score;
+        hit.terms.push(term);
+      } else {
+        hits.set(id, { id, score, terms: [term] });
+      }
+    }
+  }
+
+  private bm25(termFrequency: number, documentFrequency: number, length: number): number {
+    const count = this.documents.size;
+    const averageLength = this.totalLength / count || 1;
+    const idf = Math.log(1 + (count - documentFrequency + 0.5) / (documentFrequency + 0.5));
+    const norm = this.k1 * (1 - this.b + this.b * length / averageLength);
+    return idf * termFrequency * (this.k1 + 1) / (termFrequency + norm);
+  }
+
+  private containsPhrase(id: string, phrase: PhraseTerm[]): boolean {
+    const positions = (term: string) => this.postings.get(term)?.get(id) || [];
+    const [first, ...rest] = phrase;
+    return positions(first.term).some(start => rest.every(({ term, offset }) =>
+      positions(term).includes(start + offset - first.offset)));
+  }
+}
+
+function parseQuery(query: string): ParsedQuery {
+  const parsed: ParsedQuery = { terms: [], prefixes: [], phrases: [] };
+
+  for (const match of (query || '').matchAll(/"([^"]*)"|(\S+)/g)) {
+    if (match[1] !== undefined) {
+      // Offsets count stop words, so "state of the art" keeps its gaps
+      const phrase: PhraseTerm[] = [];
+      tokenize(match[1]).forEach((token, offset) => {
+        if (!STOPWORDS.has(token)) {
+          phrase.push({ term: stem(token), offset });
+        }
+      });
+      parsed.terms.push(...phrase.map(({ term }) => term));
+      if (phrase.length > 1) {
+        parsed.phrases.push(phrase);
+      }
+      continue;
+    }
+
+    const tokens = tokenize(match[2]);
+    // Prefixes match indexed (stemmed) terms, so they are not stemmed themselves
+    if (match[2].endsWith('*') && tokens.length > 0) {
+      parsed.prefixes.push(tokens.pop()!);
+    }
+    for (const token of tokens) {
+      if (!STOPWORDS.has(token)) {
+        parsed.terms.push(stem(token));
+      }
+    }
+  }
+
+  return parsed;
+}
+
+function contentHash(content: string): string {
+  return createHash('sha256').update(`${INDEX_FORMAT}\n${content}`).digest('hex').slice(0, 16);
+}
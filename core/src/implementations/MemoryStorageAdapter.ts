@@ -0,0 +1,55 @@
+/**
+ * In-Memory Storage Adapter
+ *
+ * Non-durable storage for tests and ephemeral instances
+ */
+
+import { StorageAdapter, StorageCollection, StorageRecord, STORAGE_COLLECTIONS } from '../interfaces/StorageAdapter';
+
+export class MemoryStorageAdapter implements StorageAdapter {
+  private collections: Map<StorageCollection, Map<string, string>> = new Map();
+
+  constructor() {
+    for (const collection of STORAGE_COLLECTIONS) {
+      this.collections.set(collection, new Map());
+    }
+  }
+
+  async initialize(): Promise<void> {
+    // Nothing to load
+  }
+
+  async close(): Promise<void> {
+    // Records are kept so the instance can be reopened
+  }
+
+  async flush(): Promise<void> {
+    // Nothing to flush
+  }
+
+  async get<T extends StorageRecord>(collection: StorageCollection, id: string): Promise<T | null> {
+    const serialized = this.records(collection).get(id);
+    return serialized === undefined ? null : JSON.parse(serialized);
+  }
+
+  async put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void> {
+    // Store a serialized copy so callers see the same semantics as durable adapters
+    this.records(collection).set(record.id, JSON.stringify(record));
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<boolean> {
+    return this.records(collection).delete(id);
+  }
+
+  async scan<T extends StorageRecord>(collection: StorageCollection): Promise<T[]> {
+    return Array.from(this.records(collection).values()).map(serialized => JSON.parse(serialized));
+  }
+
+  private records(collection: StorageCollection): Map<string, string> {
+    const records = this.collections.get(collection);
+    if (!records) {
+      throw new Error(`Unknown storage collection: ${collection}`);
+    }
+    return records;
+  }
+}
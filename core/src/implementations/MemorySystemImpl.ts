@@ -5,13 +5,53 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { MemorySystem, Memory, MemoryType, MemoryMetadata } from '../types/memory';
+import { MemorySystem, Memory, MemoryType, MemoryMetadata, MemoryItem, AttentionFocus, ProcessingTask, HierarchyRelationship } from '../types/memory';
+import { Embedder } from '../interfaces/Embedder';
+import { HashingEmbedder } from './HashingEmbedder';
+import { HnswIndex } from './HnswIndex';
+import { IndexedDocument, MemoryIndexer } from './MemoryIndexer';
+import { MemoryDecay, MemoryStrength } from './MemoryDecay';
+import { SpillReason, WorkingMemoryImpl, WorkingMemoryResult, itemText } from './WorkingMemoryImpl';
+import { ClusterOptions, CompressionOptions, CompressionReport, ConflictQuery, ConflictResolution, ConflictResolutionResult, ConsolidationOptions, ConsolidationReport, DecaySweepReport, DedupOptions, DedupStats, ForgetOptions, HierarchyRequest, LinkOptions, MemoryClustering, MemoryConflict, MemoryHierarchy, MemoryHierarchyNode, MemoryLink, MemoryPage, MemoryPath, MemoryQuery, MemoryRelationType, MemoryStoreResult, MemorySubgraph, MemoryTimeline, RecallOptions, RecallResult, TimelineRequest, TraversalOptions } from '../interfaces/AIPersistenceCore';
+import { queryMemories } from '../utils/memoryQuery';
+import { RecallCandidate, rankRecall } from '../utils/recall';
+import { distanceFromOrigin, poincareDistance } from '../utils/hyperbolic';
+import { consolidatedMetadata, groupMemories, resolveConsolidationOptions, summarizeMemories } from '../utils/consolidation';
+import { memoryEvent, resolveTimelineOptions, segmentTimeline } from '../utils/timeline';
+import { centerEmbedding, clusterPoints, resolveClusterOptions } from '../utils/clustering';
+import { buildHierarchy, resolveHierarchyOptions } from '../utils/hierarchy';
+import { compressContent, resolveCompressionOptions, summaryRecord } from '../utils/compression';
+import { countOccurrence, mergeDuplicate, resolveDedupOptions } from '../utils/dedup';
+import { CONFLICT_RESOLUTIONS, FACT_TYPE, conflictMatches, conflictOf, conflictRecord, propertyConflicts, resolutionWinner, validateConflictQuery } from '../utils/contradiction';
+import { DuplicateIndex, DuplicateMatch } from './DuplicateIndex';
+import { MAX_PATH_HOPS, MemoryGraph, resolveTraversalOptions } from './MemoryGraph';
 
 export class MemorySystemImpl implements MemorySystem {
   private initialized: boolean = false;
   private memories: Map<string, Memory> = new Map();
-
-  constructor(private config: any) {}
+  // Embeddings are derived from content, so they are recomputed rather than persisted
+  private embeddings: Map<string, number[]> = new Map();
+  private embedder: Embedder;
+  private index: HnswIndex;
+  private indexer: MemoryIndexer;
+  private decay: MemoryDecay;
+  private working: WorkingMemoryImpl;
+  private spilled: Memory[] = [];
+  private duplicates: DuplicateIndex = new DuplicateIndex();
+  private dedup: Required<DedupOptions>;
+  private dedupStats: DedupStats = { checked: 0, exact: 0, near: 0, rejected: 0, merged: 0, linked: 0 };
+  private graph: MemoryGraph = new MemoryGraph();
+  // Conflict meta-memories recorded or resolved, until taken
+  private conflictRecords: Memory[] = [];
+
+  constructor(private config: any) {
+    this.embedder = config?.embedder || new HashingEmbedder(config?.embedding);
+    this.index = new HnswIndex({ ...config?.index, curvature: this.embedder.curvature });
+    this.indexer = new MemoryIndexer(config?.search);
+    this.decay = new MemoryDecay(config?.decay);
+    this.working = new WorkingMemoryImpl(config?.working, (item, reason) => this.spillToEpisodic(item, reason));
+    this.dedup = resolveDedupOptions(config?.dedup);
+  }
 
   async initialize(): Promise<void> {
     this.initialized = true;
@@ -24,85 +64,640 @@ export class MemorySystemImpl implements MemorySystem {
   }
 
   // Core memory operations
-  async store(memory: Memory): Promise<void> {
+
+  /**
+   * Store the memory unless it duplicates one already stored. By
+   * `config.dedup.mode`, a duplicate is stored anyway (`off`), turned away
+   * (`reject`), merged into the memory it duplicates, raising its importance
+   * (`merge`), or stored as an occurrence of it (`link`). Merging and linking
+   * reinforce the duplicated memory and count its occurrences. A stored
+   * semantic memory is checked for contradictions with the others, and each
+   * one found is recorded as a meta-memory. Only contradiction detection
+   * records conflicts, so a memory posing as a conflict record is refused.
+   */
+  async store(memory: Memory): Promise<MemoryStoreResult> {
     if (!this.initialized) {
       throw new Error('Memory System is not initialized');
     }
+    if (conflictOf(memory)) {
+      throw new Error('Conflict records are recorded by contradiction detection and cannot be stored');
+    }
 
-    this.memories.set(memory.id, memory);
-    console.log(`Memory stored: ${memory.type}`);
+    const match = this.dedup.mode !== 'off' ? this.findDuplicate(memory) : undefined;
+    if (!match) {
+      await this.insert(memory);
+      const conflicts = await this.checkContradictions(memory);
+      return { action: 'stored', memory, ...(conflicts.length > 0 ? { conflicts } : {}) };
+    }
+
+    const existing = this.memories.get(match.id)!;
+    this.dedupStats[match.exact ? 'exact' : 'near']++;
+    if (this.dedup.mode === 'reject') {
+      this.dedupStats.rejected++;
+      return { action: 'rejected', memory, duplicateOf: existing, similarity: match.similarity };
+    }
+
+    this.decay.reinforce(existing.id);
+    if (this.dedup.mode === 'merge') {
+      const merged = mergeDuplicate(existing, memory, this.dedup.importanceBoost);
+      this.memories.set(merged.id, merged);
+      this.dedupStats.merged++;
+      return { action: 'merged', memory, duplicateOf: merged, similarity: match.similarity };
+    }
+
+    const linked = countOccurrence(existing, memory);
+    const occurrence = { ...memory, metadata: { ...memory.metadata, occurrenceOf: existing.id } };
+    this.memories.set(linked.id, linked);
+    await this.insert(occurrence);
+    this.dedupStats.linked++;
+    return { action: 'linked', memory: occurrence, duplicateOf: linked, similarity: match.similarity };
+  }
+
+  async forget(memoryId: string, options: ForgetOptions = {}): Promise<boolean> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    if (this.decay.isPinned(memoryId) && !options.force) {
+      throw new Error(`Memory ${memoryId} is pinned`);
+    }
+
+    this.embeddings.delete(memoryId);
+    this.index.remove(memoryId);
+    this.indexer.remove(memoryId);
+    this.duplicates.remove(memoryId);
+    this.graph.removeMemory(memoryId);
+    this.decay.remove(memoryId);
+    // Otherwise it would be stored again when it spills out
+    await this.working.remove(memoryId);
+    return this.memories.delete(memoryId);
   }
 
   async retrieve(query: any): Promise<Memory[]> {
+    return (await this.query(query)).memories;
+  }
+
+  async query(query: MemoryQuery): Promise<MemoryPage> {
     if (!this.initialized) {
       throw new Error('Memory System is not initialized');
     }
 
-    let results = Array.from(this.memories.values());
+    const page = queryMemories(this.listed(), query, text => this.indexer.search(text));
+    this.reinforce(page.memories);
+    return page;
+  }
 
-    // Filter by type if specified
-    if (query.type) {
-      results = results.filter(m => m.type === query.type);
+  /**
+   * Memories ranked by lexical relevance, embedding similarity, recency and
+   * importance, with each score broken down per signal. Candidates are the
+   * full-text matches plus the query's nearest neighbours in the embedding
+   * index; an empty query ranks every memory on recency and importance.
+   * Demoted memories are left out. Options default to `config.recall`.
+   */
+  async recall(query: string, options: RecallOptions = {}): Promise<RecallResult[]> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
     }
 
-    // Filter by content if specified
-    if (query.content) {
-      results = results.filter(m => 
-        m.content.toLowerCase().includes(query.content.toLowerCase())
-      );
+    const defaults: RecallOptions = this.config?.recall || {};
+    const merged: RecallOptions = { ...defaults, ...options, weights: { ...defaults.weights, ...options.weights } };
+    const limit = merged.limit ?? 10;
+
+    if (!query.trim()) {
+      const candidates = this.listed()
+        .filter(memory => !memory.metadata?.demoted)
+        .map(memory => ({ memory }));
+      return this.reinforceResults(rankRecall(candidates, { ...merged, limit }));
     }
 
-    // Sort by timestamp (newest first)
-    results.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
+    const candidates = new Map<string, RecallCandidate>();
+    for (const hit of this.indexer.search(query)) {
+      candidates.set(hit.id, { memory: this.memories.get(hit.id)!, lexical: hit });
+    }
+    const embedding = await this.embedder.embed(query);
+    for (const neighbor of this.index.search(embedding, merged.candidates ?? Math.max(limit * 5, 50))) {
+      if (!candidates.has(neighbor.id)) {
+        candidates.set(neighbor.id, { memory: this.memories.get(neighbor.id)! });
+      }
+    }
+    for (const [id, candidate] of candidates) {
+      if (candidate.memory.metadata?.demoted) {
+        candidates.delete(id);
+      }
+    }
+    // Exact distances for every candidate, including lexical-only matches
+    for (const candidate of candidates.values()) {
+      const vector = this.embeddings.get(candidate.memory.id);
+      if (vector) {
+        candidate.distance = poincareDistance(embedding, vector, this.embedder.curvature);
+      }
+    }
+
+    return this.reinforceResults(rankRecall(Array.from(candidates.values()), { ...merged, limit }));
+  }
+
+  async pin(memoryId: string): Promise<void> {
+    this.setPinned(memoryId, true);
+  }
 
-    // Apply limit if specified
-    if (query.limit) {
-      results = results.slice(0, query.limit);
+  async unpin(memoryId: string): Promise<void> {
+    this.setPinned(memoryId, false);
+  }
+
+  /**
+   * Apply the forgetting curve: forget memories whose retention has fallen
+   * below `decay.forgetThreshold`, mark those below `decay.demoteThreshold`
+   * as `metadata.demoted`, and lift the mark from demoted memories that
+   * retrieval has strengthened again. Pinned memories are never touched.
+   */
+  async sweep(now: Date = new Date()): Promise<DecaySweepReport> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
     }
 
-    return results;
+    const report: DecaySweepReport = { demoted: [], restored: [], forgotten: [] };
+    for (const verdict of this.decay.evaluate(now)) {
+      const memory = this.memories.get(verdict.id);
+      if (!memory) {
+        continue;
+      }
+
+      if (verdict.action === 'forget') {
+        await this.forget(memory.id);
+        report.forgotten.push(memory.id);
+      } else if (verdict.action === 'demote' && !memory.metadata?.demoted) {
+        this.memories.set(memory.id, { ...memory, metadata: { ...memory.metadata, demoted: true } });
+        report.demoted.push(memory.id);
+      } else if (verdict.action === 'keep' && memory.metadata?.demoted) {
+        const { demoted, ...metadata } = memory.metadata;
+        this.memories.set(memory.id, { ...memory, metadata });
+        report.restored.push(memory.id);
+      }
+    }
+
+    console.log(`Memory sweep completed: ${report.demoted.length} demoted, ${report.restored.length} restored, ${report.forgotten.length} forgotten`);
+    return report;
+  }
+
+  async getStrength(memoryId: string): Promise<MemoryStrength | null> {
+    return this.decay.get(memoryId) || null;
   }
 
-  async consolidate(): Promise<void> {
+  async getRetention(memoryId: string, now: Date = new Date()): Promise<number> {
+    return this.decay.retention(memoryId, now);
+  }
+
+  /**
+   * Merge groups of related memories into semantic memories that summarize
+   * them, with the sources listed in `metadata.sourceMemories`. Sources that
+   * are archived or already consolidated are skipped, so repeated runs only
+   * pick up new memories. Options default to `config.consolidation`.
+   */
+  async consolidate(options: ConsolidationOptions = {}): Promise<ConsolidationReport> {
     if (!this.initialized) {
       throw new Error('Memory System is not initialized');
     }
 
-    console.log('Memory consolidation completed');
+    const resolved = resolveConsolidationOptions(this.config?.consolidation, options);
+    const consolidated = new Set<string>();
+    for (const memory of this.memories.values()) {
+      for (const id of memory.metadata?.sourceMemories || []) {
+        consolidated.add(id);
+      }
+    }
+
+    const candidates = this.listed()
+      .filter(memory => resolved.types.includes(memory.type) && !memory.metadata?.archived && !consolidated.has(memory.id))
+      .map(memory => ({ memory, embedding: this.embeddings.get(memory.id)! }));
+    const groups = groupMemories(candidates, { ...resolved, curvature: this.embedder.curvature });
+
+    const report: ConsolidationReport = { groups: [], archived: [] };
+    for (const group of groups) {
+      const sources = group.members.map(member => member.memory);
+      const memory: Memory = {
+        id: uuidv4(),
+        type: 'semantic',
+        content: summarizeMemories(sources, resolved.summarySentences),
+        metadata: consolidatedMetadata(sources),
+        timestamp: new Date()
+      };
+      await this.insert(memory);
+
+      if (resolved.archive) {
+        for (const source of sources) {
+          this.memories.set(source.id, { ...source, metadata: { ...source.metadata, archived: true, consolidatedInto: memory.id } });
+          report.archived.push(source.id);
+        }
+      }
+      report.groups.push({ memory, sourceMemories: sources.map(source => source.id), spread: group.spread });
+    }
+
+    console.log(`Memory consolidation completed: ${groups.length} groups merged`);
+    return report;
+  }
+
+  /**
+   * Memories of the timeline types between `from` and `to`, inclusive,
+   * segmented into phases by time gaps, location and topic shifts. Options
+   * default to `config.timeline`.
+   */
+  async timeline(request: TimelineRequest = {}): Promise<MemoryTimeline> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    const options = resolveTimelineOptions(this.config?.timeline, request);
+    const memories = this.listed().filter(memory =>
+      options.types.includes(memory.type) &&
+      (!request.from || memory.timestamp >= request.from) &&
+      (!request.to || memory.timestamp <= request.to));
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+    const timeline = segmentTimeline(memories.map(memoryEvent), options);
+
+    return {
+      start: memories.length > 0 ? timeline.start : null,
+      end: memories.length > 0 ? timeline.end : null,
+      phases: timeline.phases.map(phase => ({ ...phase, memories: phase.events.map(id => byId.get(id)!) })),
+      milestones: timeline.milestones
+    };
+  }
+
+  /**
+   * Cluster the embeddings of unarchived memories of the given types by
+   * Riemannian k-means or density. Options default to `config.clustering`.
+   */
+  async cluster(options: ClusterOptions = {}): Promise<MemoryClustering> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    const resolved = resolveClusterOptions(this.config?.clustering, options);
+    const memories = this.listed()
+      .filter(memory => (resolved.types.length === 0 || resolved.types.includes(memory.type)) && !memory.metadata?.archived);
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+    const curvature = this.embedder.curvature;
+    const clustering = clusterPoints(memories.map(memory => ({ id: memory.id, vector: this.embeddings.get(memory.id)! })), resolved, curvature);
+
+    return {
+      method: resolved.method,
+      clusters: clustering.clusters.map(cluster => {
+        const id = uuidv4();
+        return {
+          id,
+          center: centerEmbedding(id, cluster, curvature),
+          members: cluster.members,
+          properties: { size: cluster.members.length, density: cluster.density, cohesion: cluster.cohesion, separation: cluster.separation },
+          radius: cluster.radius,
+          memories: cluster.members.map(member => byId.get(member)!)
+        };
+      }),
+      noise: clustering.noise,
+      iterations: clustering.iterations
+    };
+  }
+
+  /**
+   * Unarchived memories of the given types as a tree from general to
+   * specific by embedding depth, with the subtree below `request.root`
+   * resolved to memories. Options default to `config.hierarchy`.
+   */
+  async hierarchy(request: HierarchyRequest = {}): Promise<MemoryHierarchy> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    const options = resolveHierarchyOptions(this.config?.hierarchy, request);
+    const maxLevels = request.maxLevels ?? 0;
+    if (!(Number.isInteger(maxLevels) && maxLevels >= 0)) {
+      throw new Error(`Invalid hierarchy request: maxLevels must be a non-negative integer, got ${request.maxLevels}`);
+    }
+    const memories = this.listed()
+      .filter(memory => (options.types.length === 0 || options.types.includes(memory.type)) && !memory.metadata?.archived);
+    const curvature = this.embedder.curvature;
+    const hierarchy = buildHierarchy(memories.map(memory => ({ id: memory.id, vector: this.embeddings.get(memory.id)! })), options.minDepthGap, curvature);
+
+    const byId = new Map(memories.map(memory => [memory.id, memory]));
+    const children = new Map<string, HierarchyRelationship[]>();
+    for (const relationship of hierarchy.relationships) {
+      children.set(relationship.parent, [...(children.get(relationship.parent) || []), relationship]);
+    }
+    const descendants = (id: string): number =>
+      (children.get(id) || []).reduce((sum, relationship) => sum + 1 + descendants(relationship.child), 0);
+    const node = (id: string, distance: number, level: number): MemoryHierarchyNode => {
+      const below = children.get(id) || [];
+      const expand = maxLevels === 0 || level < maxLevels;
+      return {
+        memory: byId.get(id)!,
+        depth: distanceFromOrigin(this.embeddings.get(id)!, curvature),
+        distance,
+        children: expand ? below.map(relationship => node(relationship.child, poincareDistance(this.embeddings.get(id)!, this.embeddings.get(relationship.child)!, curvature), level + 1)) : [],
+        hidden: expand ? 0 : descendants(id)
+      };
+    };
+
+    const root = request.root ?? hierarchy.root;
+    return { hierarchy, tree: byId.has(root) ? node(root, 0, 0) : null };
+  }
+
+  /**
+   * Compress unarchived memories of the given types older than
+   * `olderThan`. With `lossy`, groups of similar memories are first replaced
+   * by a summary with the sources' type and the newest source's timestamp;
+   * pinned memories are never summarized. Then the content of every memory
+   * of at least `threshold` bytes that deflates to fewer bytes is
+   * compressed, and the memory is marked `metadata.compressed`. Compressed
+   * memories stay readable here; the records are for cold storage. Options
+   * default to `config.compression`.
+   */
+  async compress(options: CompressionOptions = {}): Promise<CompressionReport> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    const resolved = resolveCompressionOptions(this.config?.compression, options);
+    const cutoff = Date.now() - resolved.olderThan;
+    const candidates = () => this.listed().filter(memory =>
+      (resolved.types.length === 0 || resolved.types.includes(memory.type)) &&
+      memory.timestamp.getTime() <= cutoff && !memory.metadata?.archived);
+    const report: CompressionReport = { compressed: [], summarized: [], forgotten: [], originalBytes: 0, compressedBytes: 0, ratio: 1 };
+
+    if (resolved.lossy) {
+      const byType = new Map<string, Memory[]>();
+      for (const memory of candidates()) {
+        if (!this.decay.isPinned(memory.id)) {
+          byType.set(memory.type, [...(byType.get(memory.type) || []), memory]);
+        }
+      }
+      for (const [type, memories] of byType) {
+        const groups = groupMemories(memories.map(memory => ({ memory, embedding: this.embeddings.get(memory.id)! })), {
+          maxDistance: resolved.maxDistance,
+          timeWindow: Infinity,
+          minGroupSize: resolved.minGroupSize,
+          curvature: this.embedder.curvature
+        });
+        for (const group of groups) {
+          const sources = group.members.map(member => member.memory);
+          const summary: Memory = {
+            id: uuidv4(),
+            type,
+            content: summarizeMemories(sources, resolved.summarySentences),
+            metadata: { ...consolidatedMetadata(sources), source: 'compression' },
+            timestamp: new Date(Math.max(...sources.map(source => source.timestamp.getTime())))
+          };
+          await this.insert(summary);
+          for (const source of sources) {
+            await this.forget(source.id);
+            report.forgotten.push(source.id);
+          }
+          report.summarized.push(summaryRecord(summary, sources));
+        }
+      }
+    }
+
+    for (const memory of candidates()) {
+      if (memory.metadata?.compressed || Buffer.byteLength(memory.content, 'utf8') < resolved.threshold) {
+        continue;
+      }
+      const record = compressContent(memory, resolved.algorithm, resolved.level);
+      // Content that does not shrink stays as it is
+      if (record.compressedBytes >= record.originalBytes) {
+        continue;
+      }
+      this.memories.set(memory.id, { ...memory, metadata: { ...memory.metadata, compressed: true } });
+      report.compressed.push(record);
+    }
+
+    for (const record of [...report.summarized, ...report.compressed]) {
+      report.originalBytes += record.originalBytes;
+      report.compressedBytes += record.compressedBytes;
+    }
+    if (report.originalBytes > 0) {
+      report.ratio = report.compressedBytes / report.originalBytes;
+    }
+    console.log(`Memory compression completed: ${report.compressed.length} compressed, ${report.summarized.length} summaries replacing ${report.forgotten.length} memories`);
+    return report;
+  }
+
+  /**
+   * Link `source` to `target` with a typed relationship, replacing a link of
+   * the same type between them. The link's distance is that of the two
+   * memories' embeddings.
+   */
+  async link(source: string, type: MemoryRelationType, target: string, options: LinkOptions = {}): Promise<MemoryLink> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    for (const id of [source, target]) {
+      if (!this.memories.has(id)) {
+        throw new Error(`Memory ${id} not found`);
+      }
+    }
+    const distance = poincareDistance(this.embeddings.get(source)!, this.embeddings.get(target)!, this.embedder.curvature);
+    const link = this.graph.add({ source, target, relationshipType: type, distance, ...options });
+    // Relinking keeps the link's id, and its conflict is recorded once
+    if (type === 'contradicts' && !(await this.getConflicts({ status: 'all', memoryId: source })).some(conflict => conflict.linkId === link.id)) {
+      await this.recordConflict(conflictRecord('relationship', this.memories.get(source)!, this.memories.get(target)!, { linkId: link.id }));
+    }
+    return link;
+  }
+
+  async unlink(linkId: string): Promise<boolean> {
+    return this.graph.remove(linkId) !== null;
+  }
+
+  /**
+   * All links, or the links to and from one memory
+   */
+  async getLinks(memoryId?: string): Promise<MemoryLink[]> {
+    return this.graph.getLinks(memoryId);
+  }
+
+  /**
+   * The memories within `hops` links of the start, each with the fewest hops
+   * to it, and every link among them
+   */
+  async traverse(start: string, options: TraversalOptions = {}): Promise<MemorySubgraph> {
+    const resolved = resolveTraversalOptions(options);
+    if (!this.memories.has(start)) {
+      throw new Error(`Memory ${start} not found`);
+    }
+
+    const hops = this.graph.reach(start, resolved);
+    return {
+      nodes: Array.from(hops, ([id, count]) => ({ memory: this.memories.get(id)!, hops: count })),
+      links: this.graph.between(hops.keys())
+        .filter(link => resolved.types.length === 0 || resolved.types.includes(link.relationshipType))
+    };
+  }
+
+  /**
+   * The fewest-hop path of links between two memories, searching up to
+   * `MAX_PATH_HOPS` hops unless `options.hops` says otherwise
+   */
+  async findPath(from: string, to: string, options: TraversalOptions = {}): Promise<MemoryPath | null> {
+    const resolved = resolveTraversalOptions({ hops: MAX_PATH_HOPS }, options);
+    for (const id of [from, to]) {
+      if (!this.memories.has(id)) {
+        throw new Error(`Memory ${id} not found`);
+      }
+    }
+
+    const links = this.graph.path(from, to, resolved);
+    if (!links) {
+      return null;
+    }
+    const ids = [from];
+    for (const link of links) {
+      ids.push(link.source === ids[ids.length - 1] ? link.target : link.source);
+    }
+    return {
+      memories: ids.map(id => this.memories.get(id)!),
+      links,
+      distance: links.reduce((sum, link) => sum + link.distance, 0)
+    };
   }
 
-  async compress(): Promise<void> {
+  /**
+   * The known memories among `ids` and every link between them
+   */
+  async subgraph(ids: string[]): Promise<MemorySubgraph> {
+    const known = Array.from(new Set(ids)).filter(id => this.memories.has(id));
+    return {
+      nodes: known.map(id => ({ memory: this.memories.get(id)! })),
+      links: this.graph.between(known)
+    };
+  }
+
+  /**
+   * Recorded conflicts matching the query, oldest first
+   */
+  async getConflicts(query: ConflictQuery = {}): Promise<MemoryConflict[]> {
+    validateConflictQuery(query);
+    return Array.from(this.memories.values())
+      .map(conflictOf)
+      .filter((conflict): conflict is MemoryConflict => conflict !== null && conflictMatches(conflict, query))
+      .sort((a, b) => a.detectedAt.getTime() - b.detectedAt.getTime());
+  }
+
+  /**
+   * Resolve an open conflict: forget the older memory (`keep-newer`), the
+   * less confident one (`keep-confident`), or keep both and add the note, or
+   * the conflict's description, to their `metadata.conflictNotes`
+   * (`keep-both`). Memories forgotten since the conflict was found stay
+   * forgotten; a pinned memory is not forgotten, and the conflict stays open.
+   */
+  async resolveConflict(id: string, action: ConflictResolution, note?: string): Promise<ConflictResolutionResult> {
     if (!this.initialized) {
       throw new Error('Memory System is not initialized');
     }
+    if (!CONFLICT_RESOLUTIONS.includes(action)) {
+      throw new Error(`Unknown conflict resolution ${action}; expected one of ${CONFLICT_RESOLUTIONS.join(', ')}`);
+    }
+
+    const record = this.memories.get(id);
+    const conflict = record ? conflictOf(record) : null;
+    if (!record || !conflict) {
+      throw new Error(`Conflict ${id} not found`);
+    }
+    if (conflict.resolution) {
+      throw new Error(`Conflict ${id} is already resolved`);
+    }
 
-    console.log('Memory compression completed');
+    const memories = conflict.memories.map(memoryId => this.memories.get(memoryId)).filter((memory): memory is Memory => memory !== undefined);
+    const winner = memories.length === 2 ? resolutionWinner(action, memories[0], memories[1]) : null;
+    let kept = memories;
+    const forgotten: string[] = [];
+    if (winner) {
+      const loser = memories.find(memory => memory.id !== winner.id)!;
+      await this.forget(loser.id);
+      forgotten.push(loser.id);
+      kept = [winner];
+    } else if (action === 'keep-both') {
+      kept = memories.map(memory => ({
+        ...memory,
+        metadata: { ...memory.metadata, conflictNotes: [...(memory.metadata?.conflictNotes || []), note || conflict.description] }
+      }));
+      for (const memory of kept) {
+        this.memories.set(memory.id, memory);
+      }
+    }
+
+    const resolution = { action, kept: kept.map(memory => memory.id), forgotten, ...(note ? { note } : {}), resolvedAt: new Date() };
+    this.memories.set(id, { ...record, metadata: { ...record.metadata, conflict: { ...record.metadata.conflict, resolution } } });
+    this.conflictRecords.push(this.memories.get(id)!);
+    return { conflict: { ...conflict, resolution }, kept, forgotten };
+  }
+
+  async takeConflictRecords(): Promise<Memory[]> {
+    const records = this.conflictRecords;
+    this.conflictRecords = [];
+    return records;
   }
 
   // Memory type specific operations
   async storeEpisodic(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
   }
 
   async storeSemantic(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
   }
 
   async storeProcedural(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
   }
 
   async storeWorking(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
   }
 
   async storeMeta(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
+  }
+
+  // Working memory operations; items spilling out are stored as episodic memories
+  async addToWorkingMemory(item: MemoryItem): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    await this.working.add(item);
+  }
+
+  async removeFromWorkingMemory(id: string): Promise<void> {
+    await this.working.remove(id);
+  }
+
+  async focus(attention: AttentionFocus): Promise<void> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    await this.working.focus(attention);
+  }
+
+  async process(task: ProcessingTask): Promise<WorkingMemoryResult> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    return this.working.process(task);
+  }
+
+  async getWorkingMemory(): Promise<MemoryItem[]> {
+    return [...this.working.current];
+  }
+
+  async takeSpilledMemories(): Promise<Memory[]> {
+    const spilled = this.spilled;
+    this.spilled = [];
+    return spilled;
   }
 
   // Hyperbolic memory operations
   async storeHyperbolic(memory: Memory): Promise<void> {
-    return this.store(memory);
+    await this.store(memory);
   }
 
   async getHyperbolicNeighbors(memoryId: string, count: number): Promise<Memory[]> {
@@ -110,24 +705,50 @@ export class MemorySystemImpl implements MemorySystem {
       throw new Error('Memory System is not initialized');
     }
 
-    const memory = this.memories.get(memoryId);
-    if (!memory) {
+    const embedding = this.embeddings.get(memoryId);
+    if (!embedding) {
       return [];
     }
 
-    // Simple implementation - return random memories
-    const allMemories = Array.from(this.memories.values());
-    return allMemories.slice(0, count);
+    return this.index.search(embedding, count + 1)
+      .filter(neighbor => neighbor.id !== memoryId)
+      .slice(0, count)
+      .map(neighbor => this.memories.get(neighbor.id)!);
+  }
+
+  /**
+   * Memories nearest to `content` in the embedding space, closest first.
+   * With `radius`, only memories within that hyperbolic distance are returned.
+   */
+  async findSimilar(content: string, options: { limit?: number; radius?: number } = {}): Promise<Array<{ memory: Memory; distance: number }>> {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+
+    const embedding = await this.embedder.embed(content);
+    const limit = options.limit ?? 10;
+    const neighbors = options.radius === undefined
+      ? this.index.search(embedding, limit)
+      : this.index.searchRadius(embedding, options.radius, limit);
+    return neighbors.map(neighbor => ({ memory: this.memories.get(neighbor.id)!, distance: neighbor.distance }));
+  }
+
+  async getEmbedding(memoryId: string): Promise<number[] | null> {
+    return this.embeddings.get(memoryId) || null;
+  }
+
+  async embed(content: string): Promise<number[]> {
+    return this.embedder.embed(content);
   }
 
   // Memory consolidation
-  async consolidateMemories(): Promise<void> {
-    return this.consolidate();
+  async consolidateMemories(options?: ConsolidationOptions): Promise<ConsolidationReport> {
+    return this.consolidate(options);
   }
 
   // Memory compression
-  async compressMemories(): Promise<void> {
-    return this.compress();
+  async compressMemories(options?: CompressionOptions): Promise<CompressionReport> {
+    return this.compress(options);
   }
 
   // Memory indexing
@@ -136,6 +757,7 @@ export class MemorySystemImpl implements MemorySystem {
       throw new Error('Memory System is not initialized');
     }
 
+    this.indexer.index(memory.id, memory.content);
     console.log(`Memory indexed: ${memory.id}`);
   }
 
@@ -148,21 +770,23 @@ export class MemorySystemImpl implements MemorySystem {
   }
 
   // Memory statistics
+  // Conflict records are left out, as they are from listings
   async getMemoryCount(): Promise<number> {
-    return this.memories.size;
+    return this.listed().length;
   }
 
   async getMemoryStats(): Promise<any> {
     return {
-      total: this.memories.size,
+      total: this.listed().length,
       byType: this.getMemoryCountByType(),
+      dedup: { ...this.dedupStats },
       lastActivity: new Date()
     };
   }
 
   private getMemoryCountByType(): Record<string, number> {
     const counts: Record<string, number> = {};
-    for (const memory of this.memories.values()) {
+    for (const memory of this.listed()) {
       counts[memory.type] = (counts[memory.type] || 0) + 1;
     }
     return counts;
@@ -173,16 +797,162 @@ export class MemorySystemImpl implements MemorySystem {
     return Array.from(this.memories.values());
   }
 
-  async setMemories(memories: Memory[]): Promise<void> {
+  async setMemories(memories: Memory[], indexedDocuments: IndexedDocument[] = [], strengths: MemoryStrength[] = [], links: MemoryLink[] = []): Promise<void> {
     this.memories.clear();
+    this.embeddings.clear();
+    this.index.clear();
+    this.indexer.clear();
+    this.duplicates.clear();
+    this.conflictRecords = [];
+    this.decay.clear();
+    for (const strength of strengths) {
+      this.decay.restore(strength);
+    }
+    const documents = new Map(indexedDocuments.map(document => [document.id, document]));
     for (const memory of memories) {
       this.memories.set(memory.id, memory);
+      await this.indexEmbedding(memory);
+      // Conflict records are not searched, deduplicated or decayed, whatever strength was persisted
+      if (conflictOf(memory)) {
+        this.decay.remove(memory.id);
+        continue;
+      }
+      // Memories persisted before decay tracking start their curve now
+      this.decay.track(memory);
+      this.indexDuplicates(memory);
+      const document = documents.get(memory.id);
+      if (document) {
+        this.indexer.restore(document, memory.content);
+      } else {
+        this.indexer.index(memory.id, memory.content);
+      }
     }
+    // Links are kept only between restored memories
+    this.graph.load(links.filter(link => this.memories.has(link.source) && this.memories.has(link.target)));
     console.log(`Restored ${memories.length} memories to memory system`);
   }
 
   async clearMemories(): Promise<void> {
     this.memories.clear();
+    this.embeddings.clear();
+    this.index.clear();
+    this.indexer.clear();
+    this.duplicates.clear();
+    this.graph.clear();
+    this.conflictRecords = [];
+    this.decay.clear();
     console.log('All memories cleared from memory system');
   }
+
+  async getIndexedDocument(memoryId: string): Promise<IndexedDocument | null> {
+    return this.indexer.getDocument(memoryId) || null;
+  }
+
+  private setPinned(memoryId: string, pinned: boolean): void {
+    if (!this.initialized) {
+      throw new Error('Memory System is not initialized');
+    }
+    if (!this.memories.has(memoryId)) {
+      throw new Error(`Memory ${memoryId} not found`);
+    }
+
+    this.decay.setPinned(memoryId, pinned);
+  }
+
+  private async spillToEpisodic(item: MemoryItem, reason: SpillReason): Promise<void> {
+    // Items recalled from long-term memory are already stored
+    if (this.memories.has(item.id)) {
+      return;
+    }
+
+    const memory: Memory = {
+      id: item.id,
+      type: 'episodic',
+      content: itemText(item),
+      metadata: { source: 'working-memory', spillReason: reason, importance: Math.min(1, Math.max(0, item.priority || 0)) },
+      timestamp: item.timestamp
+    };
+    await this.insert(memory);
+    this.spilled.push(memory);
+  }
+
+  // Retrieval strengthens memories against decay
+  private reinforce(memories: Memory[]): void {
+    const now = new Date();
+    for (const memory of memories) {
+      this.decay.reinforce(memory.id, now);
+    }
+  }
+
+  private reinforceResults(results: RecallResult[]): RecallResult[] {
+    this.reinforce(results.map(result => result.memory));
+    return results;
+  }
+
+  // Record a conflict between the stored semantic memory and each other one whose facts it contradicts
+  private async checkContradictions(memory: Memory): Promise<MemoryConflict[]> {
+    if (memory.type !== FACT_TYPE) {
+      return [];
+    }
+
+    const conflicts: MemoryConflict[] = [];
+    for (const other of Array.from(this.memories.values())) {
+      if (other.id === memory.id || other.metadata?.archived) {
+        continue;
+      }
+      for (const { concept, property, values } of propertyConflicts(other, memory)) {
+        conflicts.push(await this.recordConflict(conflictRecord('property', other, memory, { concept, property, values })));
+      }
+    }
+    return conflicts;
+  }
+
+  private async recordConflict(record: Memory): Promise<MemoryConflict> {
+    await this.insert(record);
+    this.conflictRecords.push(record);
+    return conflictOf(record)!;
+  }
+
+  // Stores without checking for duplicates, for memories derived from stored ones
+  private async insert(memory: Memory): Promise<void> {
+    this.memories.set(memory.id, memory);
+    await this.indexEmbedding(memory);
+    if (!conflictOf(memory)) {
+      this.indexer.index(memory.id, memory.content);
+      this.indexDuplicates(memory);
+      this.decay.track(memory);
+    }
+    console.log(`Memory stored: ${memory.type}`);
+  }
+
+  // The best match among unarchived memories other than the memory itself
+  private findDuplicate(memory: Memory): DuplicateMatch | undefined {
+    this.dedupStats.checked++;
+    return this.duplicates.find(memory.content, this.dedup.similarity).find(match => {
+      const candidate = this.memories.get(match.id);
+      // A memory contradicting another is not its duplicate, however alike they read
+      return candidate !== undefined && candidate.id !== memory.id && !candidate.metadata?.archived &&
+        (!this.dedup.sameType || candidate.type === memory.type) && propertyConflicts(candidate, memory).length === 0;
+    });
+  }
+
+  // Occurrences repeat the memory they link to, so only that memory is matched
+  private indexDuplicates(memory: Memory): void {
+    if (memory.metadata?.occurrenceOf === undefined) {
+      this.duplicates.add(memory.id, memory.content);
+    }
+  }
+
+  private async indexEmbedding(memory: Memory): Promise<void> {
+    const embedding = await this.embedder.embed(memory.content);
+    this.embeddings.set(memory.id, embedding);
+    if (!conflictOf(memory)) {
+      this.index.add(memory.id, embedding);
+    }
+  }
+
+  // Memories other than conflict records, which are only reached through getConflicts
+  private listed(): Memory[] {
+    return Array.from(this.memories.values()).filter(memory => conflictOf(memory) === null);
+  }
 }
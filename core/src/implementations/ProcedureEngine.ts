@@ -0,0 +1,423 @@
+/**
+ * Procedure Engine
+ *
+ * Runs stored procedures step by step. Each step's action names an executor
+ * registered with the engine; steps run in order, and a step whose conditions
+ * do not hold is skipped. A condition reads a dotted path of the run context,
+ * such as `input.language`, `variables.retries` or `steps.fetch.status`, and
+ * compares it with its value. The procedure's own conditions are checked
+ * before the first step: when they fail the run is blocked and nothing runs.
+ *
+ * Outcomes are recorded as observed frequencies: after every run each step
+ * reached and the procedure itself hold one outcome per status, with the
+ * count as value and the share of runs as probability. A run that executed
+ * at least one step also moves the proficiency of the procedure's skill
+ * towards the share of its executed steps that succeeded.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Condition, Outcome, Procedure, ProcedureStep, Skill } from '../types/memory';
+
+export type StepExecutor = (parameters: Record<string, any>, context: ProcedureContext) => any | Promise<any>;
+
+export type StepStatus = 'succeeded' | 'failed' | 'skipped';
+
+export type RunStatus = 'succeeded' | 'failed' | 'blocked';
+
+export interface ProcedureContext {
+  input: Record<string, any>;
+  // Scratch space executors may write to for later steps and conditions
+  variables: Record<string, any>;
+  // Results of the steps run so far, by step id
+  steps: Record<string, StepResult>;
+  // Output of the last step that succeeded
+  last: any;
+}
+
+export interface StepResult {
+  stepId: string;
+  action: string;
+  status: StepStatus;
+  output?: any;
+  error?: string;
+  // Milliseconds the executor took
+  duration: number;
+}
+
+export interface ProcedureRun {
+  id: string;
+  procedureId: string;
+  status: RunStatus;
+  // Steps reached, in the order they ran
+  steps: StepResult[];
+  output: any;
+  variables: Record<string, any>;
+  startedAt: Date;
+  finishedAt: Date;
+  // The skill after its proficiency was updated
+  skill?: Skill;
+}
+
+export interface ProcedureStepInput {
+  id?: string;
+  // Defaults to the step's position
+  order?: number;
+  action: string;
+  parameters?: Record<string, any>;
+  conditions?: Condition[];
+  continueOnError?: boolean;
+}
+
+export interface ProcedureInput {
+  id?: string;
+  name: string;
+  steps: ProcedureStepInput[];
+  conditions?: Condition[];
+  // Id or name; unknown names become new skills
+  skill?: string;
+}
+
+export interface SkillInput {
+  id?: string;
+  name: string;
+  description?: string;
+  proficiency?: number;
+  confidence?: number;
+  prerequisites?: string[];
+  applications?: string[];
+}
+
+export interface ProcedureEngineOptions {
+  // Share of the gap to a run's score that proficiency closes per run
+  learningRate?: number;
+  // Clock for run timestamps and step durations
+  now?: () => Date;
+}
+
+export const CONDITION_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte', 'in', 'contains', 'exists'];
+
+export const DEFAULT_PROCEDURE_ENGINE_OPTIONS: Required<ProcedureEngineOptions> = {
+  learningRate: 0.2,
+  now: () => new Date()
+};
+
+const STEP_STATUSES: StepStatus[] = ['succeeded', 'failed', 'skipped'];
+const RUN_STATUSES: RunStatus[] = ['succeeded', 'failed', 'blocked'];
+
+export class ProcedureEngine {
+  private executors: Map<string, StepExecutor> = new Map();
+  private procedures: Map<string, Procedure> = new Map();
+  private skills: Map<string, Skill> = new Map();
+  private options: Required<ProcedureEngineOptions>;
+
+  constructor(options: ProcedureEngineOptions = {}) {
+    this.options = { ...DEFAULT_PROCEDURE_ENGINE_OPTIONS, ...options };
+    if (!(this.options.learningRate > 0 && this.options.learningRate <= 1)) {
+      throw new Error(`Procedure learningRate must be in (0, 1], got ${this.options.learningRate}`);
+    }
+  }
+
+  /**
+   * Register the executor that runs steps with this action
+   */
+  register(action: string, executor: StepExecutor): void {
+    if (!action) {
+      throw new Error('Step executor name is required');
+    }
+    if (this.executors.has(action)) {
+      throw new Error(`A step executor named ${action} is already registered`);
+    }
+    this.executors.set(action, executor);
+  }
+
+  unregister(action: string): boolean {
+    return this.executors.delete(action);
+  }
+
+  getExecutors(): string[] {
+    return Array.from(this.executors.keys());
+  }
+
+  /**
+   * Add a skill, or update the skill with the same id or name
+   */
+  addSkill(input: SkillInput): Skill {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Skill name is required');
+    }
+    const existing = (input.id && this.skills.get(input.id)) || this.findByName(this.skills, name);
+    const skill: Skill = {
+      id: existing?.id || input.id || uuidv4(),
+      name: existing?.name || name,
+      description: input.description ?? existing?.description ?? '',
+      proficiency: clamp(input.proficiency ?? existing?.proficiency ?? 0),
+      confidence: clamp(input.confidence ?? existing?.confidence ?? 0),
+      prerequisites: input.prerequisites ?? existing?.prerequisites ?? [],
+      applications: input.applications ?? existing?.applications ?? []
+    };
+    this.skills.set(skill.id, skill);
+    return skill;
+  }
+
+  /**
+   * Add a procedure, replacing the procedure with the same id or name. Its
+   * recorded outcomes start afresh, as they described the old steps.
+   */
+  addProcedure(input: ProcedureInput): Procedure {
+    const name = input.name?.trim();
+    if (!name) {
+      throw new Error('Procedure name is required');
+    }
+    if (!Array.isArray(input.steps) || input.steps.length === 0) {
+      throw new Error(`Procedure ${name} needs at least one step`);
+    }
+
+    const steps: ProcedureStep[] = input.steps.map((step, position) => {
+      if (!step.action) {
+        throw new Error(`Step ${position + 1} of procedure ${name} has no action`);
+      }
+      return {
+        id: step.id || `step-${position + 1}`,
+        order: step.order ?? position,
+        action: step.action,
+        conditions: validateConditions(step.conditions || []),
+        outcomes: [],
+        ...(step.parameters ? { parameters: step.parameters } : {}),
+        ...(step.continueOnError ? { continueOnError: true } : {})
+      };
+    });
+    const ids = steps.map(step => step.id);
+    const duplicate = ids.find((id, position) => ids.indexOf(id) !== position);
+    if (duplicate) {
+      throw new Error(`Procedure ${name} has more than one step with id ${duplicate}`);
+    }
+
+    const existing = (input.id && this.procedures.get(input.id)) || this.findByName(this.procedures, name);
+    const procedure: Procedure = {
+      id: existing?.id || input.id || uuidv4(),
+      name,
+      // Stable, so steps with the same order keep their position
+      steps: steps.sort((a, b) => a.order - b.order),
+      conditions: validateConditions(input.conditions || []),
+      outcomes: []
+    };
+    if (input.skill) {
+      procedure.skill = (this.getSkill(input.skill) ?? this.addSkill({ name: input.skill })).id;
+    }
+    this.procedures.set(procedure.id, procedure);
+    return procedure;
+  }
+
+  /**
+   * Procedure by id or by name, ignoring case
+   */
+  getProcedure(reference: string): Procedure | null {
+    return this.procedures.get(reference) ?? this.findByName(this.procedures, reference) ?? null;
+  }
+
+  getProcedures(): Procedure[] {
+    return Array.from(this.procedures.values());
+  }
+
+  /**
+   * Skill by id or by name, ignoring case
+   */
+  getSkill(reference: string): Skill | null {
+    return this.skills.get(reference) ?? this.findByName(this.skills, reference) ?? null;
+  }
+
+  getSkills(): Skill[] {
+    return Array.from(this.skills.values());
+  }
+
+  /**
+   * Replace the engine's procedures and skills with persisted ones; executors
+   * are kept
+   */
+  load(procedures: Procedure[], skills: Skill[] = []): void {
+    this.procedures.clear();
+    this.skills.clear();
+    for (const procedure of procedures) {
+      this.procedures.set(procedure.id, procedure);
+    }
+    for (const skill of skills) {
+      this.skills.set(skill.id, skill);
+    }
+  }
+
+  /**
+   * Run a procedure with the given input. Executors that throw fail their
+   * step, which ends the run unless the step continues on error.
+   */
+  async run(reference: string, input: Record<string, any> = {}): Promise<ProcedureRun> {
+    const procedure = this.getProcedure(reference);
+    if (!procedure) {
+      throw new Error(`Procedure ${reference} not found`);
+    }
+    const missing = procedure.steps.find(step => !this.executors.has(step.action));
+    if (missing) {
+      throw new Error(`No step executor registered for action ${missing.action}`);
+    }
+
+    const startedAt = this.options.now();
+    const context: ProcedureContext = { input, variables: {}, steps: {}, last: undefined };
+    const results: StepResult[] = [];
+    let status: RunStatus = conditionsHold(procedure.conditions, context) ? 'succeeded' : 'blocked';
+
+    if (status === 'succeeded') {
+      for (const step of procedure.steps) {
+        const result = await this.runStep(step, context);
+        context.steps[step.id] = result;
+        results.push(result);
+        if (result.status === 'succeeded') {
+          context.last = result.output;
+        }
+        if (result.status === 'failed') {
+          status = 'failed';
+          if (!step.continueOnError) {
+            break;
+          }
+        }
+      }
+    }
+
+    this.recordOutcomes(procedure, status, results);
+    const skill = this.practise(procedure, results);
+    return {
+      id: uuidv4(),
+      procedureId: procedure.id,
+      status,
+      steps: results,
+      output: context.last,
+      variables: context.variables,
+      startedAt,
+      finishedAt: this.options.now(),
+      ...(skill ? { skill } : {})
+    };
+  }
+
+  private async runStep(step: ProcedureStep, context: ProcedureContext): Promise<StepResult> {
+    const base = { stepId: step.id, action: step.action };
+    if (!conditionsHold(step.conditions, context)) {
+      return { ...base, status: 'skipped', duration: 0 };
+    }
+
+    const started = this.options.now().getTime();
+    try {
+      const output = await this.executors.get(step.action)!(step.parameters || {}, context);
+      return { ...base, status: 'succeeded', output, duration: this.options.now().getTime() - started };
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error);
+      return { ...base, status: 'failed', error: message, duration: this.options.now().getTime() - started };
+    }
+  }
+
+  private recordOutcomes(procedure: Procedure, status: RunStatus, results: StepResult[]): void {
+    procedure.outcomes = tally(procedure.outcomes, status, RUN_STATUSES);
+    for (const result of results) {
+      const step = procedure.steps.find(candidate => candidate.id === result.stepId)!;
+      step.outcomes = tally(step.outcomes, result.status, STEP_STATUSES);
+    }
+  }
+
+  // Update the procedure's skill from the steps the run executed
+  private practise(procedure: Procedure, results: StepResult[]): Skill | undefined {
+    const skill = procedure.skill ? this.skills.get(procedure.skill) : undefined;
+    const executed = results.filter(result => result.status !== 'skipped');
+    if (!skill || executed.length === 0) {
+      return undefined;
+    }
+
+    const score = executed.filter(result => result.status === 'succeeded').length / executed.length;
+    const rate = this.options.learningRate;
+    skill.proficiency = clamp(skill.proficiency + rate * (score - skill.proficiency));
+    // Every run is more evidence, whatever its result
+    skill.confidence = clamp(skill.confidence + rate * (1 - skill.confidence));
+    if (!skill.applications.includes(procedure.id)) {
+      skill.applications = [...skill.applications, procedure.id];
+    }
+    return skill;
+  }
+
+  private findByName<T extends { name: string }>(records: Map<string, T>, name: string): T | undefined {
+    const normalized = name.trim().toLowerCase();
+    return Array.from(records.values()).find(record => record.name.toLowerCase() === normalized);
+  }
+}
+
+/**
+ * Whether every condition holds in the context, a ProcedureContext or any
+ * other object the condition paths read
+ */
+export function conditionsHold(conditions: Condition[], context: object): boolean {
+  return conditions.every(condition => evaluateCondition(condition, context));
+}
+
+export function evaluateCondition(condition: Condition, context: object): boolean {
+  const actual = condition.type.split('.').reduce<any>((value, key) => value?.[key], context);
+  const expected = condition.value;
+  switch (condition.operator) {
+    case 'eq':
+      return equals(actual, expected);
+    case 'ne':
+      return !equals(actual, expected);
+    case 'gt':
+      return comparable(actual, expected) && actual > expected;
+    case 'gte':
+      return comparable(actual, expected) && actual >= expected;
+    case 'lt':
+      return comparable(actual, expected) && actual < expected;
+    case 'lte':
+      return comparable(actual, expected) && actual <= expected;
+    case 'in':
+      return Array.isArray(expected) && expected.some(item => equals(actual, item));
+    case 'contains':
+      if (typeof actual === 'string') {
+        return typeof expected === 'string' && actual.includes(expected);
+      }
+      return Array.isArray(actual) && actual.some(item => equals(item, expected));
+    case 'exists':
+      // `value: false` asks for the path to be absent
+      return (actual !== undefined && actual !== null) === (expected !== false);
+    default:
+      throw new Error(`Unknown condition operator ${condition.operator}; expected one of ${CONDITION_OPERATORS.join(', ')}`);
+  }
+}
+
+export function validateConditions(conditions: Condition[]): Condition[] {
+  for (const condition of conditions) {
+    if (typeof condition.type !== 'string' || !condition.type) {
+      throw new Error('Condition type must name a context path');
+    }
+    if (!CONDITION_OPERATORS.includes(condition.operator)) {
+      throw new Error(`Unknown condition operator ${condition.operator}; expected one of ${CONDITION_OPERATORS.join(', ')}`);
+    }
+  }
+  return conditions;
+}
+
+// The outcomes with one more observation of `status`
+function tally(outcomes: Outcome[], status: string, statuses: string[]): Outcome[] {
+  const counts = new Map(outcomes.map(outcome => [outcome.type, Number(outcome.value) || 0]));
+  counts.set(status, (counts.get(status) || 0) + 1);
+  const total = Array.from(counts.values()).reduce((sum, count) => sum + count, 0);
+  return statuses
+    .filter(type => counts.has(type))
+    .map(type => ({ type, value: counts.get(type)!, probability: counts.get(type)! / total }));
+}
+
+function equals(a: any, b: any): boolean {
+  if (a === b) {
+    return true;
+  }
+  return typeof a === 'object' && typeof b === 'object' && a !== null && b !== null && JSON.stringify(a) === JSON.stringify(b);
+}
+
+function comparable(a: any, b: any): boolean {
+  return (typeof a === 'number' && typeof b === 'number') || (typeof a === 'string' && typeof b === 'string');
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
@@ -5,19 +5,37 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { createCipheriv, createDecipheriv, createHash, randomBytes, scryptSync } from 'crypto';
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
 import { SecurityFramework, EncryptedData, Credentials, AuthResult } from '../types/security';
 
+const CIPHER_ALGORITHM = 'aes-256-gcm';
+const KEY_LENGTH = 32;
+const IV_LENGTH = 12;
+const KEY_DERIVATION_SALT = 'ai-persistence-keyring';
+
 export class SecurityFrameworkImpl implements SecurityFramework {
   private initialized: boolean = false;
+  private keys: Map<string, Buffer> = new Map();
+  private activeKeyId: string = '';
 
   constructor(private config: any) {}
 
   async initialize(): Promise<void> {
+    // The master key is derived deterministically so that data encrypted by a
+    // previous process (e.g. persisted state) can still be decrypted.
+    const secret = this.config?.encryption?.key || process.env.AI_PERSISTENCE_ENCRYPTION_KEY || await this.readKeyFile();
+    const masterKey = scryptSync(secret, KEY_DERIVATION_SALT, KEY_LENGTH);
+    this.activeKeyId = this.registerKey(masterKey);
+
     this.initialized = true;
     console.log('Security Framework initialized');
   }
 
   async shutdown(): Promise<void> {
+    this.keys.clear();
+    this.activeKeyId = '';
     this.initialized = false;
     console.log('Security Framework shutdown');
   }
@@ -28,15 +46,20 @@ export class SecurityFrameworkImpl implements SecurityFramework {
       throw new Error('Security Framework is not initialized');
     }
 
-    // Simple base64 encryption for now
-    const dataString = JSON.stringify(data);
-    const encryptedData = Buffer.from(dataString).toString('base64');
-    
+    const key = this.keys.get(this.activeKeyId)!;
+    const iv = randomBytes(IV_LENGTH);
+    const cipher = createCipheriv(CIPHER_ALGORITHM, key, iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(data), 'utf8'),
+      cipher.final()
+    ]);
+
     return {
-      data: encryptedData,
-      algorithm: 'AES-256',
-      keyId: uuidv4(),
-      iv: uuidv4(),
+      data: ciphertext.toString('base64'),
+      algorithm: CIPHER_ALGORITHM,
+      keyId: this.activeKeyId,
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
       timestamp: new Date()
     };
   }
@@ -46,9 +69,32 @@ export class SecurityFrameworkImpl implements SecurityFramework {
       throw new Error('Security Framework is not initialized');
     }
 
-    // Simple base64 decryption for now
-    const decryptedData = Buffer.from(encryptedData.data, 'base64').toString('utf8');
-    return JSON.parse(decryptedData);
+    if (encryptedData.algorithm !== CIPHER_ALGORITHM) {
+      throw new Error(`Unsupported encryption algorithm: ${encryptedData.algorithm}`);
+    }
+
+    const key = this.keys.get(encryptedData.keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key: ${encryptedData.keyId}`);
+    }
+
+    if (!encryptedData.iv || !encryptedData.authTag) {
+      throw new Error('Encrypted data is missing its IV or authentication tag');
+    }
+
+    let plaintext: string;
+    try {
+      const decipher = createDecipheriv(CIPHER_ALGORITHM, key, Buffer.from(encryptedData.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'base64'));
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(encryptedData.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch (error) {
+      throw new Error('Decryption failed: data has been tampered with or the key is incorrect');
+    }
+
+    return JSON.parse(plaintext);
   }
 
   // Authentication service
@@ -80,11 +126,54 @@ export class SecurityFrameworkImpl implements SecurityFramework {
 
   // Key management
   async generateKey(): Promise<string> {
-    return uuidv4();
+    return this.registerKey(randomBytes(KEY_LENGTH));
   }
 
+  /**
+   * Make a freshly generated key the active encryption key.
+   * Previous keys stay in the keyring so existing data can still be decrypted.
+   */
   async rotateKey(): Promise<string> {
-    return this.generateKey();
+    this.activeKeyId = await this.generateKey();
+    return this.activeKeyId;
+  }
+
+  /**
+   * The secret in `encryption.keyFile`, generated on first use so every
+   * install has its own. Without a key file there is no key to fall back on.
+   */
+  private async readKeyFile(): Promise<string> {
+    const keyFile: string | undefined = this.config?.encryption?.keyFile;
+    if (!keyFile) {
+      throw new Error('No encryption key configured: set security.encryption.key, AI_PERSISTENCE_ENCRYPTION_KEY or security.encryption.keyFile');
+    }
+
+    try {
+      return (await fs.readFile(keyFile, 'utf8')).trim();
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+        throw error;
+      }
+    }
+    const secret = randomBytes(KEY_LENGTH).toString('hex');
+    await fs.mkdir(dirname(keyFile), { recursive: true });
+    try {
+      // 'wx' fails if another process created the file first; its key wins
+      await fs.writeFile(keyFile, secret, { encoding: 'utf8', mode: 0o600, flag: 'wx' });
+      console.warn(`Generated a new encryption key in ${keyFile}; back it up, data encrypted with it cannot be read without it`);
+      return secret;
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+      return (await fs.readFile(keyFile, 'utf8')).trim();
+    }
+  }
+
+  private registerKey(key: Buffer): string {
+    const keyId = createHash('sha256').update(key).digest('hex').slice(0, 16);
+    this.keys.set(keyId, key);
+    return keyId;
   }
 
   // Privacy service
@@ -6,7 +6,24 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
-import { promises as fs } from 'fs';
+import { EventEmitter } from 'events';
+import { createCipheriv, createDecipheriv, randomBytes, scrypt } from 'crypto';
+import { promisify } from 'util';
+import { StorageAdapter, StorageType } from '../interfaces/StorageAdapter';
+import { createStorageAdapter } from './StorageAdapterFactory';
+import { IndexedDocument, MemoryIndexer } from './MemoryIndexer';
+import { MemoryPage, MemoryQuery } from '../interfaces/AIPersistenceCore';
+import { queryMemories } from '../utils/memoryQuery';
+import { consolidatedMetadata, summarizeMemories } from '../utils/consolidation';
+import { EvictionPolicy, planConsolidation, selectEvictions, validateEvictionPolicy } from '../utils/eviction';
+
+const scryptAsync = promisify(scrypt) as (password: string, salt: Buffer, keylen: number) => Promise<Buffer>;
+
+const STATE_FILE_VERSION = 1;
+const STATE_CIPHER = 'aes-256-gcm';
+const STATE_KEY_LENGTH = 32;
+const STATE_SALT_LENGTH = 16;
+const STATE_IV_LENGTH = 12;
 
 // Simplified interfaces
 export interface SimpleAIIdentity {
@@ -25,6 +42,8 @@ export interface SimpleMemory {
   content: string;
   metadata: Record<string, any>;
   timestamp: Date;
+  // Relevance to the content search that returned this memory
+  score?: number;
 }
 
 export interface SimpleLearningProgress {
@@ -46,6 +65,8 @@ export interface SimpleCheckpoint {
 export interface SimpleSystemState {
   identities: SimpleAIIdentity[];
   memories: SimpleMemory[];
+  // Persisted full-text index entries; rebuilt from content when absent
+  memoryIndex?: IndexedDocument[];
   learningProgress: SimpleLearningProgress[];
   checkpoints: SimpleCheckpoint[];
   timestamp: Date;
@@ -54,24 +75,86 @@ export interface SimpleSystemState {
 export interface SimpleConfig {
   storagePath: string;
   maxMemories: number;
+  // How to make room once maxMemories is exceeded; defaults to 'lru'
+  evictionPolicy?: EvictionPolicy;
   encryptionKey: string;
+  storageType?: StorageType;
+  journalCompactionThreshold?: number;
+}
+
+/**
+ * What a capacity check dropped, emitted as the 'eviction' event
+ */
+export interface EvictionReport {
+  policy: EvictionPolicy;
+  // Memories removed, including those merged into consolidated memories
+  evicted: SimpleMemory[];
+  // Summaries stored in place of merged memories ('consolidate' policy only)
+  consolidated: SimpleMemory[];
+  maxMemories: number;
+  timestamp: Date;
+}
+
+/**
+ * On-disk format of state.json and of each state.journal line: the serialized
+ * value encrypted with a key derived from SimpleConfig.encryptionKey via scrypt.
+ */
+export interface EncryptedStateFile {
+  version: number;
+  algorithm: string;
+  kdf: 'scrypt';
+  salt: string;
+  iv: string;
+  authTag: string;
+  data: string;
 }
 
 /**
  * Simplified AI Persistence Core
  * 
- * Provides complete AI persistence with file-based storage
+ * Provides complete AI persistence with file-based storage. Emits 'eviction'
+ * with an EvictionReport whenever memories are dropped to stay within
+ * SimpleConfig.maxMemories.
  */
-export class SimplifiedAIPersistence {
+export class SimplifiedAIPersistence extends EventEmitter {
   private initialized: boolean = false;
   private identities: Map<string, SimpleAIIdentity> = new Map();
   private memories: Map<string, SimpleMemory> = new Map();
+  private indexer: MemoryIndexer = new MemoryIndexer();
   private learningProgress: Map<string, SimpleLearningProgress> = new Map();
   private checkpoints: Map<string, SimpleCheckpoint> = new Map();
+  // Last store or retrieval of each memory, for LRU eviction. Not persisted:
+  // after a restart memories count as last accessed when they were stored.
+  private accessed: Map<string, number> = new Map();
   private config: SimpleConfig;
+  private stateKey: { salt: Buffer; key: Buffer } | null = null;
+  private storage: StorageAdapter;
+  private migratedLegacyState: boolean = false;
 
   constructor(config: SimpleConfig) {
+    super();
+    if (!(Number.isInteger(config.maxMemories) && config.maxMemories > 0)) {
+      throw new Error(`maxMemories must be a positive integer, got ${config.maxMemories}`);
+    }
+    validateEvictionPolicy(config.evictionPolicy || 'lru');
     this.config = config;
+    this.storage = createStorageAdapter({
+      type: config.storageType || 'file',
+      path: config.storagePath,
+      compactionThreshold: config.journalCompactionThreshold,
+      codec: {
+        encode: async value => JSON.stringify(await this.encryptState(JSON.stringify(value))),
+        decode: async text => {
+          const encryptedState = this.parseEncryptedStateFile(text);
+          if (encryptedState) {
+            return JSON.parse(await this.decryptState(encryptedState));
+          }
+          // Legacy files were plain base64-encoded JSON; read once and rewrite encrypted
+          this.migratedLegacyState = true;
+          return JSON.parse(Buffer.from(text, 'base64').toString('utf8'));
+        }
+      }
+    });
   }
 
   /**
@@ -83,11 +166,17 @@ export class SimplifiedAIPersistence {
     }
 
     try {
-      // Create storage directory if it doesn't exist
-      await fs.mkdir(this.config.storagePath, { recursive: true });
+      // Open storage, replaying any journaled mutations
+      await this.storage.initialize();
+      if (this.migratedLegacyState) {
+        await this.storage.flush();
+        this.migratedLegacyState = false;
+        console.log('Migrated legacy state file to encrypted format');
+      }
       
-      // Load existing state
+      // Load existing state, trimming it if maxMemories has been lowered since
       await this.loadState();
+      await this.enforceCapacity();
       
       this.initialized = true;
       console.log('AI Persistence initialized successfully');
@@ -108,6 +197,7 @@ export class SimplifiedAIPersistence {
     try {
       // Save current state
       await this.saveState();
+      await this.storage.close();
       
       this.initialized = false;
       console.log('AI Persistence shutdown successfully');
@@ -141,6 +231,7 @@ export class SimplifiedAIPersistence {
     };
 
     this.identities.set(identity.id, identity);
+    await this.storage.put('identities', identity);
     console.log(`Created AI identity: ${identity.name}`);
     
     return identity;
@@ -177,6 +268,7 @@ export class SimplifiedAIPersistence {
     };
 
     this.identities.set(id, updatedIdentity);
+    await this.storage.put('identities', updatedIdentity);
     console.log(`Updated AI identity: ${updatedIdentity.name}`);
     
     return updatedIdentity;
@@ -202,8 +294,11 @@ export class SimplifiedAIPersistence {
       timestamp: new Date()
     };
 
-    this.memories.set(newMemory.id, newMemory);
+    await this.putMemory(newMemory);
     console.log(`Stored memory: ${newMemory.type}`);
+
+    // The new memory itself is never the one evicted
+    await this.enforceCapacity(newMemory.id);
     
     return newMemory;
   }
@@ -211,38 +306,24 @@ export class SimplifiedAIPersistence {
   /**
    * Retrieve memories based on query
    */
-  async retrieveMemory(query: {
-    type?: string;
-    content?: string;
-    limit?: number;
-  }): Promise<SimpleMemory[]> {
+  async retrieveMemory(query: MemoryQuery): Promise<SimpleMemory[]> {
+    return (await this.queryMemories(query)).memories;
+  }
+
+  /**
+   * Retrieve one page of memories, with a cursor for the next page
+   */
+  async queryMemories(query: MemoryQuery): Promise<MemoryPage<SimpleMemory>> {
     if (!this.initialized) {
       throw new Error('AI Persistence is not initialized');
     }
 
-    let memories = Array.from(this.memories.values());
-
-    // Filter by type
-    if (query.type) {
-      memories = memories.filter(m => m.type === query.type);
-    }
-
-    // Filter by content
-    if (query.content) {
-      memories = memories.filter(m => 
-        m.content.toLowerCase().includes(query.content!.toLowerCase())
-      );
+    const page = queryMemories(this.memories.values(), query, text => this.indexer.search(text));
+    const now = Date.now();
+    for (const memory of page.memories) {
+      this.accessed.set(memory.id, now);
     }
-
-    // Sort by timestamp (newest first)
-    memories.sort((a, b) => b.timestamp.getTime() - a.timestamp.getTime());
-
-    // Apply limit
-    if (query.limit) {
-      memories = memories.slice(0, query.limit);
-    }
-
-    return memories;
+    return page;
   }
 
   /**
@@ -267,6 +348,7 @@ export class SimplifiedAIPersistence {
     };
 
     this.learningProgress.set(progress.id, progress);
+    await this.storage.put('learningProgress', progress);
     console.log(`Learned concept: ${progress.concept}`);
     
     return progress;
@@ -305,6 +387,7 @@ export class SimplifiedAIPersistence {
     };
 
     this.checkpoints.set(newCheckpoint.id, newCheckpoint);
+    await this.storage.put('checkpoints', newCheckpoint);
     console.log(`Created checkpoint: ${newCheckpoint.name}`);
     
     return newCheckpoint;
@@ -342,7 +425,7 @@ export class SimplifiedAIPersistence {
   }
 
   /**
-   * Save state to file
+   * Save state to storage, compacting the file journal into a new snapshot
    */
   async saveState(): Promise<void> {
     if (!this.initialized) {
@@ -350,14 +433,8 @@ export class SimplifiedAIPersistence {
     }
 
     try {
-      const state = await this.getState();
-      const stateFile = `${this.config.storagePath}/state.json`;
-      
-      // Simple encryption (base64 encoding for basic obfuscation)
-      const encryptedState = Buffer.from(JSON.stringify(state)).toString('base64');
-      
-      await fs.writeFile(stateFile, encryptedState, 'utf8');
-      console.log('State saved to file');
+      await this.storage.flush();
+      console.log('State saved to storage');
     } catch (error) {
       console.error('Failed to save state:', error);
       throw error;
@@ -365,27 +442,30 @@ export class SimplifiedAIPersistence {
   }
 
   /**
-   * Load state from file
+   * Load state from storage
    */
   async loadState(): Promise<void> {
     try {
-      const stateFile = `${this.config.storagePath}/state.json`;
-      const encryptedState = await fs.readFile(stateFile, 'utf8');
-      
-      // Simple decryption (base64 decoding)
-      const stateJson = Buffer.from(encryptedState, 'base64').toString('utf8');
-      const state: SimpleSystemState = JSON.parse(stateJson);
-      
+      const state: SimpleSystemState = {
+        identities: await this.storage.scan<SimpleAIIdentity>('identities'),
+        memories: await this.storage.scan<SimpleMemory>('memories'),
+        memoryIndex: await this.storage.scan<IndexedDocument>('memoryIndex'),
+        learningProgress: await this.storage.scan<SimpleLearningProgress>('learningProgress'),
+        checkpoints: await this.storage.scan<SimpleCheckpoint>('checkpoints'),
+        timestamp: new Date()
+      };
+
+      if (!state.identities.length && !state.memories.length && !state.learningProgress.length && !state.checkpoints.length) {
+        console.log('No previous state found, starting fresh');
+        return;
+      }
+
       // Restore state
       await this.restoreFromState(state);
-      console.log('State loaded from file');
+      console.log('State loaded from storage');
     } catch (error) {
-      if ((error as any).code === 'ENOENT') {
-        console.log('No previous state found, starting fresh');
-      } else {
-        console.error('Failed to load state:', error);
-        throw error;
-      }
+      console.error('Failed to load state:', error);
+      throw error;
     }
   }
 
@@ -396,30 +476,173 @@ export class SimplifiedAIPersistence {
     // Restore identities
     this.identities.clear();
     for (const identity of state.identities) {
-      this.identities.set(identity.id, identity);
+      this.identities.set(identity.id, {
+        ...identity,
+        createdAt: new Date(identity.createdAt),
+        updatedAt: new Date(identity.updatedAt)
+      });
     }
 
-    // Restore memories
+    // Restore memories, reusing persisted index entries that still match their content
     this.memories.clear();
+    this.indexer.clear();
+    this.accessed.clear();
+    const indexedDocuments = new Map((state.memoryIndex || []).map(document => [document.id, document]));
     for (const memory of state.memories) {
-      this.memories.set(memory.id, memory);
+      const timestamp = new Date(memory.timestamp);
+      this.memories.set(memory.id, { ...memory, timestamp });
+      this.accessed.set(memory.id, timestamp.getTime());
+      const document = indexedDocuments.get(memory.id);
+      if (document) {
+        this.indexer.restore(document, memory.content);
+      } else {
+        this.indexer.index(memory.id, memory.content);
+      }
     }
 
     // Restore learning progress
     this.learningProgress.clear();
     for (const progress of state.learningProgress) {
-      this.learningProgress.set(progress.id, progress);
+      this.learningProgress.set(progress.id, { ...progress, timestamp: new Date(progress.timestamp) });
     }
 
     // Restore checkpoints
     this.checkpoints.clear();
     for (const checkpoint of state.checkpoints) {
-      this.checkpoints.set(checkpoint.id, checkpoint);
+      this.checkpoints.set(checkpoint.id, { ...checkpoint, timestamp: new Date(checkpoint.timestamp) });
     }
 
     console.log('State restored successfully');
   }
 
+  /**
+   * Drop memories until at most maxMemories remain, following the configured
+   * eviction policy, and emit 'eviction' with what was dropped
+   */
+  private async enforceCapacity(protectedId?: string): Promise<EvictionReport | null> {
+    const excess = this.memories.size - this.config.maxMemories;
+    if (excess <= 0) {
+      return null;
+    }
+
+    const policy = this.config.evictionPolicy || 'lru';
+    const candidates = Array.from(this.memories.values()).filter(memory => memory.id !== protectedId);
+    const report: EvictionReport = { policy, evicted: [], consolidated: [], maxMemories: this.config.maxMemories, timestamp: new Date() };
+
+    let remaining = excess;
+    if (policy === 'consolidate') {
+      for (const group of planConsolidation(candidates, excess)) {
+        const summary: SimpleMemory = {
+          id: uuidv4(),
+          type: group[0].type,
+          content: summarizeMemories(group),
+          metadata: consolidatedMetadata(group),
+          timestamp: new Date()
+        };
+        for (const memory of group) {
+          await this.removeMemory(memory.id);
+        }
+        await this.putMemory(summary);
+        report.evicted.push(...group);
+        report.consolidated.push(summary);
+        remaining -= group.length - 1;
+      }
+    }
+
+    if (remaining > 0) {
+      const evictable = candidates
+        .filter(memory => this.memories.has(memory.id))
+        .map(memory => ({ memory, lastAccessed: this.accessed.get(memory.id) ?? memory.timestamp.getTime() }));
+      // Whatever consolidation could not merge goes oldest first
+      for (const memory of selectEvictions(evictable, remaining, policy === 'consolidate' ? 'oldest' : policy)) {
+        await this.removeMemory(memory.id);
+        report.evicted.push(memory);
+      }
+    }
+
+    console.log(`Evicted ${report.evicted.length} memories (${policy}) to stay within ${this.config.maxMemories}`);
+    this.emit('eviction', report);
+    return report;
+  }
+
+  private async putMemory(memory: SimpleMemory): Promise<void> {
+    this.memories.set(memory.id, memory);
+    this.accessed.set(memory.id, Date.now());
+    await this.storage.put('memories', memory);
+    await this.storage.put('memoryIndex', this.indexer.index(memory.id, memory.content));
+  }
+
+  private async removeMemory(id: string): Promise<void> {
+    this.memories.delete(id);
+    this.accessed.delete(id);
+    this.indexer.remove(id);
+    await this.storage.delete('memories', id);
+    await this.storage.delete('memoryIndex', id);
+  }
+
+  private async encryptState(plaintext: string): Promise<EncryptedStateFile> {
+    if (!this.stateKey) {
+      const salt = randomBytes(STATE_SALT_LENGTH);
+      this.stateKey = { salt, key: await this.deriveStateKey(salt) };
+    }
+
+    const iv = randomBytes(STATE_IV_LENGTH);
+    const cipher = createCipheriv(STATE_CIPHER, this.stateKey.key, iv);
+    const ciphertext = Buffer.concat([cipher.update(plaintext, 'utf8'), cipher.final()]);
+
+    return {
+      version: STATE_FILE_VERSION,
+      algorithm: STATE_CIPHER,
+      kdf: 'scrypt',
+      salt: this.stateKey.salt.toString('base64'),
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
+      data: ciphertext.toString('base64')
+    };
+  }
+
+  private async decryptState(encryptedState: EncryptedStateFile): Promise<string> {
+    if (encryptedState.version !== STATE_FILE_VERSION || encryptedState.algorithm !== STATE_CIPHER) {
+      throw new Error(`Unsupported state file format: version ${encryptedState.version}, ${encryptedState.algorithm}`);
+    }
+
+    const salt = Buffer.from(encryptedState.salt, 'base64');
+    const key = this.stateKey && this.stateKey.salt.equals(salt)
+      ? this.stateKey.key
+      : await this.deriveStateKey(salt);
+
+    try {
+      const decipher = createDecipheriv(STATE_CIPHER, key, Buffer.from(encryptedState.iv, 'base64'));
+      decipher.setAuthTag(Buffer.from(encryptedState.authTag, 'base64'));
+      const plaintext = Buffer.concat([
+        decipher.update(Buffer.from(encryptedState.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+
+      this.stateKey = { salt, key };
+      return plaintext;
+    } catch (error) {
+      throw new Error('State file failed authentication: wrong encryption key or the file has been tampered with');
+    }
+  }
+
+  private async deriveStateKey(salt: Buffer): Promise<Buffer> {
+    return scryptAsync(this.config.encryptionKey, salt, STATE_KEY_LENGTH);
+  }
+
+  private parseEncryptedStateFile(contents: string): EncryptedStateFile | null {
+    let parsed: any;
+    try {
+      parsed = JSON.parse(contents);
+    } catch {
+      return null;
+    }
+    if (!parsed || typeof parsed !== 'object' || parsed.kdf !== 'scrypt') {
+      return null;
+    }
+    return parsed as EncryptedStateFile;
+  }
+
   /**
    * Get system status
    */
@@ -453,5 +676,8 @@ export function createAIPersistence(config: SimpleConfig): SimplifiedAIPersisten
 export const DEFAULT_CONFIG: SimpleConfig = {
   storagePath: './persistence',
   maxMemories: 10000,
-  encryptionKey: 'default-encryption-key-change-in-production'
+  evictionPolicy: 'lru',
+  encryptionKey: 'default-encryption-key-change-in-production',
+  storageType: 'file',
+  journalCompactionThreshold: 1000
 };
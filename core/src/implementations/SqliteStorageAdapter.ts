@@ -0,0 +1,386 @@
+/**
+ * SQLite Storage Adapter
+ *
+ * Stores each collection in the relational tables defined by init.sql, using
+ * the node:sqlite driver bundled with Node.js 22.5+. With a codec, e.g. to
+ * encrypt state at rest, only the plaintext columns (identifiers, types,
+ * timestamps and scores) are filled in; the rest of the record, names and
+ * content included, is encoded into `extra`.
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import type { DatabaseSync, SQLInputValue } from 'node:sqlite';
+import { StorageAdapter, StorageCodec, StorageCollection, StorageRecord } from '../interfaces/StorageAdapter';
+
+type ColumnKind = 'text' | 'real' | 'json' | 'date';
+
+interface ColumnMapping {
+  column: string;
+  field: string;
+  kind: ColumnKind;
+  // Filled in even when records are encoded, so it stays queryable
+  plaintext?: boolean;
+}
+
+interface TableMapping {
+  table: string;
+  columns: ColumnMapping[];
+  // Row bookkeeping columns from init.sql that have no record field
+  createdAt: boolean;
+  updatedAt: boolean;
+  indexes: string[];
+}
+
+// Mirrors the init.sql schema, which the storage adapter tests check it
+// against; JSONB becomes TEXT and fields without a column of their own are
+// kept in `extra` so records round-trip unchanged.
+export const SQLITE_TABLES: Record<StorageCollection, TableMapping> = {
+  identities: {
+    table: 'identities',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'type', field: 'type', kind: 'text', plaintext: true },
+      { column: 'capabilities', field: 'capabilities', kind: 'json' },
+      { column: 'preferences', field: 'preferences', kind: 'json' },
+      { column: 'hyperbolic_position', field: 'hyperbolicPosition', kind: 'json' },
+      { column: 'embedding', field: 'embedding', kind: 'json' },
+      { column: 'relationships', field: 'relationships', kind: 'json' },
+      { column: 'trust_network', field: 'trustNetwork', kind: 'json' },
+      { column: 'history', field: 'history', kind: 'json' },
+      { column: 'evolution', field: 'evolution', kind: 'json' },
+      { column: 'verification', field: 'verification', kind: 'json' },
+      { column: 'certificates', field: 'certificates', kind: 'json' },
+      { column: 'permissions', field: 'permissions', kind: 'json' },
+      { column: 'created_at', field: 'createdAt', kind: 'date', plaintext: true },
+      { column: 'updated_at', field: 'updatedAt', kind: 'date', plaintext: true },
+      { column: 'last_accessed', field: 'lastAccessed', kind: 'date', plaintext: true }
+    ],
+    createdAt: false,
+    updatedAt: false,
+    indexes: ['name', 'type', 'created_at', 'updated_at']
+  },
+  memories: {
+    table: 'memories',
+    columns: [
+      { column: 'type', field: 'type', kind: 'text', plaintext: true },
+      { column: 'content', field: 'content', kind: 'text' },
+      { column: 'metadata', field: 'metadata', kind: 'json' },
+      { column: 'timestamp', field: 'timestamp', kind: 'date', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['type', 'timestamp', 'created_at']
+  },
+  compressedMemories: {
+    table: 'compressed_memories',
+    columns: [
+      { column: 'original', field: 'original', kind: 'text' },
+      { column: 'compressed', field: 'compressed', kind: 'text' },
+      { column: 'algorithm', field: 'algorithm', kind: 'text', plaintext: true },
+      { column: 'original_bytes', field: 'originalBytes', kind: 'real' },
+      { column: 'compressed_bytes', field: 'compressedBytes', kind: 'real' },
+      { column: 'ratio', field: 'ratio', kind: 'real' },
+      { column: 'fidelity', field: 'fidelity', kind: 'real' },
+      { column: 'timestamp', field: 'timestamp', kind: 'date', plaintext: true }
+    ],
+    createdAt: false,
+    updatedAt: false,
+    indexes: []
+  },
+  memoryIndex: {
+    table: 'memory_index',
+    columns: [
+      { column: 'hash', field: 'hash', kind: 'text' },
+      { column: 'length', field: 'length', kind: 'real' },
+      { column: 'terms', field: 'terms', kind: 'json' }
+    ],
+    createdAt: false,
+    updatedAt: false,
+    indexes: []
+  },
+  memoryStrength: {
+    table: 'memory_strength',
+    columns: [
+      { column: 'stability', field: 'stability', kind: 'real', plaintext: true },
+      { column: 'last_reinforced', field: 'lastReinforced', kind: 'date', plaintext: true },
+      { column: 'reinforcements', field: 'reinforcements', kind: 'real', plaintext: true },
+      { column: 'pinned', field: 'pinned', kind: 'json', plaintext: true }
+    ],
+    createdAt: false,
+    updatedAt: false,
+    indexes: ['last_reinforced']
+  },
+  memoryRelationships: {
+    table: 'memory_relationships',
+    columns: [
+      { column: 'source', field: 'source', kind: 'text', plaintext: true },
+      { column: 'target', field: 'target', kind: 'text', plaintext: true },
+      { column: 'relationship_type', field: 'relationshipType', kind: 'text', plaintext: true },
+      { column: 'distance', field: 'distance', kind: 'real', plaintext: true },
+      { column: 'strength', field: 'strength', kind: 'real', plaintext: true },
+      { column: 'confidence', field: 'confidence', kind: 'real', plaintext: true },
+      { column: 'timestamp', field: 'timestamp', kind: 'date', plaintext: true }
+    ],
+    createdAt: false,
+    updatedAt: false,
+    indexes: ['source', 'target']
+  },
+  learningProgress: {
+    table: 'learning_progress',
+    columns: [
+      { column: 'concept', field: 'concept', kind: 'text' },
+      { column: 'data', field: 'data', kind: 'json' },
+      { column: 'context', field: 'context', kind: 'json' },
+      { column: 'performance', field: 'performance', kind: 'real', plaintext: true },
+      { column: 'confidence', field: 'confidence', kind: 'real', plaintext: true },
+      { column: 'mastery', field: 'mastery', kind: 'real', plaintext: true },
+      { column: 'timestamp', field: 'timestamp', kind: 'date', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['concept', 'performance', 'timestamp']
+  },
+  concepts: {
+    table: 'concepts',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'definition', field: 'definition', kind: 'text' },
+      { column: 'category', field: 'category', kind: 'text' },
+      { column: 'properties', field: 'properties', kind: 'json' },
+      { column: 'relationships', field: 'relationships', kind: 'json' }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['name', 'category']
+  },
+  axioms: {
+    table: 'axioms',
+    columns: [
+      { column: 'statement', field: 'statement', kind: 'text' },
+      { column: 'type', field: 'type', kind: 'text', plaintext: true },
+      { column: 'confidence', field: 'confidence', kind: 'real' },
+      { column: 'concepts', field: 'concepts', kind: 'json' },
+      { column: 'relation', field: 'relation', kind: 'text' }
+    ],
+    createdAt: true,
+    updatedAt: false,
+    indexes: ['type']
+  },
+  skills: {
+    table: 'skills',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'description', field: 'description', kind: 'text' },
+      { column: 'proficiency', field: 'proficiency', kind: 'real', plaintext: true },
+      { column: 'confidence', field: 'confidence', kind: 'real', plaintext: true },
+      { column: 'prerequisites', field: 'prerequisites', kind: 'json' },
+      { column: 'applications', field: 'applications', kind: 'json' }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['name', 'proficiency']
+  },
+  procedures: {
+    table: 'procedures',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'steps', field: 'steps', kind: 'json' },
+      { column: 'conditions', field: 'conditions', kind: 'json' },
+      { column: 'outcomes', field: 'outcomes', kind: 'json' },
+      { column: 'skill', field: 'skill', kind: 'text', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['name', 'skill']
+  },
+  automations: {
+    table: 'automations',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'trigger', field: 'trigger', kind: 'json' },
+      { column: 'action', field: 'action', kind: 'json' },
+      { column: 'conditions', field: 'conditions', kind: 'json' },
+      { column: 'schedule', field: 'schedule', kind: 'json' },
+      { column: 'last_run', field: 'lastRun', kind: 'date', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['name']
+  },
+  habits: {
+    table: 'habits',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'pattern', field: 'pattern', kind: 'json' },
+      { column: 'frequency', field: 'frequency', kind: 'real', plaintext: true },
+      { column: 'strength', field: 'strength', kind: 'real', plaintext: true },
+      { column: 'context', field: 'context', kind: 'text' },
+      { column: 'last_performed', field: 'lastPerformed', kind: 'date', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: true,
+    indexes: ['context', 'strength']
+  },
+  checkpoints: {
+    table: 'checkpoints',
+    columns: [
+      { column: 'name', field: 'name', kind: 'text' },
+      { column: 'description', field: 'description', kind: 'text' },
+      { column: 'state', field: 'state', kind: 'json' },
+      { column: 'metadata', field: 'metadata', kind: 'json' },
+      { column: 'timestamp', field: 'timestamp', kind: 'date', plaintext: true }
+    ],
+    createdAt: true,
+    updatedAt: false,
+    indexes: ['name', 'timestamp']
+  }
+};
+
+export class SqliteStorageAdapter implements StorageAdapter {
+  private db: DatabaseSync | null = null;
+
+  constructor(private path: string, private codec?: StorageCodec) {}
+
+  async initialize(): Promise<void> {
+    if (this.db) {
+      return;
+    }
+
+    let sqlite: typeof import('node:sqlite');
+    try {
+      sqlite = await import('node:sqlite');
+    } catch (error) {
+      throw new Error(`SQLite storage requires Node.js 22.5 or later with node:sqlite available: ${(error as Error).message}`);
+    }
+
+    await fs.mkdir(dirname(this.path), { recursive: true });
+    this.db = new sqlite.DatabaseSync(this.path);
+    this.db.exec('PRAGMA journal_mode = WAL');
+    for (const mapping of Object.values(SQLITE_TABLES)) {
+      this.db.exec(createTableSql(mapping));
+      for (const column of mapping.indexes) {
+        this.db.exec(`CREATE INDEX IF NOT EXISTS idx_${mapping.table}_${column} ON ${mapping.table}(${column})`);
+      }
+    }
+  }
+
+  async close(): Promise<void> {
+    if (this.db) {
+      this.db.close();
+      this.db = null;
+    }
+  }
+
+  async flush(): Promise<void> {
+    // Every statement is committed as it runs
+  }
+
+  async get<T extends StorageRecord>(collection: StorageCollection, id: string): Promise<T | null> {
+    const mapping = SQLITE_TABLES[collection];
+    const row = this.database().prepare(`SELECT * FROM ${mapping.table} WHERE id = ?`).get(id);
+    return row ? await this.decodeRow(mapping, row) as T : null;
+  }
+
+  async put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void> {
+    const mapping = SQLITE_TABLES[collection];
+    const extra: Record<string, any> = { ...record };
+    delete extra.id;
+
+    const values: SQLInputValue[] = [record.id];
+    for (const column of mapping.columns) {
+      const value = this.codec && !column.plaintext ? undefined : encodeColumn(column.kind, record[column.field]);
+      if (value !== undefined) {
+        delete extra[column.field];
+      }
+      values.push(value ?? null);
+    }
+    values.push(this.codec ? await this.codec.encode(extra) : JSON.stringify(extra));
+
+    const columns = ['id', ...mapping.columns.map(column => column.column), 'extra'];
+    const updates = columns.slice(1).map(column => `${column} = excluded.${column}`);
+    if (mapping.updatedAt) {
+      updates.push('updated_at = CURRENT_TIMESTAMP');
+    }
+
+    this.database().prepare(
+      `INSERT INTO ${mapping.table} (${columns.join(', ')}) VALUES (${columns.map(() => '?').join(', ')}) ` +
+      `ON CONFLICT(id) DO UPDATE SET ${updates.join(', ')}`
+    ).run(...values);
+  }
+
+  async delete(collection: StorageCollection, id: string): Promise<boolean> {
+    const result = this.database().prepare(`DELETE FROM ${SQLITE_TABLES[collection].table} WHERE id = ?`).run(id);
+    return Number(result.changes) > 0;
+  }
+
+  async scan<T extends StorageRecord>(collection: StorageCollection): Promise<T[]> {
+    const mapping = SQLITE_TABLES[collection];
+    const rows = this.database().prepare(`SELECT * FROM ${mapping.table} ORDER BY rowid`).all();
+    const records: T[] = [];
+    for (const row of rows) {
+      records.push(await this.decodeRow(mapping, row) as T);
+    }
+    return records;
+  }
+
+  private async decodeRow(mapping: TableMapping, row: Record<string, any>): Promise<StorageRecord> {
+    return rowToRecord(mapping, row, this.codec ? await this.codec.decode(row.extra) : JSON.parse(row.extra));
+  }
+
+  private database(): DatabaseSync {
+    if (!this.db) {
+      throw new Error('SQLite storage is not initialized');
+    }
+    return this.db;
+  }
+}
+
+function createTableSql(mapping: TableMapping): string {
+  const columns = ['id TEXT PRIMARY KEY'];
+  for (const column of mapping.columns) {
+    columns.push(`${column.column} ${column.kind === 'real' ? 'REAL' : 'TEXT'}`);
+  }
+  columns.push(`extra TEXT NOT NULL DEFAULT '{}'`);
+  if (mapping.createdAt) {
+    columns.push('created_at TEXT DEFAULT CURRENT_TIMESTAMP');
+  }
+  if (mapping.updatedAt) {
+    columns.push('updated_at TEXT DEFAULT CURRENT_TIMESTAMP');
+  }
+  return `CREATE TABLE IF NOT EXISTS ${mapping.table} (${columns.join(', ')})`;
+}
+
+/**
+ * Encode a field for its column, or return undefined when the value does not
+ * fit the column type and has to be kept in `extra` instead
+ */
+function encodeColumn(kind: ColumnKind, value: any): SQLInputValue | undefined {
+  if (value === undefined) {
+    return undefined;
+  }
+  switch (kind) {
+    case 'text':
+      return typeof value === 'string' ? value : undefined;
+    case 'real':
+      return typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+    case 'date':
+      if (value instanceof Date) {
+        return isNaN(value.getTime()) ? undefined : value.toISOString();
+      }
+      return typeof value === 'string' ? value : undefined;
+    case 'json':
+      return JSON.stringify(value);
+  }
+}
+
+function rowToRecord(mapping: TableMapping, row: Record<string, any>, extra: Record<string, any>): StorageRecord {
+  const record: StorageRecord = { id: row.id };
+  for (const column of mapping.columns) {
+    const value = row[column.column];
+    if (value !== null && value !== undefined) {
+      record[column.field] = column.kind === 'json' ? JSON.parse(value) : value;
+    }
+  }
+  return Object.assign(record, extra);
+}
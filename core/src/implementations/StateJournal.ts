@@ -0,0 +1,180 @@
+/**
+ * State Journal
+ *
+ * Crash-safe file writes and an append-only write-ahead journal of state
+ * mutations recorded between snapshots
+ */
+
+import { promises as fs } from 'fs';
+import { dirname } from 'path';
+import { randomBytes } from 'crypto';
+import { StorageCollection } from '../interfaces/StorageAdapter';
+
+export type JournalCollection = StorageCollection;
+
+export interface JournalEntry {
+  op: 'put' | 'delete';
+  collection: JournalCollection;
+  id: string;
+  value?: any;
+  timestamp: Date;
+}
+
+export type JournalState = Record<JournalCollection, Array<{ id: string }>>;
+
+export interface JournalCodec {
+  encode(entry: JournalEntry): Promise<string>;
+  decode(line: string): Promise<JournalEntry>;
+}
+
+/**
+ * Write a file so that readers only ever observe the old or the new contents:
+ * write to a temporary file, fsync it, then rename it over the target.
+ */
+export async function writeFileAtomic(path: string, data: string): Promise<void> {
+  const tempPath = `${path}.${process.pid}.${randomBytes(6).toString('hex')}.tmp`;
+
+  const handle = await fs.open(tempPath, 'w');
+  try {
+    await handle.writeFile(data, 'utf8');
+    await handle.sync();
+  } finally {
+    await handle.close();
+  }
+
+  try {
+    await fs.rename(tempPath, path);
+  } catch (error) {
+    await fs.unlink(tempPath).catch(() => undefined);
+    throw error;
+  }
+
+  // Persist the rename itself; not every platform allows fsync on a directory
+  try {
+    const directory = await fs.open(dirname(path), 'r');
+    try {
+      await directory.sync();
+    } finally {
+      await directory.close();
+    }
+  } catch {
+    // Ignore, the data file itself has already been synced
+  }
+}
+
+/**
+ * Apply journal entries on top of a snapshot. Entries are idempotent puts and
+ * deletes keyed by id, so replaying entries already contained in the snapshot
+ * is harmless.
+ */
+export function replayJournal<T extends JournalState>(state: T, entries: JournalEntry[]): T {
+  for (const entry of entries) {
+    // Snapshots written before a collection existed have no entry for it
+    const records = (state[entry.collection] || []).filter(record => record.id !== entry.id);
+    if (entry.op === 'put') {
+      records.push(entry.value);
+    }
+    (state as JournalState)[entry.collection] = records;
+  }
+  return state;
+}
+
+/**
+ * Append-only journal with one encoded entry per line. All file operations are
+ * serialized so appends never interleave with compaction.
+ */
+export class StateJournal {
+  private queue: Promise<unknown> = Promise.resolve();
+  private entryCount: number = 0;
+
+  constructor(
+    private path: string,
+    private codec: JournalCodec
+  ) {}
+
+  get size(): number {
+    return this.entryCount;
+  }
+
+  async append(entry: JournalEntry): Promise<void> {
+    return this.enqueue(async () => {
+      const line = await this.codec.encode(entry);
+      const handle = await fs.open(this.path, 'a');
+      try {
+        await handle.write(`${line}\n`);
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      this.entryCount++;
+    });
+  }
+
+  /**
+   * Read all entries. A torn final line (a crash mid-append) is dropped; damage
+   * anywhere else in the journal is reported as an error.
+   */
+  async readAll(): Promise<JournalEntry[]> {
+    return this.enqueue(async () => {
+      let contents: string;
+      try {
+        contents = await fs.readFile(this.path, 'utf8');
+      } catch (error) {
+        if ((error as any).code === 'ENOENT') {
+          this.entryCount = 0;
+          return [];
+        }
+        throw error;
+      }
+
+      const lines = contents.split('\n').filter(line => line.trim().length > 0);
+      const unterminated = contents.length > 0 && !contents.endsWith('\n');
+      const entries: JournalEntry[] = [];
+      let torn = false;
+      for (let i = 0; i < lines.length; i++) {
+        try {
+          entries.push(await this.codec.decode(lines[i]));
+        } catch (error) {
+          if (i === lines.length - 1 && unterminated) {
+            console.warn('Ignoring incomplete trailing journal entry');
+            torn = true;
+            break;
+          }
+          throw new Error(`Journal entry ${i + 1} is corrupted: ${(error as Error).message}`);
+        }
+      }
+
+      // Leave the file newline-terminated so the next append starts a fresh line
+      if (torn) {
+        await fs.truncate(this.path, Buffer.byteLength(contents.slice(0, contents.lastIndexOf('\n') + 1)));
+      } else if (unterminated) {
+        await fs.appendFile(this.path, '\n');
+      }
+
+      this.entryCount = entries.length;
+      return entries;
+    });
+  }
+
+  /**
+   * Write a snapshot and discard the journal once the snapshot is durable.
+   * No appends run while the snapshot is being taken.
+   */
+  async compact(writeSnapshot: () => Promise<void>): Promise<void> {
+    return this.enqueue(async () => {
+      await writeSnapshot();
+      await fs.unlink(this.path).catch(error => {
+        if (error.code !== 'ENOENT') {
+          throw error;
+        }
+      });
+      this.entryCount = 0;
+    });
+  }
+
+  private enqueue<T>(task: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(task);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+}
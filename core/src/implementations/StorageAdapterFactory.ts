@@ -0,0 +1,30 @@
+/**
+ * Storage Adapter Factory
+ *
+ * Selects a storage backend from configuration
+ */
+
+import { join } from 'path';
+import { StorageAdapter, StorageAdapterOptions } from '../interfaces/StorageAdapter';
+import { FileStorageAdapter } from './FileStorageAdapter';
+import { MemoryStorageAdapter } from './MemoryStorageAdapter';
+import { SqliteStorageAdapter } from './SqliteStorageAdapter';
+
+export function createStorageAdapter(options: StorageAdapterOptions): StorageAdapter {
+  switch (options.type) {
+    case 'file':
+      return new FileStorageAdapter({
+        stateFile: join(options.path, 'state.json'),
+        journalFile: join(options.path, 'state.journal'),
+        codec: options.codec,
+        compactionThreshold: options.compactionThreshold,
+        onCorruption: options.onCorruption
+      });
+    case 'sqlite':
+      return new SqliteStorageAdapter(join(options.path, 'state.db'), options.codec);
+    case 'memory':
+      return new MemoryStorageAdapter();
+    default:
+      throw new Error(`Unsupported storage type: ${options.type}`);
+  }
+}
@@ -0,0 +1,214 @@
+/**
+ * Working Memory
+ *
+ * Bounded short-term buffer ranked by salience: an item's priority plus a
+ * boost from every active attention focus, scaled by how well the item
+ * matches the focus target and context. When the buffer overflows, or an item
+ * outlives its duration or drops below `minSalience`, it spills out through
+ * the spill handler, typically into episodic memory.
+ */
+
+import { AttentionFocus, MemoryItem, ProcessingTask, WorkingMemory } from '../types/memory';
+import { terms } from '../utils/text';
+
+export interface WorkingMemoryConfig {
+  // Items held at once
+  capacity?: number;
+  // Attention foci active at once; the oldest lapses first
+  attention?: number;
+  // Items in the working set returned by process; defaults to capacity
+  processing?: number;
+  // Items whose salience falls below this after a focus shift spill out
+  minSalience?: number;
+}
+
+export type SpillReason = 'capacity' | 'expired' | 'salience';
+
+export type SpillHandler = (item: MemoryItem, reason: SpillReason) => Promise<void> | void;
+
+export interface WorkingSetEntry {
+  item: MemoryItem;
+  salience: number;
+  // How well the item matches the task goal and input, from 0 to 1
+  relevance: number;
+}
+
+export interface WorkingMemoryResult {
+  success: boolean;
+  // Most salient and task-relevant items first
+  output: WorkingSetEntry[];
+  // Share of the working set relevant to the task
+  confidence: number;
+  metadata: Record<string, any>;
+}
+
+interface ActiveFocus {
+  focus: AttentionFocus;
+  terms: Set<string>;
+  since: number;
+}
+
+export const DEFAULT_WORKING_MEMORY_CONFIG: Required<Omit<WorkingMemoryConfig, 'processing'>> = {
+  capacity: 7,
+  attention: 3,
+  minSalience: 0
+};
+
+export class WorkingMemoryImpl implements WorkingMemory {
+  public capacity: number;
+  public current: MemoryItem[] = [];
+  public attention: AttentionFocus[] = [];
+  public processing: ProcessingTask[] = [];
+
+  private config: Required<WorkingMemoryConfig>;
+  private foci: ActiveFocus[] = [];
+
+  constructor(config: WorkingMemoryConfig = {}, private spill: SpillHandler = () => {}) {
+    const merged = { ...DEFAULT_WORKING_MEMORY_CONFIG, ...config };
+    this.config = { ...merged, processing: config.processing ?? merged.capacity };
+    if (!(Number.isInteger(this.config.capacity) && this.config.capacity > 0)) {
+      throw new Error(`Working memory capacity must be a positive integer, got ${this.config.capacity}`);
+    }
+    if (!(Number.isInteger(this.config.attention) && this.config.attention > 0)) {
+      throw new Error(`Working memory attention must be a positive integer, got ${this.config.attention}`);
+    }
+    this.capacity = this.config.capacity;
+  }
+
+  async initialize(): Promise<void> {
+    console.log('Working Memory initialized');
+  }
+
+  async shutdown(): Promise<void> {
+    console.log('Working Memory shutdown');
+  }
+
+  /**
+   * Hold an item, replacing any with the same id. If the buffer overflows the
+   * least salient other item spills out.
+   */
+  async add(memory: MemoryItem, now: Date = new Date()): Promise<void> {
+    this.current = this.current.filter(item => item.id !== memory.id);
+    this.current.push(memory);
+    await this.expire(now.getTime());
+
+    while (this.current.length > this.config.capacity) {
+      const [weakest] = this.ranked(now.getTime()).filter(entry => entry.item.id !== memory.id).slice(-1);
+      await this.evict(weakest.item, 'capacity');
+    }
+    this.reorder(now.getTime());
+  }
+
+  async remove(id: string): Promise<void> {
+    this.current = this.current.filter(memory => memory.id !== id);
+  }
+
+  /**
+   * Shift attention: items matching the focus gain `intensity` salience for
+   * `duration` milliseconds (indefinitely when 0). Items left below
+   * `minSalience` spill out.
+   */
+  async focus(attention: AttentionFocus, now: Date = new Date()): Promise<void> {
+    this.foci.push({ focus: attention, terms: new Set(terms(`${attention.target} ${attention.context || ''}`)), since: now.getTime() });
+    this.foci = this.foci.slice(-this.config.attention);
+    await this.expire(now.getTime());
+
+    for (const entry of this.ranked(now.getTime())) {
+      if (entry.salience < this.config.minSalience) {
+        await this.evict(entry.item, 'salience');
+      }
+    }
+    this.reorder(now.getTime());
+  }
+
+  /**
+   * The working set for a task: items ordered by salience plus relevance to
+   * the task goal and input, limited to `processing` items
+   */
+  async process(task: ProcessingTask, now: Date = new Date()): Promise<WorkingMemoryResult> {
+    this.processing = [task];
+    await this.expire(now.getTime());
+
+    const input = typeof task.input === 'string' ? task.input : '';
+    const taskTerms = new Set(terms(`${task.goal || ''} ${input}`));
+    const output = this.ranked(now.getTime())
+      .map(entry => ({ ...entry, relevance: overlap(taskTerms, entry.item) }))
+      .sort((a, b) => (b.salience + b.relevance) - (a.salience + a.relevance) || b.item.timestamp.getTime() - a.item.timestamp.getTime())
+      .slice(0, this.config.processing);
+
+    return {
+      success: true,
+      output,
+      confidence: output.length > 0 ? output.filter(entry => entry.relevance > 0).length / output.length : 0,
+      metadata: { taskId: task.id, goal: task.goal, held: this.current.length, capacity: this.config.capacity }
+    };
+  }
+
+  /**
+   * Priority plus the boost from every active focus
+   */
+  salience(item: MemoryItem, now: Date = new Date()): number {
+    return this.score(item, now.getTime());
+  }
+
+  private score(item: MemoryItem, now: number): number {
+    let salience = Math.max(0, item.priority || 0);
+    for (const active of this.activeFoci(now)) {
+      const match = item.id === active.focus.target ? 1 : overlap(active.terms, item);
+      salience += active.focus.intensity * match;
+    }
+    return salience;
+  }
+
+  private activeFoci(now: number): ActiveFocus[] {
+    return this.foci.filter(active => !(active.focus.duration > 0) || now - active.since < active.focus.duration);
+  }
+
+  // Most salient first; ties go to the newer item
+  private ranked(now: number): Array<{ item: MemoryItem; salience: number }> {
+    return this.current
+      .map(item => ({ item, salience: this.score(item, now) }))
+      .sort((a, b) => b.salience - a.salience || b.item.timestamp.getTime() - a.item.timestamp.getTime());
+  }
+
+  private reorder(now: number): void {
+    this.foci = this.activeFoci(now);
+    this.attention = this.foci.map(active => active.focus);
+    this.current = this.ranked(now).map(entry => entry.item);
+  }
+
+  private async expire(now: number): Promise<void> {
+    for (const item of this.current) {
+      if (item.duration > 0 && now - item.timestamp.getTime() > item.duration) {
+        await this.evict(item, 'expired');
+      }
+    }
+  }
+
+  private async evict(item: MemoryItem, reason: SpillReason): Promise<void> {
+    this.current = this.current.filter(candidate => candidate !== item);
+    await this.spill(item, reason);
+  }
+}
+
+/**
+ * Text of an item for matching: string content as is, anything else as JSON
+ */
+export function itemText(item: MemoryItem): string {
+  return typeof item.content === 'string' ? item.content : JSON.stringify(item.content ?? '');
+}
+
+// Share of the focus terms found in the item
+function overlap(focusTerms: Set<string>, item: MemoryItem): number {
+  if (focusTerms.size === 0) {
+    return 0;
+  }
+  const itemTerms = new Set(terms(itemText(item)));
+  let shared = 0;
+  for (const term of focusTerms) {
+    if (itemTerms.has(term)) {
+      shared++;
+    }
+  }
+  return shared / focusTerms.size;
+}
@@ -10,11 +10,112 @@ export * from './interfaces/AIPersistenceCore';
 // Core implementations
 export * from './implementations/AIPersistenceCoreImpl';
 
+// Hyperbolic geometry
+export * from './utils/hyperbolic';
+
+// Memory queries
+export { queryMemories, matchesMemoryQuery, validateMemoryQuery } from './utils/memoryQuery';
+
+// Hybrid recall
+export { rankRecall, validateRecallOptions, RECALL_SIGNALS, DEFAULT_RECALL_WEIGHTS } from './utils/recall';
+export type { RecallCandidate } from './utils/recall';
+
+// Consolidation
+export { groupMemories, summarizeMemories, consolidatedMetadata, resolveConsolidationOptions, DEFAULT_CONSOLIDATION_OPTIONS } from './utils/consolidation';
+export type { ConsolidationCandidate, CandidateGroup, MemoryGroupingOptions } from './utils/consolidation';
+
+// Storage backends
+export * from './interfaces/StorageAdapter';
+export { createStorageAdapter } from './implementations/StorageAdapterFactory';
+export { FileStorageAdapter, JSON_CODEC } from './implementations/FileStorageAdapter';
+export type { FileStorageOptions } from './implementations/FileStorageAdapter';
+export { MemoryStorageAdapter } from './implementations/MemoryStorageAdapter';
+export { SqliteStorageAdapter } from './implementations/SqliteStorageAdapter';
+
+// Embeddings
+export * from './interfaces/Embedder';
+export { HashingEmbedder } from './implementations/HashingEmbedder';
+
+// Similarity search
+export { HnswIndex } from './implementations/HnswIndex';
+export type { HnswOptions, Neighbor } from './implementations/HnswIndex';
+
+// Full-text search
+export { MemoryIndexer } from './implementations/MemoryIndexer';
+export type { MemoryIndexerOptions, SearchHit, IndexedDocument } from './implementations/MemoryIndexer';
+export { tokenize, terms, stem, fnv1a, STOPWORDS } from './utils/text';
+
+// Memory decay
+export { MemoryDecay, DEFAULT_DECAY_OPTIONS } from './implementations/MemoryDecay';
+export type { DecayOptions, MemoryStrength, DecayVerdict } from './implementations/MemoryDecay';
+
+// Memory eviction
+export { selectEvictions, planConsolidation, validateEvictionPolicy, EVICTION_POLICIES } from './utils/eviction';
+export type { EvictionPolicy, EvictionCandidate } from './utils/eviction';
+
+// Duplicate detection
+export { DuplicateIndex } from './implementations/DuplicateIndex';
+export type { DuplicateMatch } from './implementations/DuplicateIndex';
+export { contentHash, minHashSignature, signatureSimilarity, bandKeys, mergeDuplicate, countOccurrence, resolveDedupOptions, DEDUP_MODES, DEFAULT_DEDUP_OPTIONS } from './utils/dedup';
+
+// Working memory
+export { WorkingMemoryImpl, DEFAULT_WORKING_MEMORY_CONFIG, itemText } from './implementations/WorkingMemoryImpl';
+export type { WorkingMemoryConfig, WorkingMemoryResult, WorkingSetEntry, SpillHandler, SpillReason } from './implementations/WorkingMemoryImpl';
+
+// Context assembly
+export { fitContext, renderContext, describeIdentity, validateContextRequest, estimateTokens, CONTEXT_SECTIONS, CONTEXT_SECTION_TITLES, DEFAULT_TOKEN_BUDGET } from './utils/context';
+export type { ContextCandidate } from './utils/context';
+
+// Episodic timelines
+export { segmentTimeline, memoryEvent, resolveTimelineOptions, DEFAULT_TIMELINE_OPTIONS } from './utils/timeline';
+export type { TimelineSegmentationOptions } from './utils/timeline';
+
+// Hyperbolic clustering
+export { clusterPoints, kMeans, densityClusters, frechetMean, centerEmbedding, toHyperbolicCluster, resolveClusterOptions, DEFAULT_CLUSTER_OPTIONS } from './utils/clustering';
+export type { ClusterPoint, PointCluster, PointClustering } from './utils/clustering';
+
+// Memory compression
+export { compressContent, decompressContent, summaryRecord, contentFidelity, inflateMemories, resolveCompressionOptions, COMPRESSION_ALGORITHMS, DEFAULT_COMPRESSION_OPTIONS, SUMMARY_ALGORITHM } from './utils/compression';
+
+// Embedding hierarchies
+export { buildHierarchy, resolveHierarchyOptions, DEFAULT_HIERARCHY_OPTIONS, GENERALIZES } from './utils/hierarchy';
+
+// Memory relationships
+export { MemoryGraph, resolveTraversalOptions, MEMORY_RELATION_TYPES, TRAVERSAL_DIRECTIONS, DEFAULT_TRAVERSAL_OPTIONS, MAX_PATH_HOPS } from './implementations/MemoryGraph';
+export type { MemoryLinkInput } from './implementations/MemoryGraph';
+
+// Contradiction detection
+export { propertyConflicts, conflictRecord, conflictOf, conflictMatches, resolutionWinner, validateConflictQuery, CONFLICT_RESOLUTIONS, CONFLICT_STATUSES, CONFLICT_RECORD_TYPE, CONFLICT_SOURCE, FACT_TYPE } from './utils/contradiction';
+export type { PropertyConflict } from './utils/contradiction';
+
+// Concept graph
+export { ConceptGraph, learnedConcept, AXIOM_TYPES, IS_A, PART_OF, RELATED_TO } from './implementations/ConceptGraph';
+export type { ConceptInput, ConceptRelationshipInput, AxiomInput, AxiomType, ConceptPath, ConceptPathStep, ConsistencyViolation, ViolationKind } from './implementations/ConceptGraph';
+
+// Procedural memory
+export { ProcedureEngine, conditionsHold, evaluateCondition, CONDITION_OPERATORS, DEFAULT_PROCEDURE_ENGINE_OPTIONS } from './implementations/ProcedureEngine';
+export type { ProcedureEngineOptions, ProcedureInput, ProcedureStepInput, SkillInput, StepExecutor, StepResult, StepStatus, ProcedureContext, ProcedureRun, RunStatus } from './implementations/ProcedureEngine';
+
+// Automations and habits
+export { AutomationScheduler, DEFAULT_AUTOMATION_OPTIONS, PROCEDURE_ACTION, TRIGGER_TYPES } from './implementations/AutomationScheduler';
+export type { AutomationOptions, AutomationInput, AutomationHandler, AutomationFiring, FiringContext, FiringReason, FiringStatus, TriggerInput, TriggerType } from './implementations/AutomationScheduler';
+export { compileSchedule, nextOccurrence } from './utils/schedule';
+export type { CompiledSchedule } from './utils/schedule';
+
 // Type definitions
 // Export only specific types to avoid conflicts
 export type { AIIdentity, IdentityStatus, HyperbolicPosition, HyperbolicEmbedding } from './types/identity';
-export type { Memory, MemoryType, MemoryMetadata } from './types/memory';
+export type { Memory, MemoryType, MemoryMetadata, MemoryItem, AttentionFocus, ProcessingTask, Constraint, Event, Location, Timeline, TimelinePhase, TimelineMilestone, PhaseBoundary, MilestoneReason, Concept, ConceptProperty, ConceptRelationship, Axiom, Ontology, CompressedMemory, Hierarchy, HierarchyLevel, HierarchyRelationship, HierarchyProperties, HyperbolicHierarchy, HyperbolicCluster, MemoryCluster, ClusterProperties, Skill, Procedure, ProcedureStep, Condition, Outcome, Automation, Trigger, Action, Schedule, Habit, Pattern } from './types/memory';
 export type { SecurityFramework, EncryptedData, Credentials, AuthResult } from './types/security';
+import type { StorageType } from './interfaces/StorageAdapter';
+import type { Embedder, EmbeddingConfig } from './interfaces/Embedder';
+import type { HnswOptions } from './implementations/HnswIndex';
+import type { MemoryIndexerOptions } from './implementations/MemoryIndexer';
+import type { DecayOptions } from './implementations/MemoryDecay';
+import type { WorkingMemoryConfig } from './implementations/WorkingMemoryImpl';
+import type { ProcedureEngineOptions } from './implementations/ProcedureEngine';
+import type { AutomationOptions } from './implementations/AutomationScheduler';
+import type { ClusterOptions, CompressionAlgorithm, CompressionOptions, ConsolidationOptions, ContextOptions, DedupOptions, HierarchyOptions, RecallOptions, TimelineOptions } from './interfaces/AIPersistenceCore';
 
 // Core classes
 export class AIPersistenceCore {
@@ -47,6 +148,32 @@ export interface MemoryConfig {
   storage: StorageConfig;
   consolidation: ConsolidationConfig;
   compression: CompressionConfig;
+  embedding?: EmbeddingConfig;
+  // Custom embedding model; defaults to a HashingEmbedder built from `embedding`
+  embedder?: Embedder;
+  index?: HnswOptions;
+  // BM25 parameters for full-text search over memory content
+  search?: MemoryIndexerOptions;
+  // Default weights and parameters for hybrid recall
+  recall?: RecallOptions;
+  // Forgetting curve and background sweeps of decayed memories
+  decay?: DecayOptions;
+  // Capacity and attention of the short-term working memory buffer
+  working?: WorkingMemoryConfig;
+  // Defaults for buildContext
+  context?: ContextOptions;
+  // Segmentation defaults for getTimeline
+  timeline?: TimelineOptions;
+  // Defaults for clusterMemories
+  clustering?: ClusterOptions;
+  // Defaults for getMemoryHierarchy
+  hierarchy?: HierarchyOptions;
+  // What storing a duplicate of a stored memory does; duplicates are stored by default
+  dedup?: DedupOptions;
+  // Skill learning rate for executeProcedure
+  procedures?: ProcedureEngineOptions;
+  // Background ticks of scheduled automations and habit formation
+  automation?: AutomationOptions;
 }
 
 export interface SecurityConfig {
@@ -56,19 +183,22 @@ export interface SecurityConfig {
 }
 
 export interface StorageConfig {
-  type: string;
+  type: StorageType | string;
   path: string;
   maxSize: number;
+  journalCompactionThreshold?: number;
 }
 
-export interface ConsolidationConfig {
+// Grouping and summary options are the defaults for every consolidation run
+export interface ConsolidationConfig extends ConsolidationOptions {
   threshold: number;
   strategy: string;
   frequency: number;
 }
 
-export interface CompressionConfig {
-  algorithm: string;
+// Algorithm, level and threshold are the defaults for every compression run
+export interface CompressionConfig extends CompressionOptions {
+  algorithm: CompressionAlgorithm;
   level: number;
   threshold: number;
 }
@@ -77,6 +207,9 @@ export interface EncryptionConfig {
   algorithm: string;
   keySize: number;
   mode: string;
+  key?: string;
+  // Per-install key generated on first use when no key is given; defaults to encryption.key in the storage path
+  keyFile?: string;
 }
 
 export interface AuthenticationConfig {
@@ -105,7 +238,7 @@ export const DEFAULT_CONFIG: PersistenceConfig = {
       encryption: {
         algorithm: 'AES-256',
         keySize: 256,
-        mode: 'CBC'
+        mode: 'GCM'
       },
       authentication: {
         method: 'token',
@@ -122,7 +255,8 @@ export const DEFAULT_CONFIG: PersistenceConfig = {
     storage: {
       type: 'file',
       path: './persistence',
-      maxSize: 1000000
+      maxSize: 1000000,
+      journalCompactionThreshold: 1000
     },
     consolidation: {
       threshold: 100,
@@ -133,13 +267,22 @@ export const DEFAULT_CONFIG: PersistenceConfig = {
       algorithm: 'gzip',
       level: 6,
       threshold: 1000
+    },
+    embedding: {
+      dimension: 64,
+      curvature: -1,
+      maxDepth: 4
+    },
+    dedup: {
+      mode: 'merge',
+      similarity: 0.8
     }
   },
   security: {
     encryption: {
       algorithm: 'AES-256',
       keySize: 256,
-      mode: 'CBC'
+      mode: 'GCM'
     },
     authentication: {
       method: 'token',
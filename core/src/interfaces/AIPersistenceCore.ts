@@ -5,7 +5,10 @@
  */
 
 import { AIIdentity } from '../types/identity';
-import { MemorySystem } from '../types/memory';
+import { AttentionFocus, Axiom, CompressedMemory, Concept, HyperbolicHierarchy, HyperbolicRelationship, MemoryItem, MemoryCluster, MemorySystem, Automation, Habit, Procedure, Skill, TimelineMilestone, TimelinePhase } from '../types/memory';
+import type { AxiomInput, ConceptInput, ConceptPath, ConsistencyViolation } from '../implementations/ConceptGraph';
+import type { ProcedureInput, ProcedureRun, SkillInput, StepExecutor } from '../implementations/ProcedureEngine';
+import type { AutomationFiring, AutomationHandler, AutomationInput } from '../implementations/AutomationScheduler';
 import { SecurityFramework } from '../types/security';
 
 export interface AIPersistenceCore {
@@ -27,10 +30,77 @@ export interface AIPersistenceCore {
   getIdentity(id: string): Promise<AIIdentity>;
   
   // Memory Operations
-  storeMemory(memory: Memory): Promise<void>;
+  // Duplicates are rejected, merged or linked as MemoryConfig.dedup says
+  storeMemory(memory: Memory): Promise<MemoryStoreResult>;
   retrieveMemory(query: MemoryQuery): Promise<Memory[]>;
-  consolidateMemory(): Promise<void>;
-  compressMemory(): Promise<void>;
+  queryMemories(query: MemoryQuery): Promise<MemoryPage>;
+  recallMemories(query: string, options?: RecallOptions): Promise<RecallResult[]>;
+  consolidateMemory(options?: ConsolidationOptions): Promise<ConsolidationReport>;
+  // Pinned memories are only forgotten with `force`
+  forgetMemory(id: string, options?: ForgetOptions): Promise<boolean>;
+  pinMemory(id: string): Promise<void>;
+  unpinMemory(id: string): Promise<void>;
+  sweepMemories(): Promise<DecaySweepReport>;
+  // Old memories deflated into cold storage, and optionally similar ones replaced by summaries
+  compressMemory(options?: CompressionOptions): Promise<CompressionReport>;
+
+  // Working memory and context assembly
+  addToWorkingMemory(item: MemoryItem): Promise<void>;
+  focusAttention(attention: AttentionFocus): Promise<void>;
+  buildContext(request?: ContextRequest): Promise<AssembledContext>;
+
+  // Episodic timeline segmented into phases
+  getTimeline(request?: TimelineRequest): Promise<MemoryTimeline>;
+  // Riemannian k-means or density clustering of memory embeddings
+  clusterMemories(options?: ClusterOptions): Promise<MemoryClustering>;
+  // Memories arranged from general to specific by embedding depth
+  getMemoryHierarchy(request?: HierarchyRequest): Promise<MemoryHierarchy>;
+
+  // Typed links between memories; forgetting a memory removes its links
+  linkMemories(source: string, type: MemoryRelationType, target: string, options?: LinkOptions): Promise<MemoryLink>;
+  unlinkMemories(linkId: string): Promise<boolean>;
+  getMemoryLinks(memoryId?: string): Promise<MemoryLink[]>;
+  // Memories within a number of hops of `start`, with the links between them
+  traverseMemories(start: string, options?: TraversalOptions): Promise<MemorySubgraph>;
+  // Fewest-hop chain of links between two memories; null when they are not connected
+  findMemoryPath(from: string, to: string, options?: TraversalOptions): Promise<MemoryPath | null>;
+  // The memories and the links among them
+  getMemorySubgraph(ids: string[]): Promise<MemorySubgraph>;
+
+  // Contradictions between memories, recorded as meta-memories when found
+  getMemoryConflicts(query?: ConflictQuery): Promise<MemoryConflict[]>;
+  resolveMemoryConflict(id: string, action: ConflictResolution, note?: string): Promise<ConflictResolutionResult>;
+
+  // Concept graph; concepts are referenced by id or name
+  addConcept(concept: ConceptInput): Promise<Concept>;
+  relateConcepts(source: string, type: string, target: string, strength?: number, confidence?: number): Promise<Concept>;
+  addAxiom(axiom: AxiomInput): Promise<Axiom>;
+  getConcept(reference: string): Promise<Concept | null>;
+  findConcepts(query: string, limit?: number): Promise<Concept[]>;
+  // Concepts related by `type` directly or through transitivity and is-a inheritance
+  inferRelated(concept: string, type: string): Promise<Concept[]>;
+  // How two concepts are related: the shortest chain of relationships, or null
+  explainRelation(from: string, to: string): Promise<ConceptPath | null>;
+  checkConsistency(): Promise<ConsistencyViolation[]>;
+
+  // Procedural memory; procedures and skills are referenced by id or name
+  registerStepExecutor(action: string, executor: StepExecutor): void;
+  learnSkill(skill: SkillInput): Promise<Skill>;
+  storeProcedure(procedure: ProcedureInput): Promise<Procedure>;
+  getSkill(reference: string): Promise<Skill | null>;
+  getProcedure(reference: string): Promise<Procedure | null>;
+  // Runs the steps and updates the procedure's outcomes and skill
+  executeProcedure(procedure: string, input?: Record<string, any>): Promise<ProcedureRun>;
+
+  // Automations fire on their schedule or on stored memories matching their trigger
+  registerAutomationAction(type: string, handler: AutomationHandler): void;
+  createAutomation(automation: AutomationInput): Promise<Automation>;
+  removeAutomation(id: string): Promise<boolean>;
+  getAutomations(): Promise<Automation[]>;
+  // Fires the scheduled automations that are due; runs every `automation.tickInterval`
+  tickAutomations(): Promise<AutomationFiring[]>;
+  // Procedures repeated often enough, strongest first
+  getHabits(): Promise<Habit[]>;
   
   // Security Operations
   authenticate(credentials: Credentials): Promise<AuthResult>;
@@ -56,8 +126,433 @@ export interface IdentityUpdate {
 
 export interface MemoryQuery {
   type?: string;
+  // Full-text search over the content; matches are ranked by relevance
   content?: string;
+  // Inclusive bounds on the memory timestamp; either end may be left open
+  timeRange?: Partial<TimeRange>;
+  // Predicates on top-level metadata fields, all of which must hold
+  metadata?: Record<string, MetadataPredicate>;
+  tags?: string[];
+  // Whether a memory needs all of `tags` (the default) or any one of them
+  tagMatch?: 'all' | 'any';
+  minImportance?: number;
+  minConfidence?: number;
+  // Defaults to relevance for content searches and timestamp otherwise
+  sortBy?: MemorySortField;
+  // Defaults to newest or highest first
+  order?: 'asc' | 'desc';
+  // Page size, at least 1
   limit?: number;
+  // Opaque `nextCursor` from the previous page of the same query
+  cursor?: string;
+}
+
+export type MemorySortField = 'timestamp' | 'importance' | 'confidence' | 'relevance';
+
+export type MetadataValue = string | number | boolean | null;
+
+// A bare value tests equality; ranges compare numbers or strings (e.g. ISO dates)
+export type MetadataPredicate = MetadataValue | MetadataRange;
+
+export interface MetadataRange {
+  eq?: MetadataValue;
+  ne?: MetadataValue;
+  gt?: number | string;
+  gte?: number | string;
+  lt?: number | string;
+  lte?: number | string;
+}
+
+export interface MemoryPage<T = Memory> {
+  memories: T[];
+  // Present when more memories match than were returned
+  nextCursor?: string;
+}
+
+export type RecallSignal = 'lexical' | 'semantic' | 'recency' | 'importance';
+
+export interface RecallOptions {
+  // Relative weight of each signal; signals left out keep their defaults
+  weights?: Partial<Record<RecallSignal, number>>;
+  // Age in milliseconds at which the recency signal has halved
+  recencyHalfLife?: number;
+  // Importance assumed for memories without metadata.importance
+  defaultImportance?: number;
+  // Filters on the candidates; content, sorting and paging are ignored
+  filter?: MemoryQuery;
+  limit?: number;
+  // Nearest neighbours of the query embedding considered as candidates
+  candidates?: number;
+  // Reference time for recency, defaults to now
+  now?: Date;
+}
+
+export interface RecallComponent {
+  // Signal strength between 0 and 1
+  value: number;
+  weight: number;
+  // weight * value; the components sum to the score
+  contribution: number;
+  // Why the memory scored this way, e.g. 'matched "typescript"'
+  reason: string;
+}
+
+export interface RecallResult {
+  memory: Memory;
+  score: number;
+  components: Record<RecallSignal, RecallComponent>;
+  // Contributing components, largest first, as one line for prompts
+  explanation: string;
+}
+
+export interface ConsolidationOptions {
+  // Memory types that are consolidated
+  types?: string[];
+  // Largest hyperbolic distance between any two memories of a group
+  maxDistance?: number;
+  // Longest gap in milliseconds between consecutive memories of a group
+  timeWindow?: number;
+  minGroupSize?: number;
+  // Sentences kept in each summary
+  summarySentences?: number;
+  // Mark the source memories as archived
+  archive?: boolean;
+}
+
+export interface ConsolidationGroup {
+  // The semantic memory summarizing the group
+  memory: Memory;
+  sourceMemories: string[];
+  // Mean pairwise hyperbolic distance between the sources
+  spread: number;
+}
+
+export interface ConsolidationReport {
+  groups: ConsolidationGroup[];
+  // Ids of the source memories that were archived
+  archived: string[];
+}
+
+export type CompressionAlgorithm = 'gzip' | 'deflate' | 'brotli';
+
+export interface CompressionOptions {
+  // Memory types that are compressed; all types when empty
+  types?: string[];
+  // Only memories older than this many milliseconds are compressed
+  olderThan?: number;
+  algorithm?: CompressionAlgorithm;
+  // 0-9 for gzip and deflate, 0-11 for brotli
+  level?: number;
+  // Content shorter than this many bytes is left uncompressed
+  threshold?: number;
+  // Replace groups of similar memories with extractive summaries
+  lossy?: boolean;
+  // lossy: largest hyperbolic distance between any two memories of a group
+  maxDistance?: number;
+  // lossy: memories a group needs before it is summarized
+  minGroupSize?: number;
+  // lossy: sentences kept in each summary
+  summarySentences?: number;
+}
+
+export interface CompressionReport {
+  // Memories whose content moved to cold storage
+  compressed: CompressedMemory[];
+  // Summaries that replaced groups of similar memories
+  summarized: CompressedMemory[];
+  // Ids of the memories the summaries replaced
+  forgotten: string[];
+  originalBytes: number;
+  compressedBytes: number;
+  // compressedBytes / originalBytes over everything compressed; 1 when nothing was
+  ratio: number;
+}
+
+export type DedupMode = 'off' | 'reject' | 'merge' | 'link';
+
+export interface DedupOptions {
+  // What storing a duplicate does; 'off' stores it like any other memory
+  mode?: DedupMode;
+  // Estimated Jaccard similarity of word shingles at which content is a near-duplicate
+  similarity?: number;
+  // Only memories of the same type are duplicates of each other
+  sameType?: boolean;
+  // merge: added to the importance of the memory a duplicate merges into
+  importanceBoost?: number;
+}
+
+export interface MemoryStoreResult {
+  // 'stored' for new content; otherwise what the dedup mode did with a duplicate
+  action: 'stored' | 'rejected' | 'merged' | 'linked';
+  // The memory as given; only 'stored' and 'linked' memories are kept
+  memory: Memory;
+  // The memory it duplicates, as updated by merging or linking
+  duplicateOf?: Memory;
+  // Estimated content similarity to duplicateOf; 1 for exact duplicates
+  similarity?: number;
+  // Contradictions with stored semantic memories found on storing it
+  conflicts?: MemoryConflict[];
+}
+
+export interface DedupStats {
+  // Stores checked for duplicates
+  checked: number;
+  // Duplicates found by content hash and by MinHash similarity
+  exact: number;
+  near: number;
+  rejected: number;
+  merged: number;
+  linked: number;
+}
+
+export interface ForgetOptions {
+  // Forget the memory even if it is pinned
+  force?: boolean;
+}
+
+export interface DecaySweepReport {
+  // Memories marked `metadata.demoted` because their retention fell low
+  demoted: string[];
+  // Demoted memories whose retention has recovered through retrieval
+  restored: string[];
+  forgotten: string[];
+}
+
+export type ContextSectionName = 'identity' | 'working' | 'memories' | 'learning';
+
+// Estimated token count of a piece of prompt text
+export type TokenEstimator = (text: string) => number;
+
+export interface ContextOptions {
+  tokenBudget?: number;
+  // Sections to include, highest priority first; earlier sections claim budget first
+  sections?: ContextSectionName[];
+  estimateTokens?: TokenEstimator;
+  // Recall options for the memories section
+  recall?: RecallOptions;
+  // Most recent learning progress entries considered
+  learningLimit?: number;
+}
+
+export interface ContextRequest extends ContextOptions {
+  // Identity whose profile opens the context
+  identityId?: string;
+  // What the prompt is about; drives recall and working memory relevance
+  query?: string;
+}
+
+export interface ContextItem {
+  // Id of the identity, working memory item, memory or learning progress entry
+  id: string;
+  text: string;
+  tokens: number;
+  score?: number;
+}
+
+export interface ContextSection {
+  name: ContextSectionName;
+  title: string;
+  items: ContextItem[];
+  // Including the section heading
+  tokens: number;
+  // Ids of candidates that did not fit the budget
+  omitted: string[];
+}
+
+export interface AssembledContext {
+  // The sections rendered as prompt text
+  text: string;
+  sections: ContextSection[];
+  tokens: number;
+  tokenBudget: number;
+  // Ids of everything included, in order
+  provenance: string[];
+}
+
+export interface TimelineOptions {
+  // Memory types placed on the timeline
+  types?: string[];
+  // A gap in milliseconds longer than this between consecutive events starts a new phase
+  maxGap?: number;
+  // An event sharing less than this share of its terms with the last few events of the phase starts a new phase
+  topicThreshold?: number;
+  // Events at least this important are milestones
+  milestoneImportance?: number;
+}
+
+export interface TimelineRequest extends TimelineOptions {
+  from?: Date;
+  to?: Date;
+}
+
+export interface MemoryTimelinePhase extends TimelinePhase {
+  memories: Memory[];
+}
+
+export interface MemoryTimeline {
+  // Null when no memories fall in the range
+  start: Date | null;
+  end: Date | null;
+  phases: MemoryTimelinePhase[];
+  milestones: TimelineMilestone[];
+}
+
+export type ClusterMethod = 'kmeans' | 'density';
+
+export interface ClusterOptions {
+  method?: ClusterMethod;
+  // Memory types that are clustered; all types when empty
+  types?: string[];
+  // kmeans: clusters to form; 0 picks about sqrt(n / 2)
+  k?: number;
+  // kmeans: refinement rounds before giving up on convergence
+  maxIterations?: number;
+  // kmeans: seed of the k-means++ initialization, so runs are repeatable
+  seed?: number;
+  // density: neighbourhood radius as a hyperbolic distance
+  epsilon?: number;
+  // density: neighbours within epsilon, the memory itself included, that make a core memory
+  minPoints?: number;
+}
+
+export interface MemoryClusterGroup extends MemoryCluster {
+  // Largest hyperbolic distance of a member from the centroid
+  radius: number;
+  memories: Memory[];
+}
+
+export interface MemoryClustering {
+  method: ClusterMethod;
+  // Largest first
+  clusters: MemoryClusterGroup[];
+  // Memories the density method left out of every cluster
+  noise: string[];
+  // k-means refinement rounds; 0 for the density method
+  iterations: number;
+}
+
+export interface HierarchyOptions {
+  // Memory types placed in the hierarchy; all types when empty
+  types?: string[];
+  // How much nearer the origin, as a hyperbolic distance, a parent must be than its child
+  minDepthGap?: number;
+}
+
+export interface HierarchyRequest extends HierarchyOptions {
+  // Memory whose subtree is returned; the most general memory when omitted
+  root?: string;
+  // Levels returned below the root; 0 returns them all
+  maxLevels?: number;
+}
+
+export interface MemoryHierarchyNode {
+  memory: Memory;
+  // Hyperbolic distance from the origin; deeper is more specific
+  depth: number;
+  // Distance from the parent; 0 for the root of the tree
+  distance: number;
+  children: MemoryHierarchyNode[];
+  // Descendants left out below maxLevels
+  hidden: number;
+}
+
+export interface MemoryHierarchy {
+  // The whole hierarchy of the memory types
+  hierarchy: HyperbolicHierarchy;
+  // The requested subtree; null when there are no memories or the root is not in the hierarchy
+  tree: MemoryHierarchyNode | null;
+}
+
+export type MemoryRelationType = 'causes' | 'contradicts' | 'elaborates' | 'follows';
+
+// A directed link `source` -> `target`; distance is between their embeddings when linked
+export interface MemoryLink extends HyperbolicRelationship {
+  id: string;
+  relationshipType: MemoryRelationType;
+}
+
+export interface LinkOptions {
+  strength?: number;
+  confidence?: number;
+}
+
+export type TraversalDirection = 'out' | 'in' | 'both';
+
+export interface TraversalOptions {
+  // Relationship types followed; all types when empty
+  types?: MemoryRelationType[];
+  // Follow links from source to target, back from target to source, or both ways
+  direction?: TraversalDirection;
+  // Most links followed from the start
+  hops?: number;
+}
+
+export interface MemoryGraphNode {
+  memory: Memory;
+  // Links followed to reach the memory from the start; absent outside traversals
+  hops?: number;
+}
+
+export interface MemorySubgraph {
+  nodes: MemoryGraphNode[];
+  // Every link between two of the nodes
+  links: MemoryLink[];
+}
+
+export interface MemoryPath {
+  // The memories along the path, `from` first
+  memories: Memory[];
+  // The links between consecutive memories, each followed either way
+  links: MemoryLink[];
+  // Sum of the links' embedding distances
+  distance: number;
+}
+
+// 'property' when two semantic memories give a concept's property different values; 'relationship' for a `contradicts` link
+export type ConflictKind = 'property' | 'relationship';
+
+export type ConflictResolution = 'keep-newer' | 'keep-confident' | 'keep-both';
+
+export type ConflictStatus = 'open' | 'resolved' | 'all';
+
+export interface MemoryConflict {
+  // Id of the meta-memory recording the conflict
+  id: string;
+  kind: ConflictKind;
+  // The two conflicting memories, older first
+  memories: string[];
+  description: string;
+  // Property conflicts: the concept, the property and each memory's value, in the order of `memories`
+  concept?: string;
+  property?: string;
+  values?: any[];
+  // Relationship conflicts: the `contradicts` link
+  linkId?: string;
+  detectedAt: Date;
+  // Absent while the conflict is open
+  resolution?: ConflictResolutionRecord;
+}
+
+export interface ConflictResolutionRecord {
+  action: ConflictResolution;
+  kept: string[];
+  forgotten: string[];
+  note?: string;
+  resolvedAt: Date;
+}
+
+export interface ConflictQuery {
+  // Open conflicts by default
+  status?: ConflictStatus;
+  // Only conflicts involving this memory
+  memoryId?: string;
+}
+
+export interface ConflictResolutionResult {
+  conflict: MemoryConflict;
+  // The memories kept, with a note added when both are kept
+  kept: Memory[];
+  forgotten: string[];
 }
 
 export interface SystemStatus {
@@ -134,6 +629,8 @@ export interface Memory {
   content: string;
   metadata: Record<string, any>;
   timestamp: Date;
+  // Relevance to the content search that returned this memory
+  score?: number;
 }
 
 export interface MemoryMetadata {
@@ -160,6 +657,9 @@ export interface EncryptionConfig {
   algorithm: string;
   keySize: number;
   mode: string;
+  key?: string;
+  // Per-install key generated on first use when no key is given; defaults to encryption.key in the storage path
+  keyFile?: string;
 }
 
 export interface AuthenticationConfig {
@@ -220,6 +720,8 @@ export interface EncryptedData {
   data: string;
   algorithm: string;
   keyId: string;
+  iv: string;
+  authTag: string;
   timestamp: Date;
 }
 
@@ -0,0 +1,21 @@
+/**
+ * Embedder Interface
+ *
+ * Maps memory content to a point in the Poincaré ball. Implementations must be
+ * deterministic: the same text always yields the same vector, so embeddings can
+ * be recomputed after a restart instead of being persisted.
+ */
+
+export interface Embedder {
+  readonly dimension: number;
+  readonly curvature: number;
+
+  embed(text: string): Promise<number[]>;
+}
+
+export interface EmbeddingConfig {
+  dimension: number;
+  curvature: number;
+  // Hyperbolic distance from the origin given to the most specific content
+  maxDepth?: number;
+}
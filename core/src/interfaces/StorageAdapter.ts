@@ -0,0 +1,47 @@
+/**
+ * Storage Adapter Interface
+ *
+ * Pluggable durable storage for the persisted collections
+ */
+
+export type StorageCollection = 'identities' | 'memories' | 'compressedMemories' | 'memoryIndex' | 'memoryStrength' | 'memoryRelationships' | 'learningProgress' | 'concepts' | 'axioms' | 'skills' | 'procedures' | 'automations' | 'habits' | 'checkpoints';
+
+export type StorageType = 'file' | 'sqlite' | 'memory';
+
+export const STORAGE_COLLECTIONS: StorageCollection[] = ['identities', 'memories', 'compressedMemories', 'memoryIndex', 'memoryStrength', 'memoryRelationships', 'learningProgress', 'concepts', 'axioms', 'skills', 'procedures', 'automations', 'habits', 'checkpoints'];
+
+export interface StorageRecord {
+  id: string;
+  [key: string]: any;
+}
+
+/**
+ * Records are stored by value: adapters return JSON-serializable copies, so
+ * Date fields come back as ISO strings regardless of the backend.
+ */
+export interface StorageAdapter {
+  initialize(): Promise<void>;
+  close(): Promise<void>;
+  flush(): Promise<void>;
+
+  get<T extends StorageRecord>(collection: StorageCollection, id: string): Promise<T | null>;
+  put<T extends StorageRecord>(collection: StorageCollection, record: T): Promise<void>;
+  delete(collection: StorageCollection, id: string): Promise<boolean>;
+  scan<T extends StorageRecord>(collection: StorageCollection): Promise<T[]>;
+}
+
+/**
+ * Serializes file and SQLite state, e.g. to encrypt it at rest
+ */
+export interface StorageCodec {
+  encode(value: any): Promise<string>;
+  decode(text: string): Promise<any>;
+}
+
+export interface StorageAdapterOptions {
+  type: StorageType | string;
+  path: string;
+  codec?: StorageCodec;
+  compactionThreshold?: number;
+  onCorruption?: 'throw' | 'quarantine';
+}
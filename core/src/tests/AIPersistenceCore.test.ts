@@ -4,8 +4,13 @@
  * Comprehensive test suite for the AI persistence system
  */
 
-import { AIPersistenceCore, PersistenceConfig, DEFAULT_CONFIG } from '../index';
+import { AIPersistenceCore, AIPersistenceCoreImpl, PersistenceConfig, DEFAULT_CONFIG } from '../index';
 import { IdentityConfig, MemoryConfig, SecurityConfig } from '../types/identity';
+import { promises as fs } from 'fs';
+import { join, resolve } from 'path';
+
+// Input that deliberately does not match the type an API expects
+const malformed = <T>(value: Record<string, unknown>): T => value as T;
 
 describe('AIPersistenceCore', () => {
   let persistenceCore: AIPersistenceCore;
@@ -61,6 +66,10 @@ describe('AIPersistenceCore', () => {
     }
   });
 
+  afterAll(async () => {
+    await fs.rm('./test-persistence', { recursive: true, force: true });
+  });
+
   describe('Initialization', () => {
     it('should initialize successfully with valid config', async () => {
       persistenceCore = AIPersistenceCore.create(config);
@@ -77,6 +86,42 @@ describe('AIPersistenceCore', () => {
       persistenceCore = AIPersistenceCore.create(config);
       await expect(persistenceCore.getStatus()).rejects.toThrow('AI Persistence Core is not initialized');
     });
+
+    it('should import the state earlier versions left in the working directory once', async () => {
+      const cwd = process.cwd();
+      const dir = resolve('./test-persistence/legacy');
+      const legacyConfig = { ...config, memory: { ...config.memory, storage: { ...config.memory.storage, path: join(dir, 'persistence') } } };
+      const legacyState = {
+        identities: [],
+        memories: [{ id: 'legacy-memory', type: 'legacy-note', content: 'Kept in the working directory', metadata: {}, timestamp: new Date() }],
+        learningProgress: [],
+        checkpoints: [],
+        timestamp: new Date()
+      };
+      await fs.mkdir(dir, { recursive: true });
+      await fs.writeFile(join(dir, 'state.json'), JSON.stringify({
+        data: Buffer.from(JSON.stringify(legacyState)).toString('base64'),
+        algorithm: 'AES-256',
+        keyId: 'legacy-key',
+        iv: 'legacy-iv',
+        timestamp: new Date()
+      }));
+
+      try {
+        process.chdir(dir);
+        persistenceCore = AIPersistenceCore.create(legacyConfig);
+        await persistenceCore.initialize();
+        expect((await persistenceCore.retrieveMemory({ type: 'legacy-note' })).map(memory => memory.id)).toEqual(['legacy-memory']);
+        expect((await fs.readdir(dir)).sort()).toEqual(['persistence', 'state.json.legacy']);
+
+        await persistenceCore.shutdown();
+        persistenceCore = AIPersistenceCore.create(legacyConfig);
+        await persistenceCore.initialize();
+        expect((await persistenceCore.retrieveMemory({ type: 'legacy-note' })).map(memory => memory.id)).toEqual(['legacy-memory']);
+      } finally {
+        process.chdir(cwd);
+      }
+    });
   });
 
   describe('System Status', () => {
@@ -174,6 +219,23 @@ describe('AIPersistenceCore', () => {
       await expect(persistenceCore.getIdentity(identity.id)).rejects.toThrow();
     });
 
+    it('should recover identities from the journal after an unclean shutdown', async () => {
+      const identity = await persistenceCore.createIdentity({
+        name: 'Journaled AI Identity',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+
+      // The first instance never saves a snapshot
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const recovered = await persistenceCore.getIdentity(identity.id);
+      expect(recovered.fingerprint).toBe(identity.fingerprint);
+      expect(recovered.createdAt).toBeInstanceOf(Date);
+    });
+
     it('should throw error when getting non-existent identity', async () => {
       await expect(persistenceCore.getIdentity('non-existent-id')).rejects.toThrow();
     });
@@ -232,9 +294,223 @@ describe('AIPersistenceCore', () => {
       await expect(persistenceCore.consolidateMemory()).resolves.not.toThrow();
     });
 
+    it('should persist consolidated and archived memories', async () => {
+      for (const content of ['Standup moved to 10am', 'Standup is at 10am from now on']) {
+        await persistenceCore.storeMemory({ type: 'note', content, metadata: {} });
+      }
+      const report = await persistenceCore.consolidateMemory({ types: ['note'], maxDistance: 10, archive: true });
+      expect(report.groups).toHaveLength(1);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const [consolidated] = await persistenceCore.retrieveMemory({ metadata: { consolidatedInto: null }, content: 'standup' });
+      expect(consolidated.id).toBe(report.groups[0].memory.id);
+      expect(consolidated.metadata.sourceMemories).toEqual(report.groups[0].sourceMemories);
+      const sources = await persistenceCore.retrieveMemory({ type: 'note' });
+      expect(sources.every(source => source.metadata.archived && source.metadata.consolidatedInto === consolidated.id)).toBe(true);
+    });
+
+    it('should merge duplicate memories across restarts', async () => {
+      config.memory.dedup = { mode: 'merge' };
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const stored = await persistenceCore.storeMemory({ type: 'alert', content: 'Disk usage above 90% on db-1', metadata: {} });
+      expect(stored.action).toBe('stored');
+      expect((await persistenceCore.storeMemory({ type: 'alert', content: 'disk usage above 90% on db-1', metadata: {} })).action).toBe('merged');
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const merged = await persistenceCore.storeMemory({ type: 'alert', content: 'Disk usage above 90% on db-1', metadata: {} });
+      expect(merged.duplicateOf!.id).toBe(stored.memory.id);
+      const alerts = await persistenceCore.retrieveMemory({ type: 'alert' });
+      expect(alerts.map(alert => [alert.id, alert.metadata.occurrences])).toEqual([[stored.memory.id, 3]]);
+    });
+
+    it('should persist memory links and drop them with a forgotten memory', async () => {
+      const cause = (await persistenceCore.storeMemory({ type: 'incident', content: 'Certificate for api.example.com expired', metadata: {} })).memory;
+      const outage = (await persistenceCore.storeMemory({ type: 'incident', content: 'Mobile clients could not log in', metadata: {} })).memory;
+      const fix = (await persistenceCore.storeMemory({ type: 'incident', content: 'Renewed the certificate and enabled auto-renewal', metadata: {} })).memory;
+      const link = await persistenceCore.linkMemories(cause.id, 'causes', outage.id);
+      await persistenceCore.linkMemories(fix.id, 'follows', outage.id);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const path = await persistenceCore.findMemoryPath(cause.id, fix.id);
+      expect(path!.memories.map(memory => memory.id)).toEqual([cause.id, outage.id, fix.id]);
+      expect(path!.links[0].id).toBe(link.id);
+      expect(await persistenceCore.forgetMemory(outage.id)).toBe(true);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+      expect(await persistenceCore.getMemoryLinks()).toEqual([]);
+      expect(await persistenceCore.findMemoryPath(cause.id, fix.id)).toBeNull();
+    });
+
+    it('should record conflicting learned facts and persist their resolution', async () => {
+      await persistenceCore.learnConcept({ concept: 'Pluto', data: { properties: { classification: 'planet' } }, context: {}, performance: 0.8 });
+      await persistenceCore.learnConcept({ concept: 'Pluto', data: { properties: { classification: 'dwarf planet' } }, context: {}, performance: 0.8 });
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const [conflict] = await persistenceCore.getMemoryConflicts();
+      expect(conflict).toMatchObject({ kind: 'property', concept: 'Pluto', property: 'classification', values: ['planet', 'dwarf planet'] });
+      const result = await persistenceCore.resolveMemoryConflict(conflict.id, 'keep-newer');
+      expect(result.forgotten).toEqual([conflict.memories[0]]);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+      expect(await persistenceCore.getMemoryConflicts()).toEqual([]);
+      expect((await persistenceCore.getMemoryConflicts({ status: 'resolved' }))[0].resolution).toMatchObject({ action: 'keep-newer', kept: [conflict.memories[1]] });
+      const facts = await persistenceCore.retrieveMemory({ metadata: { concept: 'Pluto' } });
+      expect(facts.map(memory => memory.metadata.properties.classification)).toEqual(['dwarf planet']);
+    });
+
+    it('should drop records created after a checkpoint when restoring it', async () => {
+      const core = persistenceCore as AIPersistenceCoreImpl;
+      const shipped = (await core.storeMemory({ type: 'milestone', content: 'Shipped version 1.0', metadata: {} })).memory;
+      const checkpoint = await core.createCheckpoint({ name: 'v1', description: 'Before the 2.0 work', timestamp: new Date() });
+      const later = (await core.storeMemory({ type: 'milestone', content: 'Shipped version 2.0', metadata: {} })).memory;
+      await core.linkMemories(later.id, 'follows', shipped.id);
+      const identity = await core.createIdentity({ name: 'Later AI', type: 'ai', capabilities: [], preferences: {} });
+
+      await core.restoreFromCheckpoint(checkpoint);
+      expect((await core.retrieveMemory({ type: 'milestone' })).map(memory => memory.id)).toEqual([shipped.id]);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      expect((await persistenceCore.retrieveMemory({ type: 'milestone' })).map(memory => memory.id)).toEqual([shipped.id]);
+      expect(await persistenceCore.getMemoryLinks(shipped.id)).toEqual([]);
+      await expect(persistenceCore.getIdentity(identity.id)).rejects.toThrow();
+      expect(await (persistenceCore as AIPersistenceCoreImpl).getLastCheckpoint()).toMatchObject({ id: checkpoint.id });
+    });
+
+    it('should persist pins and forget unpinned memories', async () => {
+      await persistenceCore.storeMemory({ type: 'reminder', content: 'Anniversary is on June 3rd', metadata: {} });
+      await persistenceCore.storeMemory({ type: 'reminder', content: 'Buy milk', metadata: {} });
+      const [pinned] = await persistenceCore.retrieveMemory({ content: 'anniversary' });
+      const [other] = await persistenceCore.retrieveMemory({ content: 'milk' });
+      await persistenceCore.pinMemory(pinned.id);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      await expect(persistenceCore.forgetMemory(pinned.id)).rejects.toThrow('is pinned');
+      expect(await persistenceCore.forgetMemory(other.id)).toBe(true);
+      expect(await persistenceCore.forgetMemory(other.id)).toBe(false);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+      expect((await persistenceCore.retrieveMemory({ type: 'reminder' })).map(memory => memory.id)).toEqual([pinned.id]);
+    });
+
     it('should compress memories successfully', async () => {
       await expect(persistenceCore.compressMemory()).resolves.not.toThrow();
     });
+
+    it('should read compressed memories back in full and persist summaries', async () => {
+      const log = 'Deploy log: '.concat('pulled image, ran migrations, restarted workers. '.repeat(20));
+      await persistenceCore.storeMemory({ type: 'log', content: log, metadata: {} });
+      for (const content of ['Standup moved to 10am', 'Standup is at 10am now', 'Standup at 10am from Monday']) {
+        await persistenceCore.storeMemory({ type: 'minutes', content, metadata: {} });
+      }
+      const report = await persistenceCore.compressMemory({ olderThan: 0, threshold: 0, lossy: true, types: ['minutes', 'log'], maxDistance: 10 });
+      expect(report.forgotten).toHaveLength(3);
+      expect(report.summarized).toHaveLength(1);
+      expect(report.compressed.map(record => record.originalBytes)).toContain(Buffer.byteLength(log));
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const [stored] = await persistenceCore.retrieveMemory({ type: 'log' });
+      expect(stored.content).toBe(log);
+      expect(stored.metadata.compressed).toBe(true);
+      expect((await persistenceCore.retrieveMemory({ content: 'migrations' })).map(memory => memory.id)).toEqual([stored.id]);
+      const minutes = await persistenceCore.retrieveMemory({ type: 'minutes' });
+      expect(minutes.map(item => item.id)).toEqual([report.summarized[0].id]);
+      expect(minutes[0].metadata.source).toBe('compression');
+    });
+  });
+
+  describe('Concept Graph', () => {
+    beforeEach(async () => {
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+    });
+
+    it('should place learned concepts in the graph and persist it', async () => {
+      await persistenceCore.learnConcept({
+        concept: 'Poincare ball',
+        data: { description: 'Model of hyperbolic space inside the unit ball', isA: 'Hyperbolic model', relationships: ['Curvature'] },
+        context: { domain: 'geometry' },
+        performance: 0.9
+      });
+      await persistenceCore.addAxiom({ type: 'functional', relation: 'is-a' });
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const concept = await persistenceCore.getConcept('poincare ball');
+      expect(concept).toMatchObject({ definition: 'Model of hyperbolic space inside the unit ball', category: 'geometry' });
+      expect((await persistenceCore.inferRelated('Poincare ball', 'is-a')).map(related => related.name)).toEqual(['Hyperbolic model']);
+      expect((await persistenceCore.explainRelation('Curvature', 'Hyperbolic model'))!.explanation)
+        .toBe('Poincare ball related-to Curvature; Poincare ball is-a Hyperbolic model');
+
+      await persistenceCore.relateConcepts('Poincare ball', 'is-a', 'Manifold');
+      expect((await persistenceCore.checkConsistency()).map(violation => violation.kind)).toEqual(['functional']);
+    });
+  });
+
+  describe('Procedural Memory', () => {
+    beforeEach(async () => {
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+    });
+
+    it('should run stored procedures and persist outcomes and proficiency', async () => {
+      persistenceCore.registerStepExecutor('greet', parameters => `Hello, ${parameters.name}`);
+      await persistenceCore.storeProcedure({ name: 'Welcome user', skill: 'Onboarding', steps: [{ action: 'greet', parameters: { name: 'Ada' } }] });
+
+      const run = await persistenceCore.executeProcedure('welcome user');
+      expect(run).toMatchObject({ status: 'succeeded', output: 'Hello, Ada' });
+      expect(run.skill).toMatchObject({ name: 'Onboarding', proficiency: 0.2 });
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      expect((await persistenceCore.getSkill('Onboarding'))!.proficiency).toBe(0.2);
+      expect((await persistenceCore.getProcedure('Welcome user'))!.outcomes).toEqual([{ type: 'succeeded', value: 1, probability: 1 }]);
+      // Executors are not persisted
+      await expect(persistenceCore.executeProcedure('Welcome user')).rejects.toThrow('No step executor registered for action greet');
+    });
+
+    it('should fire automations on stored memories and persist them', async () => {
+      const greeted: string[] = [];
+      persistenceCore.registerStepExecutor('greet', (_parameters, context) => greeted.push(context.input.memory.content));
+      await persistenceCore.storeProcedure({ name: 'Greet newcomer', steps: [{ action: 'greet' }] });
+      const automation = await persistenceCore.createAutomation({
+        name: 'Welcome newcomers',
+        trigger: { type: 'memory', condition: { type: 'memory.metadata.event', operator: 'eq', value: 'joined' } },
+        action: { type: 'procedure', parameters: { procedure: 'Greet newcomer' } }
+      });
+
+      await persistenceCore.storeMemory({ type: 'episodic', content: 'Grace joined the team', metadata: { event: 'joined' } });
+      await persistenceCore.storeMemory({ type: 'episodic', content: 'Lunch at noon', metadata: {} });
+      expect(greeted).toEqual(['Grace joined the team']);
+
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      const [restored] = await persistenceCore.getAutomations();
+      expect(restored).toMatchObject({ id: automation.id, name: 'Welcome newcomers' });
+      expect(restored.lastRun).toBeInstanceOf(Date);
+      expect((await persistenceCore.getProcedure('Greet newcomer'))!.outcomes).toEqual([{ type: 'succeeded', value: 1, probability: 1 }]);
+    });
   });
 
   describe('Security Operations', () => {
@@ -275,6 +551,86 @@ describe('AIPersistenceCore', () => {
       const decrypted = await persistenceCore.decrypt(encrypted);
       expect(decrypted).toEqual(data);
     });
+
+    it('should not expose plaintext and should use a fresh IV per encryption', async () => {
+      const data = { secret: 'identity-state' };
+      const first = await persistenceCore.encrypt(data);
+      const second = await persistenceCore.encrypt(data);
+
+      expect(first.algorithm).toBe('aes-256-gcm');
+      expect(first.authTag).toBeDefined();
+      expect(Buffer.from(first.data, 'base64').toString('utf8')).not.toContain('identity-state');
+      expect(first.iv).not.toBe(second.iv);
+      expect(first.data).not.toBe(second.data);
+    });
+
+    it('should reject tampered ciphertext', async () => {
+      const encrypted = await persistenceCore.encrypt({ test: 'data' });
+      const bytes = Buffer.from(encrypted.data, 'base64');
+      bytes[0] ^= 0xff;
+
+      await expect(persistenceCore.decrypt({ ...encrypted, data: bytes.toString('base64') }))
+        .rejects.toThrow('Decryption failed');
+    });
+
+    it('should reject data encrypted with an unknown key', async () => {
+      const encrypted = await persistenceCore.encrypt({ test: 'data' });
+      await expect(persistenceCore.decrypt({ ...encrypted, keyId: 'unknown-key' }))
+        .rejects.toThrow('Unknown encryption key');
+    });
+
+    it('should generate a per-install key and reuse it after a restart', async () => {
+      const keyFile = './test-persistence/encryption.key';
+      const secret = await fs.readFile(keyFile, 'utf8');
+      expect(secret).toMatch(/^[0-9a-f]{64}$/);
+      expect((await fs.stat(keyFile)).mode & 0o777).toBe(0o600);
+
+      const encrypted = await persistenceCore.encrypt({ test: 'data' });
+      await persistenceCore.shutdown();
+      persistenceCore = AIPersistenceCore.create(config);
+      await persistenceCore.initialize();
+
+      expect(await fs.readFile(keyFile, 'utf8')).toBe(secret);
+      expect(await persistenceCore.decrypt(encrypted)).toEqual({ test: 'data' });
+    });
+
+    it('should refuse to initialize without any key source', async () => {
+      const unkeyed = AIPersistenceCore.create({
+        ...config,
+        security: { ...config.security, encryption: { ...config.security.encryption, keyFile: undefined } }
+      });
+
+      await expect(unkeyed.initialize()).rejects.toThrow('No encryption key configured');
+    });
+
+    it('should refuse to initialize over state encrypted with another key', async () => {
+      await persistenceCore.storeMemory({ type: 'key-check', content: 'Readable with the install key', metadata: {} });
+      const rekeyed = AIPersistenceCore.create({
+        ...config,
+        security: { ...config.security, encryption: { ...config.security.encryption, key: 'another-key' } }
+      });
+
+      await expect(rekeyed.initialize()).rejects.toThrow('Unknown encryption key');
+    });
+
+    it('should refuse to initialize over tampered state and leave it in place', async () => {
+      const storagePath = './test-persistence/tampered';
+      const tamperedConfig = { ...config, memory: { ...config.memory, storage: { ...config.memory.storage, path: storagePath } } };
+      const original = AIPersistenceCore.create(tamperedConfig);
+      await original.initialize();
+      await original.storeMemory({ type: 'tamper-check', content: 'Tampered with on disk', metadata: {} });
+      await original.shutdown();
+
+      const stateFile = `${storagePath}/state.json`;
+      const snapshot = JSON.parse(await fs.readFile(stateFile, 'utf8'));
+      const bytes = Buffer.from(snapshot.data, 'base64');
+      bytes[0] ^= 0xff;
+      const tampered = JSON.stringify({ ...snapshot, data: bytes.toString('base64') });
+      await fs.writeFile(stateFile, tampered);
+
+      await expect(AIPersistenceCore.create(tamperedConfig).initialize()).rejects.toThrow('Decryption failed');
+      expect(await fs.readFile(stateFile, 'utf8')).toBe(tampered);
+    });
   });
 
   describe('Shutdown', () => {
@@ -294,11 +650,11 @@ describe('AIPersistenceCore', () => {
 
   describe('Error Handling', () => {
     it('should handle invalid configuration gracefully', async () => {
-      const invalidConfig = {
+      const invalidConfig = malformed<PersistenceConfig>({
         identity: null,
         memory: null,
         security: null
-      } as any;
+      });
 
       expect(() => AIPersistenceCore.create(invalidConfig)).toThrow();
     });
@@ -307,11 +663,11 @@ describe('AIPersistenceCore', () => {
       persistenceCore = AIPersistenceCore.create(config);
       await persistenceCore.initialize();
 
-      const invalidMemory = {
+      const invalidMemory = malformed<Parameters<AIPersistenceCoreImpl['storeMemory']>[0]>({
         type: 'invalid',
         content: null,
         metadata: null
-      } as any;
+      });
 
       await expect(persistenceCore.storeMemory(invalidMemory)).resolves.not.toThrow();
     });
@@ -0,0 +1,205 @@
+/**
+ * Automation Tests
+ *
+ * Cron-like schedules, scheduled and memory-triggered automations on a test
+ * clock, and habit formation from repeated procedures
+ */
+
+import { AutomationScheduler } from '../implementations/AutomationScheduler';
+import { ProcedureEngine } from '../implementations/ProcedureEngine';
+import { compileSchedule, nextOccurrence } from '../utils/schedule';
+import { memory } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+const DAY = 24 * HOUR;
+
+// Monday 1 January 2024, 08:30 UTC
+const start = new Date(Date.UTC(2024, 0, 1, 8, 30));
+
+const next = (schedule: Parameters<typeof compileSchedule>[0], after: Date = start) =>
+  nextOccurrence(compileSchedule(schedule), after)?.toISOString();
+
+describe('schedules', () => {
+  it('should find the next occurrence of named frequencies', () => {
+    expect(next({ frequency: 'hourly', time: '00:15', days: [], timezone: '' })).toBe('2024-01-01T09:15:00.000Z');
+    expect(next({ frequency: 'daily', time: '08:30', days: [], timezone: 'UTC' })).toBe('2024-01-02T08:30:00.000Z');
+    expect(next({ frequency: 'daily', time: '09:00', days: ['saturday', 'sun'], timezone: '' })).toBe('2024-01-06T09:00:00.000Z');
+    expect(next({ frequency: 'weekly', time: '07:00', days: ['Mon'], timezone: '' })).toBe('2024-01-08T07:00:00.000Z');
+  });
+
+  it('should read cron expressions', () => {
+    expect(next({ frequency: '*/20 9-17 * * 1-5', time: '', days: [], timezone: '' })).toBe('2024-01-01T09:00:00.000Z');
+    // Day of month and day of week are alternatives when both are restricted
+    expect(next({ frequency: '0 12 15 * 0', time: '', days: [], timezone: '' })).toBe('2024-01-07T12:00:00.000Z');
+    expect(next({ frequency: '0 0 29 2 *', time: '', days: [], timezone: '' })).toBe('2024-02-29T00:00:00.000Z');
+    expect(nextOccurrence(compileSchedule({ frequency: '0 0 30 2 *', time: '', days: [], timezone: '' }), start)).toBeNull();
+  });
+
+  it('should read times in the schedule timezone', () => {
+    // 09:00 in New York is 14:00 UTC in winter and 13:00 UTC in summer
+    expect(next({ frequency: 'daily', time: '09:00', days: [], timezone: 'America/New_York' })).toBe('2024-01-01T14:00:00.000Z');
+    expect(next({ frequency: 'daily', time: '09:00', days: [], timezone: 'America/New_York' }, new Date(Date.UTC(2024, 6, 1))))
+      .toBe('2024-07-01T13:00:00.000Z');
+  });
+
+  it('should reject schedules it cannot read', () => {
+    expect(() => compileSchedule({ frequency: 'fortnightly', time: '', days: [], timezone: '' })).toThrow('unknown frequency fortnightly');
+    expect(() => compileSchedule({ frequency: 'weekly', time: '09:00', days: [], timezone: '' })).toThrow('need days');
+    expect(() => compileSchedule({ frequency: 'daily', time: '25:00', days: [], timezone: '' })).toThrow('HH:MM');
+    expect(() => compileSchedule({ frequency: '61 * * * *', time: '', days: [], timezone: '' })).toThrow('outside 0-59');
+    expect(() => compileSchedule({ frequency: 'daily', time: '09:00', days: ['someday'], timezone: '' })).toThrow('unknown day someday');
+    expect(() => compileSchedule({ frequency: 'daily', time: '09:00', days: [], timezone: 'Mars/Olympus' })).toThrow('unknown timezone');
+  });
+});
+
+describe('AutomationScheduler', () => {
+  let now: Date;
+  let engine: ProcedureEngine;
+  let scheduler: AutomationScheduler;
+  let log: string[];
+
+  const advance = (milliseconds: number) => {
+    now = new Date(now.getTime() + milliseconds);
+  };
+
+  const noted = (content: string, type: string = 'episodic', metadata: Record<string, any> = {}) =>
+    memory(content, content, { type, metadata, timestamp: now });
+
+  beforeEach(() => {
+    now = start;
+    log = [];
+    engine = new ProcedureEngine({ now: () => now });
+    engine.register('write', parameters => {
+      log.push(parameters.text);
+      return parameters.text;
+    });
+    engine.addProcedure({ name: 'Standup', steps: [{ action: 'write', parameters: { text: 'standup notes' } }] });
+    scheduler = new AutomationScheduler(engine, { now: () => now, habitThreshold: 3, habitWindow: 7 * DAY, habitHalfLife: 7 * DAY });
+  });
+
+  it('should fire scheduled automations once per tick when due', async () => {
+    const automation = scheduler.add({
+      name: 'Daily standup',
+      trigger: { type: 'schedule' },
+      schedule: { frequency: 'daily', time: '09:00', days: [], timezone: '' },
+      action: { type: 'procedure', parameters: { procedure: 'Standup' } }
+    });
+    expect(scheduler.nextRun(automation.id)).toEqual(new Date(Date.UTC(2024, 0, 1, 9)));
+
+    expect(await scheduler.tick()).toEqual([]);
+    advance(HOUR);
+    const [firing] = await scheduler.tick();
+    expect(firing).toMatchObject({ automationId: automation.id, reason: 'schedule', status: 'succeeded', output: 'standup notes' });
+    expect(automation.lastRun).toEqual(now);
+
+    // Three missed days fire once, then wait for the next occurrence
+    advance(3 * DAY);
+    expect(await scheduler.tick()).toHaveLength(1);
+    expect(await scheduler.tick()).toHaveLength(0);
+    expect(scheduler.nextRun(automation.id)).toEqual(new Date(Date.UTC(2024, 0, 5, 9)));
+    expect(log).toHaveLength(2);
+  });
+
+  it('should fire on every nth memory matching the trigger', async () => {
+    const seen: string[] = [];
+    scheduler.register('remember', (parameters, context) => {
+      seen.push(`${parameters.prefix}${context.memory!.content}`);
+    });
+    scheduler.add({
+      name: 'Deploy digest',
+      trigger: { type: 'memory', condition: { type: 'memory.metadata.tags', operator: 'contains', value: 'deploy' }, frequency: 2 },
+      action: { type: 'remember', parameters: { prefix: 'digest: ' } }
+    });
+
+    for (const content of ['first', 'second', 'third', 'fourth']) {
+      await scheduler.notifyMemory(noted(content, 'episodic', { tags: ['deploy'] }));
+      await scheduler.notifyMemory(noted(`${content} unrelated`, 'episodic', { tags: ['lunch'] }));
+    }
+    expect(seen).toEqual(['digest: second', 'digest: fourth']);
+  });
+
+  it('should skip automations whose conditions fail and report failing actions', async () => {
+    scheduler.register('explode', () => {
+      throw new Error('Boom');
+    });
+    scheduler.add({
+      name: 'Semantic only',
+      trigger: { type: 'memory' },
+      conditions: [{ type: 'memory.type', operator: 'eq', value: 'semantic' }],
+      action: { type: 'explode' }
+    });
+
+    const [skipped] = await scheduler.notifyMemory(noted('an episode'));
+    expect(skipped.status).toBe('skipped');
+    const [failed] = await scheduler.notifyMemory(noted('a fact', 'semantic'));
+    expect(failed).toMatchObject({ status: 'failed', error: 'Boom' });
+  });
+
+  it('should not fire automations for memories stored by a firing automation', async () => {
+    let nested: number | undefined;
+    scheduler.register('echo', async (_parameters, context) => {
+      nested = (await scheduler.notifyMemory(noted(`echo of ${context.memory!.content}`))).length;
+    });
+    scheduler.add({ name: 'Echo', trigger: { type: 'memory' }, action: { type: 'echo' } });
+
+    expect(await scheduler.notifyMemory(noted('hello'))).toHaveLength(1);
+    expect(nested).toBe(0);
+  });
+
+  it('should fire on memories stored elsewhere while an automation fires', async () => {
+    let release!: () => void;
+    const released = new Promise<void>(resolve => {
+      release = resolve;
+    });
+    scheduler.register('wait', () => released);
+    scheduler.add({
+      name: 'Slow report',
+      trigger: { type: 'schedule' },
+      schedule: { frequency: 'hourly', time: '00:00', days: [], timezone: '' },
+      action: { type: 'wait' }
+    });
+    scheduler.add({ name: 'Echo', trigger: { type: 'memory' }, action: { type: 'procedure', parameters: { procedure: 'Standup' } } });
+
+    advance(HOUR);
+    const tick = scheduler.tick();
+    expect(await scheduler.notifyMemory(noted('meanwhile'))).toMatchObject([{ reason: 'memory', status: 'succeeded' }]);
+    release();
+    expect(await tick).toMatchObject([{ reason: 'schedule', status: 'succeeded' }]);
+  });
+
+  it('should form habits from repeated procedures and fade them without practice', async () => {
+    const runs = async (count: number) => {
+      let habit;
+      for (let run = 0; run < count; run++) {
+        habit = scheduler.observeRun(await engine.run('Standup'));
+        advance(DAY);
+      }
+      return habit;
+    };
+
+    expect(await runs(2)).toBeUndefined();
+    const habit = (await runs(1))!;
+    expect(habit).toMatchObject({ name: 'Standup', context: engine.getProcedure('Standup')!.id, frequency: 3 / 7 });
+    expect(habit.strength).toBeCloseTo(1 - Math.pow(0.9, 3));
+    expect(habit.pattern).toMatchObject({ type: 'procedure', frequency: 3, confidence: 1 });
+
+    const reinforced = (await runs(1))!;
+    expect(reinforced.id).toBe(habit.id);
+    // A day of fading, then a tenth of the way to full strength
+    const faded = habit.strength * Math.pow(0.5, 1 / 7);
+    expect(reinforced.strength).toBeCloseTo(faded + 0.1 * (1 - faded));
+
+    advance(6 * DAY);
+    expect(scheduler.getHabits()[0].strength).toBeCloseTo(reinforced.strength / 2);
+  });
+
+  it('should validate automations', () => {
+    expect(() => scheduler.add({ name: 'No trigger', trigger: { type: 'webhook' as any }, action: { type: 'noop' } })).toThrow('Unknown trigger type webhook');
+    expect(() => scheduler.add({ name: 'Unscheduled', trigger: { type: 'schedule' }, action: { type: 'noop' } })).toThrow('no schedule');
+    expect(() => scheduler.add({ name: 'Anonymous', trigger: { type: 'memory' }, action: { type: 'procedure' } })).toThrow('must name the procedure');
+    expect(() => scheduler.add({ name: 'Never', trigger: { type: 'schedule' }, schedule: { frequency: '0 0 31 4 *', time: '', days: [], timezone: '' }, action: { type: 'noop' } }))
+      .toThrow('never fires');
+    expect(scheduler.getAutomations()).toEqual([]);
+    expect(() => scheduler.register('procedure', () => null)).toThrow('already registered');
+  });
+});
@@ -0,0 +1,137 @@
+/**
+ * Clustering Tests
+ *
+ * Fréchet means, Riemannian k-means and density clustering in the Poincaré
+ * ball, and clustering through MemorySystemImpl
+ */
+
+import { Embedder } from '../interfaces/Embedder';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { ClusterPoint, densityClusters, frechetMean, kMeans, resolveClusterOptions } from '../utils/clustering';
+import { poincareDistance } from '../utils/hyperbolic';
+import { memory } from './fixtures';
+
+const point = (id: string, x: number, y: number): ClusterPoint => ({ id, vector: [x, y] });
+
+// Two tight groups on opposite sides of the origin
+const blobs = [
+  point('a1', 0.6, 0.1), point('a2', 0.65, 0.05), point('a3', 0.62, 0.15),
+  point('b1', -0.6, -0.1), point('b2', -0.55, -0.12), point('b3', -0.62, -0.05)
+];
+
+const members = (clusters: Array<{ members: string[] }>) => clusters.map(cluster => cluster.members);
+
+describe('frechetMean', () => {
+  it('should put the mean of symmetric points at the origin', () => {
+    const mean = frechetMean([[0.5, 0], [-0.5, 0], [0, 0.5], [0, -0.5]]);
+    expect(mean[0]).toBeCloseTo(0, 8);
+    expect(mean[1]).toBeCloseTo(0, 8);
+  });
+
+  it('should minimize the sum of squared geodesic distances', () => {
+    const vectors = [[0.8, 0], [0.1, 0.3], [-0.2, -0.4]];
+    const cost = (center: number[]) => vectors.reduce((sum, vector) => sum + poincareDistance(vector, center) ** 2, 0);
+    const mean = frechetMean(vectors);
+
+    for (const offset of [[0.01, 0], [-0.01, 0], [0, 0.01], [0, -0.01]]) {
+      expect(cost(mean)).toBeLessThan(cost([mean[0] + offset[0], mean[1] + offset[1]]));
+    }
+  });
+
+  it('should reject an empty set of points', () => {
+    expect(() => frechetMean([])).toThrow('no points');
+  });
+});
+
+describe('kMeans', () => {
+  it('should separate well-apart groups and report their stats', () => {
+    const { clusters, noise } = kMeans(blobs, 2);
+
+    expect(members(clusters).map(ids => ids.slice().sort())).toEqual(
+      expect.arrayContaining([['a1', 'a2', 'a3'], ['b1', 'b2', 'b3']])
+    );
+    expect(noise).toEqual([]);
+    for (const cluster of clusters) {
+      const distances = cluster.members.map(id => poincareDistance(blobs.find(p => p.id === id)!.vector, cluster.center));
+      expect(cluster.radius).toBeCloseTo(Math.max(...distances));
+      expect(cluster.cohesion).toBeCloseTo(1 / (1 + distances.reduce((sum, distance) => sum + distance, 0) / 3));
+      expect(cluster.density).toBeCloseTo(3 / (1 + cluster.radius));
+    }
+    expect(clusters[0].separation).toBeCloseTo(poincareDistance(clusters[0].center, clusters[1].center));
+    expect(clusters[0].separation).toBe(clusters[1].separation);
+  });
+
+  it('should be repeatable for a seed', () => {
+    const spread = Array.from({ length: 20 }, (_unused, index) => point(`p${index}`, Math.cos(index) * 0.7, Math.sin(index * 1.3) * 0.5));
+    expect(members(kMeans(spread, 4, 50, 7).clusters)).toEqual(members(kMeans(spread, 4, 50, 7).clusters));
+  });
+
+  it('should not make more clusters than distinct points', () => {
+    const { clusters } = kMeans([point('a', 0.1, 0), point('b', 0.1, 0)], 3);
+    expect(members(clusters)).toEqual([['a', 'b']]);
+    expect(clusters[0]).toMatchObject({ radius: 0, cohesion: 1, separation: 0 });
+  });
+});
+
+describe('densityClusters', () => {
+  it('should leave isolated points as noise', () => {
+    const { clusters, noise } = densityClusters([...blobs, point('stray', 0, 0.7)], 0.5, 3);
+    expect(members(clusters)).toEqual([['a1', 'a2', 'a3'], ['b1', 'b2', 'b3']]);
+    expect(noise).toEqual(['stray']);
+  });
+});
+
+describe('resolveClusterOptions', () => {
+  it('should layer options over the defaults', () => {
+    expect(resolveClusterOptions({ k: 4 }, { method: 'density' })).toMatchObject({ method: 'density', k: 4, minPoints: 3, types: [] });
+  });
+
+  it('should reject options that cannot cluster', () => {
+    expect(() => resolveClusterOptions({ method: 'ward' as any })).toThrow('unknown method ward');
+    expect(() => resolveClusterOptions({ k: 1.5 })).toThrow('k must');
+    expect(() => resolveClusterOptions({ epsilon: 0 })).toThrow('epsilon');
+    expect(() => resolveClusterOptions({ minPoints: 0 })).toThrow('minPoints');
+    expect(() => resolveClusterOptions({ types: 'episodic' as any })).toThrow('types');
+  });
+});
+
+describe('MemorySystemImpl.cluster', () => {
+  // Memories about deploys embed together, lunches on the other side
+  const embedder: Embedder = {
+    dimension: 2,
+    curvature: -1,
+    embed: async text => /deploy/i.test(text) ? [0.5, 0.1] : /lunch/i.test(text) ? [-0.5, 0.1] : [0, -0.6]
+  };
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ embedder });
+    await system.initialize();
+    await system.store(memory('a', 'Deploy started'));
+    await system.store(memory('b', 'Deploy failed'));
+    await system.store(memory('c', 'Lunch at noon'));
+    await system.store(memory('d', 'Lunch with the team'));
+    await system.store(memory('e', 'Deploy checklist', { type: 'procedural' }));
+    await system.store(memory('f', 'Old deploy', { metadata: { archived: true } }));
+  });
+
+  it('should group memories with their stats', async () => {
+    const clustering = await system.cluster({ k: 2, types: ['episodic'] });
+
+    expect(clustering.method).toBe('kmeans');
+    expect(members(clustering.clusters).map(ids => ids.slice().sort())).toEqual(expect.arrayContaining([['a', 'b'], ['c', 'd']]));
+    const [cluster] = clustering.clusters;
+    expect(cluster.memories.map(item => item.id)).toEqual(cluster.members);
+    expect(cluster.center.relationships).toEqual(cluster.members);
+    expect(cluster.properties.size).toBe(2);
+    expect(cluster.properties.cohesion).toBeCloseTo(1);
+    expect(cluster.properties.density).toBeCloseTo(2);
+    expect(cluster.properties.separation).toBeCloseTo(poincareDistance([0.5, 0.1], [-0.5, 0.1]));
+  });
+
+  it('should cluster by density', async () => {
+    const clustering = await system.cluster({ method: 'density', epsilon: 0.1, minPoints: 3 });
+    expect(members(clustering.clusters).map(ids => ids.slice().sort())).toEqual([['a', 'b', 'e']]);
+    expect(clustering.noise.sort()).toEqual(['c', 'd']);
+  });
+});
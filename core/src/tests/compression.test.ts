@@ -0,0 +1,149 @@
+/**
+ * Compression Tests
+ *
+ * Lossless round trips and byte ratios, fidelity of summaries, and
+ * compressing old memories through MemorySystemImpl
+ */
+
+import { Embedder } from '../interfaces/Embedder';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import {
+  COMPRESSION_ALGORITHMS,
+  SUMMARY_ALGORITHM,
+  compressContent,
+  contentFidelity,
+  decompressContent,
+  inflateMemories,
+  resolveCompressionOptions,
+  summaryRecord
+} from '../utils/compression';
+import { memory } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const ago = (age: number) => new Date(Date.now() - age);
+
+const repetitive = 'The nightly backup finished and the report was mailed to the team. '.repeat(30);
+
+describe('compressContent', () => {
+  it('should round trip with every algorithm', () => {
+    for (const algorithm of COMPRESSION_ALGORITHMS) {
+      const record = compressContent(memory('m', repetitive), algorithm, 6);
+      expect(record.algorithm).toBe(algorithm);
+      expect(decompressContent(record)).toBe(repetitive);
+    }
+  });
+
+  it('should report actual byte counts and ratios', () => {
+    const record = compressContent(memory('m', `Café ${repetitive}`));
+    expect(record.originalBytes).toBe(Buffer.byteLength(`Café ${repetitive}`, 'utf8'));
+    expect(record.compressedBytes).toBe(Buffer.from(record.compressed, 'base64').length);
+    expect(record.ratio).toBeCloseTo(record.compressedBytes / record.originalBytes);
+    expect(record.ratio).toBeLessThan(0.2);
+    expect(record.fidelity).toBe(1);
+  });
+
+  it('should refuse records it cannot decompress', () => {
+    expect(() => decompressContent({ ...compressContent(memory('m', 'text')), algorithm: 'lzma' })).toThrow('unknown algorithm lzma');
+  });
+});
+
+describe('contentFidelity', () => {
+  it('should measure the share of content terms kept', () => {
+    expect(contentFidelity(['The backup failed', 'Disk was full'], 'The backup failed because the disk was full')).toBe(1);
+    expect(contentFidelity(['The backup failed', 'Disk was full'], 'Backups failed')).toBeCloseTo(2 / 4);
+    expect(contentFidelity(['the and of'], '')).toBe(1);
+  });
+});
+
+describe('summaryRecord', () => {
+  it('should compare the summary with all its sources', () => {
+    const sources = [memory('a', 'Standup moved to 10am'), memory('b', 'Standup is at 10am now')];
+    const record = summaryRecord(memory('s', 'Standup moved to 10am'), sources);
+
+    expect(record).toMatchObject({ id: 's', original: 'a,b', compressed: 'Standup moved to 10am', algorithm: SUMMARY_ALGORITHM });
+    expect(record.ratio).toBeCloseTo(21 / 43);
+    expect(record.fidelity).toBeCloseTo(contentFidelity(sources.map(source => source.content), 'Standup moved to 10am'));
+  });
+});
+
+describe('inflateMemories', () => {
+  it('should restore content of stubs from their records only', () => {
+    const stored = [memory('a', ''), memory('b', 'kept as is')];
+    const records = [compressContent(memory('a', repetitive)), { ...compressContent(memory('b', 'summary')), algorithm: SUMMARY_ALGORITHM }];
+    expect(inflateMemories(stored, records).map(item => item.content)).toEqual([repetitive, 'kept as is']);
+  });
+});
+
+describe('resolveCompressionOptions', () => {
+  it('should layer known options over the defaults', () => {
+    expect(resolveCompressionOptions({ algorithm: 'brotli', level: 11 }, { threshold: 0 }, { unknown: true } as any))
+      .toMatchObject({ algorithm: 'brotli', level: 11, threshold: 0, lossy: false });
+  });
+
+  it('should reject options that cannot compress', () => {
+    expect(() => resolveCompressionOptions({ algorithm: 'lzma' as any })).toThrow('unknown algorithm lzma');
+    expect(() => resolveCompressionOptions({ level: 11 })).toThrow('from 0 to 9 for gzip');
+    expect(() => resolveCompressionOptions({ olderThan: -1 })).toThrow('olderThan');
+    expect(() => resolveCompressionOptions({ lossy: 'yes' as any })).toThrow('lossy');
+    expect(() => resolveCompressionOptions({ minGroupSize: 1 })).toThrow('minGroupSize');
+    expect(() => resolveCompressionOptions({ summarySentences: 0 })).toThrow('summarySentences');
+  });
+});
+
+describe('MemorySystemImpl.compress', () => {
+  // Memories about the standup embed together, everything else apart
+  const embedder: Embedder = {
+    dimension: 2,
+    curvature: -1,
+    embed: async text => /standup/i.test(text) ? [0.5, 0.1] : /backup/i.test(text) ? [-0.5, 0.1] : [0, -0.6]
+  };
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ embedder });
+    await system.initialize();
+    await system.store(memory('old', repetitive, { timestamp: ago(40 * DAY) }));
+    await system.store(memory('recent', repetitive, { timestamp: ago(DAY) }));
+    await system.store(memory('short', 'Backup ok', { timestamp: ago(40 * DAY) }));
+    await system.store(memory('s1', 'Standup moved to 10am', { type: 'note', timestamp: ago(40 * DAY) }));
+    await system.store(memory('s2', 'Standup is at 10am now', { type: 'note', timestamp: ago(40 * DAY) }));
+    await system.store(memory('s3', 'Standup at 10am from Monday', { type: 'note', timestamp: ago(40 * DAY) }));
+  });
+
+  it('should compress old memories above the threshold and keep their content readable', async () => {
+    const report = await system.compress({ threshold: 100 });
+
+    expect(report.compressed.map(record => record.id)).toEqual(['old']);
+    expect(report.summarized).toEqual([]);
+    expect(report.originalBytes).toBe(Buffer.byteLength(repetitive));
+    expect(report.ratio).toBeCloseTo(report.compressedBytes / report.originalBytes);
+    const [old] = await system.retrieve({ metadata: { compressed: true } });
+    expect(old.content).toBe(repetitive);
+
+    // Already compressed memories are left alone
+    expect((await system.compress({ threshold: 100 })).compressed).toEqual([]);
+  });
+
+  it('should skip content that does not shrink', async () => {
+    const report = await system.compress({ threshold: 0, types: ['episodic'] });
+    expect(report.compressed.map(record => record.id)).toEqual(['old']);
+  });
+
+  it('should replace groups of similar memories with summaries when lossy', async () => {
+    await system.pin('s3');
+    await system.store(memory('s4', 'Standup on Fridays is cancelled', { type: 'note', timestamp: ago(40 * DAY) }));
+    const report = await system.compress({ lossy: true, types: ['note'], minGroupSize: 3, maxDistance: 1 });
+
+    expect(report.forgotten.sort()).toEqual(['s1', 's2', 's4']);
+    expect(report.summarized).toHaveLength(1);
+    const [summary] = report.summarized;
+    expect(summary.original.split(',').sort()).toEqual(['s1', 's2', 's4']);
+    expect(summary.fidelity).toBeGreaterThan(0);
+    expect(summary.fidelity).toBeLessThanOrEqual(1);
+
+    const notes = await system.retrieve({ type: 'note' });
+    expect(notes.map(note => note.id).sort()).toEqual(['s3', summary.id].sort());
+    expect(notes.find(note => note.id === summary.id)!.metadata.source).toBe('compression');
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Concept Graph Tests
+ *
+ * Inference over is-a and part-of, path queries, axiom consistency checks,
+ * concept search and the is-a hierarchy
+ */
+
+import { ConceptGraph, learnedConcept } from '../implementations/ConceptGraph';
+
+const names = (concepts: Array<{ name: string }>) => concepts.map(concept => concept.name);
+
+describe('ConceptGraph', () => {
+  let graph: ConceptGraph;
+
+  beforeEach(() => {
+    graph = new ConceptGraph();
+    graph.add({ name: 'Animal' });
+    graph.add({ name: 'Mammal', relationships: [{ target: 'Animal', type: 'is-a' }, { target: 'Fur', type: 'has-part' }] });
+    graph.add({ name: 'Dog', definition: 'Domesticated carnivore', relationships: [{ target: 'Mammal', type: 'is-a' }] });
+    graph.add({ name: 'Cat', relationships: [{ target: 'Mammal', type: 'is-a' }] });
+    graph.add({ name: 'Leg', relationships: [{ target: 'Dog', type: 'part-of' }] });
+    graph.add({ name: 'Paw', relationships: [{ target: 'Leg', type: 'part-of' }] });
+    graph.relate('Fur', 'has-part', 'Hair');
+  });
+
+  it('should infer transitive is-a and part-of and inherit relationships down is-a', () => {
+    expect(names(graph.closure('Dog', 'is-a'))).toEqual(['Mammal', 'Animal']);
+    expect(graph.holds('Paw', 'part-of', 'Dog')).toBe(true);
+    expect(graph.holds('Cat', 'has-part', 'Fur')).toBe(true);
+    expect(graph.holds('Animal', 'has-part', 'Fur')).toBe(false);
+
+    // has-part is not transitive until an axiom says so
+    expect(graph.holds('Mammal', 'has-part', 'Hair')).toBe(false);
+    graph.addAxiom({ type: 'transitive', relation: 'has-part' });
+    expect(names(graph.closure('Dog', 'has-part'))).toEqual(['Fur', 'Hair']);
+  });
+
+  it('should explain how two concepts are related', () => {
+    const path = graph.path('dog', 'Cat')!;
+    expect(path.steps.map(step => [step.type, step.inverse])).toEqual([['is-a', false], ['is-a', true]]);
+    expect(path.explanation).toBe('Dog is-a Mammal; Cat is-a Mammal');
+    expect(graph.path('Paw', 'Animal')!.explanation).toBe('Paw part-of Leg; Leg part-of Dog; Dog is-a Mammal; Mammal is-a Animal');
+
+    graph.add({ name: 'Teapot' });
+    expect(graph.path('Teapot', 'Dog')).toBeNull();
+    expect(graph.path('Dog', 'Dog')!.explanation).toBe('Dog');
+    expect(() => graph.path('Dog', 'Unicorn')).toThrow('Concept Unicorn not found');
+  });
+
+  it('should report disjointness, functional and asymmetric violations', () => {
+    graph.add({ name: 'Reptile', relationships: [{ target: 'Animal', type: 'is-a' }] });
+    const disjoint = graph.addAxiom({ type: 'disjoint', concepts: ['Mammal', 'Reptile'] });
+    graph.addAxiom({ type: 'asymmetric', relation: 'eats' });
+    graph.addAxiom({ type: 'functional', relation: 'lives-in' });
+    expect(graph.check()).toEqual([]);
+    expect(disjoint.statement).toBe('Mammal, Reptile are disjoint');
+
+    graph.add({ name: 'Platypus', relationships: [{ target: 'Mammal', type: 'is-a' }, { target: 'Reptile', type: 'is-a' }] });
+    graph.relate('Cat', 'eats', 'Mouse');
+    graph.relate('Mouse', 'eats', 'Cat');
+    graph.relate('Dog', 'lives-in', 'Kennel');
+    graph.relate('Dog', 'lives-in', 'House');
+
+    const violations = graph.check();
+    expect(violations.map(violation => violation.kind).sort()).toEqual(['asymmetric', 'disjoint', 'functional']);
+    expect(violations.find(violation => violation.kind === 'disjoint')).toMatchObject({
+      axiomId: disjoint.id,
+      message: 'Platypus is-a Mammal and Reptile, which are disjoint'
+    });
+  });
+
+  it('should report cycles in transitive relations once', () => {
+    graph.relate('Animal', 'is-a', 'Dog');
+    const violations = graph.check();
+    expect(violations).toHaveLength(1);
+    expect(violations[0].kind).toBe('cycle');
+    expect(violations[0].concepts.map(id => graph.get(id)!.name).sort()).toEqual(['Animal', 'Dog', 'Mammal']);
+  });
+
+  it('should find concepts by name, then by terms', () => {
+    graph.add({ name: 'Hot dog', definition: 'Sausage in a bun' });
+    graph.add({ name: 'Carnivore' });
+
+    expect(names(graph.find('dog'))).toEqual(['Dog', 'Hot dog']);
+    expect(names(graph.find('carnivores'))).toEqual(['Carnivore', 'Dog']);
+    expect(graph.find('  ')).toEqual([]);
+  });
+
+  it('should merge concepts with the same name and validate axioms', () => {
+    const dog = graph.get('Dog')!;
+    const merged = graph.add({ name: 'dog', category: 'pet', properties: [{ name: 'legs', value: 4, type: 'number', confidence: 1 }] });
+    expect(merged.id).toBe(dog.id);
+    expect(merged).toMatchObject({ name: 'Dog', definition: 'Domesticated carnivore', category: 'pet' });
+    expect(graph.getConcepts()).toHaveLength(8);
+
+    expect(() => graph.add({ name: ' ' })).toThrow('Concept name is required');
+    expect(() => graph.addAxiom({ type: 'symmetric' as any, relation: 'near' })).toThrow('Unknown axiom type symmetric');
+    expect(() => graph.addAxiom({ type: 'disjoint', concepts: ['Dog', 'dog'] })).toThrow('at least two distinct concepts');
+    expect(() => graph.addAxiom({ type: 'functional' })).toThrow('needs a relation');
+  });
+
+  it('should build the is-a hierarchy from the broadest concept', () => {
+    const hierarchy = graph.hierarchy();
+    expect(hierarchy.root).toBe(graph.get('Animal')!.id);
+    expect(hierarchy.levels.map(level => level.nodes.map(id => graph.get(id)!.name))).toEqual([['Animal'], ['Mammal'], ['Dog', 'Cat']]);
+    expect(hierarchy.properties).toMatchObject({ depth: 3, breadth: 2 });
+
+    const ontology = graph.toOntology('zoo');
+    expect(ontology.relationships).toHaveLength(7);
+    expect(ontology.metadata.quality).toBe(1);
+  });
+
+  it('should survive a round trip through load', () => {
+    graph.addAxiom({ type: 'transitive', relation: 'has-part' });
+    const copy = new ConceptGraph();
+    copy.load(JSON.parse(JSON.stringify(graph.getConcepts())), JSON.parse(JSON.stringify(graph.getAxioms())));
+    expect(copy.holds('Dog', 'has-part', 'Hair')).toBe(true);
+  });
+});
+
+describe('learnedConcept', () => {
+  it('should read definitions, categories, properties and relationships from learning data', () => {
+    const input = learnedConcept('Weather patterns', {
+      description: 'Understanding weather patterns and forecasting',
+      isA: ['Meteorology topic'],
+      properties: { seasonal: true },
+      relationships: ['climate', { type: 'part-of', target: 'Earth science', confidence: 1 }, 42]
+    }, { domain: 'meteorology' }, 0.8);
+
+    expect(input).toEqual({
+      name: 'Weather patterns',
+      definition: 'Understanding weather patterns and forecasting',
+      category: 'meteorology',
+      properties: [{ name: 'seasonal', value: true, type: 'boolean', confidence: 0.8 }],
+      relationships: [
+        { target: 'Meteorology topic', type: 'is-a', confidence: 0.8 },
+        { target: 'climate', type: 'related-to', confidence: 0.8 },
+        { target: 'Earth science', type: 'part-of', strength: undefined, confidence: 1 }
+      ]
+    });
+  });
+});
@@ -0,0 +1,142 @@
+/**
+ * Consolidation Tests
+ *
+ * Grouping by embedding proximity and time, extractive summaries and
+ * consolidation through MemorySystemImpl
+ */
+
+import { Embedder } from '../interfaces/Embedder';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { groupMemories, resolveConsolidationOptions, summarizeMemories } from '../utils/consolidation';
+import { memory } from './fixtures';
+
+const HOUR = 60 * 60 * 1000;
+const start = Date.UTC(2024, 0, 1);
+
+const logged = (id: string, content: string, hours: number, metadata: Record<string, any> = {}) =>
+  memory(id, content, { metadata, timestamp: new Date(start + hours * HOUR) });
+
+describe('groupMemories', () => {
+  const options = { maxDistance: 0.5, timeWindow: 2 * HOUR, minGroupSize: 2 };
+  const candidate = (id: string, hours: number, x: number) => ({ memory: logged(id, id, hours), embedding: [x, 0] });
+  const ids = (groups: ReturnType<typeof groupMemories>) => groups.map(group => group.members.map(member => member.memory.id));
+
+  it('should group memories that are close in space and time', () => {
+    const groups = groupMemories([candidate('a', 0, 0), candidate('b', 1, 0.1), candidate('c', 1.5, 0.7)], options);
+    expect(ids(groups)).toEqual([['a', 'b']]);
+    expect(groups[0].spread).toBeCloseTo(0.2);
+  });
+
+  it('should split groups by time gaps', () => {
+    const groups = groupMemories([candidate('a', 0, 0), candidate('b', 1, 0.05), candidate('c', 10, 0), candidate('d', 11, 0.05)], options);
+    expect(ids(groups)).toEqual([['a', 'b'], ['c', 'd']]);
+  });
+
+  it('should not chain through near neighbours', () => {
+    // Each step is within maxDistance but the ends are not
+    const groups = groupMemories([candidate('a', 0, 0), candidate('b', 0.5, 0.2), candidate('c', 1, 0.4)], options);
+    expect(ids(groups)).toEqual([['a', 'b']]);
+  });
+
+  it('should drop groups below the minimum size', () => {
+    const groups = groupMemories([candidate('a', 0, 0), candidate('b', 1, 0.1)], { ...options, minGroupSize: 3 });
+    expect(groups).toEqual([]);
+  });
+});
+
+describe('summarizeMemories', () => {
+  it('should keep the sentences most shared across the group, in order', () => {
+    const summary = summarizeMemories([
+      logged('a', 'The deploy to production failed. Someone brought donuts.', 0),
+      logged('b', 'Production deploy failed again because of the migration', 1),
+      logged('c', 'Rolled back the production deploy after the migration failed.', 2)
+    ], 2);
+
+    expect(summary).toBe('Production deploy failed again because of the migration. Rolled back the production deploy after the migration failed.');
+    // Asides unrelated to the rest of the group are left out
+    const aside = summarizeMemories([
+      logged('a', 'The deploy failed. Someone brought donuts.', 0),
+      logged('b', 'Deploy failed on migration', 1),
+      logged('c', 'Deploy migration rolled back', 2)
+    ]);
+    expect(aside).toBe('The deploy failed. Deploy failed on migration. Deploy migration rolled back.');
+  });
+
+  it('should skip sentences that repeat an earlier one', () => {
+    const summary = summarizeMemories([
+      logged('a', 'User prefers dark mode.', 0),
+      logged('b', 'User prefers dark mode!', 1),
+      logged('c', 'User prefers a dark editor theme.', 2)
+    ]);
+    expect(summary).toBe('User prefers dark mode. User prefers a dark editor theme.');
+  });
+});
+
+describe('resolveConsolidationOptions', () => {
+  it('should layer options over the defaults and ignore unknown fields', () => {
+    const options = resolveConsolidationOptions({ threshold: 100, maxDistance: 2 } as any, { archive: true });
+    expect(options).toMatchObject({ maxDistance: 2, archive: true, types: ['episodic'], minGroupSize: 2 });
+    expect(options).not.toHaveProperty('threshold');
+  });
+
+  it('should reject options that cannot form groups', () => {
+    expect(() => resolveConsolidationOptions({ maxDistance: 0 })).toThrow('maxDistance');
+    expect(() => resolveConsolidationOptions({ minGroupSize: 1 })).toThrow('minGroupSize');
+    expect(() => resolveConsolidationOptions({ summarySentences: 0 })).toThrow('summarySentences');
+  });
+});
+
+describe('MemorySystemImpl.consolidate', () => {
+  // Memories about deploys embed together, everything else far away
+  const embedder: Embedder = {
+    dimension: 2,
+    curvature: -1,
+    embed: async text => /deploy/i.test(text) ? [0.1, 0] : [-0.5, 0.3]
+  };
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ embedder });
+    await system.initialize();
+    await system.store(logged('a', 'Started the deploy to production.', 0, { importance: 0.4, tags: ['ops'] }));
+    await system.store(logged('b', 'The deploy failed on the database migration.', 1, { importance: 0.9, tags: ['incident'] }));
+    await system.store(logged('c', 'Had lunch with the team.', 1.5));
+    await system.store({ ...logged('d', 'Deploy checklist', 2), type: 'procedural' });
+  });
+
+  it('should merge related episodic memories into a semantic memory with provenance', async () => {
+    const report = await system.consolidate();
+
+    expect(report.groups).toHaveLength(1);
+    const [group] = report.groups;
+    expect(group.sourceMemories).toEqual(['a', 'b']);
+    expect(group.memory.type).toBe('semantic');
+    expect(group.memory.content).toBe('Started the deploy to production. The deploy failed on the database migration.');
+    expect(group.memory.metadata).toMatchObject({
+      source: 'consolidation',
+      sourceMemories: ['a', 'b'],
+      importance: 0.9,
+      tags: ['ops', 'incident'],
+      timeRange: { start: new Date(start).toISOString(), end: new Date(start + HOUR).toISOString() }
+    });
+
+    // The consolidated memory is searchable and the sources are kept
+    expect((await system.retrieve({ content: 'migration', type: 'semantic' })).map(result => result.id)).toEqual([group.memory.id]);
+    expect(await system.getMemoryCount()).toBe(5);
+    expect(report.archived).toEqual([]);
+  });
+
+  it('should not consolidate the same sources twice', async () => {
+    await system.consolidate();
+    expect((await system.consolidate()).groups).toEqual([]);
+  });
+
+  it('should archive the sources when asked', async () => {
+    const report = await system.consolidate({ archive: true });
+    const id = report.groups[0].memory.id;
+
+    expect(report.archived).toEqual(['a', 'b']);
+    const sources = await system.retrieve({ metadata: { consolidatedInto: id } });
+    expect(sources.map(source => [source.id, source.metadata.archived])).toEqual([['b', true], ['a', true]]);
+  });
+});
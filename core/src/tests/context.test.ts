@@ -0,0 +1,109 @@
+/**
+ * Context Assembly Tests
+ *
+ * Token budget fitting and buildContext over identity, working memory,
+ * recalled memories and learning progress
+ */
+
+import { DEFAULT_CONFIG, PersistenceConfig } from '../index';
+import { AIPersistenceCoreImpl } from '../implementations/AIPersistenceCoreImpl';
+import { fitContext, validateContextRequest } from '../utils/context';
+
+// One token per word keeps the arithmetic readable
+const words = (text: string) => text.split(/\s+/).filter(Boolean).length;
+
+describe('fitContext', () => {
+  const candidates = {
+    identity: [{ id: 'me', text: 'Helpful assistant' }],
+    memories: [
+      { id: 'm1', text: 'User prefers TypeScript', score: 0.9 },
+      { id: 'm2', text: 'User deploys with GitHub Actions on weekdays', score: 0.8 },
+      { id: 'm3', text: 'User likes tea', score: 0.7 }
+    ]
+  };
+
+  it('should fill sections in priority order within the budget', () => {
+    // Headings cost 2 and 3 tokens, bullets 3, 4, 8 and 4
+    const context = fitContext(candidates, ['identity', 'memories'], 16, words);
+
+    expect(context.provenance).toEqual(['me', 'm1', 'm3']);
+    expect(context.tokens).toBe(16);
+    expect(context.sections[1]).toMatchObject({ name: 'memories', tokens: 11, omitted: ['m2'] });
+    expect(context.sections[1].items[0]).toEqual({ id: 'm1', text: 'User prefers TypeScript', tokens: 4, score: 0.9 });
+    expect(context.text).toBe('## Identity\n- Helpful assistant\n\n## Relevant memories\n- User prefers TypeScript\n- User likes tea');
+  });
+
+  it('should let section order decide who gets the budget', () => {
+    const context = fitContext(candidates, ['memories', 'identity'], 11, words);
+    expect(context.provenance).toEqual(['m1', 'm3']);
+    expect(context.sections.map(section => [section.name, section.omitted])).toEqual([['memories', ['m2']], ['identity', ['me']]]);
+    // Sections with nothing included are not rendered
+    expect(context.text).not.toContain('Identity');
+  });
+
+  it('should reject invalid requests', () => {
+    expect(() => validateContextRequest({ tokenBudget: 0 })).toThrow('tokenBudget');
+    expect(() => validateContextRequest({ sections: ['identity', 'gossip' as any] })).toThrow('unknown section gossip');
+    expect(() => validateContextRequest({ learningLimit: -1 })).toThrow('learningLimit');
+    expect(() => validateContextRequest({ recall: { limit: 0.5 } })).toThrow('limit');
+  });
+});
+
+describe('AIPersistenceCoreImpl.buildContext', () => {
+  let core: AIPersistenceCoreImpl;
+
+  beforeEach(async () => {
+    const config: PersistenceConfig = {
+      ...DEFAULT_CONFIG,
+      memory: { ...DEFAULT_CONFIG.memory, storage: { type: 'memory', path: '', maxSize: 1000000 }, working: { capacity: 2 } }
+    };
+    core = new AIPersistenceCoreImpl(config);
+    await core.initialize();
+  });
+
+  afterEach(async () => {
+    await core.shutdown();
+  });
+
+  it('should assemble identity, working memory, recalled memories and learning with provenance', async () => {
+    const identity = await core.createIdentity({ name: 'Ada', type: 'ai', capabilities: ['coding'], preferences: { tone: 'concise' } } as any);
+    await core.storeMemory({ type: 'semantic', content: 'The user prefers TypeScript for backend services', metadata: { importance: 0.8 } });
+    await core.addToWorkingMemory({ id: 'w1', content: 'Currently refactoring the TypeScript build', priority: 0.9, timestamp: new Date(), duration: 0 });
+    await core.learnConcept({ concept: 'Hyperbolic embeddings', data: {}, context: {}, performance: 0.75 });
+
+    const context = await core.buildContext({ identityId: identity.id, query: 'typescript' });
+
+    expect(context.sections.map(section => section.name)).toEqual(['identity', 'working', 'memories', 'learning']);
+    expect(context.sections[0].items[0].text).toContain('capabilities: coding; preferences: tone=concise');
+    expect(context.sections[1].items.map(item => item.id)).toEqual(['w1']);
+    expect(context.sections[2].items[0].text).toBe('The user prefers TypeScript for backend services');
+    expect(context.sections[3].items[0].text).toBe('Hyperbolic embeddings (performance 0.75)');
+    expect(context.provenance[0]).toBe(identity.id);
+    expect(context.tokens).toBeLessThanOrEqual(context.tokenBudget);
+  });
+
+  it('should honour the requested sections, budget and estimator', async () => {
+    await core.storeMemory({ type: 'semantic', content: 'First fact about the project', metadata: {} });
+    await core.storeMemory({ type: 'semantic', content: 'Second fact about the project', metadata: {} });
+
+    // Heading 3 tokens, each bullet 6
+    const context = await core.buildContext({ sections: ['memories'], tokenBudget: 12, estimateTokens: words });
+    expect(context.sections).toHaveLength(1);
+    expect(context.sections[0].items).toHaveLength(1);
+    expect(context.sections[0].omitted).toHaveLength(1);
+    expect(context.tokens).toBe(9);
+  });
+
+  it('should persist working memory items that spill into episodic memory', async () => {
+    for (const id of ['a', 'b', 'c']) {
+      await core.addToWorkingMemory({ id, content: `Working note ${id}`, priority: 0.5, timestamp: new Date(), duration: 0 });
+    }
+    const spilled = await core.retrieveMemory({ type: 'episodic' });
+    expect(spilled.map(memory => memory.metadata.source)).toEqual(['working-memory']);
+  });
+
+  it('should reject unknown identities and invalid options', async () => {
+    await expect(core.buildContext({ identityId: 'missing' })).rejects.toThrow('Identity with id missing not found');
+    await expect(core.buildContext({ tokenBudget: 1.5 })).rejects.toThrow('tokenBudget');
+  });
+});
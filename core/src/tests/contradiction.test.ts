@@ -0,0 +1,151 @@
+/**
+ * Contradiction Detection Tests
+ *
+ * Conflicting concept properties, conflict meta-memories, and finding and
+ * resolving contradictions in MemorySystemImpl
+ */
+
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { conflictMatches, conflictOf, conflictRecord, propertyConflicts, resolutionWinner, validateConflictQuery } from '../utils/contradiction';
+import { memory } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+
+const fact = (id: string, properties: Record<string, any>, age: number = 0, metadata: Record<string, any> = {}) =>
+  memory(id, `Mercury facts ${id}`, { type: 'semantic', metadata: { concept: 'Mercury', properties, ...metadata }, timestamp: new Date(Date.now() - age) });
+
+describe('propertyConflicts', () => {
+  it('should flag properties of the same concept with different values', () => {
+    const moons = fact('a', { moons: 0, colour: 'Grey', orbit: 88 });
+    expect(propertyConflicts(moons, fact('b', { moons: 1, colour: ' grey', mass: 3.3 }))).toEqual([{ concept: 'Mercury', property: 'moons', values: [0, 1] }]);
+  });
+
+  it('should ignore other concepts and memories that are not facts', () => {
+    const moons = fact('a', { moons: 0 });
+    expect(propertyConflicts(moons, { ...fact('b', { moons: 2 }), metadata: { concept: 'Mars', properties: { moons: 2 } } })).toEqual([]);
+    expect(propertyConflicts(moons, { ...fact('b', { moons: 2 }), type: 'episodic' })).toEqual([]);
+    expect(propertyConflicts(moons, { ...fact('b', {}), metadata: { concept: 'mercury' } })).toEqual([]);
+  });
+});
+
+describe('conflictRecord', () => {
+  it('should record the older memory first as a meta-memory', () => {
+    const record = conflictRecord('property', fact('new', { moons: 1 }), fact('old', { moons: 0 }, DAY), { concept: 'Mercury', property: 'moons', values: [1, 0] });
+
+    expect(record.type).toBe('meta');
+    const conflict = conflictOf(record)!;
+    expect(conflict).toMatchObject({ id: record.id, kind: 'property', memories: ['old', 'new'], values: [0, 1] });
+    expect(conflict.description).toContain('Mercury moons: 0 vs 1');
+    expect(conflictOf(fact('a', {}))).toBeNull();
+    expect(conflictMatches(conflict)).toBe(true);
+    expect(conflictMatches(conflict, { status: 'resolved' })).toBe(false);
+    expect(conflictMatches(conflict, { status: 'all', memoryId: 'other' })).toBe(false);
+  });
+});
+
+describe('resolutionWinner', () => {
+  it('should keep the newer or the more confident memory', () => {
+    const old = fact('old', {}, DAY, { confidence: 0.9 });
+    const recent = fact('recent', {}, 0, { confidence: 0.6 });
+    expect(resolutionWinner('keep-newer', recent, old)!.id).toBe('recent');
+    expect(resolutionWinner('keep-confident', recent, old)!.id).toBe('old');
+    expect(resolutionWinner('keep-confident', old, fact('unrated', {}))!.id).toBe('old');
+    // Ties go to the newer memory; missing confidence counts as 0.5
+    expect(resolutionWinner('keep-confident', fact('a', {}, DAY, { confidence: 0.5 }), fact('b', {}))!.id).toBe('b');
+    expect(resolutionWinner('keep-both', recent, old)).toBeNull();
+  });
+});
+
+describe('validateConflictQuery', () => {
+  it('should reject unknown statuses', () => {
+    expect(() => validateConflictQuery({ status: 'all' })).not.toThrow();
+    expect(() => validateConflictQuery({ status: 'closed' as any })).toThrow('unknown status closed');
+  });
+});
+
+describe('MemorySystemImpl contradictions', () => {
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ dedup: { mode: 'merge' } });
+    await system.initialize();
+    await system.store(fact('old', { moons: 0, orbit: 88 }, DAY, { confidence: 0.9 }));
+  });
+
+  it('should record conflicting facts on store instead of merging them', async () => {
+    const result = await system.store({ ...fact('new', { moons: 1 }, 0, { confidence: 0.4 }), content: 'Mercury facts old' });
+
+    expect(result.action).toBe('stored');
+    expect(result.conflicts!.map(conflict => [conflict.property, conflict.memories])).toEqual([['moons', ['old', 'new']]]);
+    expect(await system.getConflicts()).toEqual(result.conflicts);
+    expect((await system.takeConflictRecords()).map(record => record.id)).toEqual([result.conflicts![0].id]);
+    expect(await system.takeConflictRecords()).toEqual([]);
+
+    // Agreeing facts are still merged
+    expect((await system.store({ ...fact('same', { orbit: 88 }), content: 'Mercury facts old' })).action).toBe('merged');
+  });
+
+  it('should record a contradicts link once', async () => {
+    await system.store({ id: 'claim', type: 'episodic', content: 'Heard that Mercury has a moon', metadata: {}, timestamp: new Date() });
+    const link = await system.link('claim', 'contradicts', 'old');
+    await system.link('claim', 'contradicts', 'old', { confidence: 0.5 });
+    await system.link('claim', 'elaborates', 'old');
+
+    const conflicts = await system.getConflicts({ memoryId: 'claim' });
+    expect(conflicts.map(conflict => [conflict.kind, conflict.linkId])).toEqual([['relationship', link.id]]);
+  });
+
+  it('should resolve conflicts by keeping the newer, the more confident or both memories', async () => {
+    await system.store(fact('new', { moons: 1 }, 0, { confidence: 0.4 }));
+    await system.store(fact('newest', { orbit: 87 }));
+    const [moons, orbit] = await system.getConflicts();
+
+    const confident = await system.resolveConflict(moons.id, 'keep-confident');
+    expect(confident).toMatchObject({ forgotten: ['new'], conflict: { resolution: { action: 'keep-confident', kept: ['old'], forgotten: ['new'] } } });
+    expect(await system.getMemoryCount()).toBe(2);
+    await expect(system.resolveConflict(moons.id, 'keep-newer')).rejects.toThrow('already resolved');
+
+    const both = await system.resolveConflict(orbit.id, 'keep-both', 'Orbit rounded differently');
+    expect(both.kept.map(memory => memory.metadata.conflictNotes)).toEqual([['Orbit rounded differently'], ['Orbit rounded differently']]);
+    expect(await system.getConflicts()).toEqual([]);
+    expect((await system.getConflicts({ status: 'resolved' })).map(conflict => conflict.id)).toEqual([moons.id, orbit.id]);
+    expect((await system.takeConflictRecords()).length).toBe(4);
+  });
+
+  it('should leave a conflict open when the memory to forget is pinned', async () => {
+    await system.store(fact('new', { moons: 1 }));
+    await system.pin('old');
+    const [conflict] = await system.getConflicts();
+
+    await expect(system.resolveConflict(conflict.id, 'keep-newer')).rejects.toThrow('is pinned');
+    await expect(system.resolveConflict(conflict.id, 'discard' as any)).rejects.toThrow('Unknown conflict resolution discard');
+    await expect(system.resolveConflict('old', 'keep-both')).rejects.toThrow('Conflict old not found');
+    expect(await system.getConflicts()).toHaveLength(1);
+  });
+
+  it('should keep open conflicts out of sweeps, compression, recall and listings', async () => {
+    await system.store(fact('new', { moons: 1 }));
+    const [conflict] = await system.getConflicts();
+    // Another meta-memory, which lossy compression would otherwise summarize with the conflict record
+    await system.store({ id: 'note', type: 'meta', content: 'Check the Mercury moon count', metadata: {}, timestamp: new Date(Date.now() - DAY) });
+
+    const compressed = await system.compress({ lossy: true, olderThan: 0, maxDistance: 100, minGroupSize: 2, threshold: 1 });
+    expect(compressed.forgotten).not.toContain(conflict.id);
+    expect(compressed.compressed.map(record => record.id)).not.toContain(conflict.id);
+    expect((await system.recall(conflict.description)).map(result => result.memory.id)).not.toContain(conflict.id);
+    expect((await system.query({ type: 'meta' })).memories.map(memory => memory.id)).toEqual(['note']);
+    expect(await system.getMemoryStats()).toMatchObject({ total: 2, byType: { meta: 1 } });
+
+    const swept = await system.sweep(new Date(Date.now() + 3650 * DAY));
+    expect(swept.forgotten).toContain('note');
+    expect(swept.forgotten).not.toContain(conflict.id);
+    expect(await system.getConflicts()).toEqual([conflict]);
+  });
+
+  it('should refuse to store a memory posing as a conflict record', async () => {
+    const forged = conflictRecord('property', fact('a', { moons: 0 }), fact('b', { moons: 1 }), { concept: 'Mercury', property: 'moons', values: [0, 1] });
+
+    await expect(system.store(forged)).rejects.toThrow('cannot be stored');
+    expect(await system.getConflicts({ status: 'all' })).toEqual([]);
+  });
+});
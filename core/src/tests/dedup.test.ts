@@ -0,0 +1,147 @@
+/**
+ * Duplicate Detection Tests
+ *
+ * Content hashes, MinHash similarity estimates, the duplicate index, and
+ * rejecting, merging and linking duplicates in MemorySystemImpl
+ */
+
+import { DuplicateIndex } from '../implementations/DuplicateIndex';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { contentHash, mergeDuplicate, minHashSignature, resolveDedupOptions, signatureSimilarity } from '../utils/dedup';
+import { memory } from './fixtures';
+
+const report = 'The nightly backup of the billing database finished at 02:14 and the report was mailed to the operations team';
+const reworded = 'The nightly backup of the billing database finished at 02:17 and the report was mailed to the operations team';
+const unrelated = 'Lunch with the design team moved to Thursday because the usual place is closed for renovation';
+
+describe('contentHash', () => {
+  it('should ignore case and whitespace only', () => {
+    expect(contentHash('  Backup   finished\n')).toBe(contentHash('backup finished'));
+    expect(contentHash('Backup finished.')).not.toBe(contentHash('Backup finished'));
+  });
+});
+
+describe('minHashSignature', () => {
+  it('should estimate the Jaccard similarity of word shingles', () => {
+    // One changed word changes three of the 18 shingles: Jaccard 15 / 21
+    const estimate = signatureSimilarity(minHashSignature(report)!, minHashSignature(reworded)!);
+    expect(estimate).toBeGreaterThan(0.55);
+    expect(estimate).toBeLessThan(0.9);
+    expect(signatureSimilarity(minHashSignature(report)!, minHashSignature(unrelated)!)).toBeLessThan(0.1);
+    expect(minHashSignature(report)).toEqual(minHashSignature(report.toUpperCase()));
+  });
+
+  it('should treat short content as a single shingle and skip content without words', () => {
+    expect(signatureSimilarity(minHashSignature('backup ok')!, minHashSignature('Backup OK!')!)).toBe(1);
+    expect(minHashSignature(' ... ')).toBeNull();
+  });
+});
+
+describe('DuplicateIndex', () => {
+  it('should find exact duplicates first, then near-duplicates above the threshold', () => {
+    const index = new DuplicateIndex();
+    index.add('near', reworded);
+    index.add('exact', report);
+    index.add('other', unrelated);
+
+    expect(index.find(report.toLowerCase(), 0.5).map(match => [match.id, match.exact])).toEqual([['exact', true], ['near', false]]);
+    expect(index.find(report, 1).map(match => match.id)).toEqual(['exact']);
+  });
+
+  it('should forget removed and replaced content', () => {
+    const index = new DuplicateIndex();
+    index.add('a', report);
+    index.add('a', unrelated);
+    expect(index.find(report, 0.5)).toEqual([]);
+    index.remove('a');
+    expect(index.find(unrelated, 0.5)).toEqual([]);
+    expect(index.has('a')).toBe(false);
+  });
+});
+
+describe('mergeDuplicate', () => {
+  it('should keep existing metadata, unite tags and boost importance', () => {
+    const existing = memory('a', report, { metadata: { source: 'cron', tags: ['backup'], importance: 0.4 } });
+    const merged = mergeDuplicate(existing, memory('b', report, { metadata: { source: 'user', tags: ['billing'], channel: 'ops' } }), 0.1);
+
+    expect(merged.id).toBe('a');
+    expect(merged.metadata).toMatchObject({ source: 'cron', channel: 'ops', tags: ['backup', 'billing'], occurrences: 2 });
+    // The duplicate has the default importance of 0.5
+    expect(merged.metadata.importance).toBeCloseTo(0.6);
+    expect(mergeDuplicate(merged, memory('c', report, { metadata: { importance: 0.95 } }), 0.1).metadata).toMatchObject({ importance: 1, occurrences: 3 });
+  });
+});
+
+describe('resolveDedupOptions', () => {
+  it('should reject options that cannot detect duplicates', () => {
+    expect(resolveDedupOptions({ mode: 'link' }, { similarity: 0.9 })).toEqual({ mode: 'link', similarity: 0.9, sameType: true, importanceBoost: 0.1 });
+    expect(() => resolveDedupOptions({ mode: 'drop' as any })).toThrow('unknown mode drop');
+    expect(() => resolveDedupOptions({ similarity: 0 })).toThrow('similarity');
+    expect(() => resolveDedupOptions({ importanceBoost: 2 })).toThrow('importanceBoost');
+  });
+});
+
+describe('MemorySystemImpl duplicate handling', () => {
+  const system = async (dedup: Record<string, any>) => {
+    const memories = new MemorySystemImpl({ dedup });
+    await memories.initialize();
+    await memories.store(memory('original', report, { metadata: { importance: 0.5 } }));
+    return memories;
+  };
+
+  it('should store duplicates when off', async () => {
+    const memories = await system({ mode: 'off' });
+    expect((await memories.store(memory('copy', report))).action).toBe('stored');
+    expect(await memories.getMemoryCount()).toBe(2);
+    expect((await memories.getMemoryStats()).dedup.checked).toBe(0);
+  });
+
+  it('should reject exact and near duplicates', async () => {
+    const memories = await system({ mode: 'reject', similarity: 0.5 });
+
+    const exact = await memories.store(memory('copy', report));
+    expect(exact).toMatchObject({ action: 'rejected', similarity: 1 });
+    expect(exact.duplicateOf!.id).toBe('original');
+    expect((await memories.store(memory('near', reworded))).action).toBe('rejected');
+    expect((await memories.store(memory('other', unrelated))).action).toBe('stored');
+    // Duplicates are only looked for among memories of the same type
+    expect((await memories.store(memory('fact', report, { type: 'semantic' }))).action).toBe('stored');
+
+    expect(await memories.getMemoryCount()).toBe(3);
+    expect((await memories.getMemoryStats()).dedup).toEqual({ checked: 5, exact: 1, near: 1, rejected: 2, merged: 0, linked: 0 });
+  });
+
+  it('should merge duplicates into the stored memory', async () => {
+    const memories = await system({ mode: 'merge' });
+    const before = (await memories.getStrength('original'))!.reinforcements;
+
+    const result = await memories.store(memory('copy', report, { metadata: { tags: ['ops'] } }));
+    expect(result.action).toBe('merged');
+    expect(result.duplicateOf!.metadata).toMatchObject({ importance: 0.6, occurrences: 2, tags: ['ops'] });
+    expect(await memories.getMemoryCount()).toBe(1);
+    expect((await memories.getStrength('original'))!.reinforcements).toBe(before + 1);
+    expect((await memories.getMemoryStats()).dedup).toMatchObject({ exact: 1, merged: 1 });
+  });
+
+  it('should link duplicates as occurrences of the stored memory', async () => {
+    const memories = await system({ mode: 'link' });
+
+    const first = await memories.store(memory('copy', report));
+    const second = await memories.store(memory('again', report));
+    expect(first.memory.metadata.occurrenceOf).toBe('original');
+    // Occurrences are not matched themselves, so every one links to the original
+    expect(second.duplicateOf!.id).toBe('original');
+    expect(second.duplicateOf!.metadata.occurrences).toBe(3);
+    expect(await memories.getMemoryCount()).toBe(3);
+    expect((await memories.getMemoryStats()).dedup).toMatchObject({ exact: 2, linked: 2 });
+  });
+
+  it('should not match archived or forgotten memories', async () => {
+    const memories = await system({ mode: 'reject' });
+    await memories.store(memory('old', unrelated, { metadata: { archived: true } }));
+
+    expect((await memories.store(memory('copy', unrelated))).action).toBe('stored');
+    await memories.forget('original');
+    expect((await memories.store(memory('again', report))).action).toBe('stored');
+  });
+});
@@ -0,0 +1,104 @@
+/**
+ * Embedder Tests
+ *
+ * Deterministic, content-based hyperbolic embeddings
+ */
+
+import { HashingEmbedder } from '../implementations/HashingEmbedder';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { Embedder } from '../interfaces/Embedder';
+import { distanceFromOrigin, norm, poincareDistance } from '../utils/hyperbolic';
+import { memory } from './fixtures';
+
+describe('HashingEmbedder', () => {
+  const embedder = new HashingEmbedder();
+
+  it('should yield the same embedding for the same content across instances', async () => {
+    const text = 'The user prefers concise answers about TypeScript generics';
+    const random = jest.spyOn(Math, 'random');
+
+    const first = await embedder.embed(text);
+    const second = await new HashingEmbedder().embed(text);
+
+    expect(second).toEqual(first);
+    expect(random).not.toHaveBeenCalled();
+    random.mockRestore();
+  });
+
+  it('should place embeddings strictly inside the ball', async () => {
+    const long = Array.from({ length: 500 }, (_, i) => `term${i}`).join(' ');
+    for (const curvature of [-1, -2]) {
+      const vector = await new HashingEmbedder({ curvature }).embed(long);
+      expect(norm(vector)).toBeLessThan(1 / Math.sqrt(-curvature));
+    }
+  });
+
+  it('should use the configured dimension', async () => {
+    const vector = await new HashingEmbedder({ dimension: 16 }).embed('hello world');
+    expect(vector).toHaveLength(16);
+  });
+
+  it('should map empty content to the origin', async () => {
+    expect(norm(await embedder.embed(''))).toBe(0);
+    expect(norm(await embedder.embed('  ...  '))).toBe(0);
+  });
+
+  it('should place related content closer than unrelated content', async () => {
+    const anchor = await embedder.embed('machine learning model training with gradient descent');
+    const related = await embedder.embed('training a machine learning model using gradient descent');
+    const unrelated = await embedder.embed('grocery list: eggs, milk, bread and coffee beans');
+
+    expect(poincareDistance(anchor, related)).toBeLessThan(poincareDistance(anchor, unrelated));
+  });
+
+  it('should be insensitive to case and punctuation', async () => {
+    expect(await embedder.embed('Hello, World!')).toEqual(await embedder.embed('hello world'));
+  });
+
+  it('should place more specific content deeper in the ball', async () => {
+    const generic = await embedder.embed('animals');
+    const specific = await embedder.embed('the arctic fox changes its coat from brown in summer to white in winter for camouflage');
+
+    expect(distanceFromOrigin(specific)).toBeGreaterThan(distanceFromOrigin(generic));
+  });
+
+  it('should reject invalid dimensions', () => {
+    expect(() => new HashingEmbedder({ dimension: 0 })).toThrow('Embedding dimension must be a positive integer');
+  });
+});
+
+describe('MemorySystemImpl embeddings', () => {
+  it('should return neighbors ordered by hyperbolic distance', async () => {
+    const system = new MemorySystemImpl({});
+    await system.initialize();
+    await system.store(memory('a', 'cats are small domesticated carnivorous mammals'));
+    await system.store(memory('b', 'quarterly revenue report for the finance team'));
+    await system.store(memory('c', 'domesticated cats are small carnivorous mammals kept as pets'));
+
+    const neighbors = await system.getHyperbolicNeighbors('a', 2);
+    expect(neighbors.map(m => m.id)).toEqual(['c', 'b']);
+  });
+
+  it('should recompute identical embeddings after a restore', async () => {
+    const memories = [memory('a', 'cats are small domesticated carnivorous mammals')];
+    const first = new MemorySystemImpl({});
+    await first.setMemories(memories);
+    const second = new MemorySystemImpl({});
+    await second.setMemories(memories);
+
+    expect(await second.getEmbedding('a')).toEqual(await first.getEmbedding('a'));
+  });
+
+  it('should use a custom embedder when configured', async () => {
+    const embedder: Embedder = {
+      dimension: 2,
+      curvature: -1,
+      embed: async text => [text.length / 100, 0]
+    };
+    const system = new MemorySystemImpl({ embedder });
+    await system.initialize();
+    await system.store(memory('a', 'four'));
+
+    expect(await system.getEmbedding('a')).toEqual([0.04, 0]);
+  });
+});
@@ -0,0 +1,14 @@
+/**
+ * Test Fixtures
+ *
+ * Memories shared by the memory system tests
+ */
+
+import { Memory } from '../interfaces/AIPersistenceCore';
+
+/**
+ * An episodic memory without metadata stored now, unless the overrides say otherwise
+ */
+export function memory(id: string, content: string, overrides: Partial<Omit<Memory, 'id' | 'content'>> = {}): Memory {
+  return { id, type: 'episodic', content, metadata: {}, timestamp: new Date(), ...overrides };
+}
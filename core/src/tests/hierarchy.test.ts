@@ -0,0 +1,115 @@
+/**
+ * Hierarchy Tests
+ *
+ * Trees derived from embedding depth with nearest-ancestor parents, and
+ * browsing them through MemorySystemImpl
+ */
+
+import { Embedder } from '../interfaces/Embedder';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { buildHierarchy, resolveHierarchyOptions } from '../utils/hierarchy';
+import { poincareDistance } from '../utils/hyperbolic';
+import { memory } from './fixtures';
+
+// A general topic near the origin and two branches reaching towards the boundary
+const vectors: Record<string, number[]> = {
+  work: [0.05, 0],
+  deploys: [0.4, 0.1],
+  'failed deploy': [0.7, 0.2],
+  'rolled back deploy': [0.75, 0.12],
+  meals: [-0.3, 0.1],
+  'lunch with the team': [-0.7, 0.15]
+};
+
+const points = Object.entries(vectors).map(([id, vector]) => ({ id, vector }));
+const parents = (relationships: Array<{ parent: string; child: string }>) =>
+  Object.fromEntries(relationships.map(relationship => [relationship.child, relationship.parent]));
+
+describe('buildHierarchy', () => {
+  it('should root the tree at the most general point and attach the rest to their nearest ancestor', () => {
+    const hierarchy = buildHierarchy(points);
+
+    expect(hierarchy.root).toBe('work');
+    expect(parents(hierarchy.relationships)).toEqual({
+      deploys: 'work',
+      meals: 'work',
+      'failed deploy': 'deploys',
+      'rolled back deploy': 'deploys',
+      'lunch with the team': 'meals'
+    });
+    expect(hierarchy.levels.map(level => level.nodes)).toEqual([
+      ['work'],
+      ['meals', 'deploys'],
+      ['lunch with the team', 'failed deploy', 'rolled back deploy']
+    ]);
+    expect(hierarchy.properties).toMatchObject({ depth: 3, breadth: 3, connectivity: 5 / 6 });
+    const [first] = hierarchy.relationships;
+    expect(first.strength).toBeCloseTo(1 / (1 + poincareDistance(vectors[first.parent], vectors[first.child])));
+  });
+
+  it('should only take parents far enough nearer the origin', () => {
+    // The rolled back deploy is nearest the failed one, but not deeper than it by the default gap
+    expect(parents(buildHierarchy(points).relationships)['rolled back deploy']).toBe('deploys');
+    expect(parents(buildHierarchy(points, 0).relationships)['rolled back deploy']).toBe('failed deploy');
+  });
+
+  it('should describe an empty hierarchy', () => {
+    expect(buildHierarchy([])).toEqual({
+      root: '',
+      levels: [],
+      relationships: [],
+      properties: { depth: 0, breadth: 0, balance: 0, connectivity: 0 }
+    });
+  });
+
+  it('should reject options that cannot build a hierarchy', () => {
+    expect(resolveHierarchyOptions({ minDepthGap: 0.5 }, { types: ['semantic'] })).toEqual({ minDepthGap: 0.5, types: ['semantic'] });
+    expect(() => resolveHierarchyOptions({ minDepthGap: -1 })).toThrow('minDepthGap');
+    expect(() => resolveHierarchyOptions({ types: 'semantic' as any })).toThrow('types');
+  });
+});
+
+describe('MemorySystemImpl.hierarchy', () => {
+  const embedder: Embedder = {
+    dimension: 2,
+    curvature: -1,
+    embed: async text => vectors[text]
+  };
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ embedder });
+    await system.initialize();
+    for (const content of Object.keys(vectors)) {
+      await system.store(memory(content, content, { type: 'semantic', metadata: content === 'meals' ? { archived: true } : {} }));
+    }
+  });
+
+  it('should return the tree of unarchived memories', async () => {
+    const { hierarchy, tree } = await system.hierarchy();
+
+    expect(hierarchy.relationships).toHaveLength(4);
+    expect(tree!.memory.id).toBe('work');
+    expect(tree!.distance).toBe(0);
+    expect(tree!.children.map(child => child.memory.id)).toEqual(['deploys', 'lunch with the team']);
+    const deploys = tree!.children[0];
+    expect(deploys.depth).toBeGreaterThan(tree!.depth);
+    expect(deploys.distance).toBeCloseTo(poincareDistance(vectors.work, vectors.deploys));
+    expect(deploys.children.map(child => child.memory.id)).toEqual(['failed deploy', 'rolled back deploy']);
+  });
+
+  it('should browse subtrees to a limited number of levels', async () => {
+    const { tree } = await system.hierarchy({ maxLevels: 1 });
+    expect(tree!.children.map(child => [child.memory.id, child.children.length, child.hidden])).toEqual([
+      ['deploys', 0, 2],
+      ['lunch with the team', 0, 0]
+    ]);
+
+    const subtree = (await system.hierarchy({ root: 'deploys' })).tree!;
+    expect(subtree.memory.id).toBe('deploys');
+    expect(subtree.distance).toBe(0);
+    expect(subtree.children).toHaveLength(2);
+    expect((await system.hierarchy({ root: 'meals' })).tree).toBeNull();
+    await expect(system.hierarchy({ maxLevels: -1 })).rejects.toThrow('maxLevels');
+  });
+});
@@ -0,0 +1,138 @@
+/**
+ * HNSW Index Tests
+ *
+ * Approximate nearest-neighbour search under hyperbolic distance, checked
+ * against brute force
+ */
+
+import { HnswIndex, Neighbor } from '../implementations/HnswIndex';
+import { expMap0, poincareDistance } from '../utils/hyperbolic';
+
+function seededRandom(seed: number): () => number {
+  return () => {
+    seed = (Math.imul(seed, 1664525) + 1013904223) >>> 0;
+    return seed / 4294967296;
+  };
+}
+
+function randomPoints(count: number, dimension: number, seed: number): number[][] {
+  const random = seededRandom(seed);
+  return Array.from({ length: count }, () => {
+    const direction = Array.from({ length: dimension }, () => random() * 2 - 1);
+    const length = Math.sqrt(direction.reduce((sum, value) => sum + value * value, 0));
+    // Up to hyperbolic distance 4 from the origin, like the default embedder
+    const radius = random() * 2;
+    return expMap0(direction.map(value => value / length * radius));
+  });
+}
+
+function bruteForce(points: Map<string, number[]>, query: number[]): Neighbor[] {
+  return Array.from(points, ([id, vector]) => ({ id, distance: poincareDistance(query, vector) }))
+    .sort((a, b) => a.distance - b.distance);
+}
+
+function recall(actual: Neighbor[], expected: Neighbor[]): number {
+  const expectedIds = new Set(expected.map(neighbor => neighbor.id));
+  return actual.filter(neighbor => expectedIds.has(neighbor.id)).length / expected.length;
+}
+
+describe('HnswIndex', () => {
+  const dimension = 16;
+  const points = new Map(randomPoints(2000, dimension, 42).map((vector, i) => [`p${i}`, vector]));
+  const queries = randomPoints(50, dimension, 7);
+
+  let index: HnswIndex;
+
+  beforeAll(() => {
+    index = new HnswIndex();
+    for (const [id, vector] of points) {
+      index.add(id, vector);
+    }
+  });
+
+  it('should return nothing from an empty index', () => {
+    const empty = new HnswIndex();
+    expect(empty.search(queries[0], 5)).toEqual([]);
+    expect(empty.searchRadius(queries[0], 10)).toEqual([]);
+  });
+
+  it('should find top-k neighbours with high recall', () => {
+    let total = 0;
+    for (const query of queries) {
+      const results = index.search(query, 10);
+      expect(results).toHaveLength(10);
+      for (let i = 1; i < results.length; i++) {
+        expect(results[i].distance).toBeGreaterThanOrEqual(results[i - 1].distance);
+      }
+      total += recall(results, bruteForce(points, query).slice(0, 10));
+    }
+    expect(total / queries.length).toBeGreaterThan(0.95);
+  });
+
+  it('should return the stored point itself as its nearest neighbour', () => {
+    const [id, vector] = Array.from(points)[123];
+    expect(index.search(vector, 1)[0]).toEqual({ id, distance: 0 });
+  });
+
+  it('should answer radius queries', () => {
+    let total = 0;
+    for (const query of queries) {
+      const expected = bruteForce(points, query);
+      const radius = expected[30].distance;
+      const results = index.searchRadius(query, radius);
+
+      expect(results.every(result => result.distance <= radius)).toBe(true);
+      total += recall(results, expected.filter(neighbor => neighbor.distance <= radius));
+    }
+    expect(total / queries.length).toBeGreaterThan(0.95);
+  });
+
+  it('should cap radius queries at the limit', () => {
+    expect(index.searchRadius(queries[0], Infinity, 5)).toHaveLength(5);
+  });
+
+  it('should stay accurate while points are removed and re-added', () => {
+    const remaining = new Map(points);
+    const mutable = new HnswIndex({ seed: 1 });
+    for (const [id, vector] of points) {
+      mutable.add(id, vector);
+    }
+
+    // Remove every other point, including whichever node is the entry point
+    let i = 0;
+    for (const id of points.keys()) {
+      if (i++ % 2 === 0) {
+        expect(mutable.remove(id)).toBe(true);
+        remaining.delete(id);
+      }
+    }
+    expect(mutable.remove('p0')).toBe(false);
+    expect(mutable.size).toBe(remaining.size);
+
+    let total = 0;
+    for (const query of queries) {
+      const results = mutable.search(query, 10);
+      expect(results.every(result => remaining.has(result.id))).toBe(true);
+      total += recall(results, bruteForce(remaining, query).slice(0, 10));
+    }
+    expect(total / queries.length).toBeGreaterThan(0.9);
+
+    // Re-adding an id replaces its vector
+    mutable.add('p1', queries[0]);
+    expect(mutable.search(queries[0], 1)[0]).toEqual({ id: 'p1', distance: 0 });
+    expect(mutable.size).toBe(remaining.size);
+  });
+
+  it('should empty out completely', () => {
+    const small = new HnswIndex();
+    const ids = Array.from(points.keys()).slice(0, 50);
+    ids.forEach(id => small.add(id, points.get(id)!));
+    ids.forEach(id => small.remove(id));
+
+    expect(small.size).toBe(0);
+    expect(small.search(queries[0], 3)).toEqual([]);
+
+    small.add('again', queries[1]);
+    expect(small.search(queries[0], 3).map(result => result.id)).toEqual(['again']);
+  });
+});
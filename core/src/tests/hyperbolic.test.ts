@@ -0,0 +1,199 @@
+/**
+ * Hyperbolic Geometry Tests
+ *
+ * Poincaré-ball and Lorentz model operations, including behaviour near the boundary
+ */
+
+import {
+  distanceFromOrigin,
+  expMap,
+  expMap0,
+  fromLorentz,
+  logMap,
+  logMap0,
+  lorentzDistance,
+  lorentzInner,
+  mobiusAdd,
+  mobiusScale,
+  norm,
+  poincareDistance,
+  project,
+  toLorentz
+} from '../utils/hyperbolic';
+
+function expectVectorClose(actual: number[], expected: number[], digits: number = 9): void {
+  expect(actual).toHaveLength(expected.length);
+  actual.forEach((value, i) => expect(value).toBeCloseTo(expected[i], digits));
+}
+
+describe('Hyperbolic Geometry', () => {
+  const x = [0.1, -0.3, 0.2];
+  const y = [-0.4, 0.1, 0.5];
+  const origin = [0, 0, 0];
+
+  describe('Poincaré distance', () => {
+    it('should be zero for identical points and symmetric', () => {
+      expect(poincareDistance(x, x)).toBe(0);
+      expect(poincareDistance(x, y)).toBeCloseTo(poincareDistance(y, x), 12);
+    });
+
+    it('should match the closed form from the origin', () => {
+      expect(poincareDistance(origin, x)).toBeCloseTo(2 * Math.atanh(norm(x)), 12);
+      expect(distanceFromOrigin(x)).toBeCloseTo(poincareDistance(origin, x), 12);
+    });
+
+    it('should differ from Euclidean distance', () => {
+      const euclidean = norm(x.map((value, i) => value - y[i]));
+      expect(poincareDistance(x, y)).toBeGreaterThan(euclidean);
+    });
+
+    it('should satisfy the triangle inequality', () => {
+      const z = [0.3, 0.3, -0.6];
+      expect(poincareDistance(x, z)).toBeLessThanOrEqual(poincareDistance(x, y) + poincareDistance(y, z) + 1e-12);
+    });
+
+    it('should respect curvature', () => {
+      // d_c(u, v) = d_1(sqrt(c) u, sqrt(c) v) / sqrt(c)
+      const curvature = -4;
+      const scaledX = x.map(value => value / 2);
+      const scaledY = y.map(value => value / 2);
+      expect(poincareDistance(scaledX, scaledY, curvature)).toBeCloseTo(poincareDistance(x, y) / 2, 12);
+    });
+
+    it('should reject non-negative curvature and mismatched dimensions', () => {
+      expect(() => poincareDistance(x, y, 0)).toThrow('curvature must be a finite negative number');
+      expect(() => poincareDistance(x, y, 1)).toThrow('curvature must be a finite negative number');
+      expect(() => poincareDistance(x, [0.1, 0.2])).toThrow('Dimension mismatch');
+    });
+  });
+
+  describe('Möbius operations', () => {
+    it('should have the origin as identity and -x as inverse', () => {
+      expectVectorClose(mobiusAdd(origin, x), x);
+      expectVectorClose(mobiusAdd(x, origin), x);
+      expectVectorClose(mobiusAdd(x.map(value => -value), x), origin);
+    });
+
+    it('should satisfy left cancellation', () => {
+      const negX = x.map(value => -value);
+      expectVectorClose(mobiusAdd(negX, mobiusAdd(x, y)), y);
+    });
+
+    it('should be an isometry under left translation', () => {
+      const z = [0.2, 0.2, 0.2];
+      expect(poincareDistance(mobiusAdd(z, x), mobiusAdd(z, y))).toBeCloseTo(poincareDistance(x, y), 9);
+    });
+
+    it('should scale distances from the origin', () => {
+      expect(distanceFromOrigin(mobiusScale(3, x))).toBeCloseTo(3 * distanceFromOrigin(x), 9);
+    });
+  });
+
+  describe('Exponential and logarithmic maps', () => {
+    it('should be inverse to each other', () => {
+      const v = [0.5, -0.2, 0.8];
+      expectVectorClose(logMap(x, expMap(x, v)), v);
+      expectVectorClose(expMap(x, logMap(x, y)), y);
+      expectVectorClose(logMap0(expMap0(v)), v);
+    });
+
+    it('should map tangent length to geodesic length', () => {
+      const v = [0.3, 0.4, 0];
+      expect(distanceFromOrigin(expMap0(v))).toBeCloseTo(2 * norm(v), 12);
+      expect(poincareDistance(x, expMap(x, logMap(x, y)))).toBeCloseTo(poincareDistance(x, y), 9);
+    });
+
+    it('should agree with the general maps at the origin', () => {
+      const v = [0.2, 0.1, -0.3];
+      expectVectorClose(expMap(origin, v), expMap0(v));
+      expectVectorClose(logMap(origin, y), logMap0(y));
+    });
+
+    it('should keep huge tangent vectors inside the ball', () => {
+      const point = expMap0([1e6, 1e6, 0]);
+      expect(norm(point)).toBeLessThan(1);
+      expect(point.every(Number.isFinite)).toBe(true);
+    });
+  });
+
+  describe('Projection', () => {
+    it('should leave interior points unchanged', () => {
+      expect(project(x)).toEqual(x);
+    });
+
+    it('should pull points on or outside the boundary back inside', () => {
+      const projected = project([3, 4]);
+      expect(norm(projected)).toBeCloseTo(1 - 1e-5, 12);
+      expect(projected[0] / projected[1]).toBeCloseTo(0.75, 12);
+
+      expect(norm(project([1, 0], -4))).toBeLessThan(0.5);
+    });
+
+    it('should reject non-finite coordinates', () => {
+      expect(() => project([NaN, 0])).toThrow('non-finite');
+    });
+  });
+
+  describe('Numerical stability near the boundary', () => {
+    it('should return finite, increasing distances as points approach the boundary', () => {
+      let previous = 0;
+      for (const gap of [1e-3, 1e-6, 1e-9, 1e-12, 1e-15]) {
+        const distance = distanceFromOrigin([1 - gap, 0]);
+        expect(Number.isFinite(distance)).toBe(true);
+        expect(distance).toBeGreaterThan(previous);
+        previous = distance;
+      }
+    });
+
+    it('should stay finite for points on or beyond the boundary', () => {
+      expect(Number.isFinite(poincareDistance([1, 0], [0, 1]))).toBe(true);
+      expect(Number.isFinite(poincareDistance([2, 0], [0, 0]))).toBe(true);
+    });
+
+    it('should resolve tiny separations without cancellation', () => {
+      const point = [0.5, 0];
+      const delta = 1e-10;
+      // ds = lambda_x |dx| with lambda_x = 2 / (1 - |x|^2)
+      const expected = 2 / (1 - 0.25) * delta;
+      expect(poincareDistance(point, [0.5 + delta, 0]) / expected).toBeCloseTo(1, 4);
+    });
+
+    it('should keep Möbius addition of deep points inside the ball', () => {
+      const deep = [1 - 1e-12, 0];
+      const sum = mobiusAdd(deep, deep);
+      expect(norm(sum)).toBeLessThan(1);
+      expect(sum.every(Number.isFinite)).toBe(true);
+    });
+  });
+
+  describe('Lorentz model', () => {
+    it('should place points on the hyperboloid', () => {
+      for (const curvature of [-1, -0.5, -3]) {
+        const p = toLorentz(project(x, curvature), curvature);
+        expect(lorentzInner(p, p)).toBeCloseTo(1 / curvature, 9);
+      }
+    });
+
+    it('should round-trip between the models', () => {
+      expectVectorClose(fromLorentz(toLorentz(x)), x, 12);
+      expectVectorClose(fromLorentz(toLorentz(x, -2), -2), x, 12);
+    });
+
+    it('should agree with the Poincaré distance', () => {
+      for (const curvature of [-1, -2]) {
+        const u = project(x, curvature);
+        const v = project(y, curvature);
+        expect(lorentzDistance(toLorentz(u, curvature), toLorentz(v, curvature), curvature))
+          .toBeCloseTo(poincareDistance(u, v, curvature), 9);
+      }
+    });
+
+    it('should give finite distances for deep points', () => {
+      const p = toLorentz([1 - 1e-9, 0]);
+      const q = toLorentz([0, 1 - 1e-9]);
+      const distance = lorentzDistance(p, q);
+      expect(Number.isFinite(distance)).toBe(true);
+      expect(distance).toBeCloseTo(poincareDistance([1 - 1e-9, 0], [0, 1 - 1e-9]), 3);
+    });
+  });
+});
@@ -0,0 +1,124 @@
+/**
+ * Memory Decay Tests
+ *
+ * Forgetting curve, reinforcement on retrieval, pins and decay sweeps
+ */
+
+import { MemoryDecay } from '../implementations/MemoryDecay';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { memory } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const start = new Date(Date.UTC(2024, 0, 1));
+const after = (days: number) => new Date(start.getTime() + days * DAY);
+
+const semantic = (id: string, content: string, metadata: Record<string, any> = {}) =>
+  memory(id, content, { type: 'semantic', metadata, timestamp: start });
+
+describe('MemoryDecay', () => {
+  it('should decay retention over time, slower for important memories', () => {
+    const decay = new MemoryDecay({ initialStability: DAY, importanceWeight: 4 });
+    decay.track(semantic('minor', 'Minor', { importance: 0 }), start);
+    decay.track(semantic('major', 'Major', { importance: 1 }), start);
+
+    expect(decay.retention('minor', start)).toBe(1);
+    expect(decay.retention('minor', after(1))).toBeCloseTo(Math.exp(-1));
+    expect(decay.retention('major', after(5))).toBeCloseTo(Math.exp(-1));
+    // Untracked memories are not subject to decay
+    expect(decay.retention('unknown', after(100))).toBe(1);
+  });
+
+  it('should reinforce faded memories more than fresh ones', () => {
+    const decay = new MemoryDecay({ initialStability: DAY, importanceWeight: 0, reinforcement: 2 });
+    decay.track(semantic('spaced', 'Spaced'), start);
+    decay.track(semantic('crammed', 'Crammed'), start);
+
+    decay.reinforce('spaced', after(3));
+    decay.reinforce('crammed', start);
+    decay.reinforce('crammed', start);
+
+    expect(decay.get('spaced')!.stability).toBeCloseTo(DAY * (2 - Math.exp(-3)));
+    expect(decay.get('crammed')!.stability).toBe(DAY);
+    expect(decay.get('crammed')!.reinforcements).toBe(2);
+    expect(decay.get('spaced')!.lastReinforced).toEqual(after(3));
+  });
+
+  it('should not decay pinned memories and restart the curve when unpinned', () => {
+    const decay = new MemoryDecay({ initialStability: DAY, importanceWeight: 0 });
+    decay.track(semantic('pinned', 'Pinned', { pinned: true }), start);
+
+    expect(decay.retention('pinned', after(30))).toBe(1);
+    decay.setPinned('pinned', false, after(30));
+    expect(decay.retention('pinned', after(31))).toBeCloseTo(Math.exp(-1));
+  });
+
+  it('should sort memories into keep, demote and forget', () => {
+    const decay = new MemoryDecay({ initialStability: DAY, importanceWeight: 0, demoteThreshold: 0.2, forgetThreshold: 0.01 });
+    decay.track(semantic('fresh', 'Fresh'), after(4));
+    decay.track(semantic('faded', 'Faded'), after(2));
+    decay.track(semantic('gone', 'Gone'), start);
+
+    // Retention e^-1, e^-3 and e^-5
+    const verdicts = decay.evaluate(after(5));
+    expect(verdicts.map(verdict => [verdict.id, verdict.action])).toEqual([
+      ['fresh', 'keep'],
+      ['faded', 'demote'],
+      ['gone', 'forget']
+    ]);
+    expect(verdicts[1].retention).toBeCloseTo(Math.exp(-3));
+  });
+
+  it('should reject thresholds in the wrong order', () => {
+    expect(() => new MemoryDecay({ demoteThreshold: 0.1, forgetThreshold: 0.2 })).toThrow('forgetThreshold');
+    expect(() => new MemoryDecay({ reinforcement: 0.5 })).toThrow('reinforcement');
+  });
+});
+
+describe('MemorySystemImpl decay', () => {
+  let system: MemorySystemImpl;
+  // Stored now with importance 0.5: stability of three days
+  const later = (days: number) => new Date(Date.now() + days * DAY);
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ decay: { initialStability: DAY, importanceWeight: 4 } });
+    await system.initialize();
+    await system.store(semantic('a', 'The user prefers TypeScript'));
+    await system.store(semantic('b', 'The user lives in Lisbon', { pinned: true }));
+  });
+
+  it('should refuse to forget pinned memories unless forced', async () => {
+    await expect(system.forget('b')).rejects.toThrow('Memory b is pinned');
+    expect(await system.forget('b', { force: true })).toBe(true);
+    expect(await system.getMemoryCount()).toBe(1);
+
+    await system.pin('a');
+    await expect(system.forget('a')).rejects.toThrow('is pinned');
+    await system.unpin('a');
+    expect(await system.forget('a')).toBe(true);
+    await expect(system.pin('a')).rejects.toThrow('Memory a not found');
+  });
+
+  it('should demote weak memories, hide them from recall and restore them once strong again', async () => {
+    const report = await system.sweep(later(5));
+    expect(report).toEqual({ demoted: ['a'], restored: [], forgotten: [] });
+    expect((await system.recall('typescript')).map(result => result.memory.id)).not.toContain('a');
+    // Still reachable through exact queries
+    expect((await system.retrieve({ metadata: { demoted: true } })).map(result => result.id)).toEqual(['a']);
+
+    expect(await system.sweep(new Date())).toEqual({ demoted: [], restored: ['a'], forgotten: [] });
+    expect((await system.recall('typescript'))[0].memory.id).toBe('a');
+  });
+
+  it('should forget memories that decayed past the forget threshold but keep pinned ones', async () => {
+    const report = await system.sweep(later(20));
+    expect(report.forgotten).toEqual(['a']);
+    expect(await system.getStrength('a')).toBeNull();
+    expect((await system.retrieve({})).map(result => result.id)).toEqual(['b']);
+  });
+
+  it('should reinforce memories when they are retrieved', async () => {
+    await system.retrieve({ content: 'typescript' });
+    expect((await system.getStrength('a'))!.reinforcements).toBe(1);
+    expect((await system.getStrength('b'))!.reinforcements).toBe(0);
+  });
+});
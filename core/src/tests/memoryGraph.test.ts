@@ -0,0 +1,122 @@
+/**
+ * Memory Graph Tests
+ *
+ * Typed links between memories, traversals, shortest paths and subgraphs,
+ * and link cleanup in MemorySystemImpl
+ */
+
+import { Memory } from '../interfaces/AIPersistenceCore';
+import { MemoryGraph, resolveTraversalOptions } from '../implementations/MemoryGraph';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { memory } from './fixtures';
+
+// rain causes flood, flood causes closure, report elaborates flood, cleanup follows flood
+const graph = (): MemoryGraph => {
+  const links = new MemoryGraph();
+  links.add({ source: 'rain', relationshipType: 'causes', target: 'flood' });
+  links.add({ source: 'flood', relationshipType: 'causes', target: 'closure' });
+  links.add({ source: 'report', relationshipType: 'elaborates', target: 'flood' });
+  links.add({ source: 'cleanup', relationshipType: 'follows', target: 'flood' });
+  return links;
+};
+
+describe('MemoryGraph', () => {
+  it('should replace a link of the same type between the same memories', () => {
+    const links = new MemoryGraph();
+    const first = links.add({ source: 'a', relationshipType: 'causes', target: 'b', strength: 0.4 });
+    const second = links.add({ source: 'a', relationshipType: 'causes', target: 'b', strength: 0.9 });
+    links.add({ source: 'a', relationshipType: 'contradicts', target: 'b' });
+
+    expect(second.id).toBe(first.id);
+    expect(links.getLinks().map(link => [link.relationshipType, link.strength])).toEqual([['causes', 0.9], ['contradicts', 1]]);
+  });
+
+  it('should reject links it cannot store', () => {
+    const links = new MemoryGraph();
+    expect(() => links.add({ source: 'a', relationshipType: 'implies' as any, target: 'b' })).toThrow('Unknown relationship type implies');
+    expect(() => links.add({ source: 'a', relationshipType: 'causes', target: 'a' })).toThrow('linked to itself');
+    expect(() => links.add({ source: 'a', relationshipType: 'causes', target: 'b', confidence: 2 })).toThrow('confidence');
+  });
+
+  it('should reach memories in the fewest hops along the allowed links', () => {
+    const links = graph();
+    const hops = (start: string, options: Record<string, any>) => Object.fromEntries(links.reach(start, resolveTraversalOptions(options)));
+
+    expect(hops('rain', { hops: 2 })).toEqual({ rain: 0, flood: 1, closure: 2, report: 2, cleanup: 2 });
+    expect(hops('rain', { hops: 2, direction: 'out' })).toEqual({ rain: 0, flood: 1, closure: 2 });
+    expect(hops('closure', { hops: 3, direction: 'in', types: ['causes'] })).toEqual({ closure: 0, flood: 1, rain: 2 });
+    expect(hops('rain', { hops: 0 })).toEqual({ rain: 0 });
+  });
+
+  it('should find the fewest-hop path within the hop limit', () => {
+    const links = graph();
+    const path = links.path('report', 'closure', resolveTraversalOptions());
+    expect(path!.map(link => [link.source, link.target])).toEqual([['report', 'flood'], ['flood', 'closure']]);
+
+    expect(links.path('report', 'closure', resolveTraversalOptions({ direction: 'in' }))).toBeNull();
+    expect(links.path('report', 'closure', resolveTraversalOptions({ hops: 1 }))).toBeNull();
+    expect(links.path('rain', 'rain', resolveTraversalOptions())).toEqual([]);
+  });
+
+  it('should remove every link of a removed memory', () => {
+    const links = graph();
+    expect(links.removeMemory('flood')).toHaveLength(4);
+    expect(links.getLinks()).toEqual([]);
+    expect(links.reach('rain', resolveTraversalOptions()).size).toBe(1);
+  });
+});
+
+describe('resolveTraversalOptions', () => {
+  it('should reject options that cannot be traversed', () => {
+    expect(resolveTraversalOptions({ hops: 3 }, { direction: 'out' })).toEqual({ types: [], direction: 'out', hops: 3 });
+    expect(() => resolveTraversalOptions({ types: ['implies' as any] })).toThrow('unknown type implies');
+    expect(() => resolveTraversalOptions({ direction: 'up' as any })).toThrow('unknown direction up');
+    expect(() => resolveTraversalOptions({ hops: 1.5 })).toThrow('hops');
+  });
+});
+
+describe('MemorySystemImpl links', () => {
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({});
+    await system.initialize();
+    await system.store(memory('rain', 'Heavy rain all night over the valley'));
+    await system.store(memory('flood', 'The river flooded the lower town'));
+    await system.store(memory('closure', 'The bridge was closed to traffic'));
+    await system.store(memory('rumour', 'Someone said the bridge is fine'));
+    await system.link('rain', 'causes', 'flood');
+    await system.link('flood', 'causes', 'closure');
+    await system.link('rumour', 'contradicts', 'closure');
+  });
+
+  it('should link stored memories only, at their embedding distance', async () => {
+    await expect(system.link('rain', 'causes', 'drought')).rejects.toThrow('Memory drought not found');
+    const [link] = await system.getLinks('rain');
+    expect(link.distance).toBeGreaterThan(0);
+  });
+
+  it('should traverse, find paths and build subgraphs of memories', async () => {
+    const traversal = await system.traverse('rain', { hops: 2, types: ['causes'] });
+    expect(traversal.nodes.map(node => [node.memory.id, node.hops])).toEqual([['rain', 0], ['flood', 1], ['closure', 2]]);
+    expect(traversal.links).toHaveLength(2);
+
+    const path = await system.findPath('rain', 'rumour');
+    expect(path!.memories.map(item => item.id)).toEqual(['rain', 'flood', 'closure', 'rumour']);
+    expect(path!.distance).toBeCloseTo(path!.links.reduce((sum, link) => sum + link.distance, 0));
+    expect(await system.findPath('rain', 'rumour', { types: ['causes'] })).toBeNull();
+
+    const subgraph = await system.subgraph(['flood', 'closure', 'rumour', 'unknown']);
+    expect(subgraph.nodes.map(node => node.memory.id)).toEqual(['flood', 'closure', 'rumour']);
+    expect(subgraph.links.map(link => link.relationshipType).sort()).toEqual(['causes', 'contradicts']);
+  });
+
+  it('should drop the links of forgotten memories and skip dangling links on restore', async () => {
+    const links = await system.getLinks();
+    await system.forget('closure');
+    expect((await system.getLinks()).map(link => link.target)).toEqual(['flood']);
+
+    await system.setMemories(await system.getMemories(), [], [], links);
+    expect(await system.getLinks()).toHaveLength(1);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Memory Indexer Tests
+ *
+ * Stemming, BM25 ranking, phrase and prefix queries, and persisted entries
+ */
+
+import { MemoryIndexer } from '../implementations/MemoryIndexer';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { stem } from '../utils/text';
+import { memory } from './fixtures';
+
+describe('stem', () => {
+  it('should reduce words to their Porter stems', () => {
+    const expected: Record<string, string> = {
+      caresses: 'caress', ponies: 'poni', cats: 'cat', feed: 'feed', agreed: 'agre', plastered: 'plaster',
+      motoring: 'motor', sing: 'sing', conflated: 'conflat', troubled: 'troubl', sized: 'size', hopping: 'hop',
+      falling: 'fall', hissing: 'hiss', filing: 'file', happy: 'happi', relational: 'relat',
+      conditional: 'condit', generalization: 'gener', connection: 'connect', connected: 'connect'
+    };
+    for (const [word, root] of Object.entries(expected)) {
+      expect(stem(word)).toBe(root);
+    }
+  });
+
+  it('should leave short and non-ASCII words alone', () => {
+    expect(stem('is')).toBe('is');
+    expect(stem('2024')).toBe('2024');
+    expect(stem('größe')).toBe('größe');
+  });
+});
+
+describe('MemoryIndexer', () => {
+  let indexer: MemoryIndexer;
+
+  beforeEach(() => {
+    indexer = new MemoryIndexer();
+    indexer.index('a', 'The user prefers TypeScript for backend services');
+    indexer.index('b', 'TypeScript generics and TypeScript type inference explained');
+    indexer.index('c', 'Deployed the backend service to production on Friday');
+    indexer.index('d', 'State of the art in hyperbolic embeddings');
+  });
+
+  it('should rank by BM25 relevance', () => {
+    const hits = indexer.search('typescript');
+    expect(hits.map(hit => hit.id)).toEqual(['b', 'a']);
+    expect(hits[0].score).toBeGreaterThan(hits[1].score);
+  });
+
+  it('should match any term, favouring memories that match more of them', () => {
+    expect(indexer.search('typescript backend').map(hit => hit.id)).toEqual(['a', 'b', 'c']);
+  });
+
+  it('should match inflected forms through stemming', () => {
+    expect(indexer.search('deploying services').map(hit => hit.id)).toEqual(['c', 'a']);
+  });
+
+  it('should ignore stop words', () => {
+    expect(indexer.search('the')).toEqual([]);
+  });
+
+  it('should require quoted phrases in order', () => {
+    expect(indexer.search('"prefers typescript"').map(hit => hit.id)).toEqual(['a']);
+    expect(indexer.search('"typescript prefers"')).toEqual([]);
+    // Phrases match stems too
+    expect(indexer.search('"backend services"').map(hit => hit.id).sort()).toEqual(['a', 'c']);
+    // Stop words inside a phrase keep their positions
+    expect(indexer.search('"state of the art"').map(hit => hit.id)).toEqual(['d']);
+    expect(indexer.search('"state art"')).toEqual([]);
+  });
+
+  it('should expand prefix queries', () => {
+    expect(indexer.search('hyperb*').map(hit => hit.id)).toEqual(['d']);
+    expect(indexer.search('typ*').map(hit => hit.id).sort()).toEqual(['a', 'b']);
+  });
+
+  it('should stay in sync with removals and replacements', () => {
+    expect(indexer.remove('b')).toBe(true);
+    expect(indexer.remove('b')).toBe(false);
+    expect(indexer.search('typescript').map(hit => hit.id)).toEqual(['a']);
+
+    indexer.index('a', 'Now about Rust instead');
+    expect(indexer.search('typescript')).toEqual([]);
+    expect(indexer.search('rust').map(hit => hit.id)).toEqual(['a']);
+    expect(indexer.size).toBe(3);
+  });
+
+  it('should not confuse terms with object properties', () => {
+    indexer.index('e', 'constructor toString __proto__');
+    expect(indexer.search('"constructor tostring"').map(hit => hit.id)).toEqual(['e']);
+    expect(indexer.search('hasownproperty')).toEqual([]);
+  });
+
+  it('should restore persisted entries and rebuild stale ones', () => {
+    const document = JSON.parse(JSON.stringify(indexer.getDocument('a')));
+    const restored = new MemoryIndexer();
+
+    expect(restored.restore(document, 'The user prefers TypeScript for backend services')).toBe(true);
+    expect(restored.search('typescript').map(hit => hit.id)).toEqual(['a']);
+
+    expect(restored.restore(document, 'Content changed since it was indexed')).toBe(false);
+    expect(restored.search('typescript')).toEqual([]);
+    expect(restored.search('changed').map(hit => hit.id)).toEqual(['a']);
+  });
+});
+
+describe('MemorySystemImpl full-text search', () => {
+  it('should return ranked, scored results for content queries', async () => {
+    const system = new MemorySystemImpl({});
+    await system.initialize();
+    await system.store(memory('a', 'Notes on memory consolidation'));
+    await system.store(memory('b', 'Memory, memory and more memory'));
+    await system.store(memory('c', 'Unrelated shopping list'));
+
+    const results = await system.retrieve({ content: 'memory' });
+    expect(results.map(result => result.id)).toEqual(['b', 'a']);
+    expect(results[0].score).toBeGreaterThan(results[1].score!);
+
+    await system.forget('b');
+    expect((await system.retrieve({ content: 'memory' })).map(result => result.id)).toEqual(['a']);
+  });
+
+  it('should reuse persisted index entries on restore', async () => {
+    const memories = [memory('a', 'Notes on memory consolidation')];
+    const first = new MemorySystemImpl({});
+    await first.initialize();
+    await first.store(memories[0]);
+    const document = await first.getIndexedDocument('a');
+
+    const second = new MemorySystemImpl({});
+    await second.initialize();
+    await second.setMemories(memories, [document!]);
+    expect(await second.getIndexedDocument('a')).toBe(document);
+    expect((await second.retrieve({ content: 'consolidating' })).map(result => result.id)).toEqual(['a']);
+  });
+});
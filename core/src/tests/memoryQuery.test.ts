@@ -0,0 +1,113 @@
+/**
+ * Memory Query Tests
+ *
+ * Filters, sorting and cursor pagination over MemoryQuery
+ */
+
+import { Memory, MemoryQuery } from '../interfaces/AIPersistenceCore';
+import { queryMemories, validateMemoryQuery } from '../utils/memoryQuery';
+
+const day = (n: number) => new Date(Date.UTC(2024, 0, n));
+
+const memories: Memory[] = [
+  { id: 'a', type: 'episodic', content: 'Met the user for the first time', timestamp: day(1), metadata: { source: 'user', importance: 0.9, confidence: 0.6, tags: ['ai', 'intro'] } },
+  { id: 'b', type: 'semantic', content: 'TypeScript has structural typing', timestamp: day(2), metadata: { source: 'docs', importance: 0.4, confidence: 0.95, tags: ['typescript'] } },
+  { id: 'c', type: 'episodic', content: 'User asked about AI persistence', timestamp: day(3), metadata: { source: 'user', importance: 0.7, confidence: 0.8, tags: ['ai', 'persistence'], session: 2 } },
+  { id: 'd', type: 'procedural', content: 'Run the build before deploying', timestamp: day(4), metadata: { source: 'ops', importance: 0.7, tags: [] } },
+  { id: 'e', type: 'episodic', content: 'Discussed hyperbolic embeddings', timestamp: day(5), metadata: { source: 'user', importance: 0.2, confidence: 0.9, tags: ['ai'], session: 3 } }
+];
+
+const ids = (query: MemoryQuery) => queryMemories(memories, query).memories.map(memory => memory.id);
+
+describe('queryMemories', () => {
+  it('should return everything newest first by default', () => {
+    expect(ids({})).toEqual(['e', 'd', 'c', 'b', 'a']);
+  });
+
+  it('should keep the type, content and limit filters', () => {
+    expect(ids({ type: 'episodic' })).toEqual(['e', 'c', 'a']);
+    expect(ids({ content: 'USER', sortBy: 'timestamp' })).toEqual(['c', 'a']);
+    expect(ids({ limit: 2 })).toEqual(['e', 'd']);
+  });
+
+  it('should rank content matches with the given search and attach scores', () => {
+    const search = () => [{ id: 'a', score: 2, terms: [] }, { id: 'e', score: 5, terms: [] }];
+    const page = queryMemories(memories, { content: 'anything' }, search);
+    expect(page.memories.map(memory => [memory.id, memory.score])).toEqual([['e', 5], ['a', 2]]);
+    // Stored memories are not modified
+    expect(memories[0].score).toBeUndefined();
+    // Without a search, substring matches all score 1
+    expect(queryMemories(memories, { content: 'user' }).memories.map(memory => memory.score)).toEqual([1, 1]);
+  });
+
+  it('should filter by inclusive, optionally open time ranges', () => {
+    expect(ids({ timeRange: { start: day(2), end: day(4) } })).toEqual(['d', 'c', 'b']);
+    expect(ids({ timeRange: { start: day(4) } })).toEqual(['e', 'd']);
+    expect(ids({ timeRange: { end: day(1) } })).toEqual(['a']);
+  });
+
+  it('should filter by all or any of the given tags', () => {
+    expect(ids({ tags: ['ai', 'persistence'] })).toEqual(['c']);
+    expect(ids({ tags: ['persistence', 'typescript'], tagMatch: 'any' })).toEqual(['c', 'b']);
+  });
+
+  it('should apply importance and confidence thresholds', () => {
+    expect(ids({ minImportance: 0.7 })).toEqual(['d', 'c', 'a']);
+    // A memory without a confidence never passes a confidence threshold
+    expect(ids({ minImportance: 0.7, minConfidence: 0.7 })).toEqual(['c']);
+  });
+
+  it('should match metadata equality and range predicates', () => {
+    expect(ids({ metadata: { source: 'user' } })).toEqual(['e', 'c', 'a']);
+    expect(ids({ metadata: { source: 'user', session: { gte: 3 } } })).toEqual(['e']);
+    expect(ids({ metadata: { session: null } })).toEqual(['d', 'b', 'a']);
+    expect(ids({ metadata: { source: { ne: 'user' }, importance: { gt: 0.3, lt: 0.8 } } })).toEqual(['d', 'b']);
+    // Mismatched types never satisfy a range
+    expect(ids({ metadata: { source: { gt: 0 } } })).toEqual([]);
+  });
+
+  it('should sort by importance with ties broken by id', () => {
+    expect(ids({ sortBy: 'importance' })).toEqual(['a', 'c', 'd', 'b', 'e']);
+    expect(ids({ sortBy: 'importance', order: 'asc' })).toEqual(['e', 'b', 'c', 'd', 'a']);
+  });
+
+  it('should page through results with cursors', () => {
+    const query: MemoryQuery = { sortBy: 'importance', limit: 2 };
+    const seen: string[] = [];
+    let cursor: string | undefined;
+    do {
+      const page = queryMemories(memories, { ...query, cursor });
+      seen.push(...page.memories.map(memory => memory.id));
+      cursor = page.nextCursor;
+    } while (cursor);
+
+    expect(seen).toEqual(['a', 'c', 'd', 'b', 'e']);
+  });
+
+  it('should continue after the cursor position even when memories change', () => {
+    const first = queryMemories(memories, { limit: 2 });
+    expect(first.memories.map(memory => memory.id)).toEqual(['e', 'd']);
+
+    const changed = [...memories.filter(memory => memory.id !== 'd'),
+      { id: 'f', type: 'episodic', content: 'Newest memory', timestamp: day(6), metadata: {} }];
+    const second = queryMemories(changed, { limit: 2, cursor: first.nextCursor });
+    expect(second.memories.map(memory => memory.id)).toEqual(['c', 'b']);
+  });
+
+  it('should omit the cursor on the last page', () => {
+    expect(queryMemories(memories, { limit: 5 }).nextCursor).toBeUndefined();
+  });
+
+  it('should reject malformed queries and cursors', () => {
+    const { nextCursor } = queryMemories(memories, { limit: 1 });
+
+    expect(() => validateMemoryQuery({ sortBy: 'size' as any })).toThrow('cannot sort by size');
+    expect(() => validateMemoryQuery({ limit: -1 })).toThrow('limit must be a positive integer');
+    expect(() => validateMemoryQuery({ limit: 0 })).toThrow('limit must be a positive integer, got 0');
+    expect(() => validateMemoryQuery({ sortBy: 'relevance' })).toThrow('needs a content search');
+    expect(() => validateMemoryQuery({ timeRange: { start: new Date('nope') } })).toThrow('timeRange.start');
+    expect(() => validateMemoryQuery({ metadata: { quality: { above: 1 } as any } })).toThrow('unknown operator above');
+    expect(() => queryMemories(memories, { cursor: 'garbage' })).toThrow('malformed cursor');
+    expect(() => queryMemories(memories, { cursor: nextCursor, sortBy: 'importance' })).toThrow('different sort');
+  });
+});
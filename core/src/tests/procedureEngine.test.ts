@@ -0,0 +1,169 @@
+/**
+ * Procedure Engine Tests
+ *
+ * Ordered and conditional step execution, failure handling, recorded
+ * outcomes and skill proficiency updates
+ */
+
+import { ProcedureContext, ProcedureEngine, evaluateCondition } from '../implementations/ProcedureEngine';
+
+describe('ProcedureEngine', () => {
+  let engine: ProcedureEngine;
+  let calls: string[];
+
+  beforeEach(() => {
+    calls = [];
+    engine = new ProcedureEngine({ now: () => new Date(0) });
+    engine.register('fetch', parameters => {
+      calls.push('fetch');
+      return { items: parameters.items };
+    });
+    engine.register('count', (_parameters, context) => {
+      calls.push('count');
+      context.variables.count = context.last.items.length;
+      return context.variables.count;
+    });
+    engine.register('notify', parameters => {
+      calls.push(`notify ${parameters.channel}`);
+      if (parameters.channel === 'pager') {
+        throw new Error('Pager is offline');
+      }
+      return 'sent';
+    });
+
+    engine.addProcedure({
+      name: 'Report items',
+      skill: 'Reporting',
+      steps: [
+        { id: 'notify', order: 3, action: 'notify', parameters: { channel: 'email' }, conditions: [{ type: 'variables.count', operator: 'gt', value: 0 }] },
+        { id: 'fetch', order: 1, action: 'fetch', parameters: { items: ['a', 'b'] } },
+        { id: 'count', order: 2, action: 'count' }
+      ]
+    });
+  });
+
+  it('should run steps in order and pass results between them', async () => {
+    const run = await engine.run('report items');
+
+    expect(calls).toEqual(['fetch', 'count', 'notify email']);
+    expect(run.status).toBe('succeeded');
+    expect(run.steps.map(step => [step.stepId, step.status])).toEqual([['fetch', 'succeeded'], ['count', 'succeeded'], ['notify', 'succeeded']]);
+    expect(run.output).toBe('sent');
+    expect(run.variables).toEqual({ count: 2 });
+  });
+
+  it('should skip steps whose conditions do not hold and block runs whose preconditions fail', async () => {
+    engine.addProcedure({
+      name: 'Report items',
+      conditions: [{ type: 'input.enabled', operator: 'eq', value: true }],
+      steps: [
+        { id: 'fetch', action: 'fetch', parameters: { items: [] } },
+        { id: 'count', action: 'count' },
+        { id: 'notify', action: 'notify', conditions: [{ type: 'variables.count', operator: 'gt', value: 0 }] }
+      ]
+    });
+
+    const skipped = await engine.run('Report items', { enabled: true });
+    expect(skipped.status).toBe('succeeded');
+    expect(skipped.steps.map(step => step.status)).toEqual(['succeeded', 'succeeded', 'skipped']);
+    expect(skipped.output).toBe(0);
+
+    calls = [];
+    const blocked = await engine.run('Report items', { enabled: false });
+    expect(blocked).toMatchObject({ status: 'blocked', steps: [] });
+    expect(calls).toEqual([]);
+  });
+
+  it('should stop at a failed step unless it continues on error', async () => {
+    engine.addProcedure({
+      name: 'Escalate',
+      steps: [
+        { id: 'page', action: 'notify', parameters: { channel: 'pager' }, continueOnError: true },
+        { id: 'mail', action: 'notify', parameters: { channel: 'email' } },
+        { id: 'retry', action: 'notify', parameters: { channel: 'pager' } },
+        { id: 'never', action: 'notify', parameters: { channel: 'sms' } }
+      ]
+    });
+
+    const run = await engine.run('Escalate');
+    expect(run.status).toBe('failed');
+    expect(run.steps.map(step => [step.stepId, step.status])).toEqual([['page', 'failed'], ['mail', 'succeeded'], ['retry', 'failed']]);
+    expect(run.steps[0].error).toBe('Pager is offline');
+    expect(calls).not.toContain('notify sms');
+  });
+
+  it('should record outcome frequencies on the procedure and its steps', async () => {
+    await engine.run('Report items');
+    engine.unregister('count');
+    engine.register('count', () => {
+      throw new Error('Cannot count');
+    });
+    await engine.run('Report items');
+
+    const procedure = engine.getProcedure('Report items')!;
+    expect(procedure.outcomes).toEqual([
+      { type: 'succeeded', value: 1, probability: 0.5 },
+      { type: 'failed', value: 1, probability: 0.5 }
+    ]);
+    expect(procedure.steps.map(step => step.outcomes.map(outcome => [outcome.type, outcome.value]))).toEqual([
+      [['succeeded', 2]],
+      [['succeeded', 1], ['failed', 1]],
+      [['succeeded', 1]]
+    ]);
+  });
+
+  it('should move skill proficiency towards the share of steps that succeeded', async () => {
+    await engine.run('Report items');
+    let skill = engine.getSkill('Reporting')!;
+    expect(skill.proficiency).toBeCloseTo(0.2);
+    expect(skill.confidence).toBeCloseTo(0.2);
+    expect(skill.applications).toEqual([engine.getProcedure('Report items')!.id]);
+
+    engine.unregister('count');
+    engine.register('count', () => {
+      throw new Error('Cannot count');
+    });
+    // One of the two executed steps succeeded
+    const run = await engine.run('Report items');
+    skill = run.skill!;
+    expect(skill.proficiency).toBeCloseTo(0.2 + 0.2 * (0.5 - 0.2));
+    expect(skill.confidence).toBeCloseTo(0.36);
+  });
+
+  it('should validate procedures, executors and conditions', async () => {
+    expect(() => engine.register('fetch', () => null)).toThrow('already registered');
+    expect(() => engine.addProcedure({ name: 'Empty', steps: [] })).toThrow('needs at least one step');
+    expect(() => engine.addProcedure({ name: 'Twice', steps: [{ id: 'a', action: 'fetch' }, { id: 'a', action: 'count' }] }))
+      .toThrow('more than one step with id a');
+    expect(() => engine.addProcedure({ name: 'Fuzzy', steps: [{ action: 'fetch', conditions: [{ type: 'input.x', operator: 'like', value: 'y' }] }] }))
+      .toThrow('Unknown condition operator like');
+
+    engine.addProcedure({ name: 'Unknown action', steps: [{ action: 'teleport' }] });
+    await expect(engine.run('Unknown action')).rejects.toThrow('No step executor registered for action teleport');
+    await expect(engine.run('Missing')).rejects.toThrow('Procedure Missing not found');
+    expect(() => new ProcedureEngine({ learningRate: 0 })).toThrow('learningRate');
+  });
+});
+
+describe('evaluateCondition', () => {
+  const context: ProcedureContext = {
+    input: { language: 'typescript', tags: ['api', 'web'], retries: 2 },
+    variables: {},
+    steps: { fetch: { stepId: 'fetch', action: 'fetch', status: 'succeeded', duration: 0 } },
+    last: null
+  };
+
+  it('should compare values at context paths', () => {
+    const holds = (type: string, operator: string, value: any) => evaluateCondition({ type, operator, value }, context);
+
+    expect(holds('input.language', 'eq', 'typescript')).toBe(true);
+    expect(holds('steps.fetch.status', 'ne', 'failed')).toBe(true);
+    expect(holds('input.retries', 'lte', 2)).toBe(true);
+    expect(holds('input.retries', 'gt', '1')).toBe(false);
+    expect(holds('input.language', 'in', ['python', 'typescript'])).toBe(true);
+    expect(holds('input.tags', 'contains', 'web')).toBe(true);
+    expect(holds('input.language', 'contains', 'script')).toBe(true);
+    expect(holds('input.missing.deeper', 'exists', true)).toBe(false);
+    expect(holds('last', 'exists', false)).toBe(true);
+  });
+});
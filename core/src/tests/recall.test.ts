@@ -0,0 +1,110 @@
+/**
+ * Recall Tests
+ *
+ * Hybrid ranking over lexical, semantic, recency and importance signals
+ */
+
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { rankRecall, validateRecallOptions } from '../utils/recall';
+import { memory } from './fixtures';
+
+const DAY = 24 * 60 * 60 * 1000;
+const now = new Date(Date.UTC(2024, 5, 1));
+
+const aged = (id: string, content: string, daysAgo: number, metadata: Record<string, any> = {}) =>
+  memory(id, content, { type: 'semantic', metadata, timestamp: new Date(now.getTime() - daysAgo * DAY) });
+
+describe('rankRecall', () => {
+  const old = aged('old', 'TypeScript generics explained', 14, { importance: 0.2 });
+  const fresh = aged('fresh', 'Notes from the deployment', 0, { importance: 0.9, tags: ['ops'] });
+
+  it('should score each signal and sum the weighted components', () => {
+    const [result] = rankRecall([{ memory: old, lexical: { id: 'old', score: 3, terms: ['typescript'] }, distance: 1 }], { now });
+
+    expect(result.components.lexical).toEqual({ value: 1, weight: 0.4, contribution: 0.4, reason: 'matched "typescript"' });
+    expect(result.components.semantic.value).toBe(1);
+    expect(result.components.semantic.reason).toBe('hyperbolic distance 1.00 from the query');
+    // Two half-lives old
+    expect(result.components.recency.value).toBeCloseTo(0.25);
+    expect(result.components.recency.reason).toBe('stored 14 days ago');
+    expect(result.components.importance.contribution).toBeCloseTo(0.03);
+    expect(result.score).toBeCloseTo(0.4 + 0.3 + 0.15 * 0.25 + 0.15 * 0.2);
+    expect(result.explanation.startsWith('lexical 0.40: matched "typescript"; semantic 0.30')).toBe(true);
+  });
+
+  it('should let weights decide between relevance and recency', () => {
+    const candidates = [
+      { memory: old, lexical: { id: 'old', score: 3, terms: ['typescript'] } },
+      { memory: fresh }
+    ];
+
+    expect(rankRecall(candidates, { now }).map(result => result.memory.id)).toEqual(['old', 'fresh']);
+    const recent = rankRecall(candidates, { now, weights: { lexical: 0.1, recency: 1 } });
+    expect(recent.map(result => result.memory.id)).toEqual(['fresh', 'old']);
+    expect(recent[0].components.lexical.reason).toBe('no matching terms');
+  });
+
+  it('should scale semantic similarity relative to the nearest candidate', () => {
+    const results = rankRecall([{ memory: old, distance: 2 }, { memory: fresh, distance: 3 }], { now, weights: { recency: 0, importance: 0 } });
+    expect(results.map(result => result.components.semantic.value)).toEqual([1, Math.exp(-1)]);
+  });
+
+  it('should assume the default importance when none is set', () => {
+    const [result] = rankRecall([{ memory: aged('plain', 'Nothing special', 0) }], { now, defaultImportance: 0.3 });
+    expect(result.components.importance.value).toBe(0.3);
+    expect(result.components.importance.reason).toBe('no importance set, assumed 0.3');
+  });
+
+  it('should apply filters and the limit', () => {
+    const candidates = [{ memory: old }, { memory: fresh }];
+    expect(rankRecall(candidates, { now, filter: { tags: ['ops'] } }).map(result => result.memory.id)).toEqual(['fresh']);
+    expect(rankRecall(candidates, { now, limit: 1 })).toHaveLength(1);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => validateRecallOptions({ weights: { lexical: -1 } })).toThrow('weight for lexical');
+    expect(() => validateRecallOptions({ weights: { popularity: 1 } as any })).toThrow('unknown signal popularity');
+    expect(() => validateRecallOptions({ recencyHalfLife: 0 })).toThrow('recencyHalfLife');
+    expect(() => validateRecallOptions({ limit: 1.5 })).toThrow('limit');
+    expect(() => validateRecallOptions({ filter: { tagMatch: 'some' as any } })).toThrow('tagMatch');
+  });
+});
+
+describe('MemorySystemImpl.recall', () => {
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({ recall: { now } });
+    await system.initialize();
+    await system.store(aged('a', 'The user prefers TypeScript for backend services', 30, { importance: 0.5 }));
+    await system.store(aged('b', 'TypeScript type inference and generics', 1, { importance: 0.9 }));
+    await system.store(aged('c', 'Weekly grocery shopping list', 0, { importance: 0.1 }));
+  });
+
+  it('should rank lexical and semantic matches with explanations', async () => {
+    const results = await system.recall('typescript generics');
+
+    expect(results[0].memory.id).toBe('b');
+    expect(results[0].components.lexical.reason).toBe('matched "typescript", "generics"');
+    expect(results[0].explanation).toContain('lexical');
+    expect(results.map(result => result.memory.id)).toContain('a');
+    for (const result of results) {
+      expect(result.components.semantic.reason).toMatch(/^hyperbolic distance/);
+    }
+  });
+
+  it('should rank everything on recency and importance for an empty query', async () => {
+    const results = await system.recall('', { weights: { importance: 0 } });
+    expect(results.map(result => result.memory.id)).toEqual(['c', 'b', 'a']);
+  });
+
+  it('should use configured defaults unless overridden per call', async () => {
+    const configured = new MemorySystemImpl({ recall: { now, weights: { recency: 0 }, limit: 1 } });
+    await configured.initialize();
+    await configured.store(aged('a', 'First', 30, { importance: 0.8 }));
+    await configured.store(aged('b', 'Second', 0, { importance: 0.2 }));
+
+    expect((await configured.recall('')).map(result => result.memory.id)).toEqual(['a']);
+    expect((await configured.recall('', { weights: { recency: 1 } })).map(result => result.memory.id)).toEqual(['b']);
+  });
+});
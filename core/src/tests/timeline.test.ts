@@ -0,0 +1,109 @@
+/**
+ * Episodic Timeline Tests
+ *
+ * Phase segmentation by time gaps, location and topic shifts, milestone
+ * detection and timelines over stored memories
+ */
+
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+import { memoryEvent, resolveTimelineOptions, segmentTimeline } from '../utils/timeline';
+import { memory } from './fixtures';
+
+const start = new Date(Date.UTC(2024, 0, 1, 8));
+const at = (hours: number) => new Date(start.getTime() + hours * 60 * 60 * 1000);
+
+const event = (id: string, hours: number, content: string, metadata: Record<string, any> = {}, type: string = 'episodic') =>
+  memory(id, content, { type, metadata, timestamp: at(hours) });
+
+const day = [
+  event('plan', 0, 'Planning the API release with Alice', { location: 'Office', participants: ['alice'], milestone: true }),
+  event('review', 1, 'Reviewed the API release checklist', { location: { type: 'building', coordinates: [], name: 'Office', context: '' } }),
+  event('lunch', 2, 'Lunch with the team at the cafe', { location: 'Cafe' }),
+  event('ship', 12, 'Released the API to production'),
+  event('garden', 13, 'Garden tomatoes need watering'),
+  event('water', 14, 'Watered the garden', { importance: 0.9 }),
+  event('done', 15, 'Finished the garden watering', { milestone: false })
+];
+
+describe('segmentTimeline', () => {
+  it('should start phases on time gaps, location changes and topic shifts', () => {
+    // Out of order on purpose; events are segmented in time order
+    const timeline = segmentTimeline([...day].reverse().map(memoryEvent));
+
+    expect(timeline.phases.map(phase => [phase.boundary, phase.events])).toEqual([
+      ['start', ['plan', 'review']],
+      ['location', ['lunch']],
+      ['gap', ['ship']],
+      ['topic', ['garden', 'water', 'done']]
+    ]);
+    expect(timeline.start).toEqual(at(0));
+    expect(timeline.end).toEqual(at(15));
+  });
+
+  it('should name and describe phases', () => {
+    const [planning, lunch] = segmentTimeline(day.map(memoryEvent)).phases;
+
+    expect(planning).toMatchObject({
+      name: 'Api, release, planning',
+      topics: ['api', 'release', 'planning'],
+      location: 'Office',
+      start: at(0),
+      end: at(1),
+      characteristics: ['2 events', 'at Office', 'with alice']
+    });
+    expect(lunch.characteristics).toEqual(['1 event', 'at Cafe', 'started by a location change']);
+  });
+
+  it('should detect marked, important and turning-point milestones', () => {
+    const { milestones } = segmentTimeline(day.map(memoryEvent));
+    // "Finished" would be a turning point, but the memory is explicitly unmarked
+    expect(milestones.map(milestone => [milestone.eventId, milestone.reason])).toEqual([
+      ['plan', 'marked'],
+      ['ship', 'keyword'],
+      ['water', 'importance']
+    ]);
+  });
+
+  it('should honour the segmentation options', () => {
+    const events = day.map(memoryEvent);
+    const phases = segmentTimeline(events, { maxGap: 24 * 60 * 60 * 1000, topicThreshold: 0, milestoneImportance: 2 }).phases;
+    expect(phases.map(phase => phase.boundary)).toEqual(['start', 'location']);
+    expect(segmentTimeline([]).phases).toEqual([]);
+  });
+
+  it('should reject invalid options', () => {
+    expect(() => resolveTimelineOptions({ maxGap: 0 })).toThrow('maxGap');
+    expect(() => resolveTimelineOptions({ topicThreshold: 1.5 })).toThrow('topicThreshold');
+    expect(() => resolveTimelineOptions({ types: 'episodic' as any })).toThrow('types');
+  });
+});
+
+describe('MemorySystemImpl.timeline', () => {
+  let system: MemorySystemImpl;
+
+  beforeEach(async () => {
+    system = new MemorySystemImpl({});
+    await system.initialize();
+    for (const stored of [...day, event('fact', 1, 'The API is written in TypeScript', {}, 'semantic')]) {
+      await system.store(stored);
+    }
+  });
+
+  it('should segment the episodic memories in the range', async () => {
+    const timeline = await system.timeline({ from: at(1), to: at(12) });
+
+    expect(timeline.start).toEqual(at(1));
+    expect(timeline.end).toEqual(at(12));
+    expect(timeline.phases.map(phase => phase.memories.map(member => member.id))).toEqual([['review'], ['lunch'], ['ship']]);
+    expect(timeline.phases[2].memories[0].content).toBe('Released the API to production');
+    expect(timeline.milestones.map(milestone => milestone.eventId)).toEqual(['ship']);
+  });
+
+  it('should return an empty timeline when nothing falls in the range', async () => {
+    const timeline = await system.timeline({ from: at(100) });
+    expect(timeline).toEqual({ start: null, end: null, phases: [], milestones: [] });
+
+    const semantic = await system.timeline({ types: ['semantic'] });
+    expect(semantic.phases.map(phase => phase.events)).toEqual([['fact']]);
+  });
+});
@@ -0,0 +1,135 @@
+/**
+ * Working Memory Tests
+ *
+ * Capacity, attention-weighted salience, spilling and task working sets
+ */
+
+import { MemoryItem, ProcessingTask } from '../types/memory';
+import { SpillReason, WorkingMemoryImpl } from '../implementations/WorkingMemoryImpl';
+import { MemorySystemImpl } from '../implementations/MemorySystemImpl';
+
+const start = new Date(Date.UTC(2024, 0, 1));
+const at = (seconds: number) => new Date(start.getTime() + seconds * 1000);
+
+const item = (id: string, content: any, priority: number, seconds: number = 0, duration: number = 0): MemoryItem =>
+  ({ id, content, priority, timestamp: at(seconds), duration });
+
+const task = (goal: string, input: any = null): ProcessingTask => ({ id: 'task', type: 'answer', input, goal, constraints: [] });
+
+describe('WorkingMemoryImpl', () => {
+  let spilled: Array<[string, SpillReason]>;
+  let working: WorkingMemoryImpl;
+
+  beforeEach(() => {
+    spilled = [];
+    working = new WorkingMemoryImpl({ capacity: 3, attention: 2 }, (spill, reason) => {
+      spilled.push([spill.id, reason]);
+    });
+  });
+
+  it('should spill the least salient item when over capacity', async () => {
+    await working.add(item('a', 'Deploy is scheduled for Friday', 0.5), at(0));
+    await working.add(item('b', 'User is hungry', 0.1), at(1));
+    await working.add(item('c', 'Tests are failing on main', 0.9), at(2));
+    await working.add(item('d', 'The user likes tea', 0), at(3));
+
+    expect(spilled).toEqual([['b', 'capacity']]);
+    // The newest item stays even though it is the least salient
+    expect(working.current.map(current => current.id)).toEqual(['c', 'a', 'd']);
+  });
+
+  it('should reweight items by attention focus', async () => {
+    await working.add(item('a', 'Deploy is scheduled for Friday', 0.5), at(0));
+    await working.add(item('c', 'Tests are failing on main', 0.9), at(1));
+
+    await working.focus({ target: 'deploy', intensity: 1, duration: 0, context: 'friday release' }, at(2));
+    expect(working.salience(working.current[0], at(2))).toBeCloseTo(0.5 + 2 / 3);
+    expect(working.current.map(current => current.id)).toEqual(['a', 'c']);
+    expect(working.attention).toHaveLength(1);
+
+    // Focusing on an item by id gives it the full intensity
+    await working.focus({ target: 'c', intensity: 2, duration: 0, context: '' }, at(3));
+    expect(working.current[0].id).toBe('c');
+  });
+
+  it('should let foci lapse after their duration or when attention is full', async () => {
+    await working.add(item('a', 'Deploy is scheduled for Friday', 0.5), at(0));
+    await working.focus({ target: 'deploy', intensity: 1, duration: 10000, context: '' }, at(0));
+
+    expect(working.salience(working.current[0], at(5))).toBeCloseTo(1.5);
+    expect(working.salience(working.current[0], at(11))).toBeCloseTo(0.5);
+
+    await working.focus({ target: 'lunch', intensity: 1, duration: 0, context: '' }, at(1));
+    await working.focus({ target: 'tests', intensity: 1, duration: 0, context: '' }, at(2));
+    expect(working.attention.map(focus => focus.target)).toEqual(['lunch', 'tests']);
+  });
+
+  it('should spill low-salience items after a focus shift and expired items', async () => {
+    working = new WorkingMemoryImpl({ capacity: 5, minSalience: 0.3 }, spill => {
+      spilled.push([spill.id, 'salience']);
+    });
+    await working.add(item('a', 'Deploy is scheduled for Friday', 0.1), at(0));
+    await working.add(item('b', 'Tests are failing on main', 0.1), at(0));
+    await working.focus({ target: 'deploy', intensity: 1, duration: 0, context: '' }, at(1));
+    expect(spilled).toEqual([['b', 'salience']]);
+
+    const expiring = new WorkingMemoryImpl({ capacity: 5 }, (spill, reason) => {
+      spilled.push([spill.id, reason]);
+    });
+    await expiring.add(item('x', 'Temporary note', 1, 0, 5000), at(0));
+    await expiring.process(task('anything'), at(6));
+    expect(spilled).toContainEqual(['x', 'expired']);
+    expect(expiring.current).toEqual([]);
+  });
+
+  it('should return the working set ordered by salience and task relevance', async () => {
+    working = new WorkingMemoryImpl({ capacity: 5, processing: 2 });
+    await working.add(item('a', 'Deploy is scheduled for Friday', 0.5), at(0));
+    await working.add(item('b', { note: 'tests failing on main' }, 0.6), at(1));
+    await working.add(item('c', 'User is hungry', 0.7), at(2));
+
+    const result = await working.process(task('fix failing tests', 'on main'), at(3));
+    expect(result.success).toBe(true);
+    expect(result.output.map(entry => entry.item.id)).toEqual(['b', 'c']);
+    // Three of the four task terms: fix, fail, test, main
+    expect(result.output[0].relevance).toBeCloseTo(0.75);
+    expect(result.confidence).toBe(0.5);
+    expect(result.metadata).toMatchObject({ taskId: 'task', held: 3, capacity: 5 });
+  });
+
+  it('should reject invalid configuration', () => {
+    expect(() => new WorkingMemoryImpl({ capacity: 0 })).toThrow('capacity');
+    expect(() => new WorkingMemoryImpl({ attention: 1.5 })).toThrow('attention');
+  });
+});
+
+describe('MemorySystemImpl working memory', () => {
+  it('should store spilled items as episodic memories', async () => {
+    const system = new MemorySystemImpl({ working: { capacity: 1 } });
+    await system.initialize();
+    await system.store({ id: 'm', type: 'semantic', content: 'Recalled fact', metadata: {}, timestamp: start });
+
+    await system.addToWorkingMemory(item('m', 'Recalled fact', 0.9));
+    await system.addToWorkingMemory(item('w', 'Meeting moved to 3pm', 0.4));
+    await system.addToWorkingMemory(item('v', 'Coffee machine is broken', 0.2));
+
+    expect((await system.getWorkingMemory()).map(current => current.id)).toEqual(['v']);
+    // Recalled memories are not stored twice
+    const episodic = await system.retrieve({ type: 'episodic' });
+    expect(episodic.map(memory => [memory.id, memory.content, memory.metadata.spillReason])).toEqual([['w', 'Meeting moved to 3pm', 'capacity']]);
+    expect(await system.getMemoryCount()).toBe(2);
+  });
+
+  it('should drop forgotten memories from working memory', async () => {
+    const system = new MemorySystemImpl({ working: { capacity: 1 } });
+    await system.initialize();
+    await system.store({ id: 'm', type: 'semantic', content: 'Recalled fact', metadata: {}, timestamp: start });
+    await system.addToWorkingMemory(item('m', 'Recalled fact', 0.9));
+
+    expect(await system.forget('m')).toBe(true);
+    expect(await system.getWorkingMemory()).toEqual([]);
+    await system.addToWorkingMemory(item('w', 'Meeting moved to 3pm', 0.4));
+    await system.addToWorkingMemory(item('v', 'Coffee machine is broken', 0.2));
+    expect((await system.retrieve({})).map(memory => memory.id)).toEqual(['w']);
+  });
+});
@@ -4,15 +4,58 @@
  * Core type definitions for AI memory management
  */
 
+import type { ClusterOptions, CompressionOptions, CompressionReport, ConflictQuery, ConflictResolution, ConflictResolutionResult, ConsolidationOptions, ConsolidationReport, DecaySweepReport, ForgetOptions, HierarchyRequest, LinkOptions, MemoryClustering, MemoryConflict, MemoryHierarchy, MemoryLink, MemoryPage, MemoryPath, MemoryQuery, MemoryRelationType, MemoryStoreResult, MemorySubgraph, MemoryTimeline, RecallOptions, RecallResult, TimelineRequest, TraversalOptions } from '../interfaces/AIPersistenceCore';
+import type { IndexedDocument } from '../implementations/MemoryIndexer';
+import type { MemoryStrength } from '../implementations/MemoryDecay';
+import type { WorkingMemoryResult } from '../implementations/WorkingMemoryImpl';
+
 export interface MemorySystem {
-  store(memory: Memory): Promise<void>;
+  // Duplicates of stored memories are handled as `config.dedup` says
+  store(memory: Memory): Promise<MemoryStoreResult>;
   retrieve(query: any): Promise<Memory[]>;
-  consolidate(): Promise<void>;
-  compress(): Promise<void>;
+  query(query: MemoryQuery): Promise<MemoryPage>;
+  // Ranked by fused lexical, semantic, recency and importance scores
+  recall(query: string, options?: RecallOptions): Promise<RecallResult[]>;
+  // Throws for pinned memories unless forced
+  forget(memoryId: string, options?: ForgetOptions): Promise<boolean>;
+  pin(memoryId: string): Promise<void>;
+  unpin(memoryId: string): Promise<void>;
+  // Demote or forget memories that have decayed
+  sweep(now?: Date): Promise<DecaySweepReport>;
+  getStrength(memoryId: string): Promise<MemoryStrength | null>;
+  consolidate(options?: ConsolidationOptions): Promise<ConsolidationReport>;
+  // Memories in the range segmented into phases, with milestones
+  timeline(request?: TimelineRequest): Promise<MemoryTimeline>;
+  // Clusters of memories in the Poincaré ball
+  cluster(options?: ClusterOptions): Promise<MemoryClustering>;
+  // Memories arranged from general to specific by embedding depth
+  hierarchy(request?: HierarchyRequest): Promise<MemoryHierarchy>;
+  // Lossless and lossy compression of old memories
+  compress(options?: CompressionOptions): Promise<CompressionReport>;
+  // Typed links between memories, removed with either memory
+  link(source: string, type: MemoryRelationType, target: string, options?: LinkOptions): Promise<MemoryLink>;
+  unlink(linkId: string): Promise<boolean>;
+  getLinks(memoryId?: string): Promise<MemoryLink[]>;
+  traverse(start: string, options?: TraversalOptions): Promise<MemorySubgraph>;
+  findPath(from: string, to: string, options?: TraversalOptions): Promise<MemoryPath | null>;
+  subgraph(ids: string[]): Promise<MemorySubgraph>;
+  // Contradictions found on storing semantic memories and linking memories as `contradicts`
+  getConflicts(query?: ConflictQuery): Promise<MemoryConflict[]>;
+  resolveConflict(id: string, action: ConflictResolution, note?: string): Promise<ConflictResolutionResult>;
+  // Conflict meta-memories recorded or resolved since the last call
+  takeConflictRecords(): Promise<Memory[]>;
+  // Short-term buffer; items spilling out of it are stored as episodic memories
+  addToWorkingMemory(item: MemoryItem): Promise<void>;
+  focus(attention: AttentionFocus): Promise<void>;
+  process(task: ProcessingTask): Promise<WorkingMemoryResult>;
+  // Episodic memories stored from working memory spills since the last call
+  takeSpilledMemories(): Promise<Memory[]>;
   initialize(): Promise<void>;
   shutdown(): Promise<void>;
   getMemories(): Promise<Memory[]>;
-  setMemories(memories: Memory[]): Promise<void>;
+  // Persisted full-text index entries are reused when they still match the content
+  setMemories(memories: Memory[], indexedDocuments?: IndexedDocument[], strengths?: MemoryStrength[], links?: MemoryLink[]): Promise<void>;
+  getIndexedDocument(memoryId: string): Promise<IndexedDocument | null>;
 }
 
 export interface Memory {
@@ -21,6 +64,8 @@ export interface Memory {
   content: string;
   metadata: Record<string, any>;
   timestamp: Date;
+  // Relevance to the content search that returned this memory
+  score?: number;
 }
 
 export interface EpisodicMemory {
@@ -99,6 +144,8 @@ export interface HyperbolicMemory {
   // Operations
   embed(memory: Memory): Promise<HyperbolicEmbedding>;
   findSimilar(embedding: HyperbolicEmbedding, threshold: number): Promise<Memory[]>;
+  findNearest(embedding: HyperbolicEmbedding, k: number): Promise<Memory[]>;
+  forget(memoryId: string): Promise<void>;
   computeDistance(embedding1: HyperbolicEmbedding, embedding2: HyperbolicEmbedding): Promise<number>;
   consolidate(embeddings: HyperbolicEmbedding[]): Promise<ConsolidatedMemory>;
   cluster(embeddings: HyperbolicEmbedding[]): Promise<HyperbolicCluster[]>;
@@ -287,6 +334,8 @@ export interface Procedure {
   steps: ProcedureStep[];
   conditions: Condition[];
   outcomes: Outcome[];
+  // Id of the skill the procedure exercises
+  skill?: string;
 }
 
 export interface Automation {
@@ -296,6 +345,8 @@ export interface Automation {
   action: Action;
   conditions: Condition[];
   schedule?: Schedule;
+  // When the automation last fired
+  lastRun?: Date;
 }
 
 export interface Habit {
@@ -305,6 +356,8 @@ export interface Habit {
   frequency: number;
   strength: number;
   context: string;
+  // Strength is as of this repetition and fades from it
+  lastPerformed?: Date;
 }
 
 export interface MemoryItem {
@@ -362,11 +415,20 @@ export interface ConsolidatedMemory {
 }
 
 export interface CompressedMemory {
+  // The compressed memory, or the summary that replaced the originals
   id: string;
+  // Ids of the memories compressed, comma separated
   original: string;
+  // Base64 of the deflated content, or the summary text
   compressed: any;
+  // gzip, deflate or brotli; summary for lossy compression
+  algorithm: string;
+  originalBytes: number;
+  compressedBytes: number;
+  // compressedBytes / originalBytes
   ratio: number;
-  quality: number;
+  // Share of the original content terms that survive; 1 for lossless compression
+  fidelity: number;
   timestamp: Date;
 }
 
@@ -401,6 +463,7 @@ export interface Timeline {
   id: string;
   events: Event[];
   phases: TimelinePhase[];
+  milestones: TimelineMilestone[];
   start: Date;
   end: Date;
 }
@@ -509,6 +572,9 @@ export interface ProcedureStep {
   action: string;
   conditions: Condition[];
   outcomes: Outcome[];
+  parameters?: Record<string, any>;
+  // Keep running the procedure when this step fails
+  continueOnError?: boolean;
 }
 
 export interface Condition {
@@ -643,6 +709,10 @@ export interface Axiom {
   statement: string;
   type: string;
   confidence: number;
+  // Ids of the concepts a disjointness axiom separates
+  concepts?: string[];
+  // Relationship type a functional, asymmetric or transitive axiom constrains
+  relation?: string;
 }
 
 export interface LevelProperties {
@@ -736,4 +806,22 @@ export interface TimelinePhase {
   start: Date;
   end: Date;
   characteristics: string[];
+  // What separated this phase from the previous one
+  boundary: PhaseBoundary;
+  // Ids of the events in the phase, in time order
+  events: string[];
+  // Most frequent terms, most frequent first
+  topics: string[];
+  location?: string;
+}
+
+export type PhaseBoundary = 'start' | 'gap' | 'location' | 'topic';
+
+export type MilestoneReason = 'marked' | 'importance' | 'keyword';
+
+export interface TimelineMilestone {
+  eventId: string;
+  timestamp: Date;
+  description: string;
+  reason: MilestoneReason;
 }
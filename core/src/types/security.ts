@@ -113,6 +113,7 @@ export interface EncryptedData {
   algorithm: string;
   keyId: string;
   iv: string;
+  authTag: string;
   timestamp: Date;
 }
 
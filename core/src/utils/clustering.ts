@@ -0,0 +1,281 @@
+/**
+ * Hyperbolic Clustering
+ *
+ * Clusters points of the Poincaré ball under geodesic distance. `kmeans` is
+ * Riemannian k-means: k-means++ seeding, then points are assigned to their
+ * nearest centroid and each centroid moves to the Fréchet mean of its
+ * members until no assignment changes. `density` is DBSCAN: points with at
+ * least `minPoints` neighbours (themselves included) within `epsilon` are
+ * core points, clusters are the core points reachable from one another plus
+ * the points within `epsilon` of them, and everything else is noise.
+ *
+ * Every cluster reports its radius (largest member distance from the
+ * centroid), cohesion (1 / (1 + mean member distance), so 1 is a single
+ * point), density (members per unit of radius beyond the first) and
+ * separation (distance from its centroid to the nearest other centroid, 0
+ * when it is the only cluster).
+ */
+
+import { ClusterOptions } from '../interfaces/AIPersistenceCore';
+import { HyperbolicCluster, HyperbolicEmbedding } from '../types/memory';
+import { expMap, expMap0, logMap, logMap0, norm, poincareDistance, project } from './hyperbolic';
+import { mulberry32 } from './random';
+import { mergeOptions } from './options';
+
+export interface ClusterPoint {
+  id: string;
+  vector: number[];
+}
+
+export interface PointCluster {
+  center: number[];
+  // Point ids, in input order
+  members: string[];
+  radius: number;
+  cohesion: number;
+  density: number;
+  separation: number;
+}
+
+export interface PointClustering {
+  clusters: PointCluster[];
+  // Points the density method left out of every cluster
+  noise: string[];
+  // k-means refinement rounds; 0 for the density method
+  iterations: number;
+}
+
+export const DEFAULT_CLUSTER_OPTIONS: Required<ClusterOptions> = {
+  method: 'kmeans',
+  types: [],
+  k: 0,
+  maxIterations: 50,
+  seed: 1,
+  epsilon: 1,
+  minPoints: 3
+};
+
+const CLUSTER_METHODS = ['kmeans', 'density'];
+
+// Fréchet means stop once the mean tangent step is this short
+const MEAN_TOLERANCE = 1e-10;
+const MEAN_ITERATIONS = 100;
+
+/**
+ * Fill in defaults and throw on options that cannot cluster
+ */
+export function resolveClusterOptions(...layers: Array<ClusterOptions | undefined>): Required<ClusterOptions> {
+  const options = mergeOptions<Required<ClusterOptions>>(DEFAULT_CLUSTER_OPTIONS, ...layers);
+
+  if (!CLUSTER_METHODS.includes(options.method)) {
+    throw new Error(`Invalid cluster options: unknown method ${options.method}; expected one of ${CLUSTER_METHODS.join(', ')}`);
+  }
+  if (!Array.isArray(options.types) || options.types.some(type => typeof type !== 'string')) {
+    throw new Error('Invalid cluster options: types must be a list of memory types');
+  }
+  if (!(Number.isInteger(options.k) && options.k >= 0)) {
+    throw new Error(`Invalid cluster options: k must be a non-negative integer, got ${options.k}`);
+  }
+  if (!(Number.isInteger(options.maxIterations) && options.maxIterations >= 1)) {
+    throw new Error(`Invalid cluster options: maxIterations must be a positive integer, got ${options.maxIterations}`);
+  }
+  if (!Number.isFinite(options.seed)) {
+    throw new Error(`Invalid cluster options: seed must be a number, got ${options.seed}`);
+  }
+  if (!(options.epsilon > 0)) {
+    throw new Error(`Invalid cluster options: epsilon must be positive, got ${options.epsilon}`);
+  }
+  if (!(Number.isInteger(options.minPoints) && options.minPoints >= 1)) {
+    throw new Error(`Invalid cluster options: minPoints must be a positive integer, got ${options.minPoints}`);
+  }
+  return options;
+}
+
+/**
+ * The point minimizing the sum of squared geodesic distances to the
+ * vectors, found by Karcher flow from the mean taken at the origin
+ */
+export function frechetMean(vectors: number[][], curvature: number = -1): number[] {
+  if (vectors.length === 0) {
+    throw new Error('Cannot take the Fréchet mean of no points');
+  }
+  if (vectors.length === 1) {
+    return vectors[0].slice();
+  }
+
+  let mean = expMap0(average(vectors.map(vector => logMap0(vector, curvature))), curvature);
+  for (let iteration = 0; iteration < MEAN_ITERATIONS; iteration++) {
+    const step = average(vectors.map(vector => logMap(mean, vector, curvature)));
+    mean = project(expMap(mean, step, curvature), curvature);
+    if (norm(step) < MEAN_TOLERANCE) {
+      break;
+    }
+  }
+  return mean;
+}
+
+/**
+ * Cluster the points with the method the options name
+ */
+export function clusterPoints(points: ClusterPoint[], options: Required<ClusterOptions>, curvature: number = -1): PointClustering {
+  return options.method === 'density'
+    ? densityClusters(points, options.epsilon, options.minPoints, curvature)
+    : kMeans(points, options.k || Math.round(Math.sqrt(points.length / 2)), options.maxIterations, options.seed, curvature);
+}
+
+export function kMeans(points: ClusterPoint[], k: number, maxIterations: number = 50, seed: number = 1, curvature: number = -1): PointClustering {
+  if (points.length === 0) {
+    return { clusters: [], noise: [], iterations: 0 };
+  }
+  const count = Math.max(1, Math.min(k, points.length));
+  let centers = seedCenters(points, count, mulberry32(seed), curvature);
+  let assignment: number[] = [];
+  let iterations = 0;
+
+  while (iterations < maxIterations) {
+    const next = points.map(point => nearest(point.vector, centers, curvature));
+    iterations++;
+    const changed = next.some((center, position) => center !== assignment[position]);
+    assignment = next;
+    centers = centers.map((center, index) => {
+      const members = points.filter((_point, position) => assignment[position] === index);
+      // An emptied cluster keeps its centroid and may win points back
+      return members.length > 0 ? frechetMean(members.map(member => member.vector), curvature) : center;
+    });
+    if (!changed) {
+      break;
+    }
+  }
+
+  const groups = centers.map((_center, index) => points.filter((_point, position) => assignment[position] === index));
+  return { clusters: describeClusters(groups.filter(group => group.length > 0), curvature), noise: [], iterations };
+}
+
+export function densityClusters(points: ClusterPoint[], epsilon: number, minPoints: number, curvature: number = -1): PointClustering {
+  const neighbours = points.map(point =>
+    points.flatMap((other, position) => poincareDistance(point.vector, other.vector, curvature) <= epsilon ? [position] : []));
+  const core = neighbours.map(list => list.length >= minPoints);
+  const labels: number[] = points.map(() => -1);
+  let cluster = 0;
+
+  for (let start = 0; start < points.length; start++) {
+    if (!core[start] || labels[start] >= 0) {
+      continue;
+    }
+    const queue = [start];
+    labels[start] = cluster;
+    while (queue.length > 0) {
+      const position = queue.shift()!;
+      if (!core[position]) {
+        continue;
+      }
+      for (const neighbour of neighbours[position]) {
+        if (labels[neighbour] < 0) {
+          labels[neighbour] = cluster;
+          queue.push(neighbour);
+        }
+      }
+    }
+    cluster++;
+  }
+
+  const groups = Array.from({ length: cluster }, (_unused, index) => points.filter((_point, position) => labels[position] === index));
+  return {
+    clusters: describeClusters(groups, curvature),
+    noise: points.filter((_point, position) => labels[position] < 0).map(point => point.id),
+    iterations: 0
+  };
+}
+
+/**
+ * A cluster's centroid as an embedding whose relationships are the members
+ */
+export function centerEmbedding(id: string, cluster: PointCluster, curvature: number = -1): HyperbolicEmbedding {
+  return {
+    id,
+    vector: cluster.center,
+    norm: norm(cluster.center),
+    curvature,
+    timestamp: new Date(),
+    metadata: { dimension: cluster.center.length, quality: cluster.cohesion, confidence: cluster.cohesion, source: 'frechet-mean' },
+    relationships: cluster.members
+  };
+}
+
+/**
+ * The cluster as a HyperbolicCluster of the members' embeddings
+ */
+export function toHyperbolicCluster(id: string, cluster: PointCluster, embeddings: Map<string, HyperbolicEmbedding>, curvature: number = -1): HyperbolicCluster {
+  return {
+    id,
+    center: centerEmbedding(id, cluster, curvature),
+    members: cluster.members.flatMap(member => embeddings.has(member) ? [embeddings.get(member)!] : []),
+    radius: cluster.radius,
+    density: cluster.density,
+    cohesion: cluster.cohesion
+  };
+}
+
+// k-means++: each further centroid is drawn with probability proportional to
+// its squared distance from the nearest centroid chosen so far
+function seedCenters(points: ClusterPoint[], count: number, random: () => number, curvature: number): number[][] {
+  const centers = [points[Math.floor(random() * points.length)].vector];
+  while (centers.length < count) {
+    const weights = points.map(point => Math.min(...centers.map(center => poincareDistance(point.vector, center, curvature))) ** 2);
+    const total = weights.reduce((sum, weight) => sum + weight, 0);
+    if (total === 0) {
+      // Fewer distinct points than clusters
+      break;
+    }
+    let target = random() * total;
+    let chosen = weights.findIndex(weight => (target -= weight) < 0);
+    if (chosen < 0) {
+      chosen = weights.length - 1;
+    }
+    centers.push(points[chosen].vector);
+  }
+  return centers;
+}
+
+function nearest(vector: number[], centers: number[][], curvature: number): number {
+  let best = 0;
+  let bestDistance = Infinity;
+  centers.forEach((center, index) => {
+    const distance = poincareDistance(vector, center, curvature);
+    if (distance < bestDistance) {
+      best = index;
+      bestDistance = distance;
+    }
+  });
+  return best;
+}
+
+// Largest clusters first; ties keep the order clusters were found in
+function describeClusters(groups: ClusterPoint[][], curvature: number): PointCluster[] {
+  const centers = groups.map(group => frechetMean(group.map(point => point.vector), curvature));
+  return groups
+    .map((group, index) => {
+      const distances = group.map(point => poincareDistance(point.vector, centers[index], curvature));
+      const radius = Math.max(...distances);
+      const others = centers.filter((_center, other) => other !== index).map(center => poincareDistance(centers[index], center, curvature));
+      return {
+        center: centers[index],
+        members: group.map(point => point.id),
+        radius,
+        cohesion: 1 / (1 + distances.reduce((sum, distance) => sum + distance, 0) / group.length),
+        density: group.length / (1 + radius),
+        separation: others.length > 0 ? Math.min(...others) : 0
+      };
+    })
+    .sort((a, b) => b.members.length - a.members.length);
+}
+
+function average(vectors: number[][]): number[] {
+  const sum = vectors[0].map(() => 0);
+  for (const vector of vectors) {
+    vector.forEach((value, position) => {
+      sum[position] += value;
+    });
+  }
+  return sum.map(value => value / vectors.length);
+}
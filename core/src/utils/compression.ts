@@ -0,0 +1,170 @@
+/**
+ * Memory Compression
+ *
+ * Lossless compression deflates a memory's content with gzip, deflate or
+ * brotli for cold storage; `inflateMemories` restores it when stored
+ * memories are read back. Lossy compression replaces a group of similar
+ * memories with an extractive summary. Both report byte ratios over the
+ * UTF-8 content and a fidelity score: the share of the originals' content
+ * terms that can still be read back, 1 for lossless compression.
+ */
+
+import { brotliCompressSync, brotliDecompressSync, constants, deflateSync, gunzipSync, gzipSync, inflateSync } from 'zlib';
+import { CompressionAlgorithm, CompressionOptions, Memory } from '../interfaces/AIPersistenceCore';
+import { CompressedMemory } from '../types/memory';
+import { terms } from './text';
+import { mergeOptions } from './options';
+
+export const COMPRESSION_ALGORITHMS: CompressionAlgorithm[] = ['gzip', 'deflate', 'brotli'];
+
+// Algorithm of lossy compression records
+export const SUMMARY_ALGORITHM = 'summary';
+
+export const DEFAULT_COMPRESSION_OPTIONS: Required<CompressionOptions> = {
+  types: [],
+  olderThan: 30 * 24 * 60 * 60 * 1000,
+  algorithm: 'gzip',
+  level: 6,
+  threshold: 256,
+  lossy: false,
+  maxDistance: 0.5,
+  minGroupSize: 3,
+  summarySentences: 3
+};
+
+const MAX_LEVELS: Record<CompressionAlgorithm, number> = { gzip: 9, deflate: 9, brotli: 11 };
+
+/**
+ * Fill in defaults and throw on options that cannot compress
+ */
+export function resolveCompressionOptions(...layers: Array<CompressionOptions | undefined>): Required<CompressionOptions> {
+  const options = mergeOptions<Required<CompressionOptions>>(DEFAULT_COMPRESSION_OPTIONS, ...layers);
+
+  if (!Array.isArray(options.types) || options.types.some(type => typeof type !== 'string')) {
+    throw new Error('Invalid compression options: types must be a list of memory types');
+  }
+  if (!(options.olderThan >= 0)) {
+    throw new Error(`Invalid compression options: olderThan must be non-negative, got ${options.olderThan}`);
+  }
+  if (!COMPRESSION_ALGORITHMS.includes(options.algorithm)) {
+    throw new Error(`Invalid compression options: unknown algorithm ${options.algorithm}; expected one of ${COMPRESSION_ALGORITHMS.join(', ')}`);
+  }
+  if (!(Number.isInteger(options.level) && options.level >= 0 && options.level <= MAX_LEVELS[options.algorithm])) {
+    throw new Error(`Invalid compression options: level must be an integer from 0 to ${MAX_LEVELS[options.algorithm]} for ${options.algorithm}, got ${options.level}`);
+  }
+  if (!(options.threshold >= 0)) {
+    throw new Error(`Invalid compression options: threshold must be non-negative, got ${options.threshold}`);
+  }
+  if (typeof options.lossy !== 'boolean') {
+    throw new Error('Invalid compression options: lossy must be true or false');
+  }
+  if (!(options.maxDistance > 0)) {
+    throw new Error(`Invalid compression options: maxDistance must be positive, got ${options.maxDistance}`);
+  }
+  if (!(Number.isInteger(options.minGroupSize) && options.minGroupSize >= 2)) {
+    throw new Error(`Invalid compression options: minGroupSize must be an integer of at least 2, got ${options.minGroupSize}`);
+  }
+  if (!(Number.isInteger(options.summarySentences) && options.summarySentences >= 1)) {
+    throw new Error(`Invalid compression options: summarySentences must be a positive integer, got ${options.summarySentences}`);
+  }
+  return options;
+}
+
+/**
+ * The memory's content deflated with the algorithm
+ */
+export function compressContent(memory: Memory, algorithm: CompressionAlgorithm = 'gzip', level: number = 6): CompressedMemory {
+  const original = Buffer.from(memory.content, 'utf8');
+  const compressed = deflate(original, algorithm, level);
+  return {
+    id: memory.id,
+    original: memory.id,
+    compressed: compressed.toString('base64'),
+    algorithm,
+    originalBytes: original.length,
+    compressedBytes: compressed.length,
+    ratio: original.length > 0 ? compressed.length / original.length : 1,
+    fidelity: 1,
+    timestamp: new Date()
+  };
+}
+
+/**
+ * The content a lossless compression record holds
+ */
+export function decompressContent(record: CompressedMemory): string {
+  const compressed = Buffer.from(record.compressed, 'base64');
+  switch (record.algorithm) {
+    case 'gzip':
+      return gunzipSync(compressed).toString('utf8');
+    case 'deflate':
+      return inflateSync(compressed).toString('utf8');
+    case 'brotli':
+      return brotliDecompressSync(compressed).toString('utf8');
+    default:
+      throw new Error(`Cannot decompress memory ${record.id}: unknown algorithm ${record.algorithm}`);
+  }
+}
+
+/**
+ * The record of `summary` replacing `sources`
+ */
+export function summaryRecord(summary: Memory, sources: Memory[]): CompressedMemory {
+  const originalBytes = sources.reduce((sum, source) => sum + Buffer.byteLength(source.content, 'utf8'), 0);
+  const compressedBytes = Buffer.byteLength(summary.content, 'utf8');
+  return {
+    id: summary.id,
+    original: sources.map(source => source.id).join(','),
+    compressed: summary.content,
+    algorithm: SUMMARY_ALGORITHM,
+    originalBytes,
+    compressedBytes,
+    ratio: originalBytes > 0 ? compressedBytes / originalBytes : 1,
+    fidelity: contentFidelity(sources.map(source => source.content), summary.content),
+    timestamp: new Date()
+  };
+}
+
+/**
+ * Share of the distinct content terms of `originals` that `text` keeps;
+ * 1 when the originals have none
+ */
+export function contentFidelity(originals: string[], text: string): number {
+  const original = new Set(originals.flatMap(terms));
+  if (original.size === 0) {
+    return 1;
+  }
+  const kept = new Set(terms(text));
+  let shared = 0;
+  for (const term of original) {
+    if (kept.has(term)) {
+      shared++;
+    }
+  }
+  return shared / original.size;
+}
+
+/**
+ * Stored memories with the content of those in cold storage restored from
+ * their compression records
+ */
+export function inflateMemories<T extends Memory>(memories: T[], records: CompressedMemory[]): T[] {
+  const byId = new Map(records.map(record => [record.id, record]));
+  return memories.map(memory => {
+    const record = byId.get(memory.id);
+    return record && record.algorithm !== SUMMARY_ALGORITHM ? { ...memory, content: decompressContent(record) } : memory;
+  });
+}
+
+function deflate(content: Buffer, algorithm: CompressionAlgorithm, level: number): Buffer {
+  switch (algorithm) {
+    case 'gzip':
+      return gzipSync(content, { level });
+    case 'deflate':
+      return deflateSync(content, { level });
+    case 'brotli':
+      return brotliCompressSync(content, {
+        params: { [constants.BROTLI_PARAM_QUALITY]: level, [constants.BROTLI_PARAM_SIZE_HINT]: content.length }
+      });
+  }
+}
@@ -0,0 +1,210 @@
+/**
+ * Memory Consolidation
+ *
+ * Groups related memories by embedding proximity and time, and summarizes a
+ * group extractively. Grouping sweeps the memories in time order and adds
+ * each one to the open group it is closest to, provided it lies within
+ * `maxDistance` of every member (complete linkage, so groups cannot drift
+ * through chains of near neighbours). A group closes once `timeWindow` passes
+ * without a new member.
+ */
+
+import { ConsolidationOptions, Memory } from '../interfaces/AIPersistenceCore';
+import { poincareDistance } from './hyperbolic';
+import { terms } from './text';
+import { mergeOptions } from './options';
+
+export interface ConsolidationCandidate {
+  memory: Memory;
+  embedding: number[];
+}
+
+export interface MemoryGroupingOptions {
+  maxDistance: number;
+  timeWindow: number;
+  minGroupSize: number;
+  curvature?: number;
+}
+
+export interface CandidateGroup {
+  members: ConsolidationCandidate[];
+  // Mean pairwise hyperbolic distance between members
+  spread: number;
+}
+
+interface OpenGroup {
+  members: ConsolidationCandidate[];
+  distances: number;
+  last: number;
+}
+
+export const DEFAULT_CONSOLIDATION_OPTIONS: Required<ConsolidationOptions> = {
+  types: ['episodic'],
+  maxDistance: 1.5,
+  timeWindow: 24 * 60 * 60 * 1000,
+  minGroupSize: 2,
+  summarySentences: 3,
+  archive: false
+};
+
+// Sentences whose term sets overlap more than this (Jaccard) are repeats
+const DUPLICATE_SIMILARITY = 0.8;
+// Sentences scoring below this share of the best one are off-topic
+const MIN_RELATIVE_SCORE = 0.5;
+
+/**
+ * Fill in defaults and throw on options that cannot form groups
+ */
+export function resolveConsolidationOptions(...layers: Array<ConsolidationOptions | undefined>): Required<ConsolidationOptions> {
+  const options = mergeOptions<Required<ConsolidationOptions>>(DEFAULT_CONSOLIDATION_OPTIONS, ...layers);
+
+  if (!Array.isArray(options.types) || options.types.some(type => typeof type !== 'string')) {
+    throw new Error('Invalid consolidation options: types must be a list of memory types');
+  }
+  if (!(options.maxDistance > 0)) {
+    throw new Error(`Invalid consolidation options: maxDistance must be positive, got ${options.maxDistance}`);
+  }
+  if (!(options.timeWindow >= 0)) {
+    throw new Error(`Invalid consolidation options: timeWindow must be non-negative, got ${options.timeWindow}`);
+  }
+  if (!(Number.isInteger(options.minGroupSize) && options.minGroupSize >= 2)) {
+    throw new Error(`Invalid consolidation options: minGroupSize must be an integer of at least 2, got ${options.minGroupSize}`);
+  }
+  if (!(Number.isInteger(options.summarySentences) && options.summarySentences >= 1)) {
+    throw new Error(`Invalid consolidation options: summarySentences must be a positive integer, got ${options.summarySentences}`);
+  }
+  return options;
+}
+
+/**
+ * Groups of at least `minGroupSize` related memories, oldest group first
+ */
+export function groupMemories(candidates: ConsolidationCandidate[], options: MemoryGroupingOptions): CandidateGroup[] {
+  const sorted = [...candidates].sort((a, b) =>
+    a.memory.timestamp.getTime() - b.memory.timestamp.getTime() || (a.memory.id < b.memory.id ? -1 : 1));
+  const open: OpenGroup[] = [];
+  const closed: OpenGroup[] = [];
+
+  for (const candidate of sorted) {
+    const time = candidate.memory.timestamp.getTime();
+    for (let i = open.length - 1; i >= 0; i--) {
+      if (time - open[i].last > options.timeWindow) {
+        closed.push(...open.splice(i, 1));
+      }
+    }
+
+    let best: { group: OpenGroup; total: number } | null = null;
+    for (const group of open) {
+      const distances = group.members.map(member => poincareDistance(member.embedding, candidate.embedding, options.curvature));
+      if (distances.some(distance => distance > options.maxDistance)) {
+        continue;
+      }
+      const total = distances.reduce((sum, distance) => sum + distance, 0);
+      if (!best || total / group.members.length < best.total / best.group.members.length) {
+        best = { group, total };
+      }
+    }
+
+    if (best) {
+      best.group.members.push(candidate);
+      best.group.distances += best.total;
+      best.group.last = time;
+    } else {
+      open.push({ members: [candidate], distances: 0, last: time });
+    }
+  }
+
+  return [...closed, ...open]
+    .filter(group => group.members.length >= options.minGroupSize)
+    .sort((a, b) => a.members[0].memory.timestamp.getTime() - b.members[0].memory.timestamp.getTime())
+    .map(group => {
+      const pairs = group.members.length * (group.members.length - 1) / 2;
+      return { members: group.members, spread: group.distances / pairs };
+    });
+}
+
+/**
+ * Extractive summary of the memories: the sentences whose terms recur most
+ * across the group, skipping repeats and off-topic asides, kept in their
+ * original order
+ */
+export function summarizeMemories(memories: Memory[], maxSentences: number = 3): string {
+  const sentences = memories
+    .slice()
+    .sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime())
+    .flatMap(memory => splitSentences(memory.content))
+    .map((text, position) => ({ text, position, terms: new Set(terms(text)) }));
+
+  // How many memories use each term
+  const frequency = new Map<string, number>();
+  for (const memory of memories) {
+    for (const term of new Set(terms(memory.content))) {
+      frequency.set(term, (frequency.get(term) || 0) + 1);
+    }
+  }
+
+  const ranked = sentences
+    .filter(sentence => sentence.terms.size > 0)
+    .map(sentence => {
+      const weight = Array.from(sentence.terms).reduce((sum, term) => sum + frequency.get(term)!, 0);
+      // Square-root length normalization favours informative over merely long sentences
+      return { ...sentence, score: weight / Math.sqrt(sentence.terms.size) };
+    })
+    .sort((a, b) => b.score - a.score || a.position - b.position);
+
+  const chosen: typeof ranked = [];
+  for (const sentence of ranked) {
+    if (chosen.length >= maxSentences || sentence.score < ranked[0].score * MIN_RELATIVE_SCORE) {
+      break;
+    }
+    if (!chosen.some(other => jaccard(other.terms, sentence.terms) > DUPLICATE_SIMILARITY)) {
+      chosen.push(sentence);
+    }
+  }
+
+  return chosen
+    .sort((a, b) => a.position - b.position)
+    .map(sentence => sentence.text)
+    .join(' ');
+}
+
+/**
+ * Metadata for the memory consolidating `sources`: provenance, the time span
+ * covered, the union of their tags and the highest importance among them
+ */
+export function consolidatedMetadata(sources: Memory[]): Record<string, any> {
+  const times = sources.map(memory => memory.timestamp.getTime());
+  const importances = sources
+    .map(memory => Number(memory.metadata?.importance))
+    .filter(importance => Number.isFinite(importance));
+  const tags = new Set(sources.flatMap(memory => Array.isArray(memory.metadata?.tags) ? memory.metadata.tags : []));
+
+  const metadata: Record<string, any> = {
+    source: 'consolidation',
+    sourceMemories: sources.map(memory => memory.id),
+    timeRange: { start: new Date(Math.min(...times)).toISOString(), end: new Date(Math.max(...times)).toISOString() },
+    tags: Array.from(tags)
+  };
+  if (importances.length > 0) {
+    metadata.importance = Math.max(...importances);
+  }
+  return metadata;
+}
+
+function splitSentences(content: string): string[] {
+  return content
+    .split(/(?<=[.!?])\s+|\n+/)
+    .map(sentence => sentence.trim())
+    .filter(sentence => sentence.length > 0)
+    .map(sentence => /[.!?]$/.test(sentence) ? sentence : `${sentence}.`);
+}
+
+function jaccard(a: Set<string>, b: Set<string>): number {
+  let shared = 0;
+  for (const term of a) {
+    if (b.has(term)) {
+      shared++;
+    }
+  }
+  return shared / (a.size + b.size - shared);
+}
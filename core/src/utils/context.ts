@@ -0,0 +1,144 @@
+/**
+ * Context Assembly
+ *
+ * Fits candidate prompt lines into a token budget. Sections are filled in
+ * priority order and each section's candidates in rank order; a candidate
+ * that does not fit is skipped, so smaller ones after it can still use the
+ * remaining budget. A section's heading only costs tokens once the section
+ * has an item.
+ */
+
+import { AssembledContext, ContextRequest, ContextSection, ContextSectionName, TokenEstimator } from '../interfaces/AIPersistenceCore';
+import { AIIdentity } from '../types/identity';
+import { validateRecallOptions } from './recall';
+
+export const CONTEXT_SECTIONS: ContextSectionName[] = ['identity', 'working', 'memories', 'learning'];
+
+export const CONTEXT_SECTION_TITLES: Record<ContextSectionName, string> = {
+  identity: 'Identity',
+  working: 'Working memory',
+  memories: 'Relevant memories',
+  learning: 'Recent learning'
+};
+
+export const DEFAULT_TOKEN_BUDGET = 2000;
+
+/**
+ * Rough token count for English text: about four characters per token
+ */
+export const estimateTokens: TokenEstimator = text => Math.ceil(text.length / 4);
+
+export interface ContextCandidate {
+  id: string;
+  text: string;
+  score?: number;
+}
+
+/**
+ * Throw on requests that cannot be assembled
+ */
+export function validateContextRequest(request: ContextRequest): void {
+  if (request.tokenBudget !== undefined && !(Number.isInteger(request.tokenBudget) && request.tokenBudget > 0)) {
+    throw new Error(`Invalid context request: tokenBudget must be a positive integer, got ${request.tokenBudget}`);
+  }
+  if (request.sections !== undefined) {
+    if (!Array.isArray(request.sections)) {
+      throw new Error('Invalid context request: sections must be a list of section names');
+    }
+    for (const section of request.sections) {
+      if (!CONTEXT_SECTIONS.includes(section)) {
+        throw new Error(`Invalid context request: unknown section ${section}; expected one of ${CONTEXT_SECTIONS.join(', ')}`);
+      }
+    }
+  }
+  if (request.learningLimit !== undefined && !(Number.isInteger(request.learningLimit) && request.learningLimit >= 0)) {
+    throw new Error(`Invalid context request: learningLimit must be a non-negative integer, got ${request.learningLimit}`);
+  }
+  if (request.estimateTokens !== undefined && typeof request.estimateTokens !== 'function') {
+    throw new Error('Invalid context request: estimateTokens must be a function');
+  }
+  if (request.recall !== undefined) {
+    validateRecallOptions(request.recall);
+  }
+}
+
+/**
+ * Fill the sections, in the given order, with as many candidates as fit
+ * within `tokenBudget`
+ */
+export function fitContext(
+  candidates: Partial<Record<ContextSectionName, ContextCandidate[]>>,
+  sections: ContextSectionName[],
+  tokenBudget: number,
+  estimate: TokenEstimator = estimateTokens
+): AssembledContext {
+  const fitted: ContextSection[] = [];
+  let used = 0;
+
+  for (const name of sections) {
+    const title = CONTEXT_SECTION_TITLES[name];
+    const section: ContextSection = { name, title, items: [], tokens: 0, omitted: [] };
+    const headingTokens = estimate(heading(title));
+
+    for (const candidate of candidates[name] || []) {
+      const tokens = estimate(line(candidate.text));
+      const cost = tokens + (section.items.length === 0 ? headingTokens : 0);
+      if (used + cost > tokenBudget) {
+        section.omitted.push(candidate.id);
+        continue;
+      }
+      section.items.push({ id: candidate.id, text: candidate.text, tokens, ...(candidate.score !== undefined ? { score: candidate.score } : {}) });
+      section.tokens += cost;
+      used += cost;
+    }
+
+    if (section.items.length > 0 || section.omitted.length > 0) {
+      fitted.push(section);
+    }
+  }
+
+  return {
+    text: renderContext(fitted),
+    sections: fitted,
+    tokens: used,
+    tokenBudget,
+    provenance: fitted.flatMap(section => section.items.map(item => item.id))
+  };
+}
+
+/**
+ * Markdown-style prompt text: a heading per non-empty section and a bullet per item
+ */
+export function renderContext(sections: ContextSection[]): string {
+  return sections
+    .filter(section => section.items.length > 0)
+    .map(section => [heading(section.title), ...section.items.map(item => line(item.text))].join('\n'))
+    .join('\n\n');
+}
+
+/**
+ * One-line profile of an identity for the identity section
+ */
+export function describeIdentity(identity: AIIdentity): string {
+  const parts = [`Identity ${identity.id} (${identity.status})`];
+  if (identity.capabilities.length > 0) {
+    parts.push(`capabilities: ${identity.capabilities.join(', ')}`);
+  }
+  if (identity.limitations.length > 0) {
+    parts.push(`limitations: ${identity.limitations.join(', ')}`);
+  }
+  const preferences = Object.entries(identity.preferences || {});
+  if (preferences.length > 0) {
+    parts.push(`preferences: ${preferences.map(([key, value]) => `${key}=${typeof value === 'string' ? value : JSON.stringify(value)}`).join(', ')}`);
+  }
+  return parts.join('; ');
+}
+
+function heading(title: string): string {
+  return `## ${title}`;
+}
+
+function line(text: string): string {
+  // Items are single bullets, so line breaks inside them are flattened
+  return `- ${text.replace(/\s*\n\s*/g, ' ')}`;
+}
@@ -0,0 +1,168 @@
+/**
+ * Contradiction Detection
+ *
+ * Semantic memories may state facts about a concept as `metadata.concept`
+ * and `metadata.properties`. Two such memories about the same concept
+ * contradict each other when they give one of its properties different
+ * values; a `contradicts` link between two memories is a contradiction by
+ * declaration. Each contradiction is recorded as a meta-memory holding the
+ * conflict in `metadata.conflict`, so it persists with the other memories.
+ * Conflict records are kept out of search, recall, listings, decay,
+ * consolidation and compression, and are reached through the conflict
+ * queries alone.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { ConflictKind, ConflictQuery, ConflictResolution, ConflictStatus, Memory, MemoryConflict } from '../interfaces/AIPersistenceCore';
+
+export const CONFLICT_RESOLUTIONS: ConflictResolution[] = ['keep-newer', 'keep-confident', 'keep-both'];
+
+export const CONFLICT_STATUSES: ConflictStatus[] = ['open', 'resolved', 'all'];
+
+// Memory type whose facts are checked against each other
+export const FACT_TYPE = 'semantic';
+
+// Type and source of the meta-memories recording conflicts
+export const CONFLICT_RECORD_TYPE = 'meta';
+export const CONFLICT_SOURCE = 'contradiction';
+
+// Confidence assumed for memories without metadata.confidence
+const DEFAULT_CONFIDENCE = 0.5;
+
+export interface PropertyConflict {
+  concept: string;
+  property: string;
+  // The first memory's value, then the second's
+  values: [any, any];
+}
+
+/**
+ * Throw on queries that cannot select conflicts
+ */
+export function validateConflictQuery(query: ConflictQuery): void {
+  if (query.status !== undefined && !CONFLICT_STATUSES.includes(query.status)) {
+    throw new Error(`Invalid conflict query: unknown status ${query.status}; expected one of ${CONFLICT_STATUSES.join(', ')}`);
+  }
+  if (query.memoryId !== undefined && typeof query.memoryId !== 'string') {
+    throw new Error('Invalid conflict query: memoryId must be a string');
+  }
+}
+
+/**
+ * Properties both memories give their shared concept with different values;
+ * none unless both are semantic memories about the same concept
+ */
+export function propertyConflicts(a: Memory, b: Memory): PropertyConflict[] {
+  const first = facts(a);
+  const second = facts(b);
+  if (!first || !second || normalize(first.concept) !== normalize(second.concept)) {
+    return [];
+  }
+
+  const conflicts: PropertyConflict[] = [];
+  for (const [property, value] of Object.entries(first.properties)) {
+    if (property in second.properties && !sameValue(value, second.properties[property])) {
+      conflicts.push({ concept: first.concept, property, values: [value, second.properties[property]] });
+    }
+  }
+  return conflicts;
+}
+
+/**
+ * A meta-memory recording that `a` and `b` conflict, the older of the two first
+ */
+export function conflictRecord(kind: ConflictKind, a: Memory, b: Memory, details: Partial<MemoryConflict> = {}): Memory {
+  const [older, newer] = byAge(a, b);
+  const values = details.values && older.id !== a.id ? [...details.values].reverse() : details.values;
+  const description = kind === 'property'
+    ? `Facts disagree on ${details.concept} ${details.property}: ${JSON.stringify(values![0])} vs ${JSON.stringify(values![1])}`
+    : `"${a.content}" contradicts "${b.content}"`;
+  const conflict: Omit<MemoryConflict, 'id'> = {
+    kind,
+    memories: [older.id, newer.id],
+    description,
+    ...details,
+    ...(values ? { values } : {}),
+    detectedAt: new Date()
+  };
+
+  return {
+    id: uuidv4(),
+    type: CONFLICT_RECORD_TYPE,
+    content: `Conflict: ${description}`,
+    metadata: { source: CONFLICT_SOURCE, tags: ['conflict'], importance: 0.8, conflict },
+    timestamp: conflict.detectedAt
+  };
+}
+
+/**
+ * The conflict a meta-memory records, or null for any other memory
+ */
+export function conflictOf(memory: Memory): MemoryConflict | null {
+  const conflict = memory.metadata?.conflict;
+  if (memory.type !== CONFLICT_RECORD_TYPE || memory.metadata?.source !== CONFLICT_SOURCE || !conflict) {
+    return null;
+  }
+  return {
+    id: memory.id,
+    ...conflict,
+    detectedAt: new Date(conflict.detectedAt),
+    ...(conflict.resolution ? { resolution: { ...conflict.resolution, resolvedAt: new Date(conflict.resolution.resolvedAt) } } : {})
+  };
+}
+
+/**
+ * Whether the conflict matches the query; open conflicts when no status is given
+ */
+export function conflictMatches(conflict: MemoryConflict, query: ConflictQuery = {}): boolean {
+  const status = query.status || 'open';
+  if (status !== 'all' && (status === 'resolved') !== Boolean(conflict.resolution)) {
+    return false;
+  }
+  return query.memoryId === undefined || conflict.memories.includes(query.memoryId);
+}
+
+/**
+ * The memory a resolution keeps: the newer one, or the more confident one
+ * with ties going to the newer; null when both are kept
+ */
+export function resolutionWinner(action: ConflictResolution, a: Memory, b: Memory): Memory | null {
+  const [older, newer] = byAge(a, b);
+  if (action === 'keep-newer') {
+    return newer;
+  }
+  if (action === 'keep-confident') {
+    return confidence(older) > confidence(newer) ? older : newer;
+  }
+  return null;
+}
+
+function facts(memory: Memory): { concept: string; properties: Record<string, any> } | null {
+  const { concept, properties } = memory.metadata || {};
+  if (memory.type !== FACT_TYPE || typeof concept !== 'string' || !concept.trim() ||
+    !properties || typeof properties !== 'object' || Array.isArray(properties)) {
+    return null;
+  }
+  return { concept, properties };
+}
+
+// Strings compare ignoring case and surrounding whitespace, anything else by its JSON
+function sameValue(a: any, b: any): boolean {
+  if (typeof a === 'string' && typeof b === 'string') {
+    return normalize(a) === normalize(b);
+  }
+  return JSON.stringify(a) === JSON.stringify(b);
+}
+
+function normalize(text: string): string {
+  return text.trim().toLowerCase();
+}
+
+function byAge(a: Memory, b: Memory): [Memory, Memory] {
+  return new Date(b.timestamp).getTime() < new Date(a.timestamp).getTime() ? [b, a] : [a, b];
+}
+
+function confidence(memory: Memory): number {
+  const value = Number(memory.metadata?.confidence);
+  return Number.isFinite(value) ? value : DEFAULT_CONFIDENCE;
+}
@@ -0,0 +1,163 @@
+/**
+ * Duplicate Detection
+ *
+ * Exact duplicates share a SHA-256 hash of their content with case and
+ * whitespace normalized. Near-duplicates are found with MinHash: content is
+ * split into overlapping three-word shingles, and the share of equal minima
+ * over `SIGNATURE_SIZE` hash functions estimates the Jaccard similarity of two
+ * shingle sets. Signatures are banded for locality-sensitive hashing, so only
+ * memories sharing a band are compared; with bands of two rows, pairs down to
+ * a similarity of about 0.3 almost always share one.
+ */
+
+import { createHash } from 'crypto';
+import { DedupMode, DedupOptions, Memory } from '../interfaces/AIPersistenceCore';
+import { fnv1a, tokenize } from './text';
+import { mulberry32 } from './random';
+import { mergeOptions } from './options';
+
+export const DEDUP_MODES: DedupMode[] = ['off', 'reject', 'merge', 'link'];
+
+export const DEFAULT_DEDUP_OPTIONS: Required<DedupOptions> = {
+  mode: 'off',
+  similarity: 0.8,
+  sameType: true,
+  importanceBoost: 0.1
+};
+
+export const SIGNATURE_SIZE = 64;
+export const BAND_ROWS = 2;
+
+const SHINGLE_SIZE = 3;
+
+// Importance assumed for memories without metadata.importance
+const DEFAULT_IMPORTANCE = 0.5;
+
+// One seed per MinHash function, fixed so signatures are stable across processes
+const HASH_SEEDS: number[] = (() => {
+  const random = mulberry32(0x5eed);
+  return Array.from({ length: SIGNATURE_SIZE }, () => Math.floor(random() * 4294967296));
+})();
+
+/**
+ * Fill in defaults and throw on options that cannot detect duplicates
+ */
+export function resolveDedupOptions(...layers: Array<DedupOptions | undefined>): Required<DedupOptions> {
+  const options = mergeOptions<Required<DedupOptions>>(DEFAULT_DEDUP_OPTIONS, ...layers);
+
+  if (!DEDUP_MODES.includes(options.mode)) {
+    throw new Error(`Invalid dedup options: unknown mode ${options.mode}; expected one of ${DEDUP_MODES.join(', ')}`);
+  }
+  if (!(options.similarity > 0 && options.similarity <= 1)) {
+    throw new Error(`Invalid dedup options: similarity must be in (0, 1], got ${options.similarity}`);
+  }
+  if (typeof options.sameType !== 'boolean') {
+    throw new Error('Invalid dedup options: sameType must be true or false');
+  }
+  if (!(options.importanceBoost >= 0 && options.importanceBoost <= 1)) {
+    throw new Error(`Invalid dedup options: importanceBoost must be in [0, 1], got ${options.importanceBoost}`);
+  }
+  return options;
+}
+
+/**
+ * Hash of the content ignoring case and runs of whitespace
+ */
+export function contentHash(content: string): string {
+  const normalized = (content || '').toLowerCase().replace(/\s+/g, ' ').trim();
+  return createHash('sha256').update(normalized, 'utf8').digest('hex');
+}
+
+/**
+ * MinHash signature of the content's word shingles; content shorter than a
+ * shingle is a single shingle, and content without words has no signature
+ */
+export function minHashSignature(content: string): number[] | null {
+  const tokens = tokenize(content);
+  if (tokens.length === 0) {
+    return null;
+  }
+
+  const shingles = new Set<number>();
+  for (let start = 0; start + SHINGLE_SIZE <= Math.max(tokens.length, SHINGLE_SIZE); start++) {
+    shingles.add(fnv1a(tokens.slice(start, start + SHINGLE_SIZE).join(' ')));
+  }
+
+  const signature = HASH_SEEDS.map(() => 0xffffffff);
+  for (const shingle of shingles) {
+    HASH_SEEDS.forEach((seed, position) => {
+      const hash = mix(shingle ^ seed);
+      if (hash < signature[position]) {
+        signature[position] = hash;
+      }
+    });
+  }
+  return signature;
+}
+
+/**
+ * Estimated Jaccard similarity of the shingle sets behind two signatures
+ */
+export function signatureSimilarity(a: number[], b: number[]): number {
+  let equal = 0;
+  for (let position = 0; position < a.length; position++) {
+    if (a[position] === b[position]) {
+      equal++;
+    }
+  }
+  return equal / a.length;
+}
+
+/**
+ * Keys of the signature's LSH bands; signatures sharing a key are candidates
+ */
+export function bandKeys(signature: number[]): string[] {
+  const keys: string[] = [];
+  for (let start = 0; start < signature.length; start += BAND_ROWS) {
+    keys.push(`${start}:${signature.slice(start, start + BAND_ROWS).join(',')}`);
+  }
+  return keys;
+}
+
+/**
+ * `existing` with the duplicate's metadata merged in: keys it lacks are
+ * taken from the duplicate, tags are united, importance is the higher of the
+ * two plus `importanceBoost` (at most 1), and the occurrence is counted
+ */
+export function mergeDuplicate<T extends Memory>(existing: T, duplicate: Memory, importanceBoost: number): T {
+  const importance = (memory: Memory) => {
+    const value = Number(memory.metadata?.importance);
+    return Number.isFinite(value) ? value : DEFAULT_IMPORTANCE;
+  };
+  const metadata: Record<string, any> = { ...duplicate.metadata, ...existing.metadata };
+  if (Array.isArray(existing.metadata?.tags) || Array.isArray(duplicate.metadata?.tags)) {
+    metadata.tags = Array.from(new Set([...(existing.metadata?.tags || []), ...(duplicate.metadata?.tags || [])]));
+  }
+  metadata.importance = Math.min(1, Math.max(importance(existing), importance(duplicate)) + importanceBoost);
+  return countOccurrence({ ...existing, metadata }, duplicate);
+}
+
+/**
+ * `existing` counting one more occurrence, the duplicate
+ */
+export function countOccurrence<T extends Memory>(existing: T, duplicate: Memory): T {
+  return {
+    ...existing,
+    metadata: {
+      ...existing.metadata,
+      occurrences: (Number(existing.metadata?.occurrences) || 1) + 1,
+      lastOccurrence: duplicate.timestamp
+    }
+  };
+}
+
+// murmur3 finalizer: spreads the bits of a 32-bit value
+function mix(value: number): number {
+  let hash = value >>> 0;
+  hash ^= hash >>> 16;
+  hash = Math.imul(hash, 0x85ebca6b);
+  hash ^= hash >>> 13;
+  hash = Math.imul(hash, 0xc2b2ae35);
+  hash ^= hash >>> 16;
+  return hash >>> 0;
+}
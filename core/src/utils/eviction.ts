@@ -0,0 +1,82 @@
+/**
+ * Memory Eviction
+ *
+ * Chooses which memories to drop once a store exceeds its capacity. `lru`
+ * drops the least recently accessed memories, `importance` those with the
+ * lowest `metadata.importance`, `oldest` the earliest stored. `consolidate`
+ * first merges the oldest memories of each type into summaries, and only
+ * evicts (oldest first) if merging cannot free enough room.
+ */
+
+import { Memory } from '../interfaces/AIPersistenceCore';
+
+export type EvictionPolicy = 'lru' | 'importance' | 'oldest' | 'consolidate';
+
+export const EVICTION_POLICIES: EvictionPolicy[] = ['lru', 'importance', 'oldest', 'consolidate'];
+
+// Importance assumed for memories without metadata.importance
+const DEFAULT_IMPORTANCE = 0.5;
+
+export interface EvictionCandidate<T extends Memory = Memory> {
+  memory: T;
+  // Milliseconds since the epoch of the last store or retrieval
+  lastAccessed: number;
+}
+
+export function validateEvictionPolicy(policy: string): void {
+  if (!EVICTION_POLICIES.includes(policy as EvictionPolicy)) {
+    throw new Error(`Unknown eviction policy ${policy}; expected one of ${EVICTION_POLICIES.join(', ')}`);
+  }
+}
+
+/**
+ * The `count` memories to evict under `policy`, first to go first. Ties fall
+ * back to the oldest memory.
+ */
+export function selectEvictions<T extends Memory>(
+  candidates: Array<EvictionCandidate<T>>,
+  count: number,
+  policy: Exclude<EvictionPolicy, 'consolidate'>
+): T[] {
+  const age = (candidate: EvictionCandidate<T>) => candidate.memory.timestamp.getTime();
+  const importance = (candidate: EvictionCandidate<T>) => {
+    const value = Number(candidate.memory.metadata?.importance);
+    return Number.isFinite(value) ? value : DEFAULT_IMPORTANCE;
+  };
+  const order: Record<typeof policy, (a: EvictionCandidate<T>, b: EvictionCandidate<T>) => number> = {
+    lru: (a, b) => a.lastAccessed - b.lastAccessed,
+    importance: (a, b) => importance(a) - importance(b),
+    oldest: () => 0
+  };
+
+  return [...candidates]
+    .sort((a, b) => order[policy](a, b) || age(a) - age(b))
+    .slice(0, Math.max(0, count))
+    .map(candidate => candidate.memory);
+}
+
+/**
+ * Groups of same-type memories, oldest first, whose merging frees at least
+ * `count` slots (each group of n becomes one memory). Returns fewer groups
+ * when there are not enough memories of a shared type.
+ */
+export function planConsolidation<T extends Memory>(memories: T[], count: number): T[][] {
+  const byType = new Map<string, T[]>();
+  let freed = 0;
+
+  const oldestFirst = [...memories].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime());
+  for (const memory of oldestFirst) {
+    if (freed >= count) {
+      break;
+    }
+    const group = byType.get(memory.type) || [];
+    group.push(memory);
+    byType.set(memory.type, group);
+    // A group's first member frees nothing, every later one frees a slot
+    if (group.length > 1) {
+      freed++;
+    }
+  }
+
+  return Array.from(byType.values()).filter(group => group.length > 1);
+}
@@ -0,0 +1,114 @@
+/**
+ * Embedding Hierarchies
+ *
+ * Derives a tree from positions in the Poincaré ball, where distance from
+ * the origin is depth: general content sits near the origin and specific
+ * content near the boundary. The shallowest point is the root. Every other
+ * point's parent is its nearest ancestor: the closest of the root and the
+ * points at least `minDepthGap` nearer the origin than it. Parents are never
+ * deeper than their children, so the result is a tree.
+ */
+
+import { HierarchyOptions } from '../interfaces/AIPersistenceCore';
+import { HierarchyLevel, HierarchyRelationship, HyperbolicHierarchy } from '../types/memory';
+import { ClusterPoint } from './clustering';
+import { distanceFromOrigin, poincareDistance } from './hyperbolic';
+import { mergeOptions } from './options';
+
+export const DEFAULT_HIERARCHY_OPTIONS: Required<HierarchyOptions> = {
+  types: [],
+  minDepthGap: 0.25
+};
+
+// Relationship type from a parent to the more specific child
+export const GENERALIZES = 'generalizes';
+
+/**
+ * Fill in defaults and throw on options that cannot build a hierarchy
+ */
+export function resolveHierarchyOptions(...layers: Array<HierarchyOptions | undefined>): Required<HierarchyOptions> {
+  const options = mergeOptions<Required<HierarchyOptions>>(DEFAULT_HIERARCHY_OPTIONS, ...layers);
+
+  if (!Array.isArray(options.types) || options.types.some(type => typeof type !== 'string')) {
+    throw new Error('Invalid hierarchy options: types must be a list of memory types');
+  }
+  if (!(options.minDepthGap >= 0 && Number.isFinite(options.minDepthGap))) {
+    throw new Error(`Invalid hierarchy options: minDepthGap must be a non-negative number, got ${options.minDepthGap}`);
+  }
+  return options;
+}
+
+/**
+ * The tree of the points by depth and nearest ancestor. Relationship
+ * strength is 1 / (1 + distance) between parent and child.
+ */
+export function buildHierarchy(points: ClusterPoint[], minDepthGap: number = DEFAULT_HIERARCHY_OPTIONS.minDepthGap, curvature: number = -1): HyperbolicHierarchy {
+  const byDepth = points
+    .map((point, position) => ({ point, position, depth: distanceFromOrigin(point.vector, curvature) }))
+    .sort((a, b) => a.depth - b.depth || a.position - b.position);
+  const root = byDepth[0];
+  const relationships: HierarchyRelationship[] = [];
+
+  byDepth.forEach((node, index) => {
+    if (index === 0) {
+      return;
+    }
+    let parent = root;
+    let parentDistance = poincareDistance(node.point.vector, root.point.vector, curvature);
+    for (const candidate of byDepth.slice(1, index)) {
+      if (candidate.depth > node.depth - minDepthGap) {
+        // Sorted by depth, so no later candidate is shallow enough either
+        break;
+      }
+      const distance = poincareDistance(node.point.vector, candidate.point.vector, curvature);
+      if (distance < parentDistance) {
+        parent = candidate;
+        parentDistance = distance;
+      }
+    }
+    relationships.push({ parent: parent.point.id, child: node.point.id, type: GENERALIZES, strength: 1 / (1 + parentDistance) });
+  });
+
+  return describeHierarchy(root?.point.id, relationships, points.length);
+}
+
+/**
+ * Levels and shape of the tree below `root`, level by level in the order
+ * the relationships list the children
+ */
+function describeHierarchy(root: string | undefined, relationships: HierarchyRelationship[], total: number): HyperbolicHierarchy {
+  const children = new Map<string, string[]>();
+  for (const relationship of relationships) {
+    children.set(relationship.parent, [...(children.get(relationship.parent) || []), relationship.child]);
+  }
+
+  const levels: HierarchyLevel[] = [];
+  let current = root !== undefined ? [root] : [];
+  while (current.length > 0) {
+    const counts = current.map(id => (children.get(id) || []).length);
+    levels.push({
+      level: levels.length,
+      nodes: current,
+      properties: {
+        size: current.length,
+        density: current.length / Math.max(1, total),
+        connectivity: counts.reduce((sum, count) => sum + count, 0) / current.length,
+        balance: Math.max(...counts) > 0 ? Math.min(...counts) / Math.max(...counts) : 1
+      }
+    });
+    current = current.flatMap(id => children.get(id) || []);
+  }
+
+  const sizes = levels.map(level => level.nodes.length);
+  return {
+    root: root ?? '',
+    levels,
+    relationships,
+    properties: {
+      depth: levels.length,
+      breadth: sizes.length > 0 ? Math.max(...sizes) : 0,
+      balance: levels.length > 0 ? levels.reduce((sum, level) => sum + level.properties.balance, 0) / levels.length : 0,
+      connectivity: total > 0 ? relationships.length / total : 0
+    }
+  };
+}
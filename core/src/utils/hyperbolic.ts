@@ -0,0 +1,223 @@
+/**
+ * Hyperbolic Geometry
+ *
+ * Poincaré-ball and Lorentz (hyperboloid) model operations shared by every
+ * hyperbolic component. Curvature follows the package convention of a negative
+ * number (default -1); the ball has radius 1/sqrt(-curvature).
+ */
+
+// Margin kept from the boundary when projecting stored points
+export const BOUNDARY_EPSILON = 1e-5;
+
+// Margin used inside operations so intermediate results stay finite
+const NUMERICAL_EPSILON = 1e-15;
+const MIN_DENOMINATOR = 1e-15;
+
+export function dot(u: number[], v: number[]): number {
+  assertSameDimension(u, v);
+  let sum = 0;
+  for (let i = 0; i < u.length; i++) {
+    sum += u[i] * v[i];
+  }
+  return sum;
+}
+
+export function norm(v: number[]): number {
+  return Math.sqrt(dot(v, v));
+}
+
+/**
+ * Pull a point back inside the ball so that its norm is at most
+ * (1 - epsilon) / sqrt(c)
+ */
+export function project(x: number[], curvature: number = -1, epsilon: number = BOUNDARY_EPSILON): number[] {
+  const c = toPositiveCurvature(curvature);
+  const maxNorm = (1 - epsilon) / Math.sqrt(c);
+  const n = norm(x);
+  if (!Number.isFinite(n)) {
+    throw new Error('Cannot project a point with non-finite coordinates');
+  }
+  if (n <= maxNorm) {
+    return x.slice();
+  }
+  return x.map(value => value * maxNorm / n);
+}
+
+/**
+ * Geodesic distance in the Poincaré ball:
+ * d(u, v) = arcosh(1 + 2c|u - v|^2 / ((1 - c|u|^2)(1 - c|v|^2))) / sqrt(c)
+ */
+export function poincareDistance(u: number[], v: number[], curvature: number = -1): number {
+  const c = toPositiveCurvature(curvature);
+  assertSameDimension(u, v);
+
+  let diffSquared = 0;
+  for (let i = 0; i < u.length; i++) {
+    const diff = u[i] - v[i];
+    diffSquared += diff * diff;
+  }
+  const uFactor = Math.max(1 - c * dot(u, u), MIN_DENOMINATOR);
+  const vFactor = Math.max(1 - c * dot(v, v), MIN_DENOMINATOR);
+
+  return arcosh1p(2 * c * diffSquared / (uFactor * vFactor)) / Math.sqrt(c);
+}
+
+/**
+ * Distance from the origin, i.e. how deep a point sits in the hierarchy
+ */
+export function distanceFromOrigin(x: number[], curvature: number = -1): number {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  return 2 * artanh(sqrtC * norm(x)) / sqrtC;
+}
+
+/**
+ * Möbius addition u ⊕ v, the hyperbolic analogue of vector addition
+ */
+export function mobiusAdd(u: number[], v: number[], curvature: number = -1): number[] {
+  const c = toPositiveCurvature(curvature);
+  const uv = dot(u, v);
+  const uu = dot(u, u);
+  const vv = dot(v, v);
+
+  const uCoefficient = 1 + 2 * c * uv + c * vv;
+  const vCoefficient = 1 - c * uu;
+  const denominator = Math.max(1 + 2 * c * uv + c * c * uu * vv, MIN_DENOMINATOR);
+
+  const result = u.map((value, i) => (uCoefficient * value + vCoefficient * v[i]) / denominator);
+  return project(result, curvature, NUMERICAL_EPSILON);
+}
+
+/**
+ * Möbius scalar multiplication r ⊗ x
+ */
+export function mobiusScale(r: number, x: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  const n = norm(x);
+  if (n < MIN_DENOMINATOR) {
+    return x.map(() => 0);
+  }
+  const scale = Math.tanh(r * artanh(sqrtC * n)) / (sqrtC * n);
+  return project(x.map(value => value * scale), curvature, NUMERICAL_EPSILON);
+}
+
+/**
+ * Exponential map at x: moves from x along tangent vector v
+ */
+export function expMap(x: number[], v: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  assertSameDimension(x, v);
+  const vNorm = norm(v);
+  if (vNorm < MIN_DENOMINATOR) {
+    return x.slice();
+  }
+  const lambda = conformalFactor(x, curvature);
+  const scale = Math.tanh(sqrtC * lambda * vNorm / 2) / (sqrtC * vNorm);
+  return mobiusAdd(x, v.map(value => value * scale), curvature);
+}
+
+/**
+ * Logarithmic map at x: the tangent vector at x pointing to y
+ */
+export function logMap(x: number[], y: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  const w = mobiusAdd(x.map(value => -value), y, curvature);
+  const wNorm = norm(w);
+  if (wNorm < MIN_DENOMINATOR) {
+    return w.map(() => 0);
+  }
+  const lambda = conformalFactor(x, curvature);
+  const scale = 2 * artanh(sqrtC * wNorm) / (sqrtC * lambda * wNorm);
+  return w.map(value => value * scale);
+}
+
+/**
+ * Exponential map at the origin, mapping Euclidean features into the ball
+ */
+export function expMap0(v: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  const vNorm = norm(v);
+  if (vNorm < MIN_DENOMINATOR) {
+    return v.map(() => 0);
+  }
+  const scale = Math.tanh(sqrtC * vNorm) / (sqrtC * vNorm);
+  return project(v.map(value => value * scale), curvature, NUMERICAL_EPSILON);
+}
+
+/**
+ * Logarithmic map at the origin
+ */
+export function logMap0(y: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  const yNorm = norm(y);
+  if (yNorm < MIN_DENOMINATOR) {
+    return y.map(() => 0);
+  }
+  const scale = artanh(sqrtC * yNorm) / (sqrtC * yNorm);
+  return y.map(value => value * scale);
+}
+
+/**
+ * Map a Poincaré-ball point onto the hyperboloid <p, p>_L = -1/c.
+ * The Lorentz model avoids the cancellation that the ball suffers near its
+ * boundary, so prefer it for distances between very deep points.
+ */
+export function toLorentz(x: number[], curvature: number = -1): number[] {
+  const c = toPositiveCurvature(curvature);
+  const squaredNorm = c * dot(x, x);
+  const denominator = Math.max(1 - squaredNorm, MIN_DENOMINATOR);
+  return [
+    (1 + squaredNorm) / (Math.sqrt(c) * denominator),
+    ...x.map(value => 2 * value / denominator)
+  ];
+}
+
+export function fromLorentz(p: number[], curvature: number = -1): number[] {
+  const sqrtC = Math.sqrt(toPositiveCurvature(curvature));
+  const denominator = 1 + sqrtC * p[0];
+  return p.slice(1).map(value => value / denominator);
+}
+
+/**
+ * Minkowski inner product -p0*q0 + sum(pi*qi)
+ */
+export function lorentzInner(p: number[], q: number[]): number {
+  assertSameDimension(p, q);
+  let sum = -p[0] * q[0];
+  for (let i = 1; i < p.length; i++) {
+    sum += p[i] * q[i];
+  }
+  return sum;
+}
+
+export function lorentzDistance(p: number[], q: number[], curvature: number = -1): number {
+  const c = toPositiveCurvature(curvature);
+  return arcosh1p(Math.max(-c * lorentzInner(p, q) - 1, 0)) / Math.sqrt(c);
+}
+
+function conformalFactor(x: number[], curvature: number): number {
+  const c = toPositiveCurvature(curvature);
+  return 2 / Math.max(1 - c * dot(x, x), MIN_DENOMINATOR);
+}
+
+function toPositiveCurvature(curvature: number): number {
+  if (!(curvature < 0) || !Number.isFinite(curvature)) {
+    throw new Error(`Hyperbolic curvature must be a finite negative number, got ${curvature}`);
+  }
+  return -curvature;
+}
+
+function assertSameDimension(u: number[], v: number[]): void {
+  if (u.length !== v.length) {
+    throw new Error(`Dimension mismatch: ${u.length} vs ${v.length}`);
+  }
+}
+
+function artanh(z: number): number {
+  const clamped = Math.min(Math.max(z, -1 + NUMERICAL_EPSILON), 1 - NUMERICAL_EPSILON);
+  return 0.5 * Math.log1p(2 * clamped / (1 - clamped));
+}
+
+// arcosh(1 + y), accurate for small y where arcosh(x) loses precision
+function arcosh1p(y: number): number {
+  return Math.log1p(y + Math.sqrt(y * (y + 2)));
+}
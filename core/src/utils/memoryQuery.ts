@@ -0,0 +1,257 @@
+/**
+ * Memory Queries
+ *
+ * Filtering, sorting and cursor pagination for MemoryQuery, shared by every
+ * memory store so a query means the same thing whichever store answers it.
+ * Cursors name the last memory of a page by its sort value and id, so pages
+ * stay consistent while memories are added or removed between requests.
+ */
+
+import { Memory, MemoryPage, MemoryQuery, MemorySortField, MetadataPredicate } from '../interfaces/AIPersistenceCore';
+import type { SearchHit } from '../implementations/MemoryIndexer';
+
+const SORT_FIELDS: MemorySortField[] = ['timestamp', 'importance', 'confidence', 'relevance'];
+const RANGE_OPERATORS = ['eq', 'ne', 'gt', 'gte', 'lt', 'lte'];
+
+interface SortKey {
+  value: number;
+  id: string;
+}
+
+type Cursor = [MemorySortField, 'asc' | 'desc', number, string];
+
+/**
+ * `search` ranks memories for the content query, e.g. MemoryIndexer.search.
+ * Without it content is matched as a case-insensitive substring and every
+ * match scores 1. Content matches are returned as copies carrying `score`.
+ */
+export function queryMemories<T extends Memory>(
+  memories: Iterable<T>,
+  query: MemoryQuery = {},
+  search?: (text: string) => SearchHit[]
+): MemoryPage<T> {
+  validateMemoryQuery(query);
+
+  let candidates = Array.from(memories);
+  let relevance: Map<string, number> | null = null;
+  if (query.content) {
+    const content = query.content;
+    relevance = search
+      ? new Map(search(content).map(hit => [hit.id, hit.score]))
+      : new Map(candidates.filter(memory => containsText(memory, content)).map(memory => [memory.id, 1]));
+    candidates = candidates.filter(memory => relevance!.has(memory.id));
+  }
+
+  const sortBy = query.sortBy || defaultSortField(query);
+  const order = query.order || 'desc';
+  const direction = order === 'asc' ? 1 : -1;
+  // Ties are broken by id so every memory has a fixed position for cursors
+  const compare = (a: SortKey, b: SortKey) =>
+    (a.value - b.value) * direction || (a.id < b.id ? -1 : a.id > b.id ? 1 : 0);
+
+  const filters: MemoryQuery = { ...query, content: undefined };
+  let results = candidates
+    .filter(memory => matchesMemoryQuery(memory, filters))
+    .map(memory => ({ memory, key: { value: sortValue(memory, sortBy, relevance), id: memory.id } }))
+    .sort((a, b) => compare(a.key, b.key));
+
+  if (query.cursor) {
+    const [, , value, id] = decodeCursor(query.cursor);
+    results = results.filter(result => compare(result.key, { value, id }) > 0);
+  }
+
+  const output = (memory: T): T => relevance ? { ...memory, score: relevance.get(memory.id)! } : memory;
+
+  if (query.limit !== undefined && results.length > query.limit) {
+    results = results.slice(0, query.limit);
+    const last = results[results.length - 1].key;
+    return {
+      memories: results.map(result => output(result.memory)),
+      nextCursor: encodeCursor([sortBy, order, last.value, last.id])
+    };
+  }
+
+  return { memories: results.map(result => output(result.memory)) };
+}
+
+/**
+ * Whether a memory passes every filter in the query, matching content as a
+ * substring; sorting, limit and cursor are ignored
+ */
+export function matchesMemoryQuery(memory: Memory, query: MemoryQuery): boolean {
+  if (query.type && memory.type !== query.type) {
+    return false;
+  }
+
+  if (query.content && !containsText(memory, query.content)) {
+    return false;
+  }
+
+  if (query.timeRange) {
+    const time = memory.timestamp.getTime();
+    if (query.timeRange.start && time < new Date(query.timeRange.start).getTime()) {
+      return false;
+    }
+    if (query.timeRange.end && time > new Date(query.timeRange.end).getTime()) {
+      return false;
+    }
+  }
+
+  const metadata = memory.metadata || {};
+
+  if (query.minImportance !== undefined && !(Number(metadata.importance) >= query.minImportance)) {
+    return false;
+  }
+  if (query.minConfidence !== undefined && !(Number(metadata.confidence) >= query.minConfidence)) {
+    return false;
+  }
+
+  if (query.tags && query.tags.length > 0) {
+    const tags: unknown[] = Array.isArray(metadata.tags) ? metadata.tags : [];
+    const matches = query.tagMatch === 'any'
+      ? query.tags.some(tag => tags.includes(tag))
+      : query.tags.every(tag => tags.includes(tag));
+    if (!matches) {
+      return false;
+    }
+  }
+
+  if (query.metadata) {
+    for (const [key, predicate] of Object.entries(query.metadata)) {
+      if (!matchesPredicate(metadata[key], predicate)) {
+        return false;
+      }
+    }
+  }
+
+  return true;
+}
+
+/**
+ * Throw on a malformed query instead of silently returning the wrong page
+ */
+export function validateMemoryQuery(query: MemoryQuery): void {
+  if (query.sortBy !== undefined && !SORT_FIELDS.includes(query.sortBy)) {
+    throw new Error(`Invalid memory query: cannot sort by ${query.sortBy}`);
+  }
+  if (query.sortBy === 'relevance' && !query.content) {
+    throw new Error('Invalid memory query: sorting by relevance needs a content search');
+  }
+  if (query.order !== undefined && query.order !== 'asc' && query.order !== 'desc') {
+    throw new Error(`Invalid memory query: order must be asc or desc, got ${query.order}`);
+  }
+  if (query.tagMatch !== undefined && query.tagMatch !== 'all' && query.tagMatch !== 'any') {
+    throw new Error(`Invalid memory query: tagMatch must be all or any, got ${query.tagMatch}`);
+  }
+  // An empty page could not carry a cursor to the next one
+  if (query.limit !== undefined && !(Number.isInteger(query.limit) && query.limit > 0)) {
+    throw new Error(`Invalid memory query: limit must be a positive integer, got ${query.limit}`);
+  }
+
+  for (const field of ['minImportance', 'minConfidence'] as const) {
+    if (query[field] !== undefined && !Number.isFinite(query[field])) {
+      throw new Error(`Invalid memory query: ${field} must be a number, got ${query[field]}`);
+    }
+  }
+
+  for (const bound of ['start', 'end'] as const) {
+    const value = query.timeRange?.[bound];
+    if (value !== undefined && Number.isNaN(new Date(value).getTime())) {
+      throw new Error(`Invalid memory query: timeRange.${bound} is not a valid date`);
+    }
+  }
+
+  for (const [key, predicate] of Object.entries(query.metadata || {})) {
+    if (predicate !== null && typeof predicate === 'object') {
+      const unknown = Object.keys(predicate).filter(operator => !RANGE_OPERATORS.includes(operator));
+      if (unknown.length > 0) {
+        throw new Error(`Invalid memory query: unknown operator ${unknown[0]} for metadata.${key}`);
+      }
+    }
+  }
+
+  if (query.cursor) {
+    const [sortBy, order] = decodeCursor(query.cursor);
+    if (sortBy !== (query.sortBy || defaultSortField(query)) || order !== (query.order || 'desc')) {
+      throw new Error('Invalid memory query: cursor belongs to a query with a different sort');
+    }
+  }
+}
+
+function matchesPredicate(actual: unknown, predicate: MetadataPredicate): boolean {
+  // Missing fields compare as null
+  const value = actual === undefined ? null : actual;
+
+  if (predicate === null || typeof predicate !== 'object') {
+    return value === predicate;
+  }
+
+  if (predicate.eq !== undefined && value !== predicate.eq) {
+    return false;
+  }
+  if (predicate.ne !== undefined && value === predicate.ne) {
+    return false;
+  }
+  // Comparisons between mismatched types are NaN, which fails every bound
+  if (predicate.gt !== undefined && !(compareValues(value, predicate.gt) > 0)) {
+    return false;
+  }
+  if (predicate.gte !== undefined && !(compareValues(value, predicate.gte) >= 0)) {
+    return false;
+  }
+  if (predicate.lt !== undefined && !(compareValues(value, predicate.lt) < 0)) {
+    return false;
+  }
+  if (predicate.lte !== undefined && !(compareValues(value, predicate.lte) <= 0)) {
+    return false;
+  }
+  return true;
+}
+
+function compareValues(a: unknown, b: number | string): number {
+  if (typeof a === 'number' && typeof b === 'number') {
+    return a - b;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return a < b ? -1 : a > b ? 1 : 0;
+  }
+  return NaN;
+}
+
+function defaultSortField(query: MemoryQuery): MemorySortField {
+  return query.content ? 'relevance' : 'timestamp';
+}
+
+function containsText(memory: Memory, text: string): boolean {
+  return memory.content.toLowerCase().includes(text.toLowerCase());
+}
+
+function sortValue(memory: Memory, sortBy: MemorySortField, relevance: Map<string, number> | null): number {
+  if (sortBy === 'timestamp') {
+    return memory.timestamp.getTime();
+  }
+  if (sortBy === 'relevance') {
+    return relevance?.get(memory.id) ?? 0;
+  }
+  const value = Number(memory.metadata?.[sortBy]);
+  return Number.isFinite(value) ? value : 0;
+}
+
+function encodeCursor(cursor: Cursor): string {
+  return Buffer.from(JSON.stringify(cursor), 'utf8').toString('base64url');
+}
+
+function decodeCursor(encoded: string): Cursor {
+  let cursor: unknown;
+  try {
+    cursor = JSON.parse(Buffer.from(encoded, 'base64url').toString('utf8'));
+  } catch {
+    cursor = null;
+  }
+
+  if (!Array.isArray(cursor) || cursor.length !== 4 || !SORT_FIELDS.includes(cursor[0]) ||
+      (cursor[1] !== 'asc' && cursor[1] !== 'desc') || typeof cursor[2] !== 'number' || typeof cursor[3] !== 'string') {
+    throw new Error('Invalid memory query: malformed cursor');
+  }
+  return cursor as Cursor;
+}
@@ -0,0 +1,24 @@
+/**
+ * Option Layering
+ *
+ * Components resolve their options from defaults, configuration and the
+ * options of a single call, each layer overriding the ones before it.
+ */
+
+/**
+ * Layer options over their defaults. Only keys the defaults have are taken,
+ * so a config or request carrying other fields can be passed as is, and
+ * undefined values leave the earlier value in place.
+ */
+export function mergeOptions<T extends object>(defaults: T, ...layers: Array<Partial<T> | undefined>): T {
+  const options = { ...defaults };
+  for (const layer of layers) {
+    for (const key of Object.keys(defaults) as Array<keyof T>) {
+      const value = layer?.[key];
+      if (value !== undefined) {
+        options[key] = value as T[keyof T];
+      }
+    }
+  }
+  return options;
+}
@@ -0,0 +1,17 @@
+/**
+ * Seeded Randomness
+ *
+ * Small seeded PRNG for components whose results must be repeatable, such as
+ * HNSW level assignment and k-means initialization. Well spread, not secure.
+ */
+
+export function mulberry32(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
@@ -0,0 +1,139 @@
+/**
+ * Hybrid Recall
+ *
+ * Ranks candidate memories by a weighted sum of four signals, each scaled to
+ * [0, 1]: lexical relevance (BM25 relative to the best match), semantic
+ * similarity (decaying with hyperbolic distance beyond the nearest candidate),
+ * recency (exponential decay with a half-life) and metadata importance. Every
+ * result carries the per-signal breakdown so callers can say why a memory
+ * surfaced.
+ */
+
+import { Memory, RecallComponent, RecallOptions, RecallResult, RecallSignal } from '../interfaces/AIPersistenceCore';
+import type { SearchHit } from '../implementations/MemoryIndexer';
+import { matchesMemoryQuery, validateMemoryQuery } from './memoryQuery';
+import { STOPWORDS, stem, tokenize } from './text';
+
+export const RECALL_SIGNALS: RecallSignal[] = ['lexical', 'semantic', 'recency', 'importance'];
+
+export const DEFAULT_RECALL_WEIGHTS: Record<RecallSignal, number> = {
+  lexical: 0.4,
+  semantic: 0.3,
+  recency: 0.15,
+  importance: 0.15
+};
+
+const DAY = 24 * 60 * 60 * 1000;
+
+export interface RecallCandidate {
+  memory: Memory;
+  // Full-text hit for the query, if the memory matched it
+  lexical?: SearchHit;
+  // Hyperbolic distance between the memory and query embeddings
+  distance?: number;
+}
+
+/**
+ * Filter, score and rank candidates, best first; ties are broken by id
+ */
+export function rankRecall(candidates: RecallCandidate[], options: RecallOptions = {}): RecallResult[] {
+  validateRecallOptions(options);
+
+  const weights = { ...DEFAULT_RECALL_WEIGHTS, ...options.weights };
+  const halfLife = options.recencyHalfLife ?? 7 * DAY;
+  const defaultImportance = options.defaultImportance ?? 0.5;
+  const now = (options.now ?? new Date()).getTime();
+  const filter = { ...options.filter, content: undefined };
+
+  const matching = candidates.filter(candidate => matchesMemoryQuery(candidate.memory, filter));
+  const bestLexical = Math.max(0, ...matching.map(candidate => candidate.lexical?.score ?? 0));
+  const nearest = Math.min(Infinity, ...matching.map(candidate => candidate.distance ?? Infinity));
+
+  const component = (signal: RecallSignal, value: number, reason: string): RecallComponent =>
+    ({ value, weight: weights[signal], contribution: weights[signal] * value, reason });
+
+  const results = matching.map(({ memory, lexical, distance }): RecallResult => {
+    const age = Math.max(0, now - memory.timestamp.getTime());
+    const importance = Number(memory.metadata?.importance);
+    const hasImportance = Number.isFinite(importance);
+
+    const components: Record<RecallSignal, RecallComponent> = {
+      lexical: lexical && bestLexical > 0
+        ? component('lexical', lexical.score / bestLexical, `matched ${matchedWords(memory.content, lexical.terms)}`)
+        : component('lexical', 0, 'no matching terms'),
+      semantic: distance !== undefined
+        ? component('semantic', Math.exp(nearest - distance), `hyperbolic distance ${distance.toFixed(2)} from the query`)
+        : component('semantic', 0, 'no embedding'),
+      recency: component('recency', Math.pow(0.5, age / halfLife), `stored ${formatAge(age)}`),
+      importance: hasImportance
+        ? component('importance', clamp(importance), `importance ${importance}`)
+        : component('importance', clamp(defaultImportance), `no importance set, assumed ${defaultImportance}`)
+    };
+
+    const score = RECALL_SIGNALS.reduce((sum, signal) => sum + components[signal].contribution, 0);
+    const explanation = RECALL_SIGNALS
+      .filter(signal => components[signal].contribution > 0)
+      .sort((a, b) => components[b].contribution - components[a].contribution)
+      .map(signal => `${signal} ${components[signal].contribution.toFixed(2)}: ${components[signal].reason}`)
+      .join('; ');
+
+    return { memory, score, components, explanation };
+  });
+
+  results.sort((a, b) => b.score - a.score || (a.memory.id < b.memory.id ? -1 : a.memory.id > b.memory.id ? 1 : 0));
+  return options.limit === undefined ? results : results.slice(0, options.limit);
+}
+
+/**
+ * Throw on weights or parameters that would make scores meaningless
+ */
+export function validateRecallOptions(options: RecallOptions): void {
+  for (const [signal, weight] of Object.entries(options.weights || {})) {
+    if (!RECALL_SIGNALS.includes(signal as RecallSignal)) {
+      throw new Error(`Invalid recall options: unknown signal ${signal}`);
+    }
+    if (!(Number.isFinite(weight) && weight >= 0)) {
+      throw new Error(`Invalid recall options: weight for ${signal} must be a non-negative number, got ${weight}`);
+    }
+  }
+  if (options.recencyHalfLife !== undefined && !(options.recencyHalfLife > 0)) {
+    throw new Error(`Invalid recall options: recencyHalfLife must be positive, got ${options.recencyHalfLife}`);
+  }
+  if (options.defaultImportance !== undefined && !Number.isFinite(options.defaultImportance)) {
+    throw new Error(`Invalid recall options: defaultImportance must be a number, got ${options.defaultImportance}`);
+  }
+  for (const field of ['limit', 'candidates'] as const) {
+    const value = options[field];
+    if (value !== undefined && !(Number.isInteger(value) && value >= 0)) {
+      throw new Error(`Invalid recall options: ${field} must be a non-negative integer, got ${value}`);
+    }
+  }
+  if (options.now !== undefined && Number.isNaN(new Date(options.now).getTime())) {
+    throw new Error('Invalid recall options: now is not a valid date');
+  }
+  if (options.filter) {
+    validateMemoryQuery({ ...options.filter, content: undefined, sortBy: undefined, cursor: undefined });
+  }
+}
+
+// The words of the content behind the matched (stemmed) terms, as written
+function matchedWords(content: string, terms: string[]): string {
+  const wanted = new Set(terms);
+  const words = new Set(tokenize(content).filter(token => !STOPWORDS.has(token) && wanted.has(stem(token))));
+  return Array.from(words).map(word => `"${word}"`).join(', ');
+}
+
+function formatAge(age: number): string {
+  const units: Array<[string, number]> = [['day', DAY], ['hour', 60 * 60 * 1000], ['minute', 60 * 1000]];
+  for (const [unit, size] of units) {
+    const count = Math.floor(age / size);
+    if (count >= 1) {
+      return `${count} ${unit}${count === 1 ? '' : 's'} ago`;
+    }
+  }
+  return 'just now';
+}
+
+function clamp(value: number): number {
+  return Math.min(1, Math.max(0, value));
+}
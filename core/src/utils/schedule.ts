@@ -0,0 +1,210 @@
+/**
+ * Schedules
+ *
+ * Compiles a Schedule into cron fields and finds its next occurrence. The
+ * frequency is either a five-field cron expression (minute, hour, day of
+ * month, month, day of week, with `*`, lists, ranges and `/` steps) or one of
+ * `hourly`, `daily` and `weekly`, which fire at `time` ("HH:MM"; hourly uses
+ * the minutes only) on `days` ("mon", "tuesday", ...; required for weekly).
+ * As in cron, a schedule restricting both the day of month and the day of
+ * week fires on days matching either. Times are read in the schedule's IANA
+ * timezone, UTC when none is given.
+ */
+
+import { Schedule } from '../types/memory';
+
+export interface CompiledSchedule {
+  minutes: Set<number>;
+  hours: Set<number>;
+  days: Set<number>;
+  months: Set<number>;
+  // 0 is Sunday
+  weekdays: Set<number>;
+  // Whether the day of month or day of week field was restricted
+  restrictsDay: boolean;
+  restrictsWeekday: boolean;
+  timezone: string;
+}
+
+interface ZonedTime {
+  month: number;
+  day: number;
+  weekday: number;
+  hour: number;
+  minute: number;
+}
+
+const MINUTE = 60 * 1000;
+
+const WEEKDAYS = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat'];
+
+// Field ranges in cron order
+const FIELDS: Array<[string, number, number]> = [
+  ['minute', 0, 59],
+  ['hour', 0, 23],
+  ['day of month', 1, 31],
+  ['month', 1, 12],
+  ['day of week', 0, 7]
+];
+
+// Minutes, hours or days skipped while searching; four years of days covers 29 February
+const MAX_SEARCH_STEPS = 100000;
+
+const formatters: Map<string, Intl.DateTimeFormat> = new Map();
+
+/**
+ * Cron fields of the schedule; throws when the schedule cannot be read
+ */
+export function compileSchedule(schedule: Schedule): CompiledSchedule {
+  const frequency = (schedule.frequency || '').trim().toLowerCase();
+  const timezone = (schedule.timezone || '').trim() || 'UTC';
+  // Throws on unknown timezones now rather than on the first search
+  zonedTime(new Date(0), timezone);
+
+  const fields = frequency.split(/\s+/);
+  if (fields.length === 5) {
+    return fromCron(fields, timezone, schedule.frequency);
+  }
+
+  const [hour, minute] = parseTime(schedule.time);
+  const days = (schedule.days || []).map(parseWeekday);
+  switch (frequency) {
+    case 'hourly':
+      return fromCron([String(minute), '*', '*', '*', days.join(',') || '*'], timezone, frequency);
+    case 'daily':
+      return fromCron([String(minute), String(hour), '*', '*', days.join(',') || '*'], timezone, frequency);
+    case 'weekly':
+      if (days.length === 0) {
+        throw new Error('Invalid schedule: weekly schedules need days');
+      }
+      return fromCron([String(minute), String(hour), '*', '*', days.join(',')], timezone, frequency);
+    default:
+      throw new Error(`Invalid schedule: unknown frequency ${schedule.frequency}; expected hourly, daily, weekly or a cron expression`);
+  }
+}
+
+/**
+ * The first minute strictly after `after` that the schedule fires at, or
+ * null when it never does
+ */
+export function nextOccurrence(schedule: CompiledSchedule, after: Date): Date | null {
+  let time = Math.floor(after.getTime() / MINUTE) * MINUTE + MINUTE;
+  for (let step = 0; step < MAX_SEARCH_STEPS; step++) {
+    const local = zonedTime(new Date(time), schedule.timezone);
+    if (!schedule.months.has(local.month) || !dayMatches(schedule, local)) {
+      time += (24 * 60 - local.hour * 60 - local.minute) * MINUTE;
+    } else if (!schedule.hours.has(local.hour)) {
+      time += (60 - local.minute) * MINUTE;
+    } else if (!schedule.minutes.has(local.minute)) {
+      time += MINUTE;
+    } else {
+      return new Date(time);
+    }
+  }
+  return null;
+}
+
+function fromCron(fields: string[], timezone: string, source: string): CompiledSchedule {
+  const [minutes, hours, days, months, weekdays] = fields.map((field, position) => parseField(field, FIELDS[position], source));
+  // 7 is Sunday too
+  if (weekdays.delete(7)) {
+    weekdays.add(0);
+  }
+  return {
+    minutes,
+    hours,
+    days,
+    months,
+    weekdays,
+    restrictsDay: fields[2] !== '*',
+    restrictsWeekday: fields[4] !== '*',
+    timezone
+  };
+}
+
+function parseField(field: string, [name, min, max]: [string, number, number], source: string): Set<number> {
+  const values = new Set<number>();
+  for (const part of field.split(',')) {
+    const match = /^(\*|(\d+)(?:-(\d+))?)(?:\/(\d+))?$/.exec(part);
+    if (!match) {
+      throw new Error(`Invalid schedule: cannot read ${name} "${part}" in ${source}`);
+    }
+    const start = match[1] === '*' ? min : Number(match[2]);
+    // A bare value with a step runs to the end of the range, as in cron
+    const end = match[1] === '*' || (match[4] && !match[3]) ? max : Number(match[3] ?? match[2]);
+    const step = match[4] ? Number(match[4]) : 1;
+    if (start < min || end > max || start > end || step < 1) {
+      throw new Error(`Invalid schedule: ${name} "${part}" in ${source} is outside ${min}-${max}`);
+    }
+    for (let value = start; value <= end; value += step) {
+      values.add(value);
+    }
+  }
+  return values;
+}
+
+function parseTime(time: string | undefined): [number, number] {
+  if (!time) {
+    return [0, 0];
+  }
+  const match = /^(\d{1,2}):(\d{2})$/.exec(time.trim());
+  if (!match || Number(match[1]) > 23 || Number(match[2]) > 59) {
+    throw new Error(`Invalid schedule: time must be HH:MM, got ${time}`);
+  }
+  return [Number(match[1]), Number(match[2])];
+}
+
+function parseWeekday(day: string): number {
+  const weekday = WEEKDAYS.indexOf(String(day).trim().toLowerCase().slice(0, 3));
+  if (weekday < 0) {
+    throw new Error(`Invalid schedule: unknown day ${day}`);
+  }
+  return weekday;
+}
+
+function dayMatches(schedule: CompiledSchedule, local: ZonedTime): boolean {
+  const day = schedule.days.has(local.day);
+  const weekday = schedule.weekdays.has(local.weekday);
+  if (schedule.restrictsDay && schedule.restrictsWeekday) {
+    return day || weekday;
+  }
+  return day && weekday;
+}
+
+function zonedTime(date: Date, timezone: string): ZonedTime {
+  if (timezone === 'UTC') {
+    return {
+      month: date.getUTCMonth() + 1,
+      day: date.getUTCDate(),
+      weekday: date.getUTCDay(),
+      hour: date.getUTCHours(),
+      minute: date.getUTCMinutes()
+    };
+  }
+
+  let formatter = formatters.get(timezone);
+  if (!formatter) {
+    try {
+      formatter = new Intl.DateTimeFormat('en-US', {
+        timeZone: timezone,
+        hourCycle: 'h23',
+        month: 'numeric',
+        day: 'numeric',
+        weekday: 'short',
+        hour: 'numeric',
+        minute: 'numeric'
+      });
+    } catch (error) {
+      throw new Error(`Invalid schedule: unknown timezone ${timezone}`);
+    }
+    formatters.set(timezone, formatter);
+  }
+  const parts = Object.fromEntries(formatter.formatToParts(date).map(part => [part.type, part.value]));
+  return {
+    month: Number(parts.month),
+    day: Number(parts.day),
+    weekday: WEEKDAYS.indexOf(parts.weekday.toLowerCase()),
+    hour: Number(parts.hour),
+    minute: Number(parts.minute)
+  };
+}
@@ -0,0 +1,195 @@
+/**
+ * Text Utilities
+ *
+ * Tokenization, stop words, stemming and hashing shared by the embedder, the
+ * full-text index and duplicate detection, so all see the same terms in the
+ * same content.
+ */
+
+export const STOPWORDS: ReadonlySet<string> = new Set([
+  'a', 'an', 'and', 'are', 'as', 'at', 'be', 'but', 'by', 'for', 'from', 'has', 'have', 'he', 'her', 'his',
+  'i', 'in', 'is', 'it', 'its', 'me', 'my', 'not', 'of', 'on', 'or', 'our', 'she', 'so', 'that', 'the',
+  'their', 'them', 'they', 'this', 'to', 'was', 'we', 'were', 'what', 'when', 'which', 'who', 'will',
+  'with', 'you', 'your'
+]);
+
+/**
+ * Lowercased runs of letters and digits, in order
+ */
+export function tokenize(text: string): string[] {
+  return (text || '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+}
+
+/**
+ * Stemmed tokens without stop words, in order; what two texts have to share
+ * to be about the same thing
+ */
+export function terms(text: string): string[] {
+  return tokenize(text).filter(token => !STOPWORDS.has(token)).map(stem);
+}
+
+// 32-bit FNV-1a over UTF-8 bytes; stable across processes and platforms
+export function fnv1a(value: string): number {
+  let hash = 0x811c9dc5;
+  for (const byte of Buffer.from(value, 'utf8')) {
+    hash ^= byte;
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Step 2, 3 and 4 suffix rules of the Porter stemmer, longest suffix first
+const STEP2_RULES: Array<[string, string]> = sortRules([
+  ['ational', 'ate'], ['tional', 'tion'], ['enci', 'ence'], ['anci', 'ance'], ['izer', 'ize'], ['bli', 'ble'],
+  ['alli', 'al'], ['entli', 'ent'], ['eli', 'e'], ['ousli', 'ous'], ['ization', 'ize'], ['ation', 'ate'],
+  ['ator', 'ate'], ['alism', 'al'], ['iveness', 'ive'], ['fulness', 'ful'], ['ousness', 'ous'], ['aliti', 'al'],
+  ['iviti', 'ive'], ['biliti', 'ble'], ['logi', 'log']
+]);
+
+const STEP3_RULES: Array<[string, string]> = sortRules([
+  ['icate', 'ic'], ['ative', ''], ['alize', 'al'], ['iciti', 'ic'], ['ical', 'ic'], ['ful', ''], ['ness', '']
+]);
+
+const STEP4_SUFFIXES: string[] = [
+  'al', 'ance', 'ence', 'er', 'ic', 'able', 'ible', 'ant', 'ement', 'ment', 'ent', 'ion', 'ou', 'ism', 'ate',
+  'iti', 'ous', 'ive', 'ize'
+].sort((a, b) => b.length - a.length);
+
+/**
+ * Porter (1980) stemmer for English. Words that are not plain ASCII letters,
+ * and words of one or two letters, are returned unchanged.
+ */
+export function stem(word: string): string {
+  if (word.length <= 2 || !/^[a-z]+$/.test(word)) {
+    return word;
+  }
+
+  let w = word;
+
+  // Step 1a: plurals
+  if (w.endsWith('sses') || w.endsWith('ies')) {
+    w = w.slice(0, -2);
+  } else if (!w.endsWith('ss') && w.endsWith('s')) {
+    w = w.slice(0, -1);
+  }
+
+  // Step 1b: past tense and gerunds
+  let restore = false;
+  if (w.endsWith('eed')) {
+    if (measure(w.slice(0, -3)) > 0) {
+      w = w.slice(0, -1);
+    }
+  } else if (w.endsWith('ed') && hasVowel(w.slice(0, -2))) {
+    w = w.slice(0, -2);
+    restore = true;
+  } else if (w.endsWith('ing') && hasVowel(w.slice(0, -3))) {
+    w = w.slice(0, -3);
+    restore = true;
+  }
+  if (restore) {
+    if (w.endsWith('at') || w.endsWith('bl') || w.endsWith('iz')) {
+      w += 'e';
+    } else if (endsWithDoubleConsonant(w) && !/[lsz]$/.test(w)) {
+      w = w.slice(0, -1);
+    } else if (measure(w) === 1 && endsWithCvc(w)) {
+      w += 'e';
+    }
+  }
+
+  // Step 1c
+  if (w.endsWith('y') && hasVowel(w.slice(0, -1))) {
+    w = w.slice(0, -1) + 'i';
+  }
+
+  w = applyRules(w, STEP2_RULES);
+  w = applyRules(w, STEP3_RULES);
+
+  // Step 4: strip suffixes from stems with more than one syllable group
+  const suffix = STEP4_SUFFIXES.find(candidate => w.endsWith(candidate));
+  if (suffix) {
+    const base = w.slice(0, -suffix.length);
+    if (measure(base) > 1 && (suffix !== 'ion' || /[st]$/.test(base))) {
+      w = base;
+    }
+  }
+
+  // Step 5
+  if (w.endsWith('e')) {
+    const base = w.slice(0, -1);
+    const m = measure(base);
+    if (m > 1 || (m === 1 && !endsWithCvc(base))) {
+      w = base;
+    }
+  }
+  if (measure(w) > 1 && endsWithDoubleConsonant(w) && w.endsWith('l')) {
+    w = w.slice(0, -1);
+  }
+
+  return w;
+}
+
+function sortRules(rules: Array<[string, string]>): Array<[string, string]> {
+  return rules.sort((a, b) => b[0].length - a[0].length);
+}
+
+// Only the longest matching suffix is considered, even if its condition fails
+function applyRules(word: string, rules: Array<[string, string]>): string {
+  const rule = rules.find(([suffix]) => word.endsWith(suffix));
+  if (!rule) {
+    return word;
+  }
+  const base = word.slice(0, -rule[0].length);
+  return measure(base) > 0 ? base + rule[1] : word;
+}
+
+// `y` is a consonant at the start of a word or after a vowel
+function isConsonant(word: string, i: number): boolean {
+  const letter = word[i];
+  if ('aeiou'.includes(letter)) {
+    return false;
+  }
+  return letter === 'y' ? i === 0 || !isConsonant(word, i - 1) : true;
+}
+
+// m in [C](VC)^m[V]
+function measure(word: string): number {
+  let m = 0;
+  let i = 0;
+  while (i < word.length && isConsonant(word, i)) {
+    i++;
+  }
+  while (i < word.length) {
+    while (i < word.length && !isConsonant(word, i)) {
+      i++;
+    }
+    if (i >= word.length) {
+      break;
+    }
+    m++;
+    while (i < word.length && isConsonant(word, i)) {
+      i++;
+    }
+  }
+  return m;
+}
+
+function hasVowel(word: string): boolean {
+  for (let i = 0; i < word.length; i++) {
+    if (!isConsonant(word, i)) {
+      return true;
+    }
+  }
+  return false;
+}
+
+function endsWithDoubleConsonant(word: string): boolean {
+  const n = word.length;
+  return n >= 2 && word[n - 1] === word[n - 2] && isConsonant(word, n - 1);
+}
+
+// consonant-vowel-consonant, where the final consonant is not w, x or y
+function endsWithCvc(word: string): boolean {
+  const n = word.length;
+  return n >= 3 && isConsonant(word, n - 3) && !isConsonant(word, n - 2) && isConsonant(word, n - 1) &&
+    !'wxy'.includes(word[n - 1]);
+}
@@ -0,0 +1,233 @@
+/**
+ * Episodic Timelines
+ *
+ * Segments events into phases. Events are taken in time order and a new
+ * phase starts when the gap since the previous event exceeds `maxGap`, the
+ * named location changes, or the event shares too few terms with the last
+ * few events of the phase (a topic shift). Events without a location or
+ * without terms never start a phase on those grounds. Milestones are events
+ * marked as such, important enough, or describing a turning point such as a
+ * launch or a completion.
+ */
+
+import { v4 as uuidv4 } from 'uuid';
+import { Memory, TimelineOptions } from '../interfaces/AIPersistenceCore';
+import { Event, Location, MilestoneReason, PhaseBoundary, Timeline, TimelineMilestone, TimelinePhase } from '../types/memory';
+import { STOPWORDS, stem, terms, tokenize } from './text';
+import { mergeOptions } from './options';
+
+export type TimelineSegmentationOptions = Required<Omit<TimelineOptions, 'types'>>;
+
+interface OpenPhase {
+  events: Event[];
+  boundary: PhaseBoundary;
+  location?: string;
+}
+
+export const DEFAULT_TIMELINE_OPTIONS: Required<TimelineOptions> = {
+  types: ['episodic'],
+  maxGap: 6 * 60 * 60 * 1000,
+  topicThreshold: 0.15,
+  milestoneImportance: 0.8
+};
+
+// Events of the phase a new event is compared with for topic shifts
+const TOPIC_WINDOW = 3;
+// Terms named in a phase's topics
+const PHASE_TOPICS = 3;
+
+// Matched as written rather than stemmed, so "the release" is not "released"
+const MILESTONE_WORDS: ReadonlySet<string> = new Set([
+  'achieved', 'completed', 'finished', 'founded', 'graduated', 'hired', 'launched', 'married', 'milestone',
+  'promoted', 'released', 'shipped', 'won'
+]);
+
+/**
+ * Fill in defaults and throw on options that cannot segment a timeline
+ */
+export function resolveTimelineOptions(...layers: Array<TimelineOptions | undefined>): Required<TimelineOptions> {
+  const options = mergeOptions<Required<TimelineOptions>>(DEFAULT_TIMELINE_OPTIONS, ...layers);
+
+  if (!Array.isArray(options.types) || options.types.some(type => typeof type !== 'string')) {
+    throw new Error('Invalid timeline options: types must be a list of memory types');
+  }
+  if (!(options.maxGap > 0)) {
+    throw new Error(`Invalid timeline options: maxGap must be positive, got ${options.maxGap}`);
+  }
+  if (!(options.topicThreshold >= 0 && options.topicThreshold <= 1)) {
+    throw new Error(`Invalid timeline options: topicThreshold must be between 0 and 1, got ${options.topicThreshold}`);
+  }
+  if (!Number.isFinite(options.milestoneImportance)) {
+    throw new Error(`Invalid timeline options: milestoneImportance must be a number, got ${options.milestoneImportance}`);
+  }
+  return options;
+}
+
+/**
+ * The event a memory records. Participants and location come from
+ * `metadata.participants` and `metadata.location`, a name or a Location.
+ */
+export function memoryEvent(memory: Memory): Event {
+  const metadata = memory.metadata || {};
+  return {
+    id: memory.id,
+    timestamp: memory.timestamp,
+    type: memory.type,
+    description: memory.content,
+    participants: Array.isArray(metadata.participants) ? metadata.participants.filter((participant: any) => typeof participant === 'string') : [],
+    location: eventLocation(metadata.location),
+    context: metadata
+  };
+}
+
+/**
+ * Phases and milestones of the events, in time order
+ */
+export function segmentTimeline(events: Event[], options: TimelineSegmentationOptions = DEFAULT_TIMELINE_OPTIONS): Timeline {
+  const sorted = [...events].sort((a, b) => a.timestamp.getTime() - b.timestamp.getTime() || (a.id < b.id ? -1 : 1));
+  const eventTerms = new Map(sorted.map(event => [event, terms(event.description)]));
+  const open: OpenPhase[] = [];
+
+  for (const event of sorted) {
+    const current = open[open.length - 1];
+    const boundary = current ? phaseBoundary(current, event, eventTerms, options) : 'start';
+    if (boundary) {
+      open.push({ events: [event], boundary, location: locationName(event) });
+    } else {
+      current.events.push(event);
+      current.location = current.location || locationName(event);
+    }
+  }
+
+  const milestones: TimelineMilestone[] = [];
+  for (const event of sorted) {
+    const reason = milestoneReason(event, options.milestoneImportance);
+    if (reason) {
+      milestones.push({ eventId: event.id, timestamp: event.timestamp, description: event.description, reason });
+    }
+  }
+
+  const now = new Date();
+  return {
+    id: uuidv4(),
+    events: sorted,
+    phases: open.map((phase, position) => describePhase(phase, position)),
+    milestones,
+    start: sorted.length > 0 ? sorted[0].timestamp : now,
+    end: sorted.length > 0 ? sorted[sorted.length - 1].timestamp : now
+  };
+}
+
+function phaseBoundary(phase: OpenPhase, event: Event, eventTerms: Map<Event, string[]>, options: TimelineSegmentationOptions): PhaseBoundary | null {
+  const previous = phase.events[phase.events.length - 1];
+  if (event.timestamp.getTime() - previous.timestamp.getTime() > options.maxGap) {
+    return 'gap';
+  }
+
+  const location = locationName(event);
+  if (location && phase.location && location.toLowerCase() !== phase.location.toLowerCase()) {
+    return 'location';
+  }
+
+  const current = new Set(eventTerms.get(event)!);
+  const recent = new Set(phase.events.slice(-TOPIC_WINDOW).flatMap(other => eventTerms.get(other)!));
+  if (current.size > 0 && recent.size > 0) {
+    const shared = Array.from(current).filter(term => recent.has(term)).length;
+    if (shared / current.size < options.topicThreshold) {
+      return 'topic';
+    }
+  }
+  return null;
+}
+
+function describePhase(phase: OpenPhase, position: number): TimelinePhase {
+  // How many events use each term, with the first spelling seen for display
+  const frequency = new Map<string, { count: number; word: string }>();
+  for (const event of phase.events) {
+    const words = tokenize(event.description).filter(token => !STOPWORDS.has(token));
+    const seen = new Set<string>();
+    for (const word of words) {
+      const term = stem(word);
+      if (seen.has(term)) {
+        continue;
+      }
+      seen.add(term);
+      const entry = frequency.get(term);
+      if (entry) {
+        entry.count++;
+      } else {
+        frequency.set(term, { count: 1, word });
+      }
+    }
+  }
+  // Map iteration follows first appearance, and the sort is stable
+  const topics = Array.from(frequency.values())
+    .sort((a, b) => b.count - a.count)
+    .slice(0, PHASE_TOPICS)
+    .map(entry => entry.word);
+
+  const participants = Array.from(new Set(phase.events.flatMap(event => event.participants)));
+  const characteristics = [`${phase.events.length} ${phase.events.length === 1 ? 'event' : 'events'}`];
+  if (phase.location) {
+    characteristics.push(`at ${phase.location}`);
+  }
+  if (participants.length > 0) {
+    characteristics.push(`with ${participants.join(', ')}`);
+  }
+  if (phase.boundary !== 'start') {
+    characteristics.push(`started by ${phase.boundary === 'gap' ? 'a time gap' : `a ${phase.boundary} change`}`);
+  }
+
+  const first = phase.events[0];
+  const last = phase.events[phase.events.length - 1];
+  return {
+    name: topics.length > 0 ? capitalize(topics.join(', ')) : `Phase ${position + 1}`,
+    start: first.timestamp,
+    end: last.timestamp,
+    characteristics,
+    boundary: phase.boundary,
+    events: phase.events.map(event => event.id),
+    topics,
+    ...(phase.location ? { location: phase.location } : {})
+  };
+}
+
+function milestoneReason(event: Event, milestoneImportance: number): MilestoneReason | null {
+  const marked = event.context?.milestone;
+  if (event.type === 'milestone' || marked === true) {
+    return 'marked';
+  }
+  // Explicitly unmarked events are never milestones
+  if (marked === false) {
+    return null;
+  }
+  const importance = Number(event.context?.importance);
+  if (Number.isFinite(importance) && importance >= milestoneImportance) {
+    return 'importance';
+  }
+  return tokenize(event.description).some(word => MILESTONE_WORDS.has(word)) ? 'keyword' : null;
+}
+
+function eventLocation(location: any): Location {
+  if (typeof location === 'string') {
+    return { type: 'named', coordinates: [], name: location, context: '' };
+  }
+  if (location && typeof location === 'object') {
+    return {
+      type: typeof location.type === 'string' ? location.type : 'named',
+      coordinates: Array.isArray(location.coordinates) ? location.coordinates : [],
+      name: typeof location.name === 'string' ? location.name : '',
+      context: typeof location.context === 'string' ? location.context : ''
+    };
+  }
+  return { type: 'unknown', coordinates: [], name: '', context: '' };
+}
+
+function locationName(event: Event): string | undefined {
+  const name = event.location?.name?.trim();
+  return name ? name : undefined;
+}
+
+function capitalize(text: string): string {
+  return text.charAt(0).toUpperCase() + text.slice(1);
+}
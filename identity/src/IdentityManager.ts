@@ -8,17 +8,20 @@ import { v4 as uuidv4 } from 'uuid';
 import { AIIdentity, IdentityStatus, HyperbolicPosition, HyperbolicEmbedding, Capability, Limitation, Preferences, Relationship, TrustNetwork, IdentityHistory, IdentityEvolution, Verification, Certificate, Permission } from '../types/identity';
 import { BIP32HDAddressing } from './BIP32HDAddressing';
 import { HyperbolicGeometry } from './HyperbolicGeometry';
+import { HnswIndex, expMap0, norm, poincareDistance, project } from '@h2gnn/ai-persistence-core';
 
 export class IdentityManager {
   private identities: Map<string, AIIdentity> = new Map();
   private hdAddressing: BIP32HDAddressing;
   private hyperbolicGeometry: HyperbolicGeometry;
+  private similarityIndex: HnswIndex;
 
   constructor(
     private config: IdentityManagerConfig
   ) {
     this.hdAddressing = new BIP32HDAddressing(config.hdConfig);
     this.hyperbolicGeometry = new HyperbolicGeometry(config.hyperbolicConfig);
+    this.similarityIndex = new HnswIndex({ curvature: config.hyperbolicConfig.curvature });
   }
 
   async initialize(): Promise<void> {
@@ -63,6 +66,7 @@ export class IdentityManager {
     };
 
     this.identities.set(id, identity);
+    this.similarityIndex.add(id, embedding.vector);
     return identity;
   }
 
@@ -94,6 +98,7 @@ export class IdentityManager {
     // Update embedding if needed
     if (updates.updateEmbedding) {
       identity.embedding = await this.generateEmbedding(identity);
+      this.similarityIndex.add(id, identity.embedding.vector);
     }
 
     identity.updatedAt = new Date();
@@ -110,6 +115,7 @@ export class IdentityManager {
 
     // Remove identity and related data
     this.identities.delete(id);
+    this.similarityIndex.remove(id);
     
     // Clean up HD addressing
     await this.hdAddressing.removeAddress(id);
@@ -132,6 +138,7 @@ export class IdentityManager {
       const persistedIdentity = await this.loadPersistedIdentity();
       if (persistedIdentity) {
         this.identities.set(persistedIdentity.id, persistedIdentity);
+        this.similarityIndex.add(persistedIdentity.id, persistedIdentity.embedding.vector);
         console.log(`Identity restored: ${persistedIdentity.id}`);
         return persistedIdentity;
       }
@@ -274,22 +281,9 @@ export class IdentityManager {
       throw new Error(`Identity with id ${identityId} not found`);
     }
 
-    const similar: AIIdentity[] = [];
-    
-    for (const [id, otherIdentity] of this.identities) {
-      if (id === identityId) continue;
-      
-      const distance = await this.hyperbolicGeometry.computeDistance(
-        identity.embedding,
-        otherIdentity.embedding
-      );
-      
-      if (distance <= threshold) {
-        similar.push(otherIdentity);
-      }
-    }
-
-    return similar;
+    return this.similarityIndex.searchRadius(identity.embedding.vector, threshold)
+      .filter(neighbor => neighbor.id !== identityId)
+      .map(neighbor => this.identities.get(neighbor.id)!);
   }
 
   // Private helper methods
@@ -306,25 +300,23 @@ export class IdentityManager {
 
   private async generateHyperbolicPosition(): Promise<HyperbolicPosition> {
     const coordinates = await this.hyperbolicGeometry.generateRandomPosition();
-    const norm = await this.hyperbolicGeometry.computeNorm(coordinates);
     
     return {
       coordinates,
-      norm: Math.min(norm, 0.9),
-      curvature: -1.0,
+      norm: await this.hyperbolicGeometry.computeNorm(coordinates),
+      curvature: this.config.hyperbolicConfig.curvature,
       timestamp: new Date()
     };
   }
 
   private async generateEmbedding(config: IdentityCreationConfig): Promise<HyperbolicEmbedding> {
     const vector = await this.hyperbolicGeometry.generateEmbedding(config);
-    const norm = await this.hyperbolicGeometry.computeNorm(vector);
     
     return {
       id: uuidv4(),
-      vector: vector.map(val => val * 0.9 / norm),
-      norm: 0.9,
-      curvature: -1.0,
+      vector,
+      norm: await this.hyperbolicGeometry.computeNorm(vector),
+      curvature: this.config.hyperbolicConfig.curvature,
       timestamp: new Date(),
       metadata: {
         dimension: vector.length,
@@ -495,19 +487,19 @@ class HyperbolicGeometry {
 
   async generateRandomPosition(): Promise<number[]> {
     const coords = Array.from({ length: this.config.dimension }, () => Math.random() * 0.1 - 0.05);
-    return coords;
+    return project(coords, this.config.curvature);
   }
 
   async computeNorm(coordinates: number[]): Promise<number> {
-    return Math.sqrt(coordinates.reduce((sum, coord) => sum + coord * coord, 0));
+    return norm(coordinates);
   }
 
   async generateEmbedding(config: IdentityCreationConfig): Promise<number[]> {
-    return Array.from({ length: this.config.embeddingSize }, () => Math.random() * 0.1 - 0.05);
+    const tangent = Array.from({ length: this.config.embeddingSize }, () => Math.random() * 0.1 - 0.05);
+    return expMap0(tangent, this.config.curvature);
   }
 
   async computeDistance(embedding1: HyperbolicEmbedding, embedding2: HyperbolicEmbedding): Promise<number> {
-    const diff = embedding1.vector.map((val, i) => val - embedding2.vector[i]);
-    return Math.sqrt(diff.reduce((sum, val) => sum + val * val, 0));
+    return poincareDistance(embedding1.vector, embedding2.vector, embedding1.curvature);
   }
 }
\ No newline at end of file
@@ -208,8 +208,8 @@ export const DEFAULT_CONFIG: AIPersistenceConfig = {
     encryptionConfig: {
       algorithm: 'AES-256',
       keySize: 256,
-      mode: 'CBC',
-      padding: 'PKCS7'
+      mode: 'GCM',
+      padding: 'none'
     },
     keyManagementConfig: {
       storage: 'file',
@@ -45,6 +45,49 @@ CREATE TABLE IF NOT EXISTS memories (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Deflated content of memories in cold storage; their memories row keeps an empty content
+CREATE TABLE IF NOT EXISTS compressed_memories (
+    id UUID PRIMARY KEY REFERENCES memories(id) ON DELETE CASCADE,
+    original TEXT NOT NULL,
+    compressed TEXT NOT NULL,
+    algorithm VARCHAR(50) NOT NULL,
+    original_bytes INTEGER NOT NULL,
+    compressed_bytes INTEGER NOT NULL,
+    ratio DOUBLE PRECISION NOT NULL,
+    fidelity DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Full-text index entries, one per memory
+CREATE TABLE IF NOT EXISTS memory_index (
+    id UUID PRIMARY KEY REFERENCES memories(id) ON DELETE CASCADE,
+    hash VARCHAR(64) NOT NULL,
+    length INTEGER NOT NULL DEFAULT 0,
+    terms JSONB DEFAULT '{}'
+);
+
+-- Forgetting-curve state, one per memory
+CREATE TABLE IF NOT EXISTS memory_strength (
+    id UUID PRIMARY KEY REFERENCES memories(id) ON DELETE CASCADE,
+    stability DOUBLE PRECISION NOT NULL,
+    last_reinforced TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    reinforcements INTEGER NOT NULL DEFAULT 0,
+    pinned BOOLEAN NOT NULL DEFAULT FALSE
+);
+
+-- Typed links between memories
+CREATE TABLE IF NOT EXISTS memory_relationships (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    source UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    target UUID NOT NULL REFERENCES memories(id) ON DELETE CASCADE,
+    relationship_type VARCHAR(50) NOT NULL,
+    distance DOUBLE PRECISION NOT NULL DEFAULT 0.0,
+    strength DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    confidence DOUBLE PRECISION NOT NULL DEFAULT 1.0,
+    timestamp TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    UNIQUE (source, relationship_type, target)
+);
+
 -- Learning progress table
 CREATE TABLE IF NOT EXISTS learning_progress (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -59,6 +102,80 @@ CREATE TABLE IF NOT EXISTS learning_progress (
     updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
 );
 
+-- Semantic concept graph; relationships hold { target, type, strength, confidence }
+CREATE TABLE IF NOT EXISTS concepts (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    definition TEXT DEFAULT '',
+    category VARCHAR(255) DEFAULT '',
+    properties JSONB DEFAULT '[]',
+    relationships JSONB DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Constraints checked against the concept graph
+CREATE TABLE IF NOT EXISTS axioms (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    statement TEXT NOT NULL,
+    type VARCHAR(50) NOT NULL,
+    confidence DECIMAL(3,2) DEFAULT 1.0,
+    concepts JSONB DEFAULT '[]',
+    relation VARCHAR(255),
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Procedural memory: skills and the procedures that exercise them
+CREATE TABLE IF NOT EXISTS skills (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    description TEXT DEFAULT '',
+    proficiency DECIMAL(3,2) DEFAULT 0.0,
+    confidence DECIMAL(3,2) DEFAULT 0.0,
+    prerequisites JSONB DEFAULT '[]',
+    applications JSONB DEFAULT '[]',
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Steps hold { id, order, action, parameters, conditions, outcomes }; outcomes are observed frequencies
+CREATE TABLE IF NOT EXISTS procedures (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL UNIQUE,
+    steps JSONB DEFAULT '[]',
+    conditions JSONB DEFAULT '[]',
+    outcomes JSONB DEFAULT '[]',
+    skill UUID REFERENCES skills(id) ON DELETE SET NULL,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Automations fire their action on a schedule or on matching memories
+CREATE TABLE IF NOT EXISTS automations (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    trigger JSONB NOT NULL,
+    action JSONB NOT NULL,
+    conditions JSONB DEFAULT '[]',
+    schedule JSONB,
+    last_run TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
+-- Habits formed by repeated procedures; strength is as of last_performed
+CREATE TABLE IF NOT EXISTS habits (
+    id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
+    name VARCHAR(255) NOT NULL,
+    pattern JSONB DEFAULT '{}',
+    frequency DECIMAL(10,4) DEFAULT 0.0,
+    strength DECIMAL(5,4) DEFAULT 0.0,
+    context VARCHAR(255) NOT NULL,
+    last_performed TIMESTAMP WITH TIME ZONE,
+    created_at TIMESTAMP WITH TIME ZONE DEFAULT NOW(),
+    updated_at TIMESTAMP WITH TIME ZONE DEFAULT NOW()
+);
+
 -- Checkpoints table
 CREATE TABLE IF NOT EXISTS checkpoints (
     id UUID PRIMARY KEY DEFAULT uuid_generate_v4(),
@@ -89,11 +206,26 @@ CREATE INDEX IF NOT EXISTS idx_memories_type ON memories(type);
 CREATE INDEX IF NOT EXISTS idx_memories_timestamp ON memories(timestamp);
 CREATE INDEX IF NOT EXISTS idx_memories_created_at ON memories(created_at);
 CREATE INDEX IF NOT EXISTS idx_memories_content_gin ON memories USING gin(to_tsvector('english', content));
+CREATE INDEX IF NOT EXISTS idx_memory_strength_last_reinforced ON memory_strength(last_reinforced);
+CREATE INDEX IF NOT EXISTS idx_memory_relationships_source ON memory_relationships(source);
+CREATE INDEX IF NOT EXISTS idx_memory_relationships_target ON memory_relationships(target);
 
 CREATE INDEX IF NOT EXISTS idx_learning_progress_concept ON learning_progress(concept);
 CREATE INDEX IF NOT EXISTS idx_learning_progress_performance ON learning_progress(performance);
 CREATE INDEX IF NOT EXISTS idx_learning_progress_timestamp ON learning_progress(timestamp);
 
+CREATE INDEX IF NOT EXISTS idx_concepts_name ON concepts(name);
+CREATE INDEX IF NOT EXISTS idx_concepts_category ON concepts(category);
+CREATE INDEX IF NOT EXISTS idx_axioms_type ON axioms(type);
+
+CREATE INDEX IF NOT EXISTS idx_skills_name ON skills(name);
+CREATE INDEX IF NOT EXISTS idx_skills_proficiency ON skills(proficiency);
+CREATE INDEX IF NOT EXISTS idx_procedures_name ON procedures(name);
+CREATE INDEX IF NOT EXISTS idx_procedures_skill ON procedures(skill);
+CREATE INDEX IF NOT EXISTS idx_automations_name ON automations(name);
+CREATE INDEX IF NOT EXISTS idx_habits_context ON habits(context);
+CREATE INDEX IF NOT EXISTS idx_habits_strength ON habits(strength);
+
 CREATE INDEX IF NOT EXISTS idx_checkpoints_name ON checkpoints(name);
 CREATE INDEX IF NOT EXISTS idx_checkpoints_timestamp ON checkpoints(timestamp);
 
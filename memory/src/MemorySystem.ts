@@ -9,6 +9,8 @@ import { Memory, MemoryType, MemoryMetadata, MemoryRelationship, AccessControl,
 import { HyperbolicGeometry } from './HyperbolicGeometry';
 import { MemoryConsolidator } from './MemoryConsolidator';
 import { MemoryIndexer } from './MemoryIndexer';
+import { AutomationScheduler, ConceptGraph, DEFAULT_CLUSTER_OPTIONS, DEFAULT_HIERARCHY_OPTIONS, buildHierarchy, centerEmbedding, clusterPoints, toHyperbolicCluster, ConsolidationOptions, ProcedureEngine, StepExecutor, DecayOptions, Embedder, HashingEmbedder, HnswIndex, MemoryDecay, SpillReason, WorkingMemoryConfig, WorkingMemoryImpl, consolidatedMetadata, itemText, groupMemories, memoryEvent, norm, poincareDistance, resolveConsolidationOptions, segmentTimeline, summarizeMemories, summaryRecord } from '@h2gnn/ai-persistence-core';
+import type { AutomationInput, CompressedMemory, Habit as SchedulerHabit, TriggerType } from '@h2gnn/ai-persistence-core';
 
 export class MemorySystem {
   private memories: Map<string, Memory> = new Map();
@@ -23,6 +25,7 @@ export class MemorySystem {
   private hyperbolicGeometry: HyperbolicGeometry;
   private consolidator: MemoryConsolidator;
   private indexer: MemoryIndexer;
+  private decay: MemoryDecay;
 
   constructor(
     private config: MemorySystemConfig
@@ -30,14 +33,15 @@ export class MemorySystem {
     this.hyperbolicGeometry = new HyperbolicGeometry(config.hyperbolicConfig);
     this.consolidator = new MemoryConsolidator(config.consolidationConfig);
     this.indexer = new MemoryIndexer(config.indexingConfig);
+    this.decay = new MemoryDecay(config.decayConfig);
     
     this.episodic = new EpisodicMemoryImpl();
     this.semantic = new SemanticMemoryImpl();
     this.procedural = new ProceduralMemoryImpl();
-    this.working = new WorkingMemoryImpl(config.workingMemoryConfig);
-    this.meta = new MetaMemoryImpl();
-    this.hyperbolic = new HyperbolicMemoryImpl();
-    this.consolidation = new MemoryConsolidationImpl();
+    this.working = new WorkingMemoryImpl(config.workingMemoryConfig, (item, reason) => this.spillToEpisodic(item, reason));
+    this.meta = new MetaMemoryImpl(this.decay);
+    this.hyperbolic = new HyperbolicMemoryImpl(this.hyperbolicGeometry.embedder);
+    this.consolidation = new MemoryConsolidationImpl(this.hyperbolicGeometry);
   }
 
   async initialize(): Promise<void> {
@@ -82,12 +86,14 @@ export class MemorySystem {
     // Store in appropriate memory system
     await this.storeInMemorySystem(memoryWithId);
     
-    // Create hyperbolic embedding
-    const embedding = await this.hyperbolicGeometry.embed(memoryWithId);
-    await this.hyperbolic.embeddings.push(embedding);
+    // Create hyperbolic embedding and add it to the similarity index
+    await this.hyperbolic.embed(memoryWithId);
     
     // Index memory
     await this.indexer.index(memoryWithId);
+
+    // Start its forgetting curve
+    this.decay.track(memoryWithId);
   }
 
   async retrieve(query: MemoryQuery): Promise<Memory[]> {
@@ -115,18 +121,41 @@ export class MemorySystem {
     return results.slice(query.offset || 0, (query.offset || 0) + (query.limit || 10));
   }
 
-  async consolidate(): Promise<void> {
-    // Consolidate memories using hyperbolic geometry
-    const memories = Array.from(this.memories.values());
-    const consolidated = await this.consolidator.consolidate(memories);
-    
-    // Update memory system with consolidated memories
-    for (const memory of consolidated) {
+  async consolidate(options: ConsolidationOptions = {}): Promise<ConsolidatedMemory[]> {
+    // Group related memories by hyperbolic distance and time
+    const resolved = resolveConsolidationOptions(this.config.consolidationConfig, options);
+    const consolidatedIds = new Set(Array.from(this.memories.values()).flatMap(memory => memory.metadata?.sourceMemories || []));
+    const candidates = Array.from(this.memories.values())
+      .filter(memory => resolved.types.includes(memory.type) && !memory.metadata?.archived && !consolidatedIds.has(memory.id))
+      .map(memory => ({ memory, embedding: this.hyperbolic.embeddings.find(embedding => embedding.id === memory.id)!.vector }));
+    const groups = groupMemories(candidates, { ...resolved, curvature: this.hyperbolicGeometry.embedder.curvature });
+
+    // Each group becomes one semantic memory that keeps its provenance
+    const consolidated: ConsolidatedMemory[] = [];
+    for (const group of groups) {
+      const sources = group.members.map(member => member.memory);
+      const result = await this.consolidation.consolidate(sources);
+      const memory: Memory = {
+        ...sources[0],
+        id: result.id,
+        type: MemoryType.SEMANTIC,
+        content: result.content,
+        metadata: { ...sources[0].metadata, ...consolidatedMetadata(sources) },
+        timestamp: result.timestamp
+      };
       this.memories.set(memory.id, memory);
+      await this.storeInMemorySystem(memory);
+      await this.hyperbolic.embed(memory);
+
+      if (resolved.archive) {
+        for (const source of sources) {
+          this.memories.set(source.id, { ...source, metadata: { ...source.metadata, archived: true, consolidatedInto: memory.id } });
+        }
+      }
+      consolidated.push(result);
     }
-    
-    // Update hyperbolic embeddings
-    await this.updateHyperbolicEmbeddings();
+
+    return consolidated;
   }
 
   async compress(): Promise<void> {
@@ -202,7 +231,19 @@ export class MemorySystem {
   }
 
   async forget(memoryId: string): Promise<void> {
+    // Meta memory refuses pinned memories, so check before removing anything
     await this.meta.forget(memoryId);
+    this.memories.delete(memoryId);
+    await this.hyperbolic.forget(memoryId);
+    this.decay.remove(memoryId);
+  }
+
+  async pin(memoryId: string): Promise<void> {
+    this.decay.setPinned(memoryId, true);
+  }
+
+  async unpin(memoryId: string): Promise<void> {
+    this.decay.setPinned(memoryId, false);
   }
 
   async monitor(): Promise<MemoryStatus> {
@@ -255,6 +296,22 @@ export class MemorySystem {
   }
 
   // Private helper methods
+  // Items spilling out of working memory become episodic memories
+  private async spillToEpisodic(item: MemoryItem, reason: SpillReason): Promise<void> {
+    const memory = {
+      id: item.id,
+      type: MemoryType.EPISODIC,
+      content: itemText(item),
+      metadata: { source: 'working-memory', spillReason: reason, importance: item.priority },
+      timestamp: item.timestamp
+    } as Memory;
+    this.memories.set(memory.id, memory);
+    await this.storeInMemorySystem(memory);
+    await this.hyperbolic.embed(memory);
+    await this.indexer.index(memory);
+    this.decay.track(memory);
+  }
+
   private async storeInMemorySystem(memory: Memory): Promise<void> {
     switch (memory.type) {
       case MemoryType.EPISODIC:
@@ -346,15 +403,19 @@ export interface MemorySystemConfig {
   consolidationConfig: ConsolidationConfig;
   indexingConfig: IndexingConfig;
   workingMemoryConfig: WorkingMemoryConfig;
+  decayConfig?: DecayOptions;
 }
 
 export interface HyperbolicConfig {
   dimension: number;
   curvature: number;
   embeddingSize: number;
+  // Custom embedding model; defaults to a HashingEmbedder
+  embedder?: Embedder;
 }
 
-export interface ConsolidationConfig {
+// Grouping and summary options are the defaults for every consolidation run
+export interface ConsolidationConfig extends ConsolidationOptions {
   threshold: number;
   strategy: string;
   frequency: number;
@@ -365,12 +426,6 @@ export interface IndexingConfig {
   properties: Record<string, any>;
 }
 
-export interface WorkingMemoryConfig {
-  capacity: number;
-  attention: number;
-  processing: number;
-}
-
 export interface MemoryQuery {
   type?: MemoryType;
   content?: string;
@@ -579,7 +634,14 @@ export interface Result {
 
 // Mock implementations for dependencies
 class HyperbolicGeometry {
-  constructor(private config: HyperbolicConfig) {}
+  readonly embedder: Embedder;
+
+  constructor(private config: HyperbolicConfig) {
+    this.embedder = config.embedder || new HashingEmbedder({
+      dimension: config.embeddingSize,
+      curvature: config.curvature
+    });
+  }
 
   async initialize(): Promise<void> {
     console.log('Hyperbolic Geometry initialized');
@@ -590,17 +652,16 @@ class HyperbolicGeometry {
   }
 
   async embed(memory: Memory): Promise<HyperbolicEmbedding> {
-    const vector = Array.from({ length: this.config.embeddingSize }, () => Math.random() * 0.1 - 0.05);
-    const norm = Math.sqrt(vector.reduce((sum, val) => sum + val * val, 0));
+    const vector = await this.embedder.embed(memory.content);
     
     return {
-      id: uuidv4(),
-      vector: vector.map(val => val * 0.9 / norm),
-      norm: 0.9,
-      curvature: this.config.curvature,
+      id: memory.id,
+      vector,
+      norm: norm(vector),
+      curvature: this.embedder.curvature,
       timestamp: new Date(),
       metadata: {
-        dimension: this.config.embeddingSize,
+        dimension: this.embedder.dimension,
         quality: 0.8,
         confidence: 0.9,
         source: 'memory_embedding'
@@ -609,8 +670,7 @@ class HyperbolicGeometry {
   }
 
   async computeDistance(embedding1: HyperbolicEmbedding, embedding2: HyperbolicEmbedding): Promise<number> {
-    const diff = embedding1.vector.map((val, i) => val - embedding2.vector[i]);
-    return Math.sqrt(diff.reduce((sum, val) => sum + val * val, 0));
+    return poincareDistance(embedding1.vector, embedding2.vector, embedding1.curvature);
   }
 }
 
@@ -679,13 +739,7 @@ class EpisodicMemoryImpl implements EpisodicMemory {
   }
 
   async createTimeline(events: Event[]): Promise<Timeline> {
-    return {
-      id: uuidv4(),
-      events,
-      phases: [],
-      start: new Date(),
-      end: new Date()
-    };
+    return segmentTimeline(events);
   }
 
   async addEmotionalContext(event: Event, emotion: Emotion): Promise<void> {
@@ -694,7 +748,7 @@ class EpisodicMemoryImpl implements EpisodicMemory {
 }
 
 class SemanticMemoryImpl implements SemanticMemory {
-  private concepts: Concept[] = [];
+  private graph = new ConceptGraph();
 
   async initialize(): Promise<void> {
     console.log('Semantic Memory initialized');
@@ -705,117 +759,101 @@ class SemanticMemoryImpl implements SemanticMemory {
   }
 
   async addConcept(concept: Concept): Promise<void> {
-    this.concepts.push(concept);
+    this.graph.add(concept);
   }
 
   async findConcepts(query: string): Promise<Concept[]> {
-    return this.concepts.filter(concept => 
-      concept.name.includes(query) || concept.definition.includes(query)
-    );
+    return this.graph.find(query);
   }
 
   async getRelationships(concept: Concept): Promise<Relationship[]> {
-    return [];
+    const known = this.graph.get(concept.id) || this.graph.get(concept.name);
+    return (known?.relationships || []).map(relationship => ({
+      source: known!.id,
+      target: relationship.target,
+      type: relationship.type,
+      strength: relationship.strength,
+      confidence: relationship.confidence,
+      bidirectional: false
+    }));
   }
 
   async buildHierarchy(concepts: Concept[]): Promise<Hierarchy> {
-    return {
-      id: uuidv4(),
-      root: concepts[0]?.id || '',
-      levels: [],
-      relationships: [],
-      properties: { depth: 0, breadth: 0, balance: 0, connectivity: 0 }
-    };
+    concepts.forEach(concept => this.graph.add(concept));
+    return this.graph.hierarchy(concepts[0]?.id);
   }
 
   async createOntology(concepts: Concept[]): Promise<Ontology> {
-    return {
-      id: uuidv4(),
-      concepts,
-      relationships: [],
-      axioms: [],
-      metadata: {
-        version: '1.0.0',
-        created: new Date(),
-        updated: new Date(),
-        size: concepts.length,
-        quality: 0.8
-      }
-    };
+    concepts.forEach(concept => this.graph.add(concept));
+    return this.graph.toOntology();
   }
 }
 
 class ProceduralMemoryImpl implements ProceduralMemory {
-  private skills: Skill[] = [];
-
-  async initialize(): Promise<void> {
-    console.log('Procedural Memory initialized');
-  }
+  private engine = new ProcedureEngine();
+  private scheduler = new AutomationScheduler(this.engine);
 
-  async shutdown(): Promise<void> {
-    console.log('Procedural Memory shutdown');
+  get skills(): Skill[] {
+    return this.engine.getSkills();
   }
 
-  async learnSkill(skill: Skill): Promise<void> {
-    this.skills.push(skill);
+  get procedures(): Procedure[] {
+    return this.engine.getProcedures();
   }
 
-  async executeProcedure(procedure: Procedure): Promise<Result> {
-    return {
-      success: true,
-      output: 'Procedure executed',
-      confidence: 0.8,
-      metadata: {}
-    };
+  get automations(): Automation[] {
+    return this.scheduler.getAutomations();
   }
 
-  async createAutomation(automation: Automation): Promise<void> {
-    console.log('Automation created:', automation.id);
+  get habits(): Habit[] {
+    return this.scheduler.getHabits();
   }
 
-  async formHabit(habit: Habit): Promise<void> {
-    console.log('Habit formed:', habit.id);
+  registerExecutor(action: string, executor: StepExecutor): void {
+    this.engine.register(action, executor);
   }
-}
-
-class WorkingMemoryImpl implements WorkingMemory {
-  private current: MemoryItem[] = [];
-  private attention: AttentionFocus[] = [];
-  private processing: ProcessingTask[] = [];
-
-  constructor(private config: WorkingMemoryConfig) {}
 
   async initialize(): Promise<void> {
-    console.log('Working Memory initialized');
+    console.log('Procedural Memory initialized');
   }
 
   async shutdown(): Promise<void> {
-    console.log('Working Memory shutdown');
+    console.log('Procedural Memory shutdown');
   }
 
-  async add(memory: MemoryItem): Promise<void> {
-    if (this.current.length >= this.config.capacity) {
-      this.current.shift(); // Remove oldest memory
-    }
-    this.current.push(memory);
+  async learnSkill(skill: Skill): Promise<void> {
+    this.engine.addSkill(skill);
   }
 
-  async remove(id: string): Promise<void> {
-    this.current = this.current.filter(memory => memory.id !== id);
+  async executeProcedure(procedure: Procedure, input: Record<string, any> = {}): Promise<Result> {
+    const stored = this.engine.getProcedure(procedure.id) ?? this.engine.addProcedure(procedure);
+    const run = await this.engine.run(stored.id, input);
+    this.scheduler.observeRun(run);
+    return {
+      success: run.status === 'succeeded',
+      output: run.output,
+      confidence: run.skill?.confidence ?? 0,
+      metadata: { runId: run.id, status: run.status, steps: run.steps }
+    };
   }
 
-  async focus(attention: AttentionFocus): Promise<void> {
-    this.attention.push(attention);
+  async createAutomation(automation: Automation): Promise<void> {
+    // The scheduler rejects trigger types it does not know
+    const input: AutomationInput = { ...automation, trigger: { ...automation.trigger, type: automation.trigger.type as TriggerType } };
+    this.scheduler.add(input);
   }
 
-  async process(task: ProcessingTask): Promise<ProcessingResult> {
-    this.processing.push(task);
-    return {
-      success: true,
-      output: 'Task processed',
-      confidence: 0.8,
-      metadata: {}
+  async formHabit(habit: Habit): Promise<void> {
+    // A habit formed elsewhere has no runs to show for it and is as certain as it is strong
+    const formed: SchedulerHabit = {
+      ...habit,
+      pattern: { ...habit.pattern, id: uuidv4(), confidence: habit.pattern.strength, examples: [] }
     };
+    this.scheduler.addHabit(formed);
+  }
+
+  async tick(): Promise<void> {
+    await this.scheduler.tick();
   }
 }
 
@@ -835,6 +873,8 @@ class MetaMemoryImpl implements MetaMemory {
     automation: []
   };
 
+  constructor(private decay: MemoryDecay) {}
+
   async initialize(): Promise<void> {
     console.log('Meta Memory initialized');
   }
@@ -848,6 +888,10 @@ class MetaMemoryImpl implements MetaMemory {
   }
 
   async forget(memoryId: string): Promise<void> {
+    const memory = this.memories.find(candidate => candidate.id === memoryId);
+    if (this.decay.isPinned(memoryId) || memory?.metadata?.pinned === true) {
+      throw new Error(`Memory ${memoryId} is pinned`);
+    }
     this.memories = this.memories.filter(memory => memory.id !== memoryId);
   }
 
@@ -866,6 +910,13 @@ class HyperbolicMemoryImpl implements HyperbolicMemory {
   private hierarchies: HyperbolicHierarchy[] = [];
   private clusters: HyperbolicCluster[] = [];
 
+  private memories: Map<string, Memory> = new Map();
+  private index: HnswIndex;
+
+  constructor(private embedder: Embedder = new HashingEmbedder()) {
+    this.index = new HnswIndex({ curvature: embedder.curvature });
+  }
+
   async initialize(): Promise<void> {
     console.log('Hyperbolic Memory initialized');
   }
@@ -875,30 +926,49 @@ class HyperbolicMemoryImpl implements HyperbolicMemory {
   }
 
   async embed(memory: Memory): Promise<HyperbolicEmbedding> {
+    const vector = await this.embedder.embed(memory.content);
     const embedding: HyperbolicEmbedding = {
-      id: uuidv4(),
-      vector: Array.from({ length: 64 }, () => Math.random() * 0.1 - 0.05),
-      norm: 0.9,
-      curvature: -1.0,
+      id: memory.id,
+      vector,
+      norm: norm(vector),
+      curvature: this.embedder.curvature,
       timestamp: new Date(),
       metadata: {
-        dimension: 64,
+        dimension: this.embedder.dimension,
         quality: 0.8,
         confidence: 0.9,
         source: 'hyperbolic_embedding'
       }
     };
     
+    this.embeddings = this.embeddings.filter(existing => existing.id !== memory.id);
     this.embeddings.push(embedding);
+    this.memories.set(memory.id, memory);
+    this.index.add(memory.id, vector);
     return embedding;
   }
 
+  async forget(memoryId: string): Promise<void> {
+    this.embeddings = this.embeddings.filter(embedding => embedding.id !== memoryId);
+    this.memories.delete(memoryId);
+    this.index.remove(memoryId);
+  }
+
   async findSimilar(embedding: HyperbolicEmbedding, threshold: number): Promise<Memory[]> {
-    return [];
+    return this.index.searchRadius(embedding.vector, threshold)
+      .filter(neighbor => neighbor.id !== embedding.id)
+      .map(neighbor => this.memories.get(neighbor.id)!);
+  }
+
+  async findNearest(embedding: HyperbolicEmbedding, k: number): Promise<Memory[]> {
+    return this.index.search(embedding.vector, k + 1)
+      .filter(neighbor => neighbor.id !== embedding.id)
+      .slice(0, k)
+      .map(neighbor => this.memories.get(neighbor.id)!);
   }
 
   async computeDistance(embedding1: HyperbolicEmbedding, embedding2: HyperbolicEmbedding): Promise<number> {
-    return Math.random();
+    return poincareDistance(embedding1.vector, embedding2.vector, embedding1.curvature);
   }
 
   async consolidate(embeddings: HyperbolicEmbedding[]): Promise<ConsolidatedMemory> {
@@ -913,15 +983,21 @@ class HyperbolicMemoryImpl implements HyperbolicMemory {
   }
 
   async cluster(embeddings: HyperbolicEmbedding[]): Promise<HyperbolicCluster[]> {
-    return [];
+    const byId = new Map(embeddings.map(embedding => [embedding.id, embedding]));
+    const curvature = embeddings[0]?.curvature ?? this.embedder.curvature;
+    this.clusters = clusterPoints(embeddings, DEFAULT_CLUSTER_OPTIONS, curvature).clusters
+      .map(cluster => toHyperbolicCluster(uuidv4(), cluster, byId, curvature));
+    return this.clusters;
   }
 }
 
 class MemoryConsolidationImpl implements MemoryConsolidation {
+  constructor(private geometry: HyperbolicGeometry) {}
+
   private temporal: TemporalConsolidation = new TemporalConsolidationImpl();
   private semantic: SemanticConsolidation = new SemanticConsolidationImpl();
   private emotional: EmotionalConsolidation = new EmotionalConsolidationImpl();
-  private hierarchical: HierarchicalConsolidation = new HierarchicalConsolidationImpl();
+  private hierarchical: HierarchicalConsolidation = new HierarchicalConsolidationImpl(this.geometry);
 
   async initialize(): Promise<void> {
     console.log('Memory Consolidation initialized');
@@ -932,37 +1008,27 @@ class MemoryConsolidationImpl implements MemoryConsolidation {
   }
 
   async consolidate(memories: Memory[]): Promise<ConsolidatedMemory> {
+    const id = uuidv4();
+    const content = summarizeMemories(memories);
+    const confidences = memories
+      .map(memory => Number(memory.metadata?.confidence))
+      .filter(confidence => Number.isFinite(confidence));
+
     return {
-      id: uuidv4(),
+      id,
       sourceMemories: memories.map(m => m.id),
-      content: 'Consolidated memory',
-      embedding: {
-        id: uuidv4(),
-        vector: Array.from({ length: 64 }, () => Math.random() * 0.1 - 0.05),
-        norm: 0.9,
-        curvature: -1.0,
-        timestamp: new Date(),
-        metadata: {
-          dimension: 64,
-          quality: 0.8,
-          confidence: 0.9,
-          source: 'consolidation'
-        }
-      },
-      confidence: 0.8,
+      content,
+      embedding: await this.geometry.embed({ ...memories[0], id, content }),
+      // The summary is as trustworthy as its sources on average
+      confidence: confidences.length > 0 ? confidences.reduce((sum, value) => sum + value, 0) / confidences.length : 0.8,
       timestamp: new Date()
     };
   }
 
+  // Lossy: the memories are replaced by an extractive summary
   async compress(memories: Memory[]): Promise<CompressedMemory> {
-    return {
-      id: uuidv4(),
-      original: memories.map(m => m.id).join(','),
-      compressed: 'Compressed memory',
-      ratio: 0.5,
-      quality: 0.8,
-      timestamp: new Date()
-    };
+    const summary = { ...memories[0], id: uuidv4(), content: summarizeMemories(memories) };
+    return summaryRecord(summary, memories);
   }
 
   async index(memories: Memory[]): Promise<MemoryIndex> {
@@ -980,7 +1046,17 @@ class MemoryConsolidationImpl implements MemoryConsolidation {
   }
 
   async cluster(memories: Memory[]): Promise<MemoryCluster[]> {
-    return [];
+    const embeddings = await Promise.all(memories.map(memory => this.geometry.embed(memory)));
+    const curvature = embeddings[0]?.curvature ?? -1;
+    return clusterPoints(embeddings, DEFAULT_CLUSTER_OPTIONS, curvature).clusters.map(cluster => {
+      const id = uuidv4();
+      return {
+        id,
+        center: centerEmbedding(id, cluster, curvature),
+        members: cluster.members,
+        properties: { size: cluster.members.length, density: cluster.density, cohesion: cluster.cohesion, separation: cluster.separation }
+      };
+    });
   }
 }
 
@@ -989,6 +1065,7 @@ export interface Timeline {
   id: string;
   events: Event[];
   phases: TimelinePhase[];
+  milestones: TimelineMilestone[];
   start: Date;
   end: Date;
 }
@@ -1101,15 +1178,6 @@ export interface Enforcement {
   actions: Action[];
 }
 
-export interface CompressedMemory {
-  id: string;
-  original: string;
-  compressed: any;
-  ratio: number;
-  quality: number;
-  timestamp: Date;
-}
-
 export interface MemoryIndex {
   id: string;
   memories: string[];
@@ -1129,6 +1197,17 @@ export interface TimelinePhase {
   start: Date;
   end: Date;
   characteristics: string[];
+  boundary: 'start' | 'gap' | 'location' | 'topic';
+  events: string[];
+  topics: string[];
+  location?: string;
+}
+
+export interface TimelineMilestone {
+  eventId: string;
+  timestamp: Date;
+  description: string;
+  reason: 'marked' | 'importance' | 'keyword';
 }
 
 export interface HierarchyLevel {
@@ -1236,13 +1315,7 @@ class TemporalConsolidationImpl implements TemporalConsolidation {
   }
 
   async createTimeline(memories: Memory[]): Promise<Timeline> {
-    return {
-      id: uuidv4(),
-      events: [],
-      phases: [],
-      start: new Date(),
-      end: new Date()
-    };
+    return segmentTimeline(memories.map(memoryEvent));
   }
 
   async findPatterns(memories: Memory[]): Promise<Pattern[]> {
@@ -1305,22 +1378,29 @@ class EmotionalConsolidationImpl implements EmotionalConsolidation {
 }
 
 class HierarchicalConsolidationImpl implements HierarchicalConsolidation {
+  // Embeddings of memories placed in hierarchies, for re-parenting them later
+  private embeddings: Map<string, HyperbolicEmbedding> = new Map();
+
+  constructor(private geometry: HyperbolicGeometry) {}
+
   async buildHierarchy(memories: Memory[]): Promise<Hierarchy> {
-    return {
-      id: uuidv4(),
-      root: '',
-      levels: [],
-      relationships: [],
-      properties: { depth: 0, breadth: 0, balance: 0, connectivity: 0 }
-    };
+    const embeddings = await Promise.all(memories.map(memory => this.geometry.embed(memory)));
+    for (const embedding of embeddings) {
+      this.embeddings.set(embedding.id, embedding);
+    }
+    return { id: uuidv4(), ...buildHierarchy(embeddings, DEFAULT_HIERARCHY_OPTIONS.minDepthGap, this.geometry.embedder.curvature) };
   }
 
   async findHierarchicalPatterns(memories: Memory[]): Promise<HierarchicalPattern[]> {
     return [];
   }
 
+  // Re-parents every node to its nearest ancestor and drops nodes whose embedding is unknown
   async optimizeHierarchy(hierarchy: Hierarchy): Promise<Hierarchy> {
-    return hierarchy;
+    const embeddings = hierarchy.levels
+      .flatMap(level => level.nodes)
+      .flatMap(id => this.embeddings.has(id) ? [this.embeddings.get(id)!] : []);
+    return { id: hierarchy.id, ...buildHierarchy(embeddings, DEFAULT_HIERARCHY_OPTIONS.minDepthGap, this.geometry.embedder.curvature) };
   }
 }
 
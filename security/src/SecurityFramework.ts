@@ -5,6 +5,7 @@
  */
 
 import { v4 as uuidv4 } from 'uuid';
+import { createCipheriv, createDecipheriv, randomBytes } from 'crypto';
 import { SecurityFramework, EncryptionService, AuthenticationService, AuthorizationService, PrivacyService, AnonymizationService, AuditService, MonitoringService, EncryptedData, Credentials, AuthResult, Identity, Resource, Action, Permission, Role, AnonymizedData, PseudonymizedData, PrivateData, CleanedData, PrivacyPolicy, ComplianceReport, SecurityEvent, AuditReport, SecurityAnalysis, Anomaly, SecurityAlert, SecurityActivity, SecurityIncident, SecurityMetrics, TrendAnalysis, ThreatPrediction } from '../types/security';
 import { EncryptionEngine } from './EncryptionEngine';
 import { AuthenticationEngine } from './AuthenticationEngine';
@@ -14,6 +15,10 @@ import { AnonymizationEngine } from './AnonymizationEngine';
 import { AuditEngine } from './AuditEngine';
 import { MonitoringEngine } from './MonitoringEngine';
 
+const GCM_ALGORITHM = 'aes-256-gcm';
+const GCM_KEY_LENGTH = 32;
+const GCM_IV_LENGTH = 12;
+
 export class SecurityFrameworkImpl implements SecurityFramework {
   private encryption: EncryptionService;
   private keyManagement: KeyManagementService;
@@ -503,6 +508,8 @@ export interface SecurityModelEvaluation {
 
 // Mock implementations for dependencies
 class EncryptionEngine implements EncryptionService {
+  private keys: Map<string, Buffer> = new Map();
+
   constructor(private config: EncryptionConfig) {}
 
   async initialize(): Promise<void> {
@@ -510,31 +517,84 @@ class EncryptionEngine implements EncryptionService {
   }
 
   async shutdown(): Promise<void> {
+    this.keys.clear();
     console.log('Encryption Engine shutdown');
   }
 
   async encrypt(data: any, key: string): Promise<EncryptedData> {
+    const iv = randomBytes(GCM_IV_LENGTH);
+    const cipher = createCipheriv(GCM_ALGORITHM, this.getKey(key), iv);
+    const ciphertext = Buffer.concat([
+      cipher.update(JSON.stringify(data), 'utf8'),
+      cipher.final()
+    ]);
+
     return {
-      data: Buffer.from(JSON.stringify(data)).toString('base64'),
-      algorithm: this.config.algorithm,
+      data: ciphertext.toString('base64'),
+      algorithm: GCM_ALGORITHM,
       keyId: key,
-      iv: 'mock-iv',
+      iv: iv.toString('base64'),
+      authTag: cipher.getAuthTag().toString('base64'),
       timestamp: new Date()
     };
   }
 
   async decrypt(encryptedData: EncryptedData, key: string): Promise<any> {
-    return JSON.parse(Buffer.from(encryptedData.data, 'base64').toString());
+    if (key && key !== encryptedData.keyId) {
+      throw new Error(`Encrypted data was produced with key ${encryptedData.keyId}, not ${key}`);
+    }
+    if (encryptedData.algorithm !== GCM_ALGORITHM) {
+      throw new Error(`Unsupported encryption algorithm: ${encryptedData.algorithm}`);
+    }
+    if (!encryptedData.iv || !encryptedData.authTag) {
+      throw new Error('Encrypted data is missing its IV or authentication tag');
+    }
+
+    const decipher = createDecipheriv(GCM_ALGORITHM, this.getKey(encryptedData.keyId), Buffer.from(encryptedData.iv, 'base64'));
+    decipher.setAuthTag(Buffer.from(encryptedData.authTag, 'base64'));
+
+    let plaintext: string;
+    try {
+      plaintext = Buffer.concat([
+        decipher.update(Buffer.from(encryptedData.data, 'base64')),
+        decipher.final()
+      ]).toString('utf8');
+    } catch (error) {
+      throw new Error('Decryption failed: data has been tampered with or the key is incorrect');
+    }
+
+    return JSON.parse(plaintext);
   }
 
   async generateKey(): Promise<string> {
-    return `key_${uuidv4()}`;
+    const keyId = `key_${uuidv4()}`;
+    this.keys.set(keyId, randomBytes(this.config.keySize / 8));
+    return keyId;
   }
 
+  /**
+   * Introduce newKey alongside oldKey. The old key is kept in the keyring so
+   * data encrypted with it can still be decrypted and re-encrypted.
+   */
   async rotateKey(oldKey: string, newKey: string): Promise<void> {
+    this.getKey(oldKey);
+    if (!this.keys.has(newKey)) {
+      this.keys.set(newKey, randomBytes(this.config.keySize / 8));
+    }
     console.log(`Key rotated from ${oldKey} to ${newKey}`);
   }
 
+  private getKey(keyId: string): Buffer {
+    const key = this.keys.get(keyId);
+    if (!key) {
+      throw new Error(`Unknown encryption key: ${keyId}`);
+    }
+    if (key.length !== GCM_KEY_LENGTH) {
+      throw new Error(`${GCM_ALGORITHM} requires a ${GCM_KEY_LENGTH * 8}-bit key`);
+    }
+    return key;
+  }
+
   async establishSecureChannel(peer: string): Promise<SecureChannel> {
     return {
       id: uuidv4(),
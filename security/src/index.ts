@@ -125,8 +125,8 @@ export const DEFAULT_SECURITY_CONFIG: SecurityFrameworkConfig = {
   encryptionConfig: {
     algorithm: 'AES-256',
     keySize: 256,
-    mode: 'CBC',
-    padding: 'PKCS7'
+    mode: 'GCM',
+    padding: 'none'
   },
   keyManagementConfig: {
     storage: 'file',
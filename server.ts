@@ -8,8 +8,10 @@
 
 import http from 'node:http';
 import { URL } from 'node:url';
-import { AIPersistenceCore, DEFAULT_CONFIG } from './core/src/index.js';
-import type { IdentityConfig, SecurityConfig } from './core/src/interfaces/AIPersistenceCore.js';
+import { AIPersistenceCore, CONFLICT_RESOLUTIONS, DEFAULT_CONFIG, MEMORY_RELATION_TYPES, resolveClusterOptions, resolveCompressionOptions, resolveConsolidationOptions, resolveHierarchyOptions, resolveTimelineOptions, resolveTraversalOptions, validateConflictQuery, validateContextRequest, validateMemoryQuery } from './core/src/index.js';
+import type { IdentityConfig, SecurityConfig, ClusterOptions, CompressionOptions, ConflictQuery, ConflictResolution, ConsolidationGroup, ConsolidationOptions, ContextRequest, HierarchyRequest, LinkOptions, Memory, MemoryClusterGroup, MemoryConflict, MemoryGraphNode, MemoryHierarchyNode, MemoryQuery, MemoryRelationType, MemoryStoreResult, MemorySubgraph, MetadataRange, MetadataValue, TimelineRequest, TraversalOptions } from './core/src/interfaces/AIPersistenceCore.js';
+import type { CompressedMemory, HierarchyLevel } from './core/src/types/memory.js';
+import type { LearnedConceptResult } from './core/src/implementations/AIPersistenceCoreImpl.js';
 
 // Create AI Persistence instance
 let aiPersistence: any = null;
@@ -66,6 +68,355 @@ function sendError(res: http.ServerResponse, statusCode: number, message: string
   });
 }
 
+// Build a MemoryQuery from query-string parameters, e.g.
+// ?tags=ai,persistence&start=2024-01-01&metadata[source]=user&metadata[quality][gte]=0.5&sortBy=importance
+function parseMemoryQuery(params: URLSearchParams): MemoryQuery {
+  const query: MemoryQuery = {};
+
+  for (const name of ['type', 'content', 'cursor', 'sortBy', 'order', 'tagMatch'] as const) {
+    const value = params.get(name);
+    if (value !== null) {
+      (query as Record<string, string>)[name] = value;
+    }
+  }
+
+  for (const name of ['limit', 'minImportance', 'minConfidence'] as const) {
+    const value = params.get(name);
+    if (value !== null) {
+      if (value.trim() === '' || !Number.isFinite(Number(value))) {
+        throw new Error(`${name} must be a number, got ${value}`);
+      }
+      query[name] = Number(value);
+    }
+  }
+
+  const start = params.get('start');
+  const end = params.get('end');
+  if (start !== null || end !== null) {
+    query.timeRange = {};
+    if (start !== null) {
+      query.timeRange.start = new Date(start);
+    }
+    if (end !== null) {
+      query.timeRange.end = new Date(end);
+    }
+  }
+
+  // Both ?tags=a,b and ?tags=a&tags=b
+  const tags = params.getAll('tags').flatMap(value => value.split(',')).map(tag => tag.trim()).filter(Boolean);
+  if (tags.length > 0) {
+    query.tags = tags;
+  }
+
+  for (const [name, value] of params) {
+    const match = /^metadata\[([^\]]+)\](?:\[(\w+)\])?$/.exec(name);
+    if (!match) {
+      continue;
+    }
+    const [, key, operator] = match;
+    query.metadata = query.metadata || {};
+    if (operator) {
+      const existing = query.metadata[key];
+      const range: Record<string, MetadataValue> = existing !== null && typeof existing === 'object' ? { ...existing } : {};
+      range[operator] = parseScalar(value);
+      query.metadata[key] = range as MetadataRange;
+    } else {
+      query.metadata[key] = parseScalar(value);
+    }
+  }
+
+  validateMemoryQuery(query);
+  return query;
+}
+
+// Pick ConsolidationOptions out of a JSON request body
+function parseConsolidationOptions(data: Record<string, any>): ConsolidationOptions {
+  const options: ConsolidationOptions = {};
+
+  for (const name of ['types', 'maxDistance', 'timeWindow', 'minGroupSize', 'summarySentences', 'archive'] as const) {
+    if (data[name] !== undefined) {
+      (options as Record<string, any>)[name] = data[name];
+    }
+  }
+  if (options.archive !== undefined && typeof options.archive !== 'boolean') {
+    throw new Error('Invalid consolidation options: archive must be true or false');
+  }
+
+  resolveConsolidationOptions(options);
+  return options;
+}
+
+// Pick ClusterOptions out of a JSON request body
+function parseClusterOptions(data: Record<string, any>): ClusterOptions {
+  const options: ClusterOptions = {};
+
+  for (const name of ['method', 'types', 'k', 'maxIterations', 'seed', 'epsilon', 'minPoints'] as const) {
+    if (data[name] !== undefined) {
+      (options as Record<string, any>)[name] = data[name];
+    }
+  }
+
+  resolveClusterOptions(options);
+  return options;
+}
+
+// Pick CompressionOptions out of a JSON request body
+function parseCompressionOptions(data: Record<string, any>): CompressionOptions {
+  const options: CompressionOptions = {};
+
+  for (const name of ['types', 'olderThan', 'algorithm', 'level', 'threshold', 'lossy', 'maxDistance', 'minGroupSize', 'summarySentences'] as const) {
+    if (data[name] !== undefined) {
+      (options as Record<string, any>)[name] = data[name];
+    }
+  }
+
+  resolveCompressionOptions(options);
+  return options;
+}
+
+// Pick a ContextRequest out of a JSON request body; token estimation always uses the default estimator
+function parseContextRequest(data: Record<string, any>): ContextRequest {
+  const request: ContextRequest = {};
+
+  for (const name of ['identityId', 'query'] as const) {
+    if (data[name] !== undefined) {
+      if (typeof data[name] !== 'string') {
+        throw new Error(`Invalid context request: ${name} must be a string`);
+      }
+      request[name] = data[name];
+    }
+  }
+  for (const name of ['tokenBudget', 'sections', 'learningLimit', 'recall'] as const) {
+    if (data[name] !== undefined) {
+      (request as Record<string, any>)[name] = data[name];
+    }
+  }
+  // JSON has no dates, so recall.now arrives as a string
+  if (request.recall && typeof request.recall === 'object' && request.recall.now !== undefined) {
+    const now = new Date(request.recall.now);
+    if (isNaN(now.getTime())) {
+      throw new Error(`Invalid context request: recall.now must be a date, got ${request.recall.now}`);
+    }
+    request.recall = { ...request.recall, now };
+  }
+
+  validateContextRequest(request);
+  return request;
+}
+
+// Build a TimelineRequest from query-string parameters, e.g. ?from=2024-01-01&to=2024-02-01&maxGap=3600000
+function parseTimelineRequest(params: URLSearchParams): TimelineRequest {
+  const request: TimelineRequest = {};
+
+  for (const name of ['from', 'to'] as const) {
+    const value = params.get(name);
+    if (value !== null) {
+      const date = new Date(value);
+      if (isNaN(date.getTime())) {
+        throw new Error(`Invalid timeline request: ${name} must be a date, got ${value}`);
+      }
+      request[name] = date;
+    }
+  }
+  if (request.from && request.to && request.from > request.to) {
+    throw new Error('Invalid timeline request: from must not be after to');
+  }
+
+  for (const name of ['maxGap', 'topicThreshold', 'milestoneImportance'] as const) {
+    const value = params.get(name);
+    if (value !== null) {
+      if (value.trim() === '' || !Number.isFinite(Number(value))) {
+        throw new Error(`Invalid timeline request: ${name} must be a number, got ${value}`);
+      }
+      request[name] = Number(value);
+    }
+  }
+
+  const types = params.getAll('types').flatMap(value => value.split(',')).map(type => type.trim()).filter(Boolean);
+  if (types.length > 0) {
+    request.types = types;
+  }
+
+  resolveTimelineOptions(request);
+  return request;
+}
+
+// Build a HierarchyRequest from query-string parameters, e.g. ?root=<memory id>&maxLevels=2&types=semantic
+function parseHierarchyRequest(params: URLSearchParams): HierarchyRequest {
+  const request: HierarchyRequest = {};
+
+  const root = params.get('root');
+  if (root !== null && root.trim() !== '') {
+    request.root = root.trim();
+  }
+
+  const minDepthGap = params.get('minDepthGap');
+  if (minDepthGap !== null) {
+    if (minDepthGap.trim() === '' || !Number.isFinite(Number(minDepthGap))) {
+      throw new Error(`Invalid hierarchy request: minDepthGap must be a number, got ${minDepthGap}`);
+    }
+    request.minDepthGap = Number(minDepthGap);
+  }
+
+  const maxLevels = params.get('maxLevels');
+  if (maxLevels !== null) {
+    if (!/^\d+$/.test(maxLevels.trim())) {
+      throw new Error(`Invalid hierarchy request: maxLevels must be a non-negative integer, got ${maxLevels}`);
+    }
+    request.maxLevels = Number(maxLevels);
+  }
+
+  const types = params.getAll('types').flatMap(value => value.split(',')).map(type => type.trim()).filter(Boolean);
+  if (types.length > 0) {
+    request.types = types;
+  }
+
+  resolveHierarchyOptions(request);
+  return request;
+}
+
+// A hierarchy node as browsable JSON, with only the memory fields needed to show it
+function hierarchyNodeJSON(node: MemoryHierarchyNode): Record<string, any> {
+  return {
+    id: node.memory.id,
+    type: node.memory.type,
+    content: node.memory.content,
+    depth: node.depth,
+    distance: node.distance,
+    hidden: node.hidden,
+    children: node.children.map(hierarchyNodeJSON)
+  };
+}
+
+// A link request from a JSON request body: { source, type, target, strength?, confidence? }
+function parseLinkRequest(data: Record<string, any>): { source: string; type: MemoryRelationType; target: string; options: LinkOptions } {
+  for (const name of ['source', 'target'] as const) {
+    if (typeof data[name] !== 'string' || data[name].trim() === '') {
+      throw new Error(`Invalid link: ${name} must be a memory id`);
+    }
+  }
+  if (data.source === data.target) {
+    throw new Error('Invalid link: a memory cannot be linked to itself');
+  }
+  if (!MEMORY_RELATION_TYPES.includes(data.type)) {
+    throw new Error(`Invalid link: unknown type ${data.type}; expected one of ${MEMORY_RELATION_TYPES.join(', ')}`);
+  }
+
+  const options: LinkOptions = {};
+  for (const name of ['strength', 'confidence'] as const) {
+    if (data[name] !== undefined) {
+      if (typeof data[name] !== 'number' || !(data[name] >= 0 && data[name] <= 1)) {
+        throw new Error(`Invalid link: ${name} must be a number in [0, 1], got ${data[name]}`);
+      }
+      options[name] = data[name];
+    }
+  }
+  return { source: data.source, type: data.type, target: data.target, options };
+}
+
+// Build TraversalOptions from query-string parameters, e.g. ?hops=2&types=causes,follows&direction=out
+function parseTraversalOptions(params: URLSearchParams): TraversalOptions {
+  const options: TraversalOptions = {};
+
+  const hops = params.get('hops');
+  if (hops !== null) {
+    if (!/^\d+$/.test(hops.trim())) {
+      throw new Error(`Invalid traversal options: hops must be a non-negative integer, got ${hops}`);
+    }
+    options.hops = Number(hops);
+  }
+
+  const direction = params.get('direction');
+  if (direction !== null) {
+    options.direction = direction.trim() as TraversalOptions['direction'];
+  }
+
+  const types = params.getAll('types').flatMap(value => value.split(',')).map(type => type.trim()).filter(Boolean);
+  if (types.length > 0) {
+    options.types = types as MemoryRelationType[];
+  }
+
+  resolveTraversalOptions(options);
+  return options;
+}
+
+// The first of the ids that is not a stored memory
+async function findMissingMemory(ids: string[]): Promise<string | undefined> {
+  const { nodes }: MemorySubgraph = await aiPersistence.getMemorySubgraph(ids);
+  const known = new Set(nodes.map((node: MemoryGraphNode) => node.memory.id));
+  return ids.find(id => !known.has(id));
+}
+
+// A subgraph as JSON for visualisation, with only the memory fields needed to draw it
+function subgraphJSON(subgraph: MemorySubgraph): Record<string, any> {
+  return {
+    nodes: subgraph.nodes.map((node: MemoryGraphNode) => ({
+      id: node.memory.id,
+      type: node.memory.type,
+      content: node.memory.content,
+      ...(node.hops !== undefined ? { hops: node.hops } : {})
+    })),
+    links: subgraph.links
+  };
+}
+
+// Build a ConflictQuery from query-string parameters, e.g. ?status=all&memoryId=<memory id>
+function parseConflictQuery(params: URLSearchParams): ConflictQuery {
+  const query: ConflictQuery = {};
+
+  const status = params.get('status');
+  if (status !== null) {
+    query.status = status.trim() as ConflictQuery['status'];
+  }
+  const memoryId = params.get('memoryId');
+  if (memoryId !== null && memoryId.trim() !== '') {
+    query.memoryId = memoryId.trim();
+  }
+
+  validateConflictQuery(query);
+  return query;
+}
+
+// A resolution from a JSON request body: { action, note? }
+function parseConflictResolution(data: Record<string, any>): { action: ConflictResolution; note?: string } {
+  if (!CONFLICT_RESOLUTIONS.includes(data.action)) {
+    throw new Error(`Invalid conflict resolution: unknown action ${data.action}; expected one of ${CONFLICT_RESOLUTIONS.join(', ')}`);
+  }
+  if (data.note !== undefined && typeof data.note !== 'string') {
+    throw new Error('Invalid conflict resolution: note must be a string');
+  }
+  return { action: data.action, ...(data.note ? { note: data.note } : {}) };
+}
+
+// A conflict as JSON with the conflicting memories that are still stored, and the actions that resolve it while open
+function conflictJSON(conflict: MemoryConflict, memories: Map<string, Memory>): Record<string, any> {
+  return {
+    ...conflict,
+    memories: conflict.memories.map(id => {
+      const memory = memories.get(id);
+      return memory
+        ? { id, type: memory.type, content: memory.content, confidence: memory.metadata?.confidence, timestamp: memory.timestamp }
+        : { id, forgotten: true };
+    }),
+    ...(conflict.resolution ? {} : { actions: CONFLICT_RESOLUTIONS })
+  };
+}
+
+// The stored memories among the ids, by id
+async function findMemories(ids: string[]): Promise<Map<string, Memory>> {
+  const { nodes }: MemorySubgraph = await aiPersistence.getMemorySubgraph(ids);
+  return new Map(nodes.map((node: MemoryGraphNode): [string, Memory] => [node.memory.id, node.memory]));
+}
+
+// Query-string values are strings; numbers, booleans and null are recovered so they match typed metadata
+function parseScalar(value: string): MetadataValue {
+  if (value === 'true' || value === 'false' || value === 'null') {
+    return JSON.parse(value);
+  }
+  const number = Number(value);
+  return value.trim() !== '' && Number.isFinite(number) ? number : value;
+}
+
 // Create HTTP server
 const server = http.createServer(async (req, res) => {
   // Set CORS headers
@@ -214,17 +565,19 @@ const server = http.createServer(async (req, res) => {
 
       // GET /api/memories - Get memories with optional query parameters
       if (apiPath === '/memories' && method === 'GET') {
+        let query: MemoryQuery;
         try {
-          const queryParams = Object.fromEntries(url.searchParams);
-          const query = {
-            type: queryParams.type,
-            content: queryParams.content,
-            limit: queryParams.limit ? parseInt(queryParams.limit) : undefined
-          };
-          const memories = await aiPersistence.retrieveMemory(query);
+          query = parseMemoryQuery(url.searchParams);
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid memory query', error);
+          return;
+        }
+        try {
+          const { memories, nextCursor } = await aiPersistence.queryMemories(query);
           sendJSON(res, 200, {
             memories,
             total: memories.length,
+            ...(nextCursor ? { nextCursor } : {}),
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
@@ -237,14 +590,29 @@ const server = http.createServer(async (req, res) => {
       if (apiPath === '/memories' && method === 'POST') {
         try {
           const data = await parseBody(req);
-          await aiPersistence.storeMemory({
+          const result: MemoryStoreResult = await aiPersistence.storeMemory({
             type: data.type || 'episodic',
             content: data.content,
             metadata: data.metadata || {}
           });
-          sendJSON(res, 201, { 
-            success: true, 
-            message: 'Memory stored successfully',
+          const duplicate = result.duplicateOf ? { duplicateOf: result.duplicateOf.id, similarity: result.similarity } : {};
+          const conflicts = result.conflicts ? { conflicts: result.conflicts.map((conflict: MemoryConflict) => conflict.id) } : {};
+          if (result.action === 'rejected') {
+            sendJSON(res, 409, {
+              error: 'Memory duplicates a stored memory',
+              ...duplicate,
+              timestamp: new Date().toISOString()
+            });
+            return;
+          }
+          // Merged duplicates create nothing; the memory they merged into is returned
+          sendJSON(res, result.action === 'merged' ? 200 : 201, {
+            success: true,
+            message: result.action === 'stored' ? 'Memory stored successfully' : `Duplicate memory ${result.action}`,
+            action: result.action,
+            id: result.action === 'merged' ? result.duplicateOf!.id : result.memory.id,
+            ...duplicate,
+            ...conflicts,
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
@@ -255,11 +623,26 @@ const server = http.createServer(async (req, res) => {
 
       // POST /api/memories/consolidate - Consolidate memories
       if (apiPath === '/memories/consolidate' && method === 'POST') {
+        let options: ConsolidationOptions;
         try {
-          await aiPersistence.consolidateMemory();
+          options = parseConsolidationOptions(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid consolidation options', error);
+          return;
+        }
+
+        try {
+          const report = await aiPersistence.consolidateMemory(options);
           sendJSON(res, 200, { 
             success: true, 
-            message: 'Memories consolidated successfully',
+            message: `Consolidated ${report.groups.length} memory groups`,
+            groups: report.groups.map((group: ConsolidationGroup) => ({
+              id: group.memory.id,
+              content: group.memory.content,
+              sourceMemories: group.sourceMemories,
+              spread: group.spread
+            })),
+            archived: report.archived,
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
@@ -268,13 +651,104 @@ const server = http.createServer(async (req, res) => {
         return;
       }
 
-      // POST /api/memories/compress - Compress memories
+      // POST /api/memories/cluster - Cluster memories in the Poincaré ball
+      if (apiPath === '/memories/cluster' && method === 'POST') {
+        let options: ClusterOptions;
+        try {
+          options = parseClusterOptions(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid cluster options', error);
+          return;
+        }
+
+        try {
+          const clustering = await aiPersistence.clusterMemories(options);
+          sendJSON(res, 200, {
+            success: true,
+            message: `Found ${clustering.clusters.length} memory clusters`,
+            method: clustering.method,
+            clusters: clustering.clusters.map((cluster: MemoryClusterGroup) => ({
+              id: cluster.id,
+              center: cluster.center.vector,
+              members: cluster.members,
+              radius: cluster.radius,
+              properties: cluster.properties,
+              memories: cluster.memories.map((memory: Memory) => ({ id: memory.id, type: memory.type, content: memory.content }))
+            })),
+            noise: clustering.noise,
+            iterations: clustering.iterations,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to cluster memories', error);
+        }
+        return;
+      }
+
+      // GET /api/memories/hierarchy - Memories as a tree from general to specific
+      if (apiPath === '/memories/hierarchy' && method === 'GET') {
+        let request: HierarchyRequest;
+        try {
+          request = parseHierarchyRequest(url.searchParams);
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid hierarchy request', error);
+          return;
+        }
+
+        try {
+          const { hierarchy, tree } = await aiPersistence.getMemoryHierarchy(request);
+          if (request.root !== undefined && !tree) {
+            sendError(res, 404, 'Memory not found in hierarchy');
+            return;
+          }
+          sendJSON(res, 200, {
+            root: hierarchy.root || null,
+            properties: hierarchy.properties,
+            levels: hierarchy.levels.map((level: HierarchyLevel) => ({ level: level.level, size: level.nodes.length })),
+            tree: tree ? hierarchyNodeJSON(tree) : null,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to build memory hierarchy', error);
+        }
+        return;
+      }
+
+      // POST /api/memories/compress - Compress old memories into cold storage, optionally summarizing similar ones
       if (apiPath === '/memories/compress' && method === 'POST') {
+        let options: CompressionOptions;
         try {
-          await aiPersistence.compressMemory();
-          sendJSON(res, 200, { 
-            success: true, 
-            message: 'Memories compressed successfully',
+          options = parseCompressionOptions(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid compression options', error);
+          return;
+        }
+        try {
+          const report = await aiPersistence.compressMemory(options);
+          sendJSON(res, 200, {
+            success: true,
+            message: `Compressed ${report.compressed.length} memories and summarized ${report.forgotten.length} into ${report.summarized.length}`,
+            // Compressed payloads stay in cold storage
+            compressed: report.compressed.map((record: CompressedMemory) => ({
+              id: record.id,
+              algorithm: record.algorithm,
+              originalBytes: record.originalBytes,
+              compressedBytes: record.compressedBytes,
+              ratio: record.ratio
+            })),
+            summarized: report.summarized.map((record: CompressedMemory) => ({
+              id: record.id,
+              sources: record.original.split(','),
+              content: record.compressed,
+              originalBytes: record.originalBytes,
+              compressedBytes: record.compressedBytes,
+              ratio: record.ratio,
+              fidelity: record.fidelity
+            })),
+            forgotten: report.forgotten,
+            originalBytes: report.originalBytes,
+            compressedBytes: report.compressedBytes,
+            ratio: report.ratio,
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
@@ -283,28 +757,307 @@ const server = http.createServer(async (req, res) => {
         return;
       }
 
+      // POST /api/memories/links - Link two memories with a typed relationship
+      if (apiPath === '/memories/links' && method === 'POST') {
+        let request: ReturnType<typeof parseLinkRequest>;
+        try {
+          request = parseLinkRequest(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid memory link', error);
+          return;
+        }
+
+        try {
+          const missing = await findMissingMemory([request.source, request.target]);
+          if (missing !== undefined) {
+            sendError(res, 404, `Memory ${missing} not found`);
+            return;
+          }
+          const link = await aiPersistence.linkMemories(request.source, request.type, request.target, request.options);
+          sendJSON(res, 201, {
+            success: true,
+            message: 'Memories linked successfully',
+            link,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to link memories', error);
+        }
+        return;
+      }
+
+      // GET /api/memories/links - All links, or ?memoryId=<id> for the links to and from one memory
+      if (apiPath === '/memories/links' && method === 'GET') {
+        try {
+          const links = await aiPersistence.getMemoryLinks(url.searchParams.get('memoryId') || undefined);
+          sendJSON(res, 200, {
+            links,
+            total: links.length,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to retrieve memory links', error);
+        }
+        return;
+      }
+
+      // DELETE /api/memories/links/:id - Remove a link
+      const linkMatch = apiPath.match(/^\/memories\/links\/([^\/]+)$/);
+      if (linkMatch && method === 'DELETE') {
+        try {
+          if (!await aiPersistence.unlinkMemories(linkMatch[1])) {
+            sendError(res, 404, 'Memory link not found');
+            return;
+          }
+          sendJSON(res, 200, { success: true, message: 'Memory link removed', timestamp: new Date().toISOString() });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to remove memory link', error);
+        }
+        return;
+      }
+
+      // GET /api/memories/graph - Memories within ?hops of ?root, or the links among ?ids=<id>,<id>
+      if (apiPath === '/memories/graph' && method === 'GET') {
+        let options: TraversalOptions;
+        const root = url.searchParams.get('root')?.trim();
+        const ids = url.searchParams.getAll('ids').flatMap(value => value.split(',')).map(id => id.trim()).filter(Boolean);
+        try {
+          options = parseTraversalOptions(url.searchParams);
+          if (!root && ids.length === 0) {
+            throw new Error('Invalid graph request: root or ids is required');
+          }
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid graph request', error);
+          return;
+        }
+
+        try {
+          if (root && await findMissingMemory([root]) !== undefined) {
+            sendError(res, 404, 'Memory not found');
+            return;
+          }
+          const subgraph: MemorySubgraph = root
+            ? await aiPersistence.traverseMemories(root, options)
+            : await aiPersistence.getMemorySubgraph(ids);
+          sendJSON(res, 200, {
+            ...(root ? { root } : {}),
+            ...subgraphJSON(subgraph),
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to build memory graph', error);
+        }
+        return;
+      }
+
+      // GET /api/memories/path - Fewest-hop chain of links from ?from to ?to
+      if (apiPath === '/memories/path' && method === 'GET') {
+        let options: TraversalOptions;
+        const from = url.searchParams.get('from')?.trim();
+        const to = url.searchParams.get('to')?.trim();
+        try {
+          options = parseTraversalOptions(url.searchParams);
+          if (!from || !to) {
+            throw new Error('Invalid path request: from and to are required');
+          }
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid path request', error);
+          return;
+        }
+
+        try {
+          const missing = await findMissingMemory([from!, to!]);
+          if (missing !== undefined) {
+            sendError(res, 404, `Memory ${missing} not found`);
+            return;
+          }
+          const path = await aiPersistence.findMemoryPath(from, to, options);
+          if (!path) {
+            sendError(res, 404, 'No path between the memories');
+            return;
+          }
+          sendJSON(res, 200, {
+            from,
+            to,
+            hops: path.links.length,
+            distance: path.distance,
+            memories: path.memories.map((memory: Memory) => ({ id: memory.id, type: memory.type, content: memory.content })),
+            links: path.links,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to find memory path', error);
+        }
+        return;
+      }
+
+      // GET /api/memories/conflicts - Contradictions between memories, open ones by default
+      if (apiPath === '/memories/conflicts' && method === 'GET') {
+        let query: ConflictQuery;
+        try {
+          query = parseConflictQuery(url.searchParams);
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid conflict query', error);
+          return;
+        }
+
+        try {
+          const conflicts: MemoryConflict[] = await aiPersistence.getMemoryConflicts(query);
+          const memories = await findMemories(conflicts.flatMap(conflict => conflict.memories));
+          sendJSON(res, 200, {
+            conflicts: conflicts.map(conflict => conflictJSON(conflict, memories)),
+            total: conflicts.length,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to retrieve memory conflicts', error);
+        }
+        return;
+      }
+
+      // POST /api/memories/conflicts/:id/resolve - Keep the newer, the more confident, or both memories
+      const conflictMatch = apiPath.match(/^\/memories\/conflicts\/([^\/]+)\/resolve$/);
+      if (conflictMatch && method === 'POST') {
+        let resolution: ReturnType<typeof parseConflictResolution>;
+        try {
+          resolution = parseConflictResolution(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid conflict resolution', error);
+          return;
+        }
+
+        let conflict: MemoryConflict | undefined;
+        try {
+          const conflicts: MemoryConflict[] = await aiPersistence.getMemoryConflicts({ status: 'all' });
+          conflict = conflicts.find(candidate => candidate.id === conflictMatch[1]);
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to resolve memory conflict', error);
+          return;
+        }
+        if (!conflict) {
+          sendError(res, 404, 'Conflict not found');
+          return;
+        }
+
+        try {
+          const result = await aiPersistence.resolveMemoryConflict(conflict.id, resolution.action, resolution.note);
+          const memories = new Map<string, Memory>(result.kept.map((memory: Memory) => [memory.id, memory]));
+          sendJSON(res, 200, {
+            success: true,
+            message: `Conflict resolved: ${resolution.action}`,
+            conflict: conflictJSON(result.conflict, memories),
+            kept: result.kept.map((memory: Memory) => memory.id),
+            forgotten: result.forgotten,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          // Resolving only fails for conflicts already resolved and for pinned memories
+          sendError(res, 409, 'Conflict cannot be resolved', error);
+        }
+        return;
+      }
+
+      // DELETE /api/memories/:id - Forget a memory and its links; ?force=true forgets pinned memories too
+      const memoryMatch = apiPath.match(/^\/memories\/([^\/]+)$/);
+      if (memoryMatch && method === 'DELETE') {
+        const id = memoryMatch[1];
+        try {
+          if (await findMissingMemory([id]) !== undefined) {
+            sendError(res, 404, 'Memory not found');
+            return;
+          }
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to delete memory', error);
+          return;
+        }
+
+        try {
+          await aiPersistence.forgetMemory(id, { force: url.searchParams.get('force') === 'true' });
+          sendJSON(res, 200, { success: true, message: 'Memory deleted', timestamp: new Date().toISOString() });
+        } catch (error: any) {
+          // Forgetting a stored memory only fails when it is pinned
+          sendError(res, 409, 'Memory is pinned', error);
+        }
+        return;
+      }
+
+      // ========== CONTEXT ENDPOINTS ==========
+
+      // POST /api/context - Assemble a token-budgeted prompt context
+      if (apiPath === '/context' && method === 'POST') {
+        let request: ContextRequest;
+        try {
+          request = parseContextRequest(await parseBody(req));
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid context request', error);
+          return;
+        }
+
+        if (request.identityId) {
+          try {
+            await aiPersistence.getIdentity(request.identityId);
+          } catch (error: any) {
+            sendError(res, 404, 'Identity not found', error);
+            return;
+          }
+        }
+
+        try {
+          const context = await aiPersistence.buildContext(request);
+          sendJSON(res, 200, {
+            ...context,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to build context', error);
+        }
+        return;
+      }
+
+      // ========== TIMELINE ENDPOINTS ==========
+
+      // GET /api/timeline - Episodic memories segmented into phases
+      if (apiPath === '/timeline' && method === 'GET') {
+        let request: TimelineRequest;
+        try {
+          request = parseTimelineRequest(url.searchParams);
+        } catch (error: any) {
+          sendError(res, 400, 'Invalid timeline request', error);
+          return;
+        }
+        try {
+          const timeline = await aiPersistence.getTimeline(request);
+          sendJSON(res, 200, {
+            ...timeline,
+            timestamp: new Date().toISOString()
+          });
+        } catch (error: any) {
+          sendError(res, 500, 'Failed to build timeline', error);
+        }
+        return;
+      }
+
       // ========== LEARNING ENDPOINTS ==========
 
       // POST /api/learn - Learn concept
       if (apiPath === '/learn' && method === 'POST') {
         try {
           const data = await parseBody(req);
-          // Store learning as semantic memory
-          await aiPersistence.storeMemory({
-            type: 'semantic',
-            content: `Learned concept: ${data.concept}`,
-            metadata: {
-              source: 'learning',
-              concept: data.concept,
-              data: data.data,
-              context: data.context,
-              performance: data.performance || 0.8,
-              ...data.metadata
-            }
+          // Places the concept in the concept graph and stores it as a semantic memory,
+          // whose properties are checked against what was learned before
+          const result: LearnedConceptResult = await aiPersistence.learnConcept({
+            concept: data.concept,
+            data: data.data || {},
+            context: data.context || {},
+            performance: data.performance ?? 0.8
           });
-          sendJSON(res, 200, { 
-            success: true, 
+          sendJSON(res, 200, {
+            success: true,
             message: 'Concept learned successfully',
+            concept: result.concept,
+            progress: result.progress,
+            memoryId: result.memory.memory.id,
+            ...(result.memory.conflicts ? { conflicts: result.memory.conflicts.map((conflict: MemoryConflict) => conflict.id) } : {}),
             timestamp: new Date().toISOString()
           });
         } catch (error: any) {
@@ -4,7 +4,8 @@
  * Tests the simplified AI persistence implementation
  */
 
-import { SimplifiedAIPersistence, createAIPersistence, DEFAULT_CONFIG } from '../core/src/implementations/SimplifiedAIPersistence';
+import { SimplifiedAIPersistence, createAIPersistence, DEFAULT_CONFIG, EvictionReport } from '../core/src/implementations/SimplifiedAIPersistence';
+import { EvictionPolicy } from '../core/src/utils/eviction';
 import { promises as fs } from 'fs';
 import { join } from 'path';
 
@@ -156,6 +157,149 @@ describe('Simplified AI Persistence', () => {
       expect(memories).toHaveLength(1);
       expect(memories[0].content).toBe('AI learning session');
     });
+
+    it('should rank content matches after a restart', async () => {
+      await aiPersistence.storeMemory({
+        type: 'semantic',
+        content: 'Hyperbolic embeddings organize memories into a hierarchy',
+        metadata: {}
+      });
+
+      await aiPersistence.storeMemory({
+        type: 'semantic',
+        content: 'Embedding the graph: hyperbolic embeddings beat Euclidean embeddings',
+        metadata: {}
+      });
+
+      await aiPersistence.storeMemory({
+        type: 'episodic',
+        content: 'Lunch with the team',
+        metadata: {}
+      });
+
+      await aiPersistence.shutdown();
+      aiPersistence = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath
+      });
+      await aiPersistence.initialize();
+
+      const memories = await aiPersistence.retrieveMemory({ content: 'embeddings' });
+      expect(memories.map(memory => memory.content)).toEqual([
+        'Embedding the graph: hyperbolic embeddings beat Euclidean embeddings',
+        'Hyperbolic embeddings organize memories into a hierarchy'
+      ]);
+      expect(memories[0].score).toBeGreaterThan(memories[1].score!);
+    });
+  });
+
+  describe('Memory Capacity', () => {
+    // Keeps store and access times apart so eviction order is deterministic
+    const tick = () => new Promise(resolve => setTimeout(resolve, 5));
+    const reports: EvictionReport[] = [];
+
+    const createWithPolicy = async (evictionPolicy: EvictionPolicy) => {
+      aiPersistence = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath,
+        maxMemories: 3,
+        evictionPolicy
+      });
+      aiPersistence.on('eviction', report => reports.push(report));
+      await aiPersistence.initialize();
+    };
+
+    const store = async (content: string, metadata: Record<string, any> = {}, type: string = 'episodic') => {
+      const memory = await aiPersistence.storeMemory({ type, content, metadata });
+      await tick();
+      return memory;
+    };
+
+    const contents = async () => (await aiPersistence.retrieveMemory({ sortBy: 'timestamp', order: 'asc' })).map(memory => memory.content);
+
+    beforeEach(() => {
+      reports.length = 0;
+    });
+
+    it('should evict the least recently accessed memory', async () => {
+      await createWithPolicy('lru');
+      await store('Alpha');
+      await store('Beta');
+      await store('Gamma');
+      await aiPersistence.retrieveMemory({ content: 'alpha' });
+      await tick();
+      await store('Delta');
+
+      expect(await contents()).toEqual(['Alpha', 'Gamma', 'Delta']);
+      expect(reports).toHaveLength(1);
+      expect(reports[0]).toMatchObject({ policy: 'lru', maxMemories: 3, consolidated: [] });
+      expect(reports[0].evicted.map(memory => memory.content)).toEqual(['Beta']);
+    });
+
+    it('should evict the least important memory', async () => {
+      await createWithPolicy('importance');
+      await store('Alpha', { importance: 0.9 });
+      await store('Beta', { importance: 0.1 });
+      await store('Gamma');
+      await store('Delta', { importance: 0 });
+
+      // The memory just stored is kept even when it is the least important
+      expect(await contents()).toEqual(['Alpha', 'Gamma', 'Delta']);
+    });
+
+    it('should evict the oldest memory', async () => {
+      await createWithPolicy('oldest');
+      for (const content of ['Alpha', 'Beta', 'Gamma', 'Delta', 'Epsilon']) {
+        await store(content);
+      }
+
+      expect(await contents()).toEqual(['Gamma', 'Delta', 'Epsilon']);
+      expect(reports.map(report => report.evicted[0].content)).toEqual(['Alpha', 'Beta']);
+    });
+
+    it('should consolidate memories of the same type before evicting', async () => {
+      await createWithPolicy('consolidate');
+      const first = await store('The deploy failed.', { tags: ['ops'] });
+      await store('Buy milk.', {}, 'task');
+      const second = await store('The deploy failed again.', { tags: ['incident'] });
+      await store('Deploy rolled back.');
+
+      expect(reports[0].evicted.map(memory => memory.id)).toEqual([first.id, second.id]);
+      const [summary] = reports[0].consolidated;
+      expect(summary.type).toBe('episodic');
+      expect(summary.content).toContain('The deploy failed.');
+      expect(summary.metadata).toMatchObject({ source: 'consolidation', sourceMemories: [first.id, second.id], tags: ['ops', 'incident'] });
+      expect((await aiPersistence.getStatus()).memories).toBe(3);
+      expect(await aiPersistence.retrieveMemory({ metadata: { source: 'consolidation' } })).toHaveLength(1);
+    });
+
+    it('should fall back to evicting the oldest when nothing can be consolidated', async () => {
+      await createWithPolicy('consolidate');
+      await store('Alpha', {}, 'a');
+      await store('Beta', {}, 'b');
+      await store('Gamma', {}, 'c');
+      await store('Delta', {}, 'd');
+
+      expect(await contents()).toEqual(['Beta', 'Gamma', 'Delta']);
+      expect(reports[0].consolidated).toEqual([]);
+    });
+
+    it('should trim persisted memories when the limit is lowered', async () => {
+      await createWithPolicy('oldest');
+      await store('Alpha');
+      await store('Beta');
+      await store('Gamma');
+      await aiPersistence.shutdown();
+
+      aiPersistence = createAIPersistence({ ...DEFAULT_CONFIG, storagePath: testStoragePath, maxMemories: 1, evictionPolicy: 'oldest' });
+      await aiPersistence.initialize();
+      expect(await contents()).toEqual(['Gamma']);
+    });
+
+    it('should reject invalid capacity settings', () => {
+      expect(() => createAIPersistence({ ...DEFAULT_CONFIG, maxMemories: 0 })).toThrow('maxMemories');
+      expect(() => createAIPersistence({ ...DEFAULT_CONFIG, evictionPolicy: 'random' as EvictionPolicy })).toThrow('Unknown eviction policy random');
+    });
   });
 
   describe('Learning Progress', () => {
@@ -277,6 +421,192 @@ describe('Simplified AI Persistence', () => {
       await newAIPersistence.shutdown();
     });
 
+    it('should encrypt the state file at rest', async () => {
+      await aiPersistence.initialize();
+      await aiPersistence.createIdentity({
+        name: 'Secret AI',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+      await aiPersistence.saveState();
+
+      const contents = await fs.readFile(join(testStoragePath, 'state.json'), 'utf8');
+      const stateFile = JSON.parse(contents);
+      expect(stateFile.algorithm).toBe('aes-256-gcm');
+      expect(stateFile.kdf).toBe('scrypt');
+      expect(stateFile.salt).toBeDefined();
+      expect(stateFile.authTag).toBeDefined();
+      expect(contents).not.toContain('Secret AI');
+      expect(Buffer.from(stateFile.data, 'base64').toString('utf8')).not.toContain('Secret AI');
+    });
+
+    it('should reject a state file encrypted with a different key', async () => {
+      await aiPersistence.initialize();
+      await aiPersistence.saveState();
+      await aiPersistence.shutdown();
+
+      const otherPersistence = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath,
+        encryptionKey: 'a-different-key'
+      });
+
+      await expect(otherPersistence.initialize()).rejects.toThrow('State file failed authentication');
+    });
+
+    it('should reject a tampered state file', async () => {
+      await aiPersistence.initialize();
+      await aiPersistence.saveState();
+      await aiPersistence.shutdown();
+
+      const stateFilePath = join(testStoragePath, 'state.json');
+      const stateFile = JSON.parse(await fs.readFile(stateFilePath, 'utf8'));
+      const data = Buffer.from(stateFile.data, 'base64');
+      data[0] ^= 0xff;
+      stateFile.data = data.toString('base64');
+      await fs.writeFile(stateFilePath, JSON.stringify(stateFile), 'utf8');
+
+      const reloaded = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath
+      });
+
+      await expect(reloaded.initialize()).rejects.toThrow('State file failed authentication');
+    });
+
+    it('should migrate a legacy base64 state file to the encrypted format', async () => {
+      const legacyState = {
+        identities: [{
+          id: 'legacy-identity',
+          name: 'Legacy AI',
+          type: 'ai',
+          capabilities: [],
+          preferences: {},
+          createdAt: new Date(),
+          updatedAt: new Date()
+        }],
+        memories: [],
+        learningProgress: [],
+        checkpoints: [],
+        timestamp: new Date()
+      };
+      const stateFilePath = join(testStoragePath, 'state.json');
+      await fs.mkdir(testStoragePath, { recursive: true });
+      await fs.writeFile(stateFilePath, Buffer.from(JSON.stringify(legacyState)).toString('base64'), 'utf8');
+
+      await aiPersistence.initialize();
+
+      const identity = await aiPersistence.getIdentity('legacy-identity');
+      expect(identity?.name).toBe('Legacy AI');
+
+      const stateFile = JSON.parse(await fs.readFile(stateFilePath, 'utf8'));
+      expect(stateFile.algorithm).toBe('aes-256-gcm');
+      expect(JSON.stringify(stateFile)).not.toContain('Legacy AI');
+    });
+
+    it('should replay journaled mutations after an unclean shutdown', async () => {
+      await aiPersistence.initialize();
+      const identity = await aiPersistence.createIdentity({
+        name: 'Journaled AI',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+      await aiPersistence.storeMemory({
+        type: 'episodic',
+        content: 'Written before the crash',
+        metadata: {}
+      });
+
+      // No saveState or shutdown: only the journal holds these mutations
+      const recovered = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath
+      });
+      await recovered.initialize();
+
+      expect((await recovered.getIdentity(identity.id))?.name).toBe('Journaled AI');
+      const memories = await recovered.retrieveMemory({ content: 'crash' });
+      expect(memories).toHaveLength(1);
+      expect(memories[0].timestamp).toBeInstanceOf(Date);
+
+      const journal = await fs.readFile(join(testStoragePath, 'state.journal'), 'utf8');
+      expect(journal).not.toContain('Journaled AI');
+
+      await recovered.shutdown();
+    });
+
+    it('should ignore a torn final journal entry', async () => {
+      await aiPersistence.initialize();
+      await aiPersistence.createIdentity({
+        name: 'Complete AI',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+      await fs.appendFile(join(testStoragePath, 'state.journal'), '{"version":1,"algorithm":"aes-', 'utf8');
+
+      const recovered = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath
+      });
+      await recovered.initialize();
+
+      expect((await recovered.getStatus()).identities).toBe(1);
+      await recovered.shutdown();
+    });
+
+    it('should compact the journal into the state file at the configured threshold', async () => {
+      aiPersistence = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath,
+        // Each memory journals two records: the memory and its full-text index entry
+        journalCompactionThreshold: 5
+      });
+      await aiPersistence.initialize();
+
+      for (const content of ['first', 'second', 'third']) {
+        await aiPersistence.storeMemory({ type: 'episodic', content, metadata: {} });
+      }
+
+      const journal = await fs.readFile(join(testStoragePath, 'state.journal'), 'utf8');
+      expect(journal.trim().split('\n')).toHaveLength(1);
+      await expect(fs.stat(join(testStoragePath, 'state.json'))).resolves.toBeDefined();
+    });
+
+    it('should remove the journal and leave no temporary files after saving', async () => {
+      await aiPersistence.initialize();
+      await aiPersistence.createIdentity({
+        name: 'Test AI',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+      await aiPersistence.saveState();
+
+      expect(await fs.readdir(testStoragePath)).toEqual(['state.json']);
+    });
+
+    it('should keep state in memory only with the memory storage backend', async () => {
+      aiPersistence = createAIPersistence({
+        ...DEFAULT_CONFIG,
+        storagePath: testStoragePath,
+        storageType: 'memory'
+      });
+      await aiPersistence.initialize();
+      await aiPersistence.createIdentity({
+        name: 'Ephemeral AI',
+        type: 'ai',
+        capabilities: [],
+        preferences: {}
+      });
+      await aiPersistence.saveState();
+
+      expect((await aiPersistence.getStatus()).identities).toBe(1);
+      await expect(fs.stat(testStoragePath)).rejects.toThrow();
+    });
+
     it('should handle missing state file gracefully', async () => {
       // Should not throw error when no state file exists
       await expect(aiPersistence.initialize()).resolves.not.toThrow();
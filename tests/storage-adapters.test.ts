@@ -0,0 +1,259 @@
+/**
+ * Storage Adapter Tests
+ *
+ * Runs the same suite against every storage backend
+ */
+
+import { createStorageAdapter } from '../core/src/implementations/StorageAdapterFactory';
+import { StorageAdapter, StorageCodec, StorageType } from '../core/src/interfaces/StorageAdapter';
+import { SecurityFrameworkImpl } from '../core/src/implementations/SecurityFrameworkImpl';
+import { SQLITE_TABLES } from '../core/src/implementations/SqliteStorageAdapter';
+import { promises as fs } from 'fs';
+import { join } from 'path';
+
+const sqliteAvailable = (() => {
+  try {
+    require('node:sqlite');
+    return true;
+  } catch {
+    return false;
+  }
+})();
+
+const adapters: Array<{ type: StorageType; durable: boolean; available: boolean }> = [
+  { type: 'memory', durable: false, available: true },
+  { type: 'file', durable: true, available: true },
+  { type: 'sqlite', durable: true, available: sqliteAvailable }
+];
+
+describe.each(adapters)('$type storage adapter', ({ type, durable, available }) => {
+  const storagePath = `./test-storage-${type}`;
+  const run = available ? it : it.skip;
+  let storage: StorageAdapter;
+
+  const identity = {
+    id: 'identity-1',
+    name: 'Test AI',
+    type: 'ai',
+    capabilities: ['learning'],
+    preferences: { language: 'en' },
+    fingerprint: 'abc123',
+    createdAt: new Date('2024-01-01T00:00:00.000Z'),
+    updatedAt: new Date('2024-01-02T00:00:00.000Z')
+  };
+
+  const memory = {
+    id: 'memory-1',
+    type: 'episodic',
+    content: 'User asked about AI',
+    metadata: { importance: 0.8, tags: ['question'] },
+    timestamp: new Date('2024-01-03T00:00:00.000Z')
+  };
+
+  beforeEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true });
+    if (available) {
+      storage = createStorageAdapter({ type, path: storagePath });
+      await storage.initialize();
+    }
+  });
+
+  afterEach(async () => {
+    if (available) {
+      await storage.close();
+    }
+    await fs.rm(storagePath, { recursive: true, force: true });
+  });
+
+  run('should put and get a record', async () => {
+    await storage.put('identities', identity);
+
+    // Records come back by value, with dates serialized as ISO strings
+    expect(await storage.get('identities', identity.id)).toEqual(JSON.parse(JSON.stringify(identity)));
+  });
+
+  run('should return null for a missing record', async () => {
+    expect(await storage.get('memories', 'missing')).toBeNull();
+  });
+
+  run('should overwrite a record with the same id', async () => {
+    await storage.put('memories', memory);
+    await storage.put('memories', { ...memory, content: 'Updated content' });
+
+    const records = await storage.scan('memories');
+    expect(records).toHaveLength(1);
+    expect(records[0].content).toBe('Updated content');
+  });
+
+  run('should delete records', async () => {
+    await storage.put('memories', memory);
+
+    expect(await storage.delete('memories', memory.id)).toBe(true);
+    expect(await storage.delete('memories', memory.id)).toBe(false);
+    expect(await storage.get('memories', memory.id)).toBeNull();
+  });
+
+  run('should keep collections separate', async () => {
+    await storage.put('identities', identity);
+    await storage.put('memories', memory);
+    await storage.put('learningProgress', {
+      id: 'progress-1',
+      concept: 'machine learning',
+      data: {},
+      context: {},
+      performance: 0.9,
+      timestamp: new Date()
+    });
+
+    expect(await storage.scan('identities')).toHaveLength(1);
+    expect(await storage.scan('memories')).toHaveLength(1);
+    expect(await storage.scan('learningProgress')).toHaveLength(1);
+    expect(await storage.scan('checkpoints')).toHaveLength(0);
+  });
+
+  run('should not be affected by mutating stored or returned records', async () => {
+    const record = { ...memory, metadata: { ...memory.metadata } };
+    await storage.put('memories', record);
+    record.metadata.importance = 0;
+
+    const retrieved = await storage.get('memories', memory.id);
+    retrieved!.content = 'changed';
+
+    const stored = await storage.get('memories', memory.id);
+    expect(stored?.metadata.importance).toBe(0.8);
+    expect(stored?.content).toBe('User asked about AI');
+  });
+
+  run('should preserve fields with non-column types', async () => {
+    const record = { id: 'memory-2', type: 'semantic', content: null, metadata: null, extra: { nested: [1, 2] } };
+    await storage.put('memories', record);
+
+    expect(await storage.get('memories', 'memory-2')).toEqual(record);
+  });
+
+  (durable ? run : it.skip)('should persist records across reopening', async () => {
+    await storage.put('identities', identity);
+    await storage.put('memories', memory);
+    await storage.delete('memories', memory.id);
+    await storage.close();
+
+    storage = createStorageAdapter({ type, path: storagePath });
+    await storage.initialize();
+
+    expect(await storage.get('identities', identity.id)).toEqual(JSON.parse(JSON.stringify(identity)));
+    expect(await storage.get('memories', memory.id)).toBeNull();
+  });
+
+  (durable ? run : it.skip)('should not store records in plaintext when encrypting', async () => {
+    const security = new SecurityFrameworkImpl({ encryption: { key: 'storage-test-key' } });
+    await security.initialize();
+    const codec: StorageCodec = {
+      encode: async value => JSON.stringify(await security.encrypt(value)),
+      decode: async text => security.decrypt(JSON.parse(text))
+    };
+    await storage.close();
+    await fs.rm(storagePath, { recursive: true, force: true });
+    storage = createStorageAdapter({ type, path: storagePath, codec });
+    await storage.initialize();
+
+    await storage.put('memories', memory);
+    await storage.close();
+    for (const file of await fs.readdir(storagePath)) {
+      expect((await fs.readFile(join(storagePath, file))).includes(memory.content)).toBe(false);
+    }
+
+    storage = createStorageAdapter({ type, path: storagePath, codec });
+    await storage.initialize();
+    expect(await storage.scan('memories')).toEqual([JSON.parse(JSON.stringify(memory))]);
+  });
+});
+
+describe('sqlite storage adapter', () => {
+  const storagePath = './test-storage-sqlite-columns';
+  const run = sqliteAvailable ? it : it.skip;
+
+  afterEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true });
+  });
+
+  it('should map the tables and indexes of init.sql', async () => {
+    const schema = await fs.readFile(join(__dirname, '..', 'init.sql'), 'utf8');
+    const tables = new Map<string, string[]>();
+    for (const [, table, body] of schema.matchAll(/CREATE TABLE IF NOT EXISTS (\w+) \(([\s\S]*?)\n\);/g)) {
+      tables.set(table, body.split('\n').map(line => line.trim().split(/\s+/)[0]).filter(column => column && column !== 'UNIQUE').sort());
+    }
+    const indexes = Array.from(schema.matchAll(/CREATE INDEX IF NOT EXISTS \w+ ON (\w+)\((\w+)\)/g), ([, table, column]) => `${table}.${column}`);
+
+    for (const mapping of Object.values(SQLITE_TABLES)) {
+      const columns = ['id', ...mapping.columns.map(column => column.column)];
+      if (mapping.createdAt) {
+        columns.push('created_at');
+      }
+      if (mapping.updatedAt) {
+        columns.push('updated_at');
+      }
+      expect([mapping.table, columns.sort()]).toEqual([mapping.table, tables.get(mapping.table)]);
+      expect(mapping.indexes.map(column => `${mapping.table}.${column}`).sort())
+        .toEqual(indexes.filter(index => index.startsWith(`${mapping.table}.`)).sort());
+    }
+  });
+
+  run('should keep plaintext columns queryable when encrypting', async () => {
+    const security = new SecurityFrameworkImpl({ encryption: { key: 'storage-test-key' } });
+    await security.initialize();
+    const storage = createStorageAdapter({
+      type: 'sqlite',
+      path: storagePath,
+      codec: {
+        encode: async value => JSON.stringify(await security.encrypt(value)),
+        decode: async text => security.decrypt(JSON.parse(text))
+      }
+    });
+    await storage.initialize();
+    await storage.put('memories', { id: 'memory-1', type: 'episodic', content: 'Private content', metadata: {}, timestamp: new Date('2024-01-03T00:00:00.000Z') });
+    await storage.close();
+
+    const { DatabaseSync } = require('node:sqlite');
+    const db = new DatabaseSync(join(storagePath, 'state.db'));
+    expect({ ...db.prepare('SELECT id, type, timestamp, content, metadata FROM memories').get() }).toEqual({
+      id: 'memory-1',
+      type: 'episodic',
+      timestamp: '2024-01-03T00:00:00.000Z',
+      content: null,
+      metadata: null
+    });
+    db.close();
+  });
+});
+
+describe('file storage adapter', () => {
+  const storagePath = './test-storage-file-recovery';
+
+  afterEach(async () => {
+    await fs.rm(storagePath, { recursive: true, force: true });
+  });
+
+  it('should quarantine unreadable state when configured to', async () => {
+    await fs.mkdir(storagePath, { recursive: true });
+    await fs.writeFile(join(storagePath, 'state.json'), 'invalid json content', 'utf8');
+
+    const storage = createStorageAdapter({ type: 'file', path: storagePath, onCorruption: 'quarantine' });
+    await storage.initialize();
+
+    expect(await storage.scan('identities')).toHaveLength(0);
+    const files = await fs.readdir(storagePath);
+    expect(files.some(file => file.startsWith('state.json.corrupt-'))).toBe(true);
+  });
+
+  it('should fail on unreadable state by default', async () => {
+    await fs.mkdir(storagePath, { recursive: true });
+    await fs.writeFile(join(storagePath, 'state.json'), 'invalid json content', 'utf8');
+
+    const storage = createStorageAdapter({ type: 'file', path: storagePath });
+    await expect(storage.initialize()).rejects.toThrow();
+  });
+
+  it('should reject unsupported storage types', () => {
+    expect(() => createStorageAdapter({ type: 'postgres', path: storagePath })).toThrow('Unsupported storage type: postgres');
+  });
+});